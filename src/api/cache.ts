@@ -5,7 +5,7 @@
  */
 
 // In-memory TTL cache using Map + setTimeout
-// No disk persistence per user decision
+// Optional disk persistence lives in disk-cache.ts (D2L_DISK_CACHE)
 
 interface CacheEntry<T> {
   data: T;
@@ -50,6 +50,17 @@ export class TTLCache<T = unknown> {
     return false;
   }
 
+  // Delete every entry whose key matches; returns the number removed
+  deleteWhere(predicate: (key: string) => boolean): number {
+    let removed = 0;
+    for (const key of [...this.cache.keys()]) {
+      if (predicate(key) && this.delete(key)) {
+        removed++;
+      }
+    }
+    return removed;
+  }
+
   clear(): void {
     // Clear all timers
     for (const entry of this.cache.values()) {
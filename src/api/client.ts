@@ -4,14 +4,70 @@
  * Licensed under AGPL-3.0 — see LICENSE file for details.
  */
 
-import type { D2LApiClientOptions, ApiVersions, CacheTTLs, TokenData } from "./types.js";
+import type {
+  D2LApiClientOptions,
+  TenantOptions,
+  ApiVersions,
+  CacheTTLs,
+  CachedResponse,
+  ObjectListPage,
+  PagedResultSet,
+  TokenData,
+} from "./types.js";
 import { DEFAULT_CACHE_TTLS } from "./types.js";
 import { TTLCache } from "./cache.js";
+import type { DiskCache, DiskCacheEntry } from "./disk-cache.js";
+import { buildMultipartMixed } from "./multipart.js";
+import type { MultipartPart } from "./multipart.js";
 import { TokenBucket } from "./rate-limiter.js";
 import { discoverVersions } from "./version-discovery.js";
 import { ApiError, RateLimitError, NetworkError } from "./errors.js";
 import { log } from "../utils/logger.js";
 
+/**
+ * Upper bound on items collected across pages by getAllPages().
+ * Guards against runaway paging on huge org units (or a server that never stops).
+ */
+const DEFAULT_MAX_PAGED_ITEMS = 5000;
+
+// Where cookie-authenticated sessions obtain the XSRF token D2L requires on writes
+const XSRF_TOKEN_PATH = "/d2l/lp/auth/xsrf-tokens";
+
+// A non-GET request (method plus optional body)
+interface RequestBody {
+  method: "POST" | "PUT" | "DELETE";
+  data?: Uint8Array<ArrayBuffer> | string;
+  contentType?: string;
+}
+
+/**
+ * Whether a cached GET of `path` falls under any of the invalidated prefixes.
+ * A prefix matches the exact path, the path with a trailing slash or query string,
+ * and everything beneath it. Prefixes ending in "/" match only that collection
+ * (with or without query string), not its children.
+ */
+export function pathMatchesPrefixes(path: string, prefixes: string[]): boolean {
+  const keyPath = path.split("?", 1)[0];
+  return prefixes.some((prefix) =>
+    prefix.endsWith("/")
+      ? keyPath === prefix
+      : keyPath === prefix || keyPath.startsWith(`${prefix}/`),
+  );
+}
+
+/**
+ * Called with the prefixes of every invalidation (see D2LApiClient.onInvalidate).
+ */
+export type InvalidationListener = (prefixes: string[]) => void;
+
+/**
+ * Options for mutating requests.
+ * invalidate lists extra path prefixes to evict besides the ones derived from the request path.
+ */
+export interface MutationOptions {
+  invalidate?: string[];
+}
+
 /**
  * D2L API client with authentication, caching, rate limiting, and version discovery.
  *
@@ -20,31 +76,31 @@ import { log } from "../utils/logger.js";
  * - Supports both Bearer tokens and cookie-based auth (auto-detected via "cookie:" prefix)
  * - Client-side rate limiting using token bucket algorithm
  * - In-memory response caching with per-data-type TTLs
+ * - Optional encrypted disk cache tier with stale fallback when Brightspace is unreachable
+ * - Transparent paging over ObjectListPage (Next) and PagedResultSet (Bookmark) responses
+ * - POST/PUT/DELETE (JSON and multipart) with XSRF handling for cookie auth
+ *   and automatic eviction of cached responses the write affects
  * - 401 retry logic: retry once with fresh token, then clear and throw
  * - HTTPS-only enforcement
  * - Browser-like User-Agent for requests
  * - Raw response passthrough (no transformation)
+ * - Tenant switching (profiles) without recreating the client
  */
 export class D2LApiClient {
-  private readonly baseUrl: string;
-  private readonly tokenManager: D2LApiClientOptions["tokenManager"];
-  private readonly cache: TTLCache;
+  private baseUrl: string;
+  private tokenManager: D2LApiClientOptions["tokenManager"];
+  private readonly cache: TTLCache<{ data: unknown; fetchedAt: number }>;
+  private diskCache?: DiskCache;
   private readonly rateLimiter: TokenBucket;
   private readonly cacheTTLs: CacheTTLs;
   private readonly timeoutMs: number;
-  private readonly onAuthExpired?: () => Promise<boolean>;
+  private onAuthExpired?: () => Promise<boolean>;
   private versions: ApiVersions | null = null;
+  private xsrf: { session: string; token: string } | null = null;
+  private readonly invalidationListeners = new Set<InvalidationListener>();
 
   constructor(options: D2LApiClientOptions) {
-    // HTTPS-only enforcement
-    if (options.baseUrl.startsWith("http://")) {
-      throw new Error(
-        "HTTPS is required for D2L API client. HTTP URLs are not allowed for security reasons.",
-      );
-    }
-
-    // Strip trailing slash from baseUrl
-    this.baseUrl = options.baseUrl.replace(/\/$/, "");
+    this.baseUrl = D2LApiClient.normalizeBaseUrl(options.baseUrl);
     this.tokenManager = options.tokenManager;
     this.timeoutMs = options.timeoutMs ?? 30_000;
     this.onAuthExpired = options.onAuthExpired;
@@ -54,6 +110,7 @@ export class D2LApiClient {
 
     // Initialize cache and rate limiter
     this.cache = new TTLCache();
+    this.diskCache = options.diskCache;
     const rateLimitConfig = options.rateLimitConfig ?? {
       capacity: 10,
       refillRate: 3,
@@ -78,6 +135,41 @@ export class D2LApiClient {
     );
   }
 
+  /**
+   * Point the client at another tenant or account (e.g. when switching profiles).
+   * Versions are discovered for the new base URL before anything is swapped, so a
+   * failure leaves the client on its current tenant. Cached responses are dropped.
+   */
+  async switchTenant(options: TenantOptions): Promise<void> {
+    const baseUrl = D2LApiClient.normalizeBaseUrl(options.baseUrl);
+    const versions = await discoverVersions(baseUrl, this.timeoutMs);
+
+    this.baseUrl = baseUrl;
+    this.tokenManager = options.tokenManager;
+    this.diskCache = options.diskCache;
+    this.onAuthExpired = options.onAuthExpired;
+    this.versions = versions;
+    this.xsrf = null;
+    this.cache.clear();
+
+    log(
+      "INFO",
+      `Switched D2L API client to ${this.baseUrl} (LP ${versions.lp}, LE ${versions.le})`,
+    );
+  }
+
+  /**
+   * HTTPS-only enforcement; strips the trailing slash.
+   */
+  private static normalizeBaseUrl(baseUrl: string): string {
+    if (baseUrl.startsWith("http://")) {
+      throw new Error(
+        "HTTPS is required for D2L API client. HTTP URLs are not allowed for security reasons.",
+      );
+    }
+    return baseUrl.replace(/\/$/, "");
+  }
+
   /**
    * Get discovered API versions.
    * @throws Error if initialize() hasn't been called yet
@@ -101,12 +193,319 @@ export class D2LApiClient {
    * @throws NetworkError on network/fetch failures
    */
   async get<T>(path: string, options?: { ttl?: number }): Promise<T> {
-    // Check cache first
-    if (options?.ttl && this.cache.has(path)) {
+    const result = await this.getWithMeta<T>(path, options);
+    return result.data;
+  }
+
+  /**
+   * Make a GET request and report whether the data is fresh or a stale disk-cache fallback.
+   *
+   * Lookup order for cacheable requests (ttl set): memory, disk, network.
+   * If the network request fails because Brightspace is unreachable (NetworkError or 5xx)
+   * and the disk tier still holds an expired entry, that entry is returned with stale: true.
+   *
+   * @param path - API path (e.g., "/d2l/api/lp/1.56/users/whoami")
+   * @param options - Request options (ttl for caching)
+   * @returns Parsed JSON response plus freshness metadata
+   * @throws ApiError on HTTP errors (401, 403, 429, etc.)
+   * @throws NetworkError on network/fetch failures with no cached fallback
+   */
+  async getWithMeta<T>(
+    path: string,
+    options?: { ttl?: number },
+  ): Promise<CachedResponse<T>> {
+    // Check memory cache first
+    const memoryEntry = options?.ttl ? this.cache.get(path) : undefined;
+    if (memoryEntry) {
       log("DEBUG", `Cache hit: ${path}`);
-      return this.cache.get(path) as T;
+      return { data: memoryEntry.data as T, stale: false, fetchedAt: memoryEntry.fetchedAt };
     }
 
+    // Then the disk tier (survives server restarts)
+    let diskEntry: DiskCacheEntry<T> | null = null;
+    if (options?.ttl && this.diskCache) {
+      diskEntry = await this.diskCache.get<T>(path);
+      const remainingMs = diskEntry ? diskEntry.expiresAt - Date.now() : 0;
+      if (diskEntry && remainingMs > 0) {
+        log("DEBUG", `Disk cache hit: ${path}`);
+        this.cache.set(path, { data: diskEntry.data, fetchedAt: diskEntry.fetchedAt }, remainingMs);
+        return { data: diskEntry.data, stale: false, fetchedAt: diskEntry.fetchedAt };
+      }
+    }
+
+    try {
+      const data = await this.fetchJson<T>(path, options);
+      return { data, stale: false, fetchedAt: Date.now() };
+    } catch (error) {
+      if (diskEntry && D2LApiClient.isUnreachable(error)) {
+        log(
+          "WARN",
+          `Brightspace unreachable, serving stale cache for ${path} (fetched ${new Date(diskEntry.fetchedAt).toISOString()})`,
+        );
+        return { data: diskEntry.data, stale: true, fetchedAt: diskEntry.fetchedAt };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Iterate over every page of a paged D2L collection.
+   *
+   * Understands both D2L paging shapes:
+   * - ObjectListPage: { Objects, Next } — follows the Next URL (same origin only)
+   * - PagedResultSet: { Items, PagingInfo: { Bookmark, HasMoreItems } } — re-requests with ?bookmark=
+   * A plain JSON array is treated as a single page.
+   *
+   * @param path - API path of the first page
+   * @param options - Request options (ttl applies to every page)
+   * @yields Items of each page, with freshness metadata
+   */
+  async *paginate<T>(
+    path: string,
+    options?: { ttl?: number },
+  ): AsyncGenerator<CachedResponse<T[]>> {
+    const seen = new Set<string>();
+    let nextPath: string | null = path;
+
+    while (nextPath) {
+      // Stop if the server hands back a page we've already fetched
+      if (seen.has(nextPath)) {
+        log("WARN", `Paging loop detected at ${nextPath}, stopping`);
+        return;
+      }
+      seen.add(nextPath);
+
+      const page: CachedResponse<T[] | ObjectListPage<T> | PagedResultSet<T>> =
+        await this.getWithMeta(nextPath, options);
+      const body = page.data;
+      const currentPath: string = nextPath;
+      nextPath = null;
+
+      let items: T[];
+      if (Array.isArray(body)) {
+        items = body;
+      } else if ("Objects" in body) {
+        items = body.Objects ?? [];
+        if (body.Next) {
+          nextPath = this.resolveNextPath(body.Next);
+        }
+      } else if ("Items" in body) {
+        items = body.Items ?? [];
+        if (body.PagingInfo?.HasMoreItems && body.PagingInfo.Bookmark) {
+          nextPath = D2LApiClient.withQueryParam(currentPath, "bookmark", body.PagingInfo.Bookmark);
+        }
+      } else {
+        log("WARN", `Unrecognized paged response shape at ${currentPath}`);
+        items = [];
+      }
+
+      yield { data: items, stale: page.stale, fetchedAt: page.fetchedAt };
+    }
+  }
+
+  /**
+   * Collect every page of a paged D2L collection into a single array.
+   *
+   * @param path - API path of the first page
+   * @param options - Request options (ttl per page, maxItems guard — default 5000)
+   * @returns All items across pages (truncated at maxItems)
+   */
+  async getAllPages<T>(
+    path: string,
+    options?: { ttl?: number; maxItems?: number },
+  ): Promise<T[]> {
+    const result = await this.getAllPagesWithMeta<T>(path, options);
+    return result.data;
+  }
+
+  /**
+   * Like getAllPages(), but also reports whether any page was a stale disk-cache fallback.
+   * fetchedAt is the oldest page's fetch time.
+   */
+  async getAllPagesWithMeta<T>(
+    path: string,
+    options?: { ttl?: number; maxItems?: number },
+  ): Promise<CachedResponse<T[]>> {
+    const maxItems = options?.maxItems ?? DEFAULT_MAX_PAGED_ITEMS;
+    const items: T[] = [];
+    let stale = false;
+    let fetchedAt = Date.now();
+    let pageCount = 0;
+
+    for await (const page of this.paginate<T>(path, options)) {
+      pageCount++;
+      stale ||= page.stale;
+      fetchedAt = Math.min(fetchedAt, page.fetchedAt);
+      items.push(...page.data);
+
+      if (items.length >= maxItems) {
+        log("WARN", `Paged results for ${path} reached the ${maxItems}-item cap, remaining pages skipped`);
+        items.length = maxItems;
+        break;
+      }
+    }
+
+    log("DEBUG", `Collected ${items.length} items over ${pageCount} page(s) from ${path}`);
+    return { data: items, stale, fetchedAt };
+  }
+
+  /**
+   * Convert an ObjectListPage Next URL into an API path.
+   * Refuses to follow links to another host so tokens never leave the tenant.
+   */
+  private resolveNextPath(next: string): string | null {
+    const url = new URL(next, this.baseUrl);
+    if (url.origin !== new URL(this.baseUrl).origin) {
+      log("WARN", `Ignoring Next link to a different origin: ${url.origin}`);
+      return null;
+    }
+    return `${url.pathname}${url.search}`;
+  }
+
+  /**
+   * Set (or replace) a query parameter on an API path.
+   */
+  private static withQueryParam(path: string, name: string, value: string): string {
+    const [base, query = ""] = path.split("?", 2);
+    const params = new URLSearchParams(query);
+    params.set(name, value);
+    return `${base}?${params.toString()}`;
+  }
+
+  /**
+   * Make a JSON POST request to the D2L API.
+   *
+   * @param path - API path (e.g., "/d2l/api/le/1.91/123456/discussions/forums/1/topics/2/posts/")
+   * @param body - Request body, serialized as JSON (omit for an empty POST)
+   * @param options - Extra cache prefixes to invalidate
+   * @returns Parsed JSON response, or undefined if the response body is empty
+   * @throws ApiError on HTTP errors (401, 403, 429, etc.)
+   * @throws NetworkError on network/fetch failures
+   */
+  async post<T = void>(path: string, body?: unknown, options?: MutationOptions): Promise<T> {
+    return this.mutate<T>(path, D2LApiClient.jsonBody("POST", body), options);
+  }
+
+  /**
+   * Make a JSON PUT request to the D2L API.
+   *
+   * @param path - API path
+   * @param body - Request body, serialized as JSON
+   * @param options - Extra cache prefixes to invalidate
+   * @returns Parsed JSON response, or undefined if the response body is empty
+   */
+  async put<T = void>(path: string, body?: unknown, options?: MutationOptions): Promise<T> {
+    return this.mutate<T>(path, D2LApiClient.jsonBody("PUT", body), options);
+  }
+
+  /**
+   * Make a DELETE request to the D2L API.
+   *
+   * @param path - API path
+   * @param options - Extra cache prefixes to invalidate
+   * @returns Parsed JSON response, or undefined if the response body is empty
+   */
+  async delete<T = void>(path: string, options?: MutationOptions): Promise<T> {
+    return this.mutate<T>(path, { method: "DELETE" }, options);
+  }
+
+  /**
+   * Make a multipart/mixed POST request to the D2L API (file uploads).
+   *
+   * @param path - API path (e.g., "/d2l/api/le/1.91/123456/dropbox/folders/7/submissions/mysubmissions/")
+   * @param parts - Body parts, typically a JSON part followed by file parts
+   * @param options - Extra cache prefixes to invalidate
+   * @returns Parsed JSON response, or undefined if the response body is empty
+   * @throws ApiError on HTTP errors (401, 403, 429, etc.)
+   * @throws NetworkError on network/fetch failures
+   */
+  async postMultipart<T = void>(
+    path: string,
+    parts: MultipartPart[],
+    options?: MutationOptions,
+  ): Promise<T> {
+    const { body, contentType } = buildMultipartMixed(parts);
+    return this.mutate<T>(path, { method: "POST", data: body, contentType }, options);
+  }
+
+  private static jsonBody(method: "POST" | "PUT", body: unknown): RequestBody {
+    if (body === undefined) {
+      return { method };
+    }
+    return { method, data: JSON.stringify(body), contentType: "application/json" };
+  }
+
+  /**
+   * Send a write request, then evict cached responses it may have made stale.
+   * Invalidation runs only on success — a failed write changes nothing.
+   */
+  private async mutate<T>(
+    path: string,
+    body: RequestBody,
+    options?: MutationOptions,
+  ): Promise<T> {
+    const result = await this.fetchJson<T>(path, { body });
+    await this.invalidate([...D2LApiClient.affectedPrefixes(path), ...(options?.invalidate ?? [])]);
+    return result;
+  }
+
+  /**
+   * Cache prefixes a write to `path` affects: the resource itself (and anything
+   * beneath it) plus the collection it belongs to.
+   *
+   * e.g. POST .../topics/9/posts/ → ".../topics/9/posts" and ".../topics/9/"
+   *      PUT  .../posts/42       → ".../posts/42" and ".../posts/"
+   */
+  private static affectedPrefixes(path: string): string[] {
+    const resource = path.split("?", 1)[0].replace(/\/+$/, "");
+    const parent = resource.slice(0, resource.lastIndexOf("/") + 1);
+    return [resource, parent];
+  }
+
+  /**
+   * Evict cached GET responses (memory and disk) under any of the given path prefixes
+   * (see pathMatchesPrefixes), then notify invalidation listeners.
+   *
+   * @param prefixes - API paths to evict
+   */
+  async invalidate(prefixes: string[]): Promise<void> {
+    const matches = (key: string): boolean => pathMatchesPrefixes(key, prefixes);
+
+    const removed = this.cache.deleteWhere(matches);
+    const removedFromDisk = (await this.diskCache?.deleteWhere(matches)) ?? 0;
+    if (removed + removedFromDisk > 0) {
+      log("DEBUG", `Invalidated ${removed} cached and ${removedFromDisk} disk entries for ${prefixes.join(", ")}`);
+    }
+
+    for (const listener of this.invalidationListeners) {
+      try {
+        listener(prefixes);
+      } catch (error) {
+        log("WARN", "Invalidation listener failed", error);
+      }
+    }
+  }
+
+  /**
+   * Be notified whenever cached data is invalidated — after every write and
+   * every explicit invalidate(). Used for MCP resource subscriptions.
+   *
+   * @returns A function that removes the listener
+   */
+  onInvalidate(listener: InvalidationListener): () => void {
+    this.invalidationListeners.add(listener);
+    return () => {
+      this.invalidationListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Rate-limited, authenticated JSON fetch with auto-reauth on 401.
+   */
+  private async fetchJson<T>(
+    path: string,
+    options?: { ttl?: number; body?: RequestBody },
+  ): Promise<T> {
     // Enforce rate limit
     await this.rateLimiter.consume();
 
@@ -129,6 +528,15 @@ export class D2LApiClient {
     }
   }
 
+  /**
+   * Whether an error means Brightspace could not be reached (as opposed to
+   * an auth or permission problem), so a stale cached copy is acceptable.
+   */
+  private static isUnreachable(error: unknown): boolean {
+    if (error instanceof NetworkError) return true;
+    return error instanceof ApiError && error.status >= 500;
+  }
+
   /**
    * Make a GET request to the D2L API and return raw Response object.
    * Used for binary file downloads where JSON parsing is not desired.
@@ -188,18 +596,26 @@ export class D2LApiClient {
   private async makeRequest<T>(
     path: string,
     token: TokenData,
-    options?: { ttl?: number },
+    options?: { ttl?: number; body?: RequestBody },
     isRetry: boolean = false,
   ): Promise<T> {
     const url = `${this.baseUrl}${path}`;
+    const method = options?.body?.method ?? "GET";
     const headers = this.buildAuthHeaders(token);
+    if (options?.body?.contentType) {
+      headers["Content-Type"] = options.body.contentType;
+    }
+    if (options?.body && D2LApiClient.isCookieAuth(token)) {
+      headers["X-Csrf-Token"] = await this.getXsrfToken(token);
+    }
 
     try {
-      log("DEBUG", `${isRetry ? "Retrying" : "Requesting"} GET ${path}`);
+      log("DEBUG", `${isRetry ? "Retrying" : "Requesting"} ${method} ${path}`);
 
       const response = await fetch(url, {
-        method: "GET",
+        method,
         headers,
+        body: options?.body?.data,
         signal: AbortSignal.timeout(this.timeoutMs),
       });
 
@@ -244,6 +660,14 @@ export class D2LApiClient {
       // Handle 403 (common for past-semester courses)
       if (response.status === 403) {
         const responseText = await response.text();
+
+        // A rejected write on a cookie session may just be a rotated XSRF token
+        if (options?.body && D2LApiClient.isCookieAuth(token) && this.xsrf && !isRetry) {
+          log("DEBUG", "403 on write request, refreshing XSRF token and retrying");
+          this.xsrf = null;
+          return await this.makeRequest<T>(path, token, options, true);
+        }
+
         throw new ApiError(403, path, responseText);
       }
 
@@ -253,11 +677,18 @@ export class D2LApiClient {
         throw new ApiError(response.status, path, responseText);
       }
 
+      // Write requests often return an empty body
+      if (options?.body) {
+        const responseText = await response.text();
+        return (responseText ? JSON.parse(responseText) : undefined) as T;
+      }
+
       // Parse and cache response
       const data: T = await response.json();
 
       if (options?.ttl) {
-        this.cache.set(path, data, options.ttl);
+        this.cache.set(path, { data, fetchedAt: Date.now() }, options.ttl);
+        await this.diskCache?.set(path, data, options.ttl);
         log("DEBUG", `Cached response for ${path} (TTL: ${options.ttl}ms)`);
       }
 
@@ -377,6 +808,48 @@ export class D2LApiClient {
     }
   }
 
+  private static isCookieAuth(token: TokenData): boolean {
+    return token.accessToken.startsWith("cookie:");
+  }
+
+  /**
+   * Get the XSRF token D2L requires on write requests made with session cookies.
+   * Bearer-token requests don't need one. Cached per session until a write is rejected.
+   */
+  private async getXsrfToken(token: TokenData): Promise<string> {
+    if (this.xsrf?.session === token.accessToken) {
+      return this.xsrf.token;
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}${XSRF_TOKEN_PATH}`, {
+        method: "GET",
+        headers: this.buildAuthHeaders(token),
+        signal: AbortSignal.timeout(this.timeoutMs),
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new NetworkError(
+        `Request to ${XSRF_TOKEN_PATH} failed: ${message}`,
+        error instanceof Error ? error : undefined,
+      );
+    }
+
+    if (!response.ok) {
+      throw new ApiError(response.status, XSRF_TOKEN_PATH, "Could not obtain XSRF token for write request");
+    }
+
+    const body: { referrerToken?: string } = await response.json();
+    if (!body.referrerToken) {
+      throw new ApiError(response.status, XSRF_TOKEN_PATH, "XSRF token missing from response");
+    }
+
+    this.xsrf = { session: token.accessToken, token: body.referrerToken };
+    log("DEBUG", "Obtained XSRF token for cookie session");
+    return body.referrerToken;
+  }
+
   /**
    * Build authentication headers for a request.
    * Supports both Bearer tokens and cookie-based auth.
@@ -388,7 +861,7 @@ export class D2LApiClient {
     };
 
     // Auto-detect cookie vs Bearer auth based on "cookie:" prefix
-    if (token.accessToken.startsWith("cookie:")) {
+    if (D2LApiClient.isCookieAuth(token)) {
       // Cookie-based auth: strip prefix and set Cookie header
       headers["Cookie"] = token.accessToken.substring(7);
       log("DEBUG", "Using cookie-based authentication");
@@ -433,7 +906,8 @@ export class D2LApiClient {
   }
 
   /**
-   * Clear all cached responses.
+   * Clear all in-memory cached responses.
+   * The disk tier is left intact so it can still serve as an offline fallback.
    */
   clearCache(): void {
     this.cache.clear();
@@ -0,0 +1,245 @@
+/**
+ * Purdue Brightspace MCP Server
+ * Copyright (c) 2026 Rohan Muppa. All rights reserved.
+ * Licensed under AGPL-3.0 — see LICENSE file for details.
+ */
+
+import * as crypto from "node:crypto";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import type { CacheFile } from "../types/index.js";
+import { deriveKey, encrypt, decrypt } from "../utils/encryption.js";
+import { log } from "../utils/logger.js";
+
+const CACHE_DIR_NAME = "cache";
+const CACHE_VERSION = 1;
+
+// How long an expired entry is kept around for offline fallback
+const DEFAULT_MAX_STALE_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+// Sweep entries past the stale window on the first write and every this many writes after
+const SWEEP_EVERY_WRITES = 500;
+
+export interface DiskCacheEntry<T> {
+  data: T;
+  fetchedAt: number; // Unix timestamp ms
+  expiresAt: number; // Unix timestamp ms
+}
+
+/**
+ * Encrypted on-disk cache tier that survives MCP server restarts.
+ * Each entry is a separate file under <sessionDir>/cache/, named by the SHA-256
+ * of its key and encrypted with the same AES-256-GCM installation key as SessionStore.
+ * File names don't reveal keys, so an in-memory index maps them back for deleteWhere().
+ *
+ * Expired entries are NOT returned as fresh, but are kept for up to maxStaleMs
+ * so the API client can serve them when Brightspace is unreachable. Entries
+ * past that window are swept from the directory periodically (see sweep()).
+ */
+export class DiskCache {
+  private readonly cacheDir: string;
+  private readonly sessionDir: string;
+  private readonly maxStaleMs: number;
+  private key: Buffer | null = null;
+  private writes = 0;
+  // File name → key for every entry this process has written, read or decrypted
+  private readonly keysByFile = new Map<string, string>();
+
+  constructor(sessionDir: string, options?: { maxStaleMs?: number }) {
+    this.sessionDir = sessionDir;
+    this.cacheDir = path.join(sessionDir, CACHE_DIR_NAME);
+    this.maxStaleMs = options?.maxStaleMs ?? DEFAULT_MAX_STALE_MS;
+  }
+
+  /**
+   * Derive the encryption key once — scrypt is deliberately slow.
+   */
+  private getKey(): Buffer {
+    if (!this.key) {
+      this.key = deriveKey(this.sessionDir);
+    }
+    return this.key;
+  }
+
+  private fileNameFor(key: string): string {
+    return `${crypto.createHash("sha256").update(key).digest("hex")}.json`;
+  }
+
+  private filePathFor(key: string): string {
+    return path.join(this.cacheDir, this.fileNameFor(key));
+  }
+
+  /**
+   * Read an entry, fresh or stale.
+   * Returns null if missing, unreadable, or older than the stale window.
+   */
+  async get<T>(key: string): Promise<DiskCacheEntry<T> | null> {
+    const filePath = this.filePathFor(key);
+
+    let cacheFile: CacheFile;
+    try {
+      cacheFile = JSON.parse(await fs.readFile(filePath, "utf-8"));
+    } catch {
+      return null;
+    }
+
+    if (cacheFile.expiresAt + this.maxStaleMs < Date.now()) {
+      log("DEBUG", `Disk cache entry past stale window, removing: ${key}`);
+      await this.delete(key);
+      return null;
+    }
+
+    try {
+      const plaintext = decrypt(cacheFile.encrypted, this.getKey());
+      const payload: { key: string; data: T } = JSON.parse(plaintext);
+
+      // Guard against hash collisions or files copied between keys
+      if (payload.key !== key) {
+        return null;
+      }
+      this.keysByFile.set(this.fileNameFor(key), key);
+
+      return {
+        data: payload.data,
+        fetchedAt: cacheFile.fetchedAt,
+        expiresAt: cacheFile.expiresAt,
+      };
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      log("WARN", `Failed to read disk cache entry: ${err.message}`);
+      return null;
+    }
+  }
+
+  /**
+   * Write an entry. Failures are logged, never thrown — the disk tier is best-effort.
+   */
+  async set(key: string, value: unknown, ttlMs: number): Promise<void> {
+    try {
+      const isWindows = process.platform === "win32";
+      await fs.mkdir(this.cacheDir, {
+        recursive: true,
+        ...(isWindows ? {} : { mode: 0o700 }),
+      });
+
+      const now = Date.now();
+      const cacheFile: CacheFile = {
+        version: CACHE_VERSION,
+        encrypted: encrypt(JSON.stringify({ key, data: value }), this.getKey()),
+        fetchedAt: now,
+        expiresAt: now + ttlMs,
+      };
+
+      await fs.writeFile(this.filePathFor(key), JSON.stringify(cacheFile), {
+        encoding: "utf-8",
+        ...(isWindows ? {} : { mode: 0o600 }),
+      });
+      this.keysByFile.set(this.fileNameFor(key), key);
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      log("WARN", `Failed to write disk cache entry: ${err.message}`);
+    }
+
+    if (this.writes++ % SWEEP_EVERY_WRITES === 0) {
+      await this.sweep();
+    }
+  }
+
+  /**
+   * Remove entries past the stale window. get() only discards the entries it is
+   * asked for, so without this, keys that are never read again pile up forever.
+   * Only the plaintext timestamps are read — nothing is decrypted.
+   *
+   * @returns Number of entries removed
+   */
+  async sweep(now = Date.now()): Promise<number> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.cacheDir);
+    } catch {
+      return 0;
+    }
+
+    let removed = 0;
+    for (const file of files) {
+      if (!file.endsWith(".json")) continue;
+      const filePath = path.join(this.cacheDir, file);
+      try {
+        const cacheFile: CacheFile = JSON.parse(await fs.readFile(filePath, "utf-8"));
+        if (cacheFile.expiresAt + this.maxStaleMs < now) {
+          await fs.unlink(filePath);
+          this.keysByFile.delete(file);
+          removed++;
+        }
+      } catch {
+        // Corrupt or concurrently removed — skip
+      }
+    }
+
+    if (removed > 0) {
+      log("DEBUG", `Disk cache: swept ${removed} entries past the stale window`);
+    }
+    return removed;
+  }
+
+  async delete(key: string): Promise<void> {
+    this.keysByFile.delete(this.fileNameFor(key));
+    try {
+      await fs.unlink(this.filePathFor(key));
+    } catch {
+      // Already gone
+    }
+  }
+
+  /**
+   * Remove every entry whose key matches the predicate.
+   * Keys come from the index; only entries written by an earlier process are
+   * decrypted to recover theirs, once. Unreadable entries are left for get() to discard.
+   *
+   * @returns Number of entries removed
+   */
+  async deleteWhere(predicate: (key: string) => boolean): Promise<number> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.cacheDir);
+    } catch {
+      return 0;
+    }
+
+    let removed = 0;
+    for (const file of files) {
+      if (!file.endsWith(".json")) continue;
+      const filePath = path.join(this.cacheDir, file);
+      try {
+        let key = this.keysByFile.get(file);
+        if (key === undefined) {
+          const cacheFile: CacheFile = JSON.parse(await fs.readFile(filePath, "utf-8"));
+          const payload: { key: string } = JSON.parse(decrypt(cacheFile.encrypted, this.getKey()));
+          key = payload.key;
+          this.keysByFile.set(file, key);
+        }
+        if (predicate(key)) {
+          this.keysByFile.delete(file);
+          await fs.unlink(filePath);
+          removed++;
+        }
+      } catch {
+        // Corrupt, tampered, or concurrently removed — skip
+      }
+    }
+
+    if (removed > 0) {
+      log("DEBUG", `Disk cache: removed ${removed} entries`);
+    }
+    return removed;
+  }
+
+  /**
+   * Remove every cached entry.
+   */
+  async clear(): Promise<void> {
+    this.keysByFile.clear();
+    await fs.rm(this.cacheDir, { recursive: true, force: true });
+    log("DEBUG", "Disk cache cleared");
+  }
+}
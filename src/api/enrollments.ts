@@ -0,0 +1,293 @@
+/**
+ * Purdue Brightspace MCP Server
+ * Copyright (c) 2026 Rohan Muppa. All rights reserved.
+ * Licensed under AGPL-3.0 — see LICENSE file for details.
+ */
+
+import type { D2LApiClient } from "./client.js";
+import { CourseResolutionError } from "./errors.js";
+import { DEFAULT_CACHE_TTLS } from "./types.js";
+import type { CachedResponse } from "./types.js";
+import { applyCourseFilter } from "../utils/course-filter.js";
+import { resolveCourseQuery } from "../utils/course-match.js";
+import { selectTerm } from "../utils/terms.js";
+import type { CourseResolution } from "../utils/course-match.js";
+import { log } from "../utils/logger.js";
+import type { AppConfig } from "../types/index.js";
+
+// D2L MyOrgUnitInfo (GET /lp/enrollments/myenrollments/)
+interface EnrollmentItem {
+  OrgUnit: {
+    Id: number;
+    Name: string;
+    Code: string;
+  };
+  Access: {
+    IsActive: boolean;
+    StartDate: string | null;
+    EndDate: string | null;
+    ClasslistRoleName: string | null;
+    LastAccessed: string | null;
+  };
+}
+
+// D2L CourseOffering (GET /lp/courses/{orgUnitId}) — only the parts we read
+interface CourseOffering {
+  Semester: { Identifier: string; Name: string; Code: string | null } | null;
+}
+
+// orgUnitTypeId=3 is "Course Offering"
+const MY_COURSES_PATH = "/enrollments/myenrollments/?orgUnitTypeId=3";
+
+// Courses fetched at once by forEachCourse() and term resolution — keeps
+// multi-course tools well inside the client's rate limit
+const DEFAULT_CONCURRENCY = 4;
+
+export interface CourseTerm {
+  id: number;
+  name: string;
+  code: string | null;
+}
+
+export interface EnrolledCourse {
+  id: number;
+  name: string;
+  code: string;
+  role: string | null;
+  isActive: boolean;
+  startDate: string | null;
+  endDate: string | null;
+  lastAccessed: string | null;
+  term?: CourseTerm | null; // set by listCourses({ withTerms: true }); null = no semester
+}
+
+export interface ListCoursesOptions {
+  /** Only currently active enrollments (default true). false also overrides the configured activeOnly filter. */
+  activeOnly?: boolean;
+  /** Skip the configured course filter (default false) */
+  unfiltered?: boolean;
+  /** Look up each course's parent semester (one cached call per course) */
+  withTerms?: boolean;
+  /**
+   * Only courses in this term: "current", "previous", or a term name/code like
+   * "Fall 2025". Implies withTerms and includes past (inactive) enrollments.
+   */
+  term?: string;
+}
+
+/** How a tool's caller named a course: by ID, or by code/name/ID string */
+export interface CourseRef {
+  courseId?: number;
+  course?: string;
+}
+
+export interface CourseFanOut<C, T> {
+  results: Array<{ course: C; value: T }>;
+  failures: Array<{ course: C; error: unknown }>;
+}
+
+/**
+ * Run `fn` over `items`, at most `concurrency` at a time. Results keep input order.
+ */
+async function mapWithConcurrency<I, R>(
+  items: I[],
+  concurrency: number,
+  fn: (item: I) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+  return results;
+}
+
+/**
+ * The current user's course enrollments, shared by every multi-course tool so
+ * they all see the same course list (same paging, filter and skip rules).
+ * Reads config.courseFilter on every call, so switch_profile takes effect.
+ */
+export class EnrollmentService {
+  constructor(
+    private readonly apiClient: D2LApiClient,
+    private readonly config: AppConfig
+  ) {}
+
+  /**
+   * Enrolled courses, with the configured course filter applied.
+   */
+  async listCourses(options: ListCoursesOptions = {}): Promise<EnrolledCourse[]> {
+    return (await this.listCoursesWithMeta(options)).data;
+  }
+
+  /**
+   * Like listCourses(), but also reports whether the enrollment list came from a
+   * stale disk-cache fallback.
+   */
+  async listCoursesWithMeta(options: ListCoursesOptions = {}): Promise<CachedResponse<EnrolledCourse[]>> {
+    // A term can be in the past, so it implies activeOnly: false
+    const term = options.term?.trim();
+    const activeOnly = term ? false : options.activeOnly ?? true;
+    const { data: enrollments, stale, fetchedAt } = await this.apiClient.getAllPagesWithMeta<EnrollmentItem>(
+      this.apiClient.lp(`${MY_COURSES_PATH}${activeOnly ? "&isActive=true" : ""}`),
+      { ttl: DEFAULT_CACHE_TTLS.enrollments }
+    );
+
+    const all = enrollments.map((item) => ({
+      id: item.OrgUnit.Id,
+      name: item.OrgUnit.Name,
+      code: item.OrgUnit.Code,
+      role: item.Access.ClasslistRoleName ?? null,
+      isActive: item.Access.IsActive,
+      startDate: item.Access.StartDate ?? null,
+      endDate: item.Access.EndDate ?? null,
+      lastAccessed: item.Access.LastAccessed ?? null,
+    }));
+    // Asking for inactive courses wins over the configured activeOnly filter; include/exclude still apply
+    const filter = activeOnly ? this.config.courseFilter : { ...this.config.courseFilter, activeOnly: false };
+    const courses = options.unfiltered ? all : applyCourseFilter(all, filter);
+
+    if (options.withTerms || term) {
+      await mapWithConcurrency(courses, DEFAULT_CONCURRENCY, async (course: EnrolledCourse) => {
+        course.term = await this.fetchTerm(course.id);
+      });
+    }
+
+    if (term) {
+      const selection = selectTerm(courses, term);
+      if (selection.status === "not_found") {
+        const known = selection.known.length ? ` Your terms: ${selection.known.join(", ")}.` : "";
+        throw new CourseResolutionError(
+          `No term matches "${term}".${known} Use a term name, "current" or "previous".`
+        );
+      }
+      return { data: selection.courses, stale, fetchedAt };
+    }
+
+    return { data: courses, stale, fetchedAt };
+  }
+
+  /**
+   * The course with this ID if the user is enrolled in it (ignoring the course
+   * filter, since an explicit course is always honored).
+   */
+  async findCourse(courseId: number): Promise<EnrolledCourse | undefined> {
+    const courses = await this.listCourses({ activeOnly: false, unfiltered: true });
+    return courses.find((c) => c.id === courseId);
+  }
+
+  /**
+   * Resolve a course ID, code ("CS 251") or partial name ("data structures")
+   * against active enrollments, then past ones if nothing active matches.
+   * The course filter is ignored, like an explicit courseId.
+   */
+  async resolveCourse(query: string): Promise<CourseResolution<EnrolledCourse>> {
+    const active = resolveCourseQuery(await this.listCourses({ unfiltered: true }), query);
+    if (active.status !== "not_found") return active;
+    return resolveCourseQuery(await this.listCourses({ activeOnly: false, unfiltered: true }), query);
+  }
+
+  /**
+   * The course ID a tool call refers to, or undefined if it names no course.
+   * courseId wins over course; a numeric course that matches no enrollment is
+   * used as an ID as-is, so courses outside the enrollment list still work.
+   *
+   * @throws CourseResolutionError if course matches no course or several equally well
+   */
+  async resolveCourseRef(ref: CourseRef): Promise<number | undefined> {
+    if (ref.courseId !== undefined) return ref.courseId;
+    const query = ref.course?.trim();
+    if (!query) return undefined;
+
+    const resolution = await this.resolveCourse(query);
+    if (resolution.status === "found") {
+      log("DEBUG", `Resolved course "${query}" to ${resolution.course.id} (${resolution.course.code})`);
+      return resolution.course.id;
+    }
+    if (resolution.status === "ambiguous") {
+      const candidates = resolution.candidates.map((c) => ({ id: c.id, name: c.name, code: c.code }));
+      const list = candidates.map((c) => `${c.code} — ${c.name} (courseId ${c.id})`).join("; ");
+      throw new CourseResolutionError(
+        `"${query}" matches more than one course: ${list}. Pass the courseId of the one you mean.`,
+        candidates
+      );
+    }
+    if (/^\d+$/.test(query)) return Number(query);
+    throw new CourseResolutionError(
+      `No enrolled course matches "${query}". Use get_my_courses to see your courses and their IDs.`
+    );
+  }
+
+  /**
+   * Like resolveCourseRef(), for tools that need a course.
+   *
+   * @throws CourseResolutionError if neither courseId nor course is given
+   */
+  async requireCourseRef(ref: CourseRef): Promise<number> {
+    const courseId = await this.resolveCourseRef(ref);
+    if (courseId === undefined) {
+      throw new CourseResolutionError(
+        "Specify the course: courseId, or course with its code (e.g. 'CS 25100') or name."
+      );
+    }
+    return courseId;
+  }
+
+  /**
+   * Run `fn` for each course with bounded concurrency. Courses that fail are
+   * collected in `failures` rather than failing the whole call; 403/404 (no
+   * access to that tool's data, e.g. a past course) are only logged.
+   *
+   * @param label - Tool or caller name for log messages
+   */
+  async forEachCourse<C extends { id: number; name: string }, T>(
+    courses: C[],
+    label: string,
+    fn: (course: C) => Promise<T>
+  ): Promise<CourseFanOut<C, T>> {
+    const outcome: CourseFanOut<C, T> = { results: [], failures: [] };
+
+    type Settled = { ok: true; course: C; value: T } | { ok: false; course: C; error: unknown };
+    const settled = await mapWithConcurrency(courses, DEFAULT_CONCURRENCY, async (course): Promise<Settled> => {
+      try {
+        return { ok: true, course, value: await fn(course) };
+      } catch (error: any) {
+        if (error?.status === 403 || error?.status === 404) {
+          log("DEBUG", `${label}: ${error.status} for course ${course.id} (${course.name}) - skipping`);
+        } else {
+          log("DEBUG", `${label}: failed for course ${course.id} (${course.name})`, error);
+        }
+        return { ok: false, course, error };
+      }
+    });
+
+    for (const entry of settled) {
+      if (entry.ok) outcome.results.push({ course: entry.course, value: entry.value });
+      else outcome.failures.push({ course: entry.course, error: entry.error });
+    }
+    return outcome;
+  }
+
+  /**
+   * A course's parent semester, or null if it has none or it can't be read.
+   */
+  private async fetchTerm(courseId: number): Promise<CourseTerm | null> {
+    try {
+      const offering = await this.apiClient.get<CourseOffering>(
+        this.apiClient.lp(`/courses/${courseId}`),
+        { ttl: DEFAULT_CACHE_TTLS.enrollments }
+      );
+      const semester = offering.Semester;
+      return semester
+        ? { id: Number(semester.Identifier), name: semester.Name, code: semester.Code ?? null }
+        : null;
+    } catch (error) {
+      log("DEBUG", `Could not read the semester of course ${courseId}`, error);
+      return null;
+    }
+  }
+}
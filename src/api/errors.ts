@@ -56,3 +56,16 @@ export class NetworkError extends AuthError {
     this.name = "NetworkError";
   }
 }
+
+// A course code/name that doesn't identify exactly one enrolled course, or a
+// term that matches none.
+// The message is meant for the user and is passed through by sanitizeError.
+export class CourseResolutionError extends Error {
+  constructor(
+    message: string,
+    public readonly candidates: Array<{ id: number; name: string; code: string }> = [],
+  ) {
+    super(message);
+    this.name = "CourseResolutionError";
+  }
+}
@@ -7,23 +7,35 @@
 // D2L API client and infrastructure - Phase 2 public exports
 
 // Main client
-export { D2LApiClient } from "./client.js";
+export { D2LApiClient, pathMatchesPrefixes } from "./client.js";
+export type { MutationOptions, InvalidationListener } from "./client.js";
+
+// Enrollments shared by multi-course tools
+export { EnrollmentService } from "./enrollments.js";
+export type { EnrolledCourse, CourseTerm, ListCoursesOptions, CourseFanOut, CourseRef } from "./enrollments.js";
+export { whoami } from "./whoami.js";
+export type { WhoAmI } from "./whoami.js";
 
 // Version discovery
 export { discoverVersions } from "./version-discovery.js";
 
 // Cache and rate limiting
 export { TTLCache } from "./cache.js";
+export { DiskCache } from "./disk-cache.js";
 export { TokenBucket } from "./rate-limiter.js";
 
 // Errors
-export { ApiError, RateLimitError, NetworkError } from "./errors.js";
+export { ApiError, RateLimitError, NetworkError, CourseResolutionError } from "./errors.js";
 
 // Types
 export type {
   ApiVersions,
   CacheTTLs,
+  CachedResponse,
+  ObjectListPage,
+  PagedResultSet,
   RateLimitConfig,
   D2LApiClientOptions,
+  TenantOptions,
 } from "./types.js";
 export { DEFAULT_CACHE_TTLS } from "./types.js";
@@ -0,0 +1,49 @@
+/**
+ * Purdue Brightspace MCP Server
+ * Copyright (c) 2026 Rohan Muppa. All rights reserved.
+ * Licensed under AGPL-3.0 — see LICENSE file for details.
+ */
+
+import * as crypto from "node:crypto";
+
+// A single part of a multipart/mixed request body
+export interface MultipartPart {
+  contentType: string;
+  data: Buffer | string;
+  filename?: string; // set for file parts — adds a Content-Disposition header
+}
+
+/**
+ * Build a multipart/mixed request body in the shape D2L expects for uploads
+ * (e.g. dropbox submissions): a JSON part followed by one part per file.
+ *
+ * @param parts - Body parts in order
+ * @returns Encoded body and the Content-Type header value (with boundary)
+ */
+export function buildMultipartMixed(
+  parts: MultipartPart[]
+): { body: Uint8Array<ArrayBuffer>; contentType: string } {
+  const boundary = `xxBOUNDARY${crypto.randomBytes(12).toString("hex")}`;
+  const chunks: Buffer[] = [];
+
+  for (const part of parts) {
+    const headers = [`--${boundary}`];
+    if (part.filename !== undefined) {
+      // Quotes and line breaks would break the header — replace them
+      const safeName = part.filename.replace(/["\r\n]/g, "_");
+      headers.push(`Content-Disposition: form-data; name=""; filename="${safeName}"`);
+    }
+    headers.push(`Content-Type: ${part.contentType}`);
+
+    chunks.push(Buffer.from(headers.join("\r\n") + "\r\n\r\n", "utf-8"));
+    chunks.push(typeof part.data === "string" ? Buffer.from(part.data, "utf-8") : part.data);
+    chunks.push(Buffer.from("\r\n", "utf-8"));
+  }
+
+  chunks.push(Buffer.from(`--${boundary}--\r\n`, "utf-8"));
+
+  return {
+    body: new Uint8Array(Buffer.concat(chunks)),
+    contentType: `multipart/mixed;boundary=${boundary}`,
+  };
+}
@@ -6,6 +6,7 @@
 
 import type { TokenData } from "../types/index.js";
 import type { TokenManager } from "../auth/token-manager.js";
+import type { DiskCache } from "./disk-cache.js";
 
 // D2L API version information returned by /d2l/api/versions/
 export interface ApiVersions {
@@ -48,9 +49,39 @@ export interface D2LApiClientOptions {
   cacheTTLs?: Partial<CacheTTLs>;
   rateLimitConfig?: RateLimitConfig;
   timeoutMs?: number; // default 30_000
+  /** Optional encrypted disk tier consulted after the in-memory cache. */
+  diskCache?: DiskCache;
   /** Called when auth is expired and retries are exhausted. Return true if re-auth succeeded. */
   onAuthExpired?: () => Promise<boolean>;
 }
 
+// Everything that identifies a Brightspace tenant/account — swapped by D2LApiClient.switchTenant()
+export type TenantOptions = Pick<
+  D2LApiClientOptions,
+  "baseUrl" | "tokenManager" | "diskCache" | "onAuthExpired"
+>;
+
+// GET result with cache freshness metadata
+export interface CachedResponse<T> {
+  data: T;
+  stale: boolean; // true when served from disk cache because Brightspace was unreachable
+  fetchedAt: number; // Unix timestamp ms of the original fetch
+}
+
+// D2L paging shape used by LE endpoints (classlist/paged, calendar, quizzes)
+export interface ObjectListPage<T> {
+  Objects: T[];
+  Next: string | null; // absolute URL of the next page
+}
+
+// D2L paging shape used by LP endpoints (myenrollments, users)
+export interface PagedResultSet<T> {
+  Items: T[];
+  PagingInfo?: {
+    Bookmark: string;
+    HasMoreItems: boolean;
+  };
+}
+
 // Re-export TokenData from shared types for convenience
 export type { TokenData };
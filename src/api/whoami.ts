@@ -0,0 +1,22 @@
+/**
+ * Purdue Brightspace MCP Server
+ * Copyright (c) 2026 Rohan Muppa. All rights reserved.
+ * Licensed under AGPL-3.0 — see LICENSE file for details.
+ */
+
+import type { D2LApiClient } from "./client.js";
+import { DEFAULT_CACHE_TTLS } from "./types.js";
+import type { CachedResponse } from "./types.js";
+
+// D2L WhoAmIUser (GET /lp/users/whoami) — only the parts we read
+export interface WhoAmI {
+  Identifier: string;
+}
+
+/**
+ * The signed-in user. Identifier is the user ID that dropbox feedback,
+ * group membership and content progress are keyed by.
+ */
+export function whoami(apiClient: D2LApiClient): Promise<CachedResponse<WhoAmI>> {
+  return apiClient.getWithMeta<WhoAmI>(apiClient.lp("/users/whoami"), { ttl: DEFAULT_CACHE_TTLS.profile });
+}
@@ -23,6 +23,9 @@ async function main(): Promise<void> {
 
     // Print header
     console.log("\n=== Brightspace Authentication — by Rohan Muppa ===\n");
+    if (config.profile) {
+      console.log(`Profile: ${config.profile} (${config.baseUrl})`);
+    }
 
     // Check for credentials and provide status
     if (config.username && config.password) {
@@ -21,14 +21,17 @@ const AUTH_TIMEOUT_MS = 3 * 60 * 1000; // 3 minutes
  *
  * The child process inherits the parent's environment (so .env credentials
  * are available via dotenv in the auth CLI) and runs with the project root
- * as CWD (so dotenv can find the .env file).
+ * as CWD (so dotenv can find the .env file). A named profile is passed
+ * through as --profile so the right account is re-authenticated.
  */
 export class AuthRunner {
   private running = false;
   private readonly scriptPath: string;
   private readonly projectRoot: string;
+  private readonly profile?: string;
 
-  constructor() {
+  constructor(profile?: string) {
+    this.profile = profile;
     // Resolve paths relative to this file's compiled location (build/auth/auth-runner.js)
     const thisDir = path.dirname(fileURLToPath(import.meta.url));
     this.scriptPath = path.resolve(thisDir, "..", "auth-cli.js");
@@ -53,7 +56,7 @@ export class AuthRunner {
       return await new Promise<boolean>((resolve) => {
         execFile(
           process.execPath, // use the same Node binary
-          [this.scriptPath],
+          this.profile ? [this.scriptPath, "--profile", this.profile] : [this.scriptPath],
           {
             timeout: AUTH_TIMEOUT_MS,
             cwd: this.projectRoot,
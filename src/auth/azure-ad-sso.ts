@@ -0,0 +1,57 @@
+/**
+ * Purdue Brightspace MCP Server
+ * Copyright (c) 2026 Rohan Muppa. All rights reserved.
+ * Licensed under AGPL-3.0 — see LICENSE file for details.
+ */
+
+import type { Page } from "playwright";
+import { CredentialSSOFlow } from "./sso-flow.js";
+import type { SSOSelectors } from "./sso-flow.js";
+import { BrowserAuthError } from "../utils/errors.js";
+import { log } from "../utils/logger.js";
+
+// Number shown on screen when Authenticator uses number matching
+const NUMBER_MATCH_SELECTOR = "#idRichContext_DisplaySign";
+
+/**
+ * Microsoft Entra ID (Azure AD) login: email and password on separate pages,
+ * Authenticator push (with number matching), then "Stay signed in?".
+ */
+export class AzureADSSOFlow extends CredentialSSOFlow {
+  readonly name = "Azure AD";
+
+  protected readonly selectors: SSOSelectors = {
+    usernameInput: 'input[name="loginfmt"]',
+    passwordInput: 'input[name="passwd"]',
+    nextButton: "input#idSIButton9",
+    submitButton: "input#idSIButton9",
+    staySignedInYes: "input[type=submit][value='Yes']",
+  };
+
+  protected async handleMFA(page: Page): Promise<void> {
+    let numberMatch: string | null = null;
+    try {
+      const element = await page.waitForSelector(NUMBER_MATCH_SELECTOR, { timeout: 10000 });
+      numberMatch = (await element?.textContent())?.trim() || null;
+    } catch {
+      // No number matching — plain push, TOTP entry, or no MFA at all
+    }
+
+    if (!numberMatch) {
+      return super.handleMFA(page);
+    }
+
+    try {
+      log("WARN", `Enter ${numberMatch} in Microsoft Authenticator to approve sign-in`);
+      log("INFO", "Timeout: 120 seconds");
+      await page.waitForSelector(NUMBER_MATCH_SELECTOR, { state: "detached", timeout: 120000 });
+      log("INFO", "MFA approval detected");
+    } catch (error) {
+      throw new BrowserAuthError(
+        "MFA approval timed out after 120 seconds",
+        "mfa_approval",
+        error as Error
+      );
+    }
+  }
+}
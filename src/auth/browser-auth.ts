@@ -11,17 +11,19 @@ import * as fs from "node:fs/promises";
 import type { AppConfig, TokenData } from "../types/index.js";
 import { BrowserAuthError } from "../utils/errors.js";
 import { log } from "../utils/logger.js";
-import { PurdueSSOFlow } from "./purdue-sso.js";
+import { createSSOFlow } from "./sso-providers.js";
+import type { SSOFlow } from "./sso-flow.js";
 
 export class BrowserAuth {
   private config: AppConfig;
-  private ssoFlow: PurdueSSOFlow;
+  private ssoFlow: SSOFlow;
 
   constructor(config: AppConfig) {
     this.config = config;
-    this.ssoFlow = new PurdueSSOFlow({
+    this.ssoFlow = createSSOFlow(config.ssoProvider, {
       username: config.username,
       password: config.password,
+      entityId: config.ssoEntityId,
     });
   }
 
@@ -363,13 +365,13 @@ export class BrowserAuth {
       log("DEBUG", `Current URL after navigation: ${currentUrl}`);
 
       // If we were redirected away from /d2l/home, login is required
-      const needsLogin = !currentUrl.includes("/d2l/home");
+      const needsLogin = !this.ssoFlow.successUrl.test(currentUrl);
 
       if (needsLogin) {
         let loginSuccess: boolean;
 
         if (this.ssoFlow.hasCredentials()) {
-          log("INFO", `Login required (redirected to ${currentUrl}) - starting SSO flow`);
+          log("INFO", `Login required (redirected to ${currentUrl}) - starting ${this.ssoFlow.name} SSO flow`);
           loginSuccess = await this.ssoFlow.login(page);
         } else {
           log("INFO", `Login required (redirected to ${currentUrl}) - opening browser for manual login`);
@@ -0,0 +1,29 @@
+/**
+ * Purdue Brightspace MCP Server
+ * Copyright (c) 2026 Rohan Muppa. All rights reserved.
+ * Licensed under AGPL-3.0 — see LICENSE file for details.
+ */
+
+import type { Page } from "playwright";
+import { CredentialSSOFlow } from "./sso-flow.js";
+import type { SSOSelectors } from "./sso-flow.js";
+
+/**
+ * Brightspace's built-in login form on /d2l/login (no external IdP, no MFA).
+ */
+export class D2LFormSSOFlow extends CredentialSSOFlow {
+  readonly name = "D2L login form";
+
+  protected readonly selectors: SSOSelectors = {
+    usernameInput: 'input#userName, input[name="userName"]',
+    passwordInput: 'input#password, input[name="password"]',
+    submitButton: 'button[type="submit"], input[type="submit"]',
+  };
+
+  // The form lives on /d2l/login itself — never redirect to a SAML IdP
+  protected async navigateToLogin(): Promise<void> {}
+
+  protected async handleMFA(page: Page): Promise<void> {
+    await page.waitForLoadState("networkidle", { timeout: 30000 });
+  }
+}
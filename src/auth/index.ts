@@ -6,6 +6,9 @@
 
 export { BrowserAuth } from "./browser-auth.js";
 export { PurdueSSOFlow } from "./purdue-sso.js";
+export { CredentialSSOFlow } from "./sso-flow.js";
+export type { SSOFlow, SSOFlowConfig, SSOSelectors } from "./sso-flow.js";
+export { createSSOFlow, isSSOProvider, SSO_PROVIDERS } from "./sso-providers.js";
 export { TokenManager } from "./token-manager.js";
 export { SessionStore } from "./session-store.js";
 export { AuthRunner } from "./auth-runner.js";
@@ -0,0 +1,33 @@
+/**
+ * Purdue Brightspace MCP Server
+ * Copyright (c) 2026 Rohan Muppa. All rights reserved.
+ * Licensed under AGPL-3.0 — see LICENSE file for details.
+ */
+
+import type { Page } from "playwright";
+import { CredentialSSOFlow } from "./sso-flow.js";
+import type { SSOSelectors } from "./sso-flow.js";
+
+/**
+ * Works with any login page: the browser opens headed and the user signs in
+ * themselves. Saved credentials are ignored. Set an entity ID to skip the
+ * campus selector.
+ */
+export class ManualSSOFlow extends CredentialSSOFlow {
+  readonly name = "manual";
+
+  // Never filled — manual login doesn't touch the form
+  protected readonly selectors: SSOSelectors = {
+    usernameInput: "",
+    passwordInput: "",
+    submitButton: "",
+  };
+
+  hasCredentials(): boolean {
+    return false;
+  }
+
+  async login(page: Page): Promise<boolean> {
+    return this.manualLogin(page);
+  }
+}
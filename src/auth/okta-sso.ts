@@ -0,0 +1,57 @@
+/**
+ * Purdue Brightspace MCP Server
+ * Copyright (c) 2026 Rohan Muppa. All rights reserved.
+ * Licensed under AGPL-3.0 — see LICENSE file for details.
+ */
+
+import type { Page } from "playwright";
+import { CredentialSSOFlow } from "./sso-flow.js";
+import type { SSOSelectors } from "./sso-flow.js";
+import { BrowserAuthError } from "../utils/errors.js";
+import { log } from "../utils/logger.js";
+
+// "Send push" in both the Identity Engine and Classic sign-in widgets
+const SEND_PUSH_SELECTOR =
+  '[data-se="okta_verify-push"] a, a[data-se="okta_verify-push"], input[type=submit][value="Send Push"]';
+
+/**
+ * Okta sign-in widget (Identity Engine and Classic). Identity Engine asks for
+ * the username first; Classic shows both fields on one page.
+ */
+export class OktaSSOFlow extends CredentialSSOFlow {
+  readonly name = "Okta";
+
+  protected readonly selectors: SSOSelectors = {
+    usernameInput: 'input[name="identifier"], input#okta-signin-username',
+    passwordInput: 'input[name="credentials.passcode"], input#okta-signin-password',
+    nextButton: 'input[type="submit"]',
+    submitButton: 'input[type="submit"]',
+  };
+
+  protected async handleMFA(page: Page): Promise<void> {
+    try {
+      const sendPush = await page.waitForSelector(SEND_PUSH_SELECTOR, { timeout: 10000 });
+      if (sendPush) {
+        log("INFO", "Requesting Okta Verify push");
+        await sendPush.click();
+      }
+    } catch {
+      // Push already sent automatically, another factor, or no MFA at all
+      log("DEBUG", "No Okta Verify push button found");
+    }
+
+    try {
+      log("WARN", "Waiting for Okta Verify approval on your device...");
+      log("INFO", "Timeout: 120 seconds");
+      // Okta has no "stay signed in" page — approval redirects straight back to Brightspace
+      await page.waitForURL(this.successUrl, { timeout: 120000 });
+      log("INFO", "MFA approval detected");
+    } catch (error) {
+      throw new BrowserAuthError(
+        "MFA approval timed out after 120 seconds",
+        "mfa_approval",
+        error as Error
+      );
+    }
+  }
+}
@@ -4,26 +4,18 @@
  * Licensed under AGPL-3.0 — see LICENSE file for details.
  */
 
-import * as crypto from "node:crypto";
 import * as fs from "node:fs/promises";
-import * as fsSync from "node:fs";
 import * as path from "node:path";
 import * as os from "node:os";
 import type { TokenData, EncryptedData, SessionFile } from "../types/index.js";
 import { SessionStoreError } from "../utils/errors.js";
+import { deriveKey, encrypt, decrypt } from "../utils/encryption.js";
 import { log } from "../utils/logger.js";
 
 const DEFAULT_SESSION_DIR = path.join(os.homedir(), ".d2l-session");
 const SESSION_FILE_NAME = "session.json";
 const SESSION_VERSION = 1;
 
-// Encryption constants
-const ALGORITHM = "aes-256-gcm";
-const IV_LENGTH = 12; // GCM recommended IV length
-const AUTH_TAG_LENGTH = 16; // GCM auth tag length
-const SALT_LENGTH = 16;
-const SALT_FILE_NAME = "salt";
-
 /**
  * SessionStore manages encrypted token persistence to disk.
  * Uses AES-256-GCM for encryption with a key derived from username + hostname.
@@ -38,80 +30,19 @@ export class SessionStore {
   }
 
   /**
-   * Get or create a random salt unique to this installation.
-   * Stored at ~/.d2l-session/salt with restricted permissions.
-   */
-  private getOrCreateSalt(): Buffer {
-    const saltPath = path.join(this.sessionDir, SALT_FILE_NAME);
-    try {
-      return fsSync.readFileSync(saltPath);
-    } catch {
-      // Salt doesn't exist yet — create session dir and generate one
-      const isWindows = process.platform === "win32";
-      fsSync.mkdirSync(this.sessionDir, {
-        recursive: true,
-        ...(isWindows ? {} : { mode: 0o700 }),
-      });
-      const salt = crypto.randomBytes(SALT_LENGTH);
-      fsSync.writeFileSync(saltPath, salt, {
-        ...(isWindows ? {} : { mode: 0o600 }),
-      });
-      return salt;
-    }
-  }
-
-  /**
-   * Derive AES-256 key from username and hostname using scrypt.
-   * Uses a per-installation random salt to prevent precomputation attacks.
-   */
-  private deriveKey(): Buffer {
-    const username = os.userInfo().username;
-    const hostname = os.hostname();
-    const keyMaterial = username + hostname;
-    const salt = this.getOrCreateSalt();
-
-    // Use scrypt to derive a 32-byte key (256 bits for AES-256)
-    return crypto.scryptSync(keyMaterial, salt, 32);
-  }
-
-  /**
-   * Encrypt plaintext using AES-256-GCM.
+   * Encrypt plaintext using AES-256-GCM with the installation key.
    * Returns IV, auth tag, and ciphertext as hex strings.
    */
   private encrypt(plaintext: string): EncryptedData {
-    const key = this.deriveKey();
-    const iv = crypto.randomBytes(IV_LENGTH);
-
-    const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
-
-    let encrypted = cipher.update(plaintext, "utf8", "hex");
-    encrypted += cipher.final("hex");
-
-    const authTag = cipher.getAuthTag();
-
-    return {
-      iv: iv.toString("hex"),
-      authTag: authTag.toString("hex"),
-      data: encrypted,
-    };
+    return encrypt(plaintext, deriveKey(this.sessionDir));
   }
 
   /**
-   * Decrypt ciphertext using AES-256-GCM.
+   * Decrypt ciphertext using AES-256-GCM with the installation key.
    * Returns plaintext string, or throws if auth tag verification fails.
    */
   private decrypt(encrypted: EncryptedData): string {
-    const key = this.deriveKey();
-    const iv = Buffer.from(encrypted.iv, "hex");
-    const authTag = Buffer.from(encrypted.authTag, "hex");
-
-    const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
-    decipher.setAuthTag(authTag);
-
-    let decrypted = decipher.update(encrypted.data, "hex", "utf8");
-    decrypted += decipher.final("utf8");
-
-    return decrypted;
+    return decrypt(encrypted, deriveKey(this.sessionDir));
   }
 
   /**
@@ -0,0 +1,211 @@
+/**
+ * Purdue Brightspace MCP Server
+ * Copyright (c) 2026 Rohan Muppa. All rights reserved.
+ * Licensed under AGPL-3.0 — see LICENSE file for details.
+ */
+
+import type { Page } from "playwright";
+import { BrowserAuthError } from "../utils/errors.js";
+import { log } from "../utils/logger.js";
+
+/**
+ * A school's login flow. BrowserAuth navigates to /d2l/home and, if redirected,
+ * hands the page to login() (saved credentials) or manualLogin() (user types them).
+ */
+export interface SSOFlow {
+  readonly name: string;
+  /** Matches the URL Brightspace lands on once login has completed */
+  readonly successUrl: RegExp;
+  hasCredentials(): boolean;
+  login(page: Page): Promise<boolean>;
+  manualLogin(page: Page): Promise<boolean>;
+}
+
+export interface SSOFlowConfig {
+  username?: string;
+  password?: string;
+  /** SAML IdP entity ID used to skip the Brightspace campus selector */
+  entityId?: string;
+}
+
+export interface SSOSelectors {
+  usernameInput: string;
+  passwordInput: string;
+  /** "Next" button for IdPs that ask for the username and password on separate pages */
+  nextButton?: string;
+  submitButton: string;
+  staySignedInYes?: string;
+}
+
+const DEFAULT_SUCCESS_URL = /\/d2l\/home/;
+
+/**
+ * Shared username/password flow: campus selector → credentials → MFA →
+ * "stay signed in" → wait for the success URL. Providers supply selectors and
+ * override the steps that differ (MFA prompts, how the IdP is reached).
+ */
+export abstract class CredentialSSOFlow implements SSOFlow {
+  abstract readonly name: string;
+  readonly successUrl: RegExp = DEFAULT_SUCCESS_URL;
+  protected abstract readonly selectors: SSOSelectors;
+  protected readonly defaultEntityId?: string;
+  protected config: SSOFlowConfig;
+
+  constructor(config: SSOFlowConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Returns true if credentials are available for automated SSO login.
+   */
+  hasCredentials(): boolean {
+    return Boolean(this.config.username && this.config.password);
+  }
+
+  /**
+   * Execute the complete login flow with saved credentials.
+   *
+   * @param page - Playwright page instance (already navigated to Brightspace or redirected to login)
+   * @returns true on successful login (URL matches successUrl), false on timeout/failure
+   */
+  async login(page: Page): Promise<boolean> {
+    try {
+      log("INFO", `Starting ${this.name} SSO login flow`);
+
+      // Step 1: Get past the Brightspace campus selector to the IdP
+      await this.navigateToLogin(page);
+
+      // Step 2: Enter username + password
+      await this.enterCredentials(page);
+
+      // Step 3: Handle MFA (push approval, number matching, ...)
+      await this.handleMFA(page);
+
+      // Step 4: Handle "Stay signed in?" prompt
+      await this.handleStaySignedIn(page);
+
+      // Step 5: Wait for successful redirect to Brightspace home
+      await page.waitForURL(this.successUrl, { timeout: 120000 });
+      log("INFO", "Login successful - reached Brightspace home");
+
+      return true;
+    } catch (error) {
+      log("ERROR", "SSO login flow failed", error);
+      return false;
+    }
+  }
+
+  /**
+   * Manual login fallback: let the user type credentials and complete MFA themselves.
+   * The browser stays open in headed mode while we wait for the success URL.
+   */
+  async manualLogin(page: Page): Promise<boolean> {
+    try {
+      log("INFO", "Starting manual login flow (no saved credentials)");
+      log("INFO", "Please log in using the browser window that just opened.");
+
+      await this.navigateToLogin(page);
+
+      // Wait up to 5 minutes for the user to complete login manually
+      log("INFO", "Waiting up to 5 minutes for you to complete login and MFA...");
+      await page.waitForURL(this.successUrl, { timeout: 300000 });
+      log("INFO", "Manual login successful - reached Brightspace home");
+
+      return true;
+    } catch (error) {
+      log("ERROR", "Manual login flow failed or timed out", error);
+      return false;
+    }
+  }
+
+  /**
+   * Skip the campus selector on /d2l/login by initiating SAML login for the
+   * configured IdP. Without an entity ID the page is left alone — many schools
+   * redirect to their IdP automatically.
+   */
+  protected async navigateToLogin(page: Page): Promise<void> {
+    const entityId = this.config.entityId ?? this.defaultEntityId;
+    const currentUrl = page.url();
+    if (!entityId || !currentUrl.includes("/d2l/login")) {
+      return;
+    }
+
+    // Campus selector buttons are inside a shadow DOM — navigate directly
+    // to the SAML endpoint instead of clicking them
+    const baseUrl = new URL(currentUrl).origin;
+    log("INFO", `Campus selector detected — navigating directly to IdP ${entityId}`);
+    await page.goto(
+      `${baseUrl}/d2l/lp/auth/saml/initiate-login?entityId=${encodeURIComponent(entityId)}`,
+      { waitUntil: "networkidle", timeout: 30000 }
+    );
+  }
+
+  protected async enterCredentials(page: Page): Promise<void> {
+    const { selectors } = this;
+    try {
+      log("DEBUG", `Waiting for ${this.name} login form`);
+      await page.waitForSelector(selectors.usernameInput, { timeout: 30000 });
+
+      if (!this.config.username) {
+        throw new BrowserAuthError("Username is required for SSO login", "credentials");
+      }
+
+      if (!this.config.password) {
+        throw new BrowserAuthError("Password is required for SSO login", "credentials");
+      }
+
+      log("INFO", "Entering credentials");
+      await page.fill(selectors.usernameInput, this.config.username);
+
+      // Two-step forms: submit the username, then wait for the password page
+      if (selectors.nextButton && !(await page.isVisible(selectors.passwordInput))) {
+        await page.click(selectors.nextButton);
+        await page.waitForSelector(selectors.passwordInput, { state: "visible", timeout: 30000 });
+      }
+
+      await page.fill(selectors.passwordInput, this.config.password);
+      await page.click(selectors.submitButton);
+      await page.waitForLoadState("networkidle");
+    } catch (error) {
+      if (error instanceof BrowserAuthError) throw error;
+      throw new BrowserAuthError("Failed to enter credentials", "credentials", error as Error);
+    }
+  }
+
+  protected async handleMFA(page: Page): Promise<void> {
+    try {
+      log("WARN", "Waiting for MFA approval on your device...");
+      log("INFO", "Timeout: 120 seconds");
+      log("INFO", "Browser is running in headed mode - please approve the MFA request on your phone");
+
+      // The page redirects by itself once MFA is approved — just wait for it
+      await page.waitForLoadState("networkidle", { timeout: 120000 });
+      log("INFO", "MFA approval detected");
+    } catch (error) {
+      throw new BrowserAuthError(
+        "MFA approval timed out after 120 seconds",
+        "mfa_approval",
+        error as Error
+      );
+    }
+  }
+
+  protected async handleStaySignedIn(page: Page): Promise<void> {
+    if (!this.selectors.staySignedInYes) return;
+
+    try {
+      log("DEBUG", "Checking for 'Stay signed in?' prompt");
+      const staySignedInButton = await page.waitForSelector(this.selectors.staySignedInYes, {
+        timeout: 10000,
+      });
+      if (staySignedInButton) {
+        log("INFO", "Clicking 'Yes' on 'Stay signed in?' prompt");
+        await staySignedInButton.click();
+        await page.waitForLoadState("networkidle");
+      }
+    } catch {
+      // Prompt may not appear - this is normal
+      log("DEBUG", "No 'Stay signed in?' prompt found (this is normal)");
+    }
+  }
+}
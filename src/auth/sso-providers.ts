@@ -0,0 +1,35 @@
+/**
+ * Purdue Brightspace MCP Server
+ * Copyright (c) 2026 Rohan Muppa. All rights reserved.
+ * Licensed under AGPL-3.0 — see LICENSE file for details.
+ */
+
+import type { SSOFlow, SSOFlowConfig } from "./sso-flow.js";
+import { PurdueSSOFlow } from "./purdue-sso.js";
+import { AzureADSSOFlow } from "./azure-ad-sso.js";
+import { OktaSSOFlow } from "./okta-sso.js";
+import { D2LFormSSOFlow } from "./d2l-form-sso.js";
+import { ManualSSOFlow } from "./manual-sso.js";
+import type { SSOProvider } from "../types/index.js";
+
+/**
+ * Login flows selectable via `ssoProvider` in config.json or D2L_SSO_PROVIDER.
+ * To support a new IdP, subclass CredentialSSOFlow and add it here.
+ */
+const SSO_FLOWS: Record<SSOProvider, new (config: SSOFlowConfig) => SSOFlow> = {
+  purdue: PurdueSSOFlow,
+  "azure-ad": AzureADSSOFlow,
+  okta: OktaSSOFlow,
+  d2l: D2LFormSSOFlow,
+  manual: ManualSSOFlow,
+};
+
+export const SSO_PROVIDERS = Object.keys(SSO_FLOWS) as SSOProvider[];
+
+export function isSSOProvider(name: string): name is SSOProvider {
+  return Object.hasOwn(SSO_FLOWS, name);
+}
+
+export function createSSOFlow(provider: SSOProvider, config: SSOFlowConfig): SSOFlow {
+  return new SSO_FLOWS[provider](config);
+}
@@ -0,0 +1,81 @@
+#!/usr/bin/env node
+/**
+ * Brightspace MCP Server
+ * Copyright (c) 2026 Rohan Muppa. All rights reserved.
+ * Licensed under AGPL-3.0 — see LICENSE file for details.
+ *
+ * https://github.com/rohanmuppa/brightspace-mcp-server
+ */
+
+// brightspace-mcp-server export-ics [--out FILE] [--days N] [--course ID] [--reminder MINUTES] [--profile NAME]
+// Writes upcoming due dates to an .ics file for Google Calendar / Outlook subscriptions.
+// Re-run it on a schedule (cron, Task Scheduler) to keep a subscribed calendar current.
+
+import * as path from "node:path";
+import { parseArgs } from "node:util";
+import dotenv from "dotenv";
+import { loadConfig } from "./utils/config.js";
+import { createServerContext } from "./server.js";
+import { buildCalendar } from "./utils/ics.js";
+import {
+  collectDueDateEvents,
+  validateCalendarPath,
+  writeCalendarFile,
+} from "./tools/export-calendar.js";
+
+dotenv.config({ quiet: true });
+
+function parseIntegerFlag(name: string, value: string | undefined, fallback: number): number {
+  if (value === undefined) return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new Error(`--${name} must be a non-negative integer (got "${value}")`);
+  }
+  return parsed;
+}
+
+async function main(): Promise<void> {
+  try {
+    const { values } = parseArgs({
+      args: process.argv.slice(3),
+      options: {
+        out: { type: "string", short: "o" },
+        days: { type: "string" },
+        course: { type: "string" },
+        reminder: { type: "string" },
+        profile: { type: "string" }, // read by loadConfig()
+      },
+    });
+
+    const outputPath = path.resolve(values.out ?? "brightspace.ics");
+    const daysAhead = Math.min(Math.max(parseIntegerFlag("days", values.days, 120), 1), 365);
+    const courseId = values.course !== undefined ? parseIntegerFlag("course", values.course, 0) || undefined : undefined;
+    const reminderMinutes = parseIntegerFlag("reminder", values.reminder, 1440);
+
+    const pathError = validateCalendarPath(outputPath);
+    if (pathError) {
+      throw new Error(pathError);
+    }
+
+    const config = loadConfig();
+    const { apiClient, enrollments, tokenManager } = await createServerContext(config);
+    if (!(await tokenManager.getToken())) {
+      console.error("Not authenticated. Run `npx brightspace-mcp-server auth` first.");
+      process.exit(1);
+    }
+
+    const events = await collectDueDateEvents(apiClient, enrollments, config, { daysAhead, courseId });
+    await writeCalendarFile(
+      outputPath,
+      buildCalendar(events, { name: "Brightspace Due Dates", reminderMinutes })
+    );
+
+    console.log(`Wrote ${events.length} events (next ${daysAhead} days) to ${outputPath}`);
+    process.exit(0);
+  } catch (error) {
+    console.error("Calendar export failed:", error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+}
+
+main();
@@ -7,26 +7,12 @@
  * https://github.com/rohanmuppa/brightspace-mcp-server
  */
 
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { enableStdoutGuard, log } from "./utils/logger.js";
 import { loadConfig } from "./utils/config.js";
-import { TokenManager, AuthRunner } from "./auth/index.js";
-import { D2LApiClient } from "./api/index.js";
-import { initUpdateChecker, getUpdateNotice } from "./utils/update-checker.js";
-import {
-  registerGetMyCourses,
-  registerGetUpcomingDueDates,
-  registerGetMyGrades,
-  registerGetAnnouncements,
-  registerGetAssignments,
-  registerGetCourseContent,
-  registerDownloadFile,
-  registerGetClasslistEmails,
-  registerGetRoster,
-  registerGetSyllabus,
-  registerGetDiscussions,
-} from "./tools/index.js";
+import { initUpdateChecker } from "./utils/update-checker.js";
+import { createServerContext, createMcpServer, SERVER_VERSION, TOOL_COUNT } from "./server.js";
+import type { ServerContext } from "./server.js";
 
 // ── Subcommand routing (before any MCP initialization) ──────────────
 const subcommand = process.argv[2];
@@ -35,6 +21,14 @@ if (subcommand === 'setup') {
   await import('./setup.js');
 } else if (subcommand === 'auth') {
   await import('./auth-cli.js');
+} else if (subcommand === 'export-ics') {
+  await import('./export-ics.js');
+} else if (subcommand === 'sync') {
+  await import('./sync-content.js');
+} else if (subcommand === 'serve') {
+  await import('./serve-http.js');
+} else if (subcommand === 'watch') {
+  await import('./watch.js');
 } else {
   // ── MCP Server (default) ────────────────────────────────────────────
 
@@ -50,39 +44,20 @@ if (subcommand === 'setup') {
     try {
       // Load configuration
       const config = loadConfig();
-      log("DEBUG", "Configuration loaded", { sessionDir: config.sessionDir });
+      log("DEBUG", "Configuration loaded", { profile: config.profile, sessionDir: config.sessionDir });
 
-      // Create MCP server instance
-      const server = new McpServer({
-        name: "brightspace",
-        version: "1.1.2",
-        description: "Brightspace MCP Server — by Rohan Muppa (github.com/rohanmuppa/brightspace-mcp-server)",
-      });
       log("INFO", "");
       log("INFO", "========================================");
-      log("INFO", "  Brightspace MCP Server v1.1.2");
+      log("INFO", `  Brightspace MCP Server v${SERVER_VERSION}`);
       log("INFO", "  By Rohan Muppa — ECE @ Purdue");
       log("INFO", "  github.com/rohanmuppa/brightspace-mcp-server");
       log("INFO", "========================================");
       log("INFO", "");
 
-      // Create TokenManager for reading cached tokens
-      const tokenManager = new TokenManager(config.sessionDir);
-
-      // Create AuthRunner for auto-reauthentication
-      const authRunner = new AuthRunner();
-
-      // Create D2L API Client with auto-reauth support
-      const apiClient = new D2LApiClient({
-        baseUrl: config.baseUrl,
-        tokenManager,
-        onAuthExpired: () => authRunner.run(),
-      });
-
-      // Initialize API client (discover API versions)
+      // Create D2L API Client with auto-reauth support and discover API versions
+      let context: ServerContext;
       try {
-        await apiClient.initialize();
-        log("INFO", "D2L API Client initialized");
+        context = await createServerContext(config);
       } catch (error) {
         log("ERROR", "Failed to initialize D2L API Client", error);
         log("ERROR", "MCP server cannot start without API initialization. Exiting.");
@@ -92,66 +67,6 @@ if (subcommand === 'setup') {
       // Start background update check (fire and forget)
       initUpdateChecker();
 
-      // Register check_auth tool (no input schema needed for zero-argument tool)
-      server.registerTool(
-        "check_auth",
-        {
-          title: "Check Authentication Status",
-          description:
-            "Check if you are authenticated with Brightspace. " +
-            "Run the brightspace-auth CLI first to authenticate. " +
-            "Use this when the user asks if they're logged in, if authentication is working, " +
-            "or when other tools return auth errors.",
-        },
-        async () => {
-          log("DEBUG", "check_auth tool called");
-
-          let token = await tokenManager.getToken();
-
-          if (!token) {
-            log("INFO", "check_auth: No valid token, attempting auto-reauthentication...");
-
-            const success = await authRunner.run();
-            if (success) {
-              token = await tokenManager.getToken();
-            }
-
-            if (!token) {
-              log("INFO", "check_auth: Auto-reauthentication failed or produced no valid token");
-
-              const content: Array<{ type: "text"; text: string }> = [
-                {
-                  type: "text",
-                  text: "Not authenticated. Auto-reauthentication was attempted but failed. " +
-                    "Please run `brightspace-auth` manually in your terminal to log in. " +
-                    "Make sure your credentials in .env are correct and your internet connection is stable.",
-                },
-              ];
-              const notice = getUpdateNotice();
-              if (notice) content.push({ type: "text", text: notice });
-              return { content };
-            }
-
-            log("INFO", "check_auth: Auto-reauthentication succeeded");
-          }
-
-          const expiresIn = Math.round((token.expiresAt - Date.now()) / 1000 / 60);
-          log("INFO", `check_auth: Token valid, expires in ~${expiresIn} minutes`);
-
-          const content: Array<{ type: "text"; text: string }> = [
-            {
-              type: "text",
-              text: `Authenticated with Brightspace. Token expires in ~${expiresIn} minutes. Source: ${token.source}.`,
-            },
-          ];
-          const notice = getUpdateNotice();
-          if (notice) content.push({ type: "text", text: notice });
-          return { content };
-        }
-      );
-
-      log("DEBUG", "check_auth tool registered");
-
       // Log active course filter config if any filter is set
       if (config.courseFilter.includeCourseIds || config.courseFilter.excludeCourseIds || !config.courseFilter.activeOnly) {
         log("DEBUG", "Course filter config", {
@@ -161,25 +76,14 @@ if (subcommand === 'setup') {
         });
       }
 
-      // Register MCP tools
-      registerGetMyCourses(server, apiClient, config);
-      registerGetUpcomingDueDates(server, apiClient, config);
-      registerGetMyGrades(server, apiClient, config);
-      registerGetAnnouncements(server, apiClient, config);
-      registerGetAssignments(server, apiClient, config);
-      registerGetCourseContent(server, apiClient);
-      registerDownloadFile(server, apiClient);
-      registerGetClasslistEmails(server, apiClient);
-      registerGetRoster(server, apiClient);
-      registerGetSyllabus(server, apiClient);
-      registerGetDiscussions(server, apiClient);
-      log("DEBUG", "MCP tools registered (11 core tools, total 12 with check_auth)");
+      // Create MCP server instance with all tools registered
+      const server = createMcpServer(context);
 
       // Connect stdio transport
       const transport = new StdioServerTransport();
       await server.connect(transport);
 
-      log("INFO", "Brightspace MCP Server by Rohan Muppa — running on stdio (12 tools registered)");
+      log("INFO", `Brightspace MCP Server by Rohan Muppa — running on stdio (${TOOL_COUNT} tools registered)`);
       log("INFO", "Setup: see README.md for MCP client configuration (Claude Desktop, ChatGPT Desktop, Cursor, etc.)");
     } catch (error) {
       log("ERROR", "MCP Server failed to start", error);
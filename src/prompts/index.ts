@@ -0,0 +1,8 @@
+/**
+ * Purdue Brightspace MCP Server
+ * Copyright (c) 2026 Rohan Muppa. All rights reserved.
+ * Licensed under AGPL-3.0 — see LICENSE file for details.
+ */
+
+// Prompt registration functions - barrel export
+export { registerStudentPrompts } from "./student-prompts.js";
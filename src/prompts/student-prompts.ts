@@ -0,0 +1,165 @@
+/**
+ * Purdue Brightspace MCP Server
+ * Copyright (c) 2026 Rohan Muppa. All rights reserved.
+ * Licensed under AGPL-3.0 — see LICENSE file for details.
+ */
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { completable } from "@modelcontextprotocol/sdk/server/completable.js";
+import type { GetPromptResult } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import type { EnrollmentService } from "../api/index.js";
+import { completeCourseIds } from "../utils/course-filter.js";
+import { log } from "../utils/logger.js";
+
+// Prompt arguments always arrive as strings
+const CourseIdSchema = z.string().regex(/^\d+$/, "Course ID must be a number");
+const DaysSchema = z.string().regex(/^\d+$/, "Must be a whole number of days").optional();
+const DateSchema = z.string()
+  .refine((value) => !Number.isNaN(Date.parse(value)), "Must be a date like 2026-01-15")
+  .optional();
+
+function userMessage(text: string): GetPromptResult {
+  return {
+    messages: [{ role: "user", content: { type: "text", text } }],
+  };
+}
+
+/**
+ * Register prompts for common student workflows. Each one expands to
+ * step-by-step instructions that drive the existing tools.
+ */
+export function registerStudentPrompts(
+  server: McpServer,
+  enrollments: EnrollmentService
+): void {
+  const completeCourseId = async (value: string | undefined): Promise<string[]> => {
+    try {
+      return completeCourseIds(await enrollments.listCourses(), value ?? "");
+    } catch (error) {
+      log("DEBUG", "Course ID completion failed", error);
+      return [];
+    }
+  };
+
+  server.registerPrompt(
+    "weekly_plan",
+    {
+      title: "Weekly Plan",
+      description: "Build a day-by-day plan for the coming week from everything due across your courses.",
+      argsSchema: {
+        days: DaysSchema.describe("How many days to plan (default 7)."),
+      },
+    },
+    ({ days }) => {
+      const daysAhead = Math.min(Math.max(Number(days ?? 7), 1), 90);
+      log("DEBUG", "weekly_plan prompt requested", { daysAhead });
+      return userMessage(
+        [
+          `Help me plan the next ${daysAhead} days of coursework.`,
+          "",
+          `1. Call get_upcoming_due_dates with daysAhead ${daysAhead} to see everything due.`,
+          "2. Call get_assignments to check which of those I've already submitted and how much each is worth.",
+          "3. Call get_announcements to catch any deadline changes or exam reminders from the last few days.",
+          "",
+          "Then give me a day-by-day plan: what to work on each day, starting early enough on big or heavily weighted items. " +
+            "Skip anything already submitted, call out anything overdue first, and keep each day realistic.",
+        ].join("\n")
+      );
+    }
+  );
+
+  server.registerPrompt(
+    "exam_prep",
+    {
+      title: "Exam Prep",
+      description: "Put together a study guide for an upcoming exam in one course.",
+      argsSchema: {
+        courseId: completable(CourseIdSchema.describe("Course ID to prepare for."), completeCourseId),
+        exam: z.string().optional().describe("Which exam, e.g. 'Midterm 2' (default: the next one)."),
+      },
+    },
+    ({ courseId, exam }) => {
+      log("DEBUG", "exam_prep prompt requested", { courseId, exam });
+      const target = exam ? `"${exam}"` : "the next exam";
+      return userMessage(
+        [
+          `Help me prepare for ${target} in course ${courseId}.`,
+          "",
+          `1. Call get_syllabus with courseId ${courseId} to find what the exam covers and how much it's worth.`,
+          `2. Call get_announcements with courseId ${courseId} for exam logistics and any topics the instructor flagged.`,
+          `3. Call get_course_content with courseId ${courseId} to find the lectures, notes and practice material for the covered modules. ` +
+            "Use read_course_file on the most relevant files (review sheets, practice exams, lecture slides).",
+          `4. Call get_assignments with courseId ${courseId} and review feedback on related homework and quizzes ` +
+            "(get_assignment_feedback, get_quiz_attempt) to find the topics I got wrong.",
+          "",
+          "Then write a study guide: the topics covered, the key concepts for each, the weak spots from my past work, " +
+            "and a short study schedule leading up to the exam date.",
+        ].join("\n")
+      );
+    }
+  );
+
+  server.registerPrompt(
+    "grade_check",
+    {
+      title: "Grade Check",
+      description: "Review where you stand in every course (or one course) and what you need on the rest.",
+      argsSchema: {
+        courseId: completable(
+          CourseIdSchema.optional().describe("Course ID to check (default: all courses)."),
+          completeCourseId
+        ),
+      },
+    },
+    ({ courseId }) => {
+      log("DEBUG", "grade_check prompt requested", { courseId });
+      const scope = courseId ? `course ${courseId}` : "each of my courses";
+      return userMessage(
+        [
+          `Give me an honest check-in on my grades in ${scope}.`,
+          "",
+          courseId
+            ? `1. Call get_my_grades with courseId ${courseId}.`
+            : "1. Call get_my_grades for all courses.",
+          "2. For each course with a final grade scheme, call project_final_grade to see what I need on the remaining work for each letter grade.",
+          "3. Call get_assignments to find anything missing or not yet graded.",
+          "",
+          "Then summarize: current grade per course, which courses need attention and why, " +
+            "and the specific upcoming items that will move my grade the most.",
+        ].join("\n")
+      );
+    }
+  );
+
+  server.registerPrompt(
+    "catch_up_on_course",
+    {
+      title: "Catch Up on a Course",
+      description: "Get back on track in a course after falling behind: what changed, what you missed and what's due.",
+      argsSchema: {
+        courseId: completable(CourseIdSchema.describe("Course ID to catch up on."), completeCourseId),
+        since: DateSchema.describe("Catch up on everything since this date, e.g. 2026-01-15 (default: since your last check)."),
+      },
+    },
+    ({ courseId, since }) => {
+      log("DEBUG", "catch_up_on_course prompt requested", { courseId, since });
+      const sinceIso = since ? new Date(since).toISOString() : undefined;
+      return userMessage(
+        [
+          `I've fallen behind in course ${courseId}${since ? ` since ${since}` : ""}. Help me catch up.`,
+          "",
+          sinceIso
+            ? `1. Call get_whats_new with courseId ${courseId} and since "${sinceIso}".`
+            : `1. Call get_whats_new with courseId ${courseId}.`,
+          `2. Call get_announcements with courseId ${courseId} and read the ones from that period.`,
+          `3. Call get_content_progress with courseId ${courseId} to find the lectures and readings I haven't opened.`,
+          `4. Call get_assignments with courseId ${courseId} and get_upcoming_due_dates with courseId ${courseId} to find missed and upcoming work.`,
+          "",
+          "Then give me a catch-up plan: the important announcements in a few bullets, missed work I can still submit, " +
+            "the content to go through in order, and what's due next.",
+        ].join("\n")
+      );
+    }
+  );
+}
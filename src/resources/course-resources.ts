@@ -0,0 +1,423 @@
+/**
+ * Purdue Brightspace MCP Server
+ * Copyright (c) 2026 Rohan Muppa. All rights reserved.
+ * Licensed under AGPL-3.0 — see LICENSE file for details.
+ */
+
+import { createHash } from "node:crypto";
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  ErrorCode,
+  McpError,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import type { ReadResourceResult } from "@modelcontextprotocol/sdk/types.js";
+import { D2LApiClient, ApiError, DEFAULT_CACHE_TTLS, pathMatchesPrefixes } from "../api/index.js";
+import type { EnrollmentService } from "../api/index.js";
+import { sanitizeError } from "../tools/tool-helpers.js";
+import { fetchSyllabusAttachment } from "../tools/get-syllabus.js";
+import { fetchContentFile } from "../tools/download-file.js";
+import { newsAuthorName } from "../tools/get-announcements.js";
+import type { NewsAuthor } from "../tools/get-announcements.js";
+import { convertHtmlToMarkdown } from "../utils/html-converter.js";
+import { extractDocumentText } from "../utils/document-extractor.js";
+import { validateFileType } from "../utils/file-validator.js";
+import { completeCourseIds } from "../utils/course-filter.js";
+import { log } from "../utils/logger.js";
+import type { ContentObject } from "../tools/get-course-content.js";
+
+interface CourseOverview {
+  Description: { Text: string; Html: string } | null;
+}
+
+interface NewsItem {
+  Id: number;
+  Title: string;
+  Body: { Text: string; Html: string };
+  CreatedBy: NewsAuthor;
+  StartDate: string;
+  IsPublished: boolean;
+  IsPinned: boolean;
+}
+
+// Announcements included in the announcements resource, newest first
+const MAX_ANNOUNCEMENTS = 25;
+
+// How often the subscription poller wakes up; each resource is re-read on its own refreshMs
+const SUBSCRIPTION_POLL_MS = 60_000;
+
+/**
+ * One kind of course resource: its URI template, how to read it, the API
+ * paths whose invalidation means a subscribed copy is stale, and how often a
+ * subscribed copy is re-read to catch changes made elsewhere.
+ */
+interface CourseResourceKind {
+  name: string;
+  title: string;
+  description: string;
+  template: ResourceTemplate;
+  read: (uri: URL, variables: TemplateVariables) => Promise<ReadResourceResult>;
+  apiPaths: (variables: TemplateVariables) => string[];
+  refreshMs: number;
+}
+
+/** A subscribed URI and the hash of its contents when last read (null until the first read). */
+interface Subscription {
+  kind: CourseResourceKind;
+  variables: TemplateVariables;
+  apiPaths: string[];
+  hash: string | null;
+  checkedAt: number;
+}
+
+type TemplateVariables = Record<string, string | string[]>;
+
+/**
+ * Parse a numeric URI template variable.
+ * @throws McpError (InvalidParams) if it isn't a positive integer
+ */
+function idVariable(variables: TemplateVariables, name: string): number {
+  const raw = variables[name];
+  const id = Number(Array.isArray(raw) ? raw[0] : raw);
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid ${name} in resource URI`);
+  }
+  return id;
+}
+
+/**
+ * Turn an API failure into a JSON-RPC error with the same user-facing
+ * message a tool would return (see sanitizeError).
+ */
+function resourceError(error: unknown): McpError {
+  if (error instanceof McpError) return error;
+  const [first] = sanitizeError(error).content;
+  const message = first?.type === "text" ? first.text : "An unexpected error occurred.";
+  const code = error instanceof ApiError && (error.status === 403 || error.status === 404)
+    ? ErrorCode.InvalidParams
+    : ErrorCode.InternalError;
+  return new McpError(code, message);
+}
+
+async function readSyllabus(
+  apiClient: D2LApiClient,
+  uri: URL,
+  courseId: number
+): Promise<ReadResourceResult> {
+  let overview: CourseOverview | null = null;
+  try {
+    overview = await apiClient.get<CourseOverview>(
+      apiClient.le(courseId, "/overview"),
+      { ttl: DEFAULT_CACHE_TTLS.courseContent }
+    );
+  } catch (error) {
+    if (!(error instanceof ApiError && error.status === 404)) throw error;
+  }
+
+  const sections: string[] = ["# Syllabus"];
+  const description = overview?.Description?.Html
+    ? convertHtmlToMarkdown(overview.Description.Html).markdown
+    : "";
+  if (description) sections.push(description);
+
+  const attachment = await fetchSyllabusAttachment(apiClient, courseId);
+  if (typeof attachment === "string") {
+    sections.push(`_${attachment}_`);
+  } else if (attachment) {
+    const extracted = await extractDocumentText(attachment.data, attachment.filename);
+    sections.push(
+      extracted
+        ? `## ${attachment.filename}\n\n${extracted.text}`
+        : `_Attachment ${attachment.filename} can't be shown as text. Use download_file or get_syllabus to save it._`
+    );
+  }
+
+  if (sections.length === 1) {
+    sections.push("_No syllabus/overview found for this course._");
+  }
+
+  return {
+    contents: [{ uri: uri.href, mimeType: "text/markdown", text: sections.join("\n\n") }],
+  };
+}
+
+async function readAnnouncements(
+  apiClient: D2LApiClient,
+  uri: URL,
+  courseId: number
+): Promise<ReadResourceResult> {
+  const newsItems = await apiClient.get<NewsItem[]>(apiClient.le(courseId, "/news/"), {
+    ttl: DEFAULT_CACHE_TTLS.announcements,
+  });
+
+  const announcements = newsItems
+    .filter((item) => item.IsPublished)
+    .sort((a, b) => new Date(b.StartDate).getTime() - new Date(a.StartDate).getTime())
+    .slice(0, MAX_ANNOUNCEMENTS);
+
+  const text = announcements.length
+    ? announcements
+        .map((item) => {
+          const body = convertHtmlToMarkdown(item.Body.Html).markdown || item.Body.Text;
+          const pinned = item.IsPinned ? " (pinned)" : "";
+          const byline = [newsAuthorName(item.CreatedBy), item.StartDate].filter(Boolean).join(", ");
+          return `## ${item.Title}${pinned}\n_${byline}_\n\n${body}`;
+        })
+        .join("\n\n---\n\n")
+    : "_No announcements in this course._";
+
+  return {
+    contents: [{ uri: uri.href, mimeType: "text/markdown", text: `# Announcements\n\n${text}` }],
+  };
+}
+
+async function readContentTopic(
+  apiClient: D2LApiClient,
+  uri: URL,
+  courseId: number,
+  topicId: number
+): Promise<ReadResourceResult> {
+  const topic = await apiClient.get<ContentObject>(
+    apiClient.le(courseId, `/content/topics/${topicId}`),
+    { ttl: DEFAULT_CACHE_TTLS.courseContent }
+  );
+
+  const header = [`# ${topic.Title}`];
+  if (topic.DueDate) header.push(`Due: ${topic.DueDate}`);
+  const description = topic.Description?.Html
+    ? convertHtmlToMarkdown(topic.Description.Html).markdown
+    : "";
+  if (description) header.push(description);
+
+  // Links and HTML topics are described by their metadata
+  if (topic.TopicType !== 1) {
+    if (topic.Url) header.push(`Link: ${topic.Url}`);
+    return {
+      contents: [{ uri: uri.href, mimeType: "text/markdown", text: header.join("\n\n") }],
+    };
+  }
+
+  const file = await fetchContentFile(apiClient, courseId, topicId);
+  if (typeof file === "string") {
+    throw new McpError(ErrorCode.InvalidParams, file);
+  }
+
+  const extracted = await extractDocumentText(file.data, file.filename);
+  if (extracted) {
+    const more = extracted.truncated
+      ? `\n\n_Truncated. Use read_course_file with offset ${extracted.nextOffset} to continue._`
+      : "";
+    return {
+      contents: [{
+        uri: uri.href,
+        mimeType: "text/markdown",
+        text: `${header.join("\n\n")}\n\n## ${file.filename}\n\n${extracted.text}${more}`,
+      }],
+    };
+  }
+
+  // Images and other binary files are passed through as-is
+  let mimeType = "application/octet-stream";
+  try {
+    ({ mime: mimeType } = await validateFileType(file.data));
+  } catch (error) {
+    log("DEBUG", `Resource ${uri.href}: unrecognized file type for ${file.filename}`, error);
+  }
+  return {
+    contents: [{ uri: uri.href, mimeType, blob: file.data.toString("base64") }],
+  };
+}
+
+/**
+ * Register course resources — syllabus, announcements and content topics —
+ * and keep subscribers up to date. A client gets notifications/resources/updated
+ * when the API client invalidates a path a subscribed resource is built from
+ * (our own writes), or when re-reading the resource every refreshMs returns
+ * different contents (changes made in Brightspace).
+ */
+export function registerCourseResources(
+  server: McpServer,
+  apiClient: D2LApiClient,
+  enrollments: EnrollmentService
+): void {
+  const completeCourseId = async (value: string): Promise<string[]> => {
+    try {
+      return completeCourseIds(await enrollments.listCourses(), value);
+    } catch (error) {
+      log("DEBUG", "Course ID completion failed", error);
+      return [];
+    }
+  };
+
+  // One resource per enrolled course for the templates that have a list
+  const perCourse = (suffix: string, describe: (course: { name: string; code: string }) => string) =>
+    async () => {
+      const courses = await enrollments.listCourses();
+      return {
+        resources: courses.map((course) => ({
+          uri: `brightspace://course/${course.id}/${suffix}`,
+          name: `${course.code} ${suffix}`,
+          title: describe(course),
+          mimeType: "text/markdown",
+        })),
+      };
+    };
+
+  const kinds: CourseResourceKind[] = [
+    {
+      name: "course-syllabus",
+      title: "Course Syllabus",
+      description: "A course's syllabus/overview text plus the text of its syllabus attachment.",
+      template: new ResourceTemplate("brightspace://course/{courseId}/syllabus", {
+        list: perCourse("syllabus", (c) => `${c.name} — Syllabus`),
+        complete: { courseId: completeCourseId },
+      }),
+      read: (uri, v) => readSyllabus(apiClient, uri, idVariable(v, "courseId")),
+      apiPaths: (v) => [apiClient.le(idVariable(v, "courseId"), "/overview")],
+      refreshMs: DEFAULT_CACHE_TTLS.courseContent,
+    },
+    {
+      name: "course-announcements",
+      title: "Course Announcements",
+      description: `A course's ${MAX_ANNOUNCEMENTS} most recent announcements, newest first.`,
+      template: new ResourceTemplate("brightspace://course/{courseId}/announcements", {
+        list: perCourse("announcements", (c) => `${c.name} — Announcements`),
+        complete: { courseId: completeCourseId },
+      }),
+      read: (uri, v) => readAnnouncements(apiClient, uri, idVariable(v, "courseId")),
+      apiPaths: (v) => [apiClient.le(idVariable(v, "courseId"), "/news/")],
+      refreshMs: DEFAULT_CACHE_TTLS.announcements,
+    },
+    {
+      name: "course-content",
+      title: "Course Content Topic",
+      description:
+        "A content topic: its description and link, or the text of its file (PDF, Word, PowerPoint, Excel, HTML). Topic IDs come from get_course_content.",
+      // No list: enumerating every topic means crawling every course's content tree
+      template: new ResourceTemplate("brightspace://course/{courseId}/content/{topicId}", {
+        list: undefined,
+        complete: { courseId: completeCourseId },
+      }),
+      read: (uri, v) =>
+        readContentTopic(apiClient, uri, idVariable(v, "courseId"), idVariable(v, "topicId")),
+      apiPaths: (v) => [
+        apiClient.le(idVariable(v, "courseId"), `/content/topics/${idVariable(v, "topicId")}`),
+      ],
+      // Topic files are downloaded uncached, so don't re-read them more often than the tree is cached
+      refreshMs: DEFAULT_CACHE_TTLS.courseContent,
+    },
+  ];
+
+  for (const kind of kinds) {
+    server.registerResource(
+      kind.name,
+      kind.template,
+      { title: kind.title, description: kind.description, mimeType: "text/markdown" },
+      async (uri, variables) => {
+        try {
+          log("DEBUG", `Resource read: ${uri.href}`);
+          return await kind.read(uri, variables);
+        } catch (error) {
+          throw resourceError(error);
+        }
+      }
+    );
+  }
+
+  // Subscriptions: must be declared before the server connects
+  const subscribed = new Map<string, Subscription>();
+  server.server.registerCapabilities({ resources: { subscribe: true } });
+
+  const notifyUpdated = (uri: string) => {
+    log("DEBUG", `Resource updated: ${uri}`);
+    server.server.sendResourceUpdated({ uri }).catch((error) => {
+      log("DEBUG", `Could not notify subscriber of ${uri}`, error);
+    });
+  };
+
+  // Hash of a resource's current contents, or null if it can't be read right now
+  const readHash = async (uri: string, subscription: Subscription): Promise<string | null> => {
+    try {
+      const result = await subscription.kind.read(new URL(uri), subscription.variables);
+      return createHash("sha256").update(JSON.stringify(result.contents)).digest("hex");
+    } catch (error) {
+      log("DEBUG", `Could not re-read subscribed resource ${uri}`, error);
+      return null;
+    }
+  };
+
+  // Re-read one subscription; notify if it changed since the last successful read
+  const refresh = async (uri: string, subscription: Subscription): Promise<void> => {
+    subscription.checkedAt = Date.now();
+    const hash = await readHash(uri, subscription);
+    if (hash === null || subscribed.get(uri) !== subscription) return;
+    const previous = subscription.hash;
+    subscription.hash = hash;
+    if (previous !== null && previous !== hash) notifyUpdated(uri);
+  };
+
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    const { uri } = request.params;
+    for (const kind of kinds) {
+      const variables = kind.template.uriTemplate.match(uri);
+      if (!variables) continue;
+      let apiPaths: string[];
+      try {
+        apiPaths = kind.apiPaths(variables);
+      } catch {
+        return {}; // Malformed ID: reading it fails, so it can never change
+      }
+      const subscription: Subscription = { kind, variables, apiPaths, hash: null, checkedAt: 0 };
+      subscribed.set(uri, subscription);
+      log("DEBUG", `Resource subscribed: ${uri}`);
+      // Baseline to diff later reads against; usually a cache hit right after the client read it
+      void refresh(uri, subscription);
+      return {};
+    }
+    log("DEBUG", `Ignoring subscription to unknown resource: ${uri}`);
+    return {};
+  });
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscribed.delete(request.params.uri);
+    return {};
+  });
+
+  // Reads go through the API cache, so a poll only reaches Brightspace once the data's TTL ran out
+  let polling = false;
+  const poller = setInterval(async () => {
+    if (polling) return;
+    polling = true;
+    try {
+      const now = Date.now();
+      for (const [uri, subscription] of [...subscribed]) {
+        if (now - subscription.checkedAt >= subscription.kind.refreshMs) {
+          await refresh(uri, subscription);
+        }
+      }
+    } finally {
+      polling = false;
+    }
+  }, SUBSCRIPTION_POLL_MS);
+  poller.unref();
+
+  const stopListening = apiClient.onInvalidate((prefixes) => {
+    for (const [uri, subscription] of subscribed) {
+      if (subscription.apiPaths.some((p) => pathMatchesPrefixes(p, prefixes))) {
+        // The client re-reads now; take a fresh baseline on the next poll rather than notify twice
+        subscription.hash = null;
+        subscription.checkedAt = 0;
+        notifyUpdated(uri);
+      }
+    }
+  });
+
+  // The API client outlives this server (one per HTTP session), so drop the listener with it
+  const previousOnClose = server.server.onclose;
+  server.server.onclose = () => {
+    stopListening();
+    clearInterval(poller);
+    subscribed.clear();
+    previousOnClose?.();
+  };
+}
@@ -0,0 +1,8 @@
+/**
+ * Purdue Brightspace MCP Server
+ * Copyright (c) 2026 Rohan Muppa. All rights reserved.
+ * Licensed under AGPL-3.0 — see LICENSE file for details.
+ */
+
+// Resource registration functions - barrel export
+export { registerCourseResources } from "./course-resources.js";
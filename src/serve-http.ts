@@ -0,0 +1,191 @@
+#!/usr/bin/env node
+/**
+ * Brightspace MCP Server
+ * Copyright (c) 2026 Rohan Muppa. All rights reserved.
+ * Licensed under AGPL-3.0 — see LICENSE file for details.
+ *
+ * https://github.com/rohanmuppa/brightspace-mcp-server
+ */
+
+// brightspace-mcp-server serve --http [--port N] [--profile NAME]
+// Runs one long-lived server over Streamable HTTP on localhost so several MCP
+// clients share one API client, one cache and one Brightspace session.
+// Every request must carry "Authorization: Bearer <token>".
+
+import * as http from "node:http";
+import { randomUUID } from "node:crypto";
+import { parseArgs } from "node:util";
+import dotenv from "dotenv";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { loadConfig } from "./utils/config.js";
+import { log } from "./utils/logger.js";
+import { initUpdateChecker } from "./utils/update-checker.js";
+import { isAuthorized, loadOrCreateToken } from "./utils/http-auth.js";
+import {
+  createServerContext,
+  createMcpServer,
+  SERVER_VERSION,
+  TOOL_COUNT,
+  PROFILE_TOOL_COUNT,
+} from "./server.js";
+import type { ServerContext } from "./server.js";
+
+dotenv.config({ quiet: true });
+
+const HOST = "127.0.0.1";
+const DEFAULT_PORT = 3927;
+const MCP_PATH = "/mcp";
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+async function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error("Request body too large");
+    }
+    chunks.push(chunk);
+  }
+  return JSON.parse(Buffer.concat(chunks).toString("utf-8"));
+}
+
+function sendJsonRpcError(res: http.ServerResponse, status: number, message: string): void {
+  res.writeHead(status, { "Content-Type": "application/json" }).end(
+    JSON.stringify({ jsonrpc: "2.0", error: { code: -32000, message }, id: null })
+  );
+}
+
+/**
+ * Route /mcp requests to per-session transports. A new session (and McpServer)
+ * is created for each initialize request; all of them share one ServerContext,
+ * so the profile tools are left out — one client must not switch everyone's tenant.
+ */
+function createRequestHandler(context: ServerContext, token: string, port: number) {
+  const transports = new Map<string, StreamableHTTPServerTransport>();
+  const allowedHosts = [`${HOST}:${port}`, `localhost:${port}`];
+
+  const handler = async (req: http.IncomingMessage, res: http.ServerResponse): Promise<void> => {
+    try {
+      const { pathname } = new URL(req.url ?? "/", `http://${HOST}:${port}`);
+      if (pathname !== MCP_PATH) {
+        res.writeHead(404).end();
+        return;
+      }
+
+      if (!isAuthorized(req, token)) {
+        log("WARN", `Rejected unauthorized ${req.method} ${MCP_PATH} request`);
+        res.writeHead(401, { "WWW-Authenticate": "Bearer" });
+        res.end(JSON.stringify({ error: "Missing or invalid bearer token" }));
+        return;
+      }
+
+      const sessionId = req.headers["mcp-session-id"];
+      const existing = typeof sessionId === "string" ? transports.get(sessionId) : undefined;
+      const body = req.method === "POST" ? await readJsonBody(req) : undefined;
+
+      if (existing) {
+        await existing.handleRequest(req, res, body);
+        return;
+      }
+
+      if (sessionId) {
+        sendJsonRpcError(res, 404, "Session not found");
+        return;
+      }
+
+      if (req.method !== "POST" || !isInitializeRequest(body)) {
+        sendJsonRpcError(res, 400, "No valid session ID provided");
+        return;
+      }
+
+      const transport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        enableDnsRebindingProtection: true,
+        allowedHosts,
+        onsessioninitialized: (id) => {
+          transports.set(id, transport);
+          log("INFO", `MCP session ${id} opened (${transports.size} active)`);
+        },
+      });
+      transport.onclose = () => {
+        if (transport.sessionId && transports.delete(transport.sessionId)) {
+          log("INFO", `MCP session ${transport.sessionId} closed (${transports.size} active)`);
+        }
+      };
+
+      await createMcpServer(context, { profileTools: false }).connect(transport);
+      await transport.handleRequest(req, res, body);
+    } catch (error) {
+      log("ERROR", "HTTP request failed", error);
+      if (!res.headersSent) {
+        const message = error instanceof SyntaxError ? "Invalid JSON" : "Internal server error";
+        sendJsonRpcError(res, error instanceof SyntaxError ? 400 : 500, message);
+      }
+    }
+  };
+
+  const closeAll = async (): Promise<void> => {
+    await Promise.allSettled([...transports.values()].map((transport) => transport.close()));
+  };
+
+  return { handler, closeAll };
+}
+
+async function main(): Promise<void> {
+  try {
+    const { values } = parseArgs({
+      args: process.argv.slice(3),
+      options: {
+        http: { type: "boolean", default: false },
+        port: { type: "string", short: "p" },
+        profile: { type: "string" }, // read by loadConfig()
+      },
+    });
+
+    if (!values.http) {
+      throw new Error("serve currently supports only --http (run without a subcommand for stdio)");
+    }
+
+    const port = values.port ? Number(values.port) : DEFAULT_PORT;
+    if (!Number.isInteger(port) || port < 1 || port > 65535) {
+      throw new Error(`Invalid --port "${values.port}"`);
+    }
+
+    const config = loadConfig();
+    const context = await createServerContext(config);
+    const { token, source } = await loadOrCreateToken(config.sessionDir);
+    initUpdateChecker();
+
+    const { handler, closeAll } = createRequestHandler(context, token, port);
+    const server = http.createServer((req, res) => void handler(req, res));
+
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(port, HOST, () => resolve());
+    });
+
+    console.log(`Brightspace MCP Server v${SERVER_VERSION} — ${TOOL_COUNT - PROFILE_TOOL_COUNT} tools over Streamable HTTP`);
+    console.log(`  URL:   http://${HOST}:${port}${MCP_PATH}`);
+    console.log(`  Auth:  Authorization: Bearer <token from ${source}>`);
+    if (config.profile) {
+      console.log(`  Profile: ${config.profile}`);
+    }
+    console.log("Press Ctrl+C to stop.");
+
+    const shutdown = async (): Promise<void> => {
+      log("INFO", "Shutting down HTTP MCP server");
+      await closeAll();
+      server.close(() => process.exit(0));
+      server.closeAllConnections();
+    };
+    process.on("SIGINT", () => void shutdown());
+    process.on("SIGTERM", () => void shutdown());
+  } catch (error) {
+    console.error("Server failed to start:", error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+}
+
+main();
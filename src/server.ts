@@ -0,0 +1,231 @@
+/**
+ * Brightspace MCP Server
+ * Copyright (c) 2026 Rohan Muppa. All rights reserved.
+ * Licensed under AGPL-3.0 — see LICENSE file for details.
+ *
+ * https://github.com/rohanmuppa/brightspace-mcp-server
+ */
+
+// Server construction shared by the stdio entry point and `serve --http`.
+// A ServerContext (API client, cache, session) is created once per process;
+// createMcpServer() builds one McpServer on top of it per connected client.
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { log } from "./utils/logger.js";
+import { TokenManager, AuthRunner } from "./auth/index.js";
+import { D2LApiClient, DiskCache, EnrollmentService } from "./api/index.js";
+import type { TenantOptions } from "./api/index.js";
+import type { AppConfig } from "./types/index.js";
+import { getUpdateNotice } from "./utils/update-checker.js";
+import {
+  registerGetMyCourses,
+  registerGetUpcomingDueDates,
+  registerGetMyGrades,
+  registerGetAnnouncements,
+  registerGetAssignments,
+  registerGetCourseContent,
+  registerDownloadFile,
+  registerGetClasslistEmails,
+  registerGetRoster,
+  registerGetSyllabus,
+  registerGetDiscussions,
+  registerSubmitAssignment,
+  registerProjectFinalGrade,
+  registerExportCalendar,
+  registerSyncCourseContent,
+  registerSearchCourse,
+  registerListProfiles,
+  registerSwitchProfile,
+  registerGetWhatsNew,
+  registerGetAssignmentFeedback,
+  registerGetQuizAttempt,
+  registerGetMyGroups,
+  registerGetContentProgress,
+  registerReadCourseFile,
+  registerGetTranscriptSummary,
+  CheckAuthOutputSchema,
+} from "./tools/index.js";
+import type { CheckAuthOutput } from "./tools/index.js";
+import { registerCourseResources } from "./resources/index.js";
+import { registerStudentPrompts } from "./prompts/index.js";
+
+export const SERVER_VERSION = "1.1.2";
+
+// Total including check_auth
+export const TOOL_COUNT = 26;
+
+// list_profiles and switch_profile, which only stdio servers get (see McpServerOptions)
+export const PROFILE_TOOL_COUNT = 2;
+
+export interface McpServerOptions {
+  /**
+   * Register list_profiles and switch_profile. Off for `serve --http`, where every
+   * session shares one ServerContext and a switch would change every client's tenant.
+   */
+  profileTools?: boolean;
+}
+
+/**
+ * Process-wide state shared by every MCP session.
+ * tokenManager and authRunner belong to the active profile and are replaced by switch_profile.
+ */
+export interface ServerContext {
+  config: AppConfig;
+  apiClient: D2LApiClient;
+  enrollments: EnrollmentService;
+  tokenManager: TokenManager;
+  authRunner: AuthRunner;
+}
+
+interface Tenant {
+  options: TenantOptions;
+  tokenManager: TokenManager;
+  authRunner: AuthRunner;
+}
+
+function tenantFor(config: AppConfig): Tenant {
+  const tokenManager = new TokenManager(config.sessionDir);
+  const authRunner = new AuthRunner(config.profile);
+  const options: TenantOptions = {
+    baseUrl: config.baseUrl,
+    tokenManager,
+    diskCache: config.diskCache ? new DiskCache(config.sessionDir) : undefined,
+    onAuthExpired: () => authRunner.run(),
+  };
+  return { options, tokenManager, authRunner };
+}
+
+/**
+ * Create the API client for the configured profile and discover API versions.
+ * @throws if Brightspace can't be reached for version discovery
+ */
+export async function createServerContext(config: AppConfig): Promise<ServerContext> {
+  const { options, tokenManager, authRunner } = tenantFor(config);
+  const apiClient = new D2LApiClient(options);
+  await apiClient.initialize();
+  log("INFO", "D2L API Client initialized");
+
+  const enrollments = new EnrollmentService(apiClient, config);
+
+  return { config, apiClient, enrollments, tokenManager, authRunner };
+}
+
+/**
+ * Build an MCP server with every tool, resource and prompt registered against the shared context.
+ */
+export function createMcpServer(context: ServerContext, options: McpServerOptions = {}): McpServer {
+  const { config, apiClient, enrollments } = context;
+
+  const server = new McpServer({
+    name: "brightspace",
+    version: SERVER_VERSION,
+    description: "Brightspace MCP Server — by Rohan Muppa (github.com/rohanmuppa/brightspace-mcp-server)",
+  });
+
+  // Register check_auth tool (no input schema needed for zero-argument tool)
+  server.registerTool(
+    "check_auth",
+    {
+      title: "Check Authentication Status",
+      description:
+        "Check if you are authenticated with Brightspace. " +
+        "Run the brightspace-auth CLI first to authenticate. " +
+        "Use this when the user asks if they're logged in, if authentication is working, " +
+        "or when other tools return auth errors.",
+      outputSchema: CheckAuthOutputSchema,
+    },
+    async () => {
+      log("DEBUG", "check_auth tool called");
+
+      let token = await context.tokenManager.getToken();
+
+      if (!token) {
+        log("INFO", "check_auth: No valid token, attempting auto-reauthentication...");
+
+        const success = await context.authRunner.run();
+        if (success) {
+          token = await context.tokenManager.getToken();
+        }
+
+        if (!token) {
+          log("INFO", "check_auth: Auto-reauthentication failed or produced no valid token");
+
+          const status: CheckAuthOutput = {
+            authenticated: false,
+            expiresInMinutes: null,
+            source: null,
+            message: "Not authenticated. Auto-reauthentication was attempted but failed. " +
+              "Please run `brightspace-auth` manually in your terminal to log in. " +
+              "Make sure your credentials in .env are correct and your internet connection is stable.",
+          };
+          const content: Array<{ type: "text"; text: string }> = [{ type: "text", text: status.message }];
+          const notice = getUpdateNotice();
+          if (notice) content.push({ type: "text", text: notice });
+          return { content, structuredContent: status };
+        }
+
+        log("INFO", "check_auth: Auto-reauthentication succeeded");
+      }
+
+      const expiresIn = Math.round((token.expiresAt - Date.now()) / 1000 / 60);
+      log("INFO", `check_auth: Token valid, expires in ~${expiresIn} minutes`);
+
+      const status: CheckAuthOutput = {
+        authenticated: true,
+        expiresInMinutes: expiresIn,
+        source: token.source,
+        message: `Authenticated with Brightspace. Token expires in ~${expiresIn} minutes. Source: ${token.source}.`,
+      };
+      const content: Array<{ type: "text"; text: string }> = [{ type: "text", text: status.message }];
+      const notice = getUpdateNotice();
+      if (notice) content.push({ type: "text", text: notice });
+      return { content, structuredContent: status };
+    }
+  );
+
+  // Register MCP tools
+  registerGetMyCourses(server, enrollments);
+  registerGetUpcomingDueDates(server, apiClient, enrollments);
+  registerGetMyGrades(server, apiClient, enrollments);
+  registerGetAnnouncements(server, apiClient, enrollments);
+  registerGetAssignments(server, apiClient, enrollments);
+  registerGetAssignmentFeedback(server, apiClient, enrollments);
+  registerGetQuizAttempt(server, apiClient, enrollments);
+  registerGetMyGroups(server, apiClient, enrollments);
+  registerGetTranscriptSummary(server, apiClient, enrollments);
+  registerGetCourseContent(server, apiClient, enrollments);
+  registerGetContentProgress(server, apiClient, enrollments);
+  registerDownloadFile(server, apiClient, enrollments);
+  registerReadCourseFile(server, apiClient, enrollments);
+  registerGetClasslistEmails(server, apiClient, enrollments);
+  registerGetRoster(server, apiClient, enrollments);
+  registerGetSyllabus(server, apiClient, enrollments);
+  registerGetDiscussions(server, apiClient, enrollments);
+  registerSubmitAssignment(server, apiClient, enrollments);
+  registerProjectFinalGrade(server, apiClient, enrollments);
+  registerExportCalendar(server, apiClient, enrollments, config);
+  registerSyncCourseContent(server, apiClient, enrollments);
+  registerSearchCourse(server, apiClient, enrollments, config);
+  registerGetWhatsNew(server, apiClient, enrollments, config);
+  const profileTools = options.profileTools ?? true;
+  if (profileTools) {
+    registerListProfiles(server, config);
+    registerSwitchProfile(server, config, async (next) => {
+      const tenant = tenantFor(next);
+      await apiClient.switchTenant(tenant.options);
+      context.tokenManager = tenant.tokenManager;
+      context.authRunner = tenant.authRunner;
+      return { authenticated: Boolean(await context.tokenManager.getToken()) };
+    });
+  }
+  const toolCount = profileTools ? TOOL_COUNT : TOOL_COUNT - PROFILE_TOOL_COUNT;
+  log("DEBUG", `MCP tools registered (${toolCount - 1} core tools, total ${toolCount} with check_auth)`);
+
+  // Register MCP resources (course syllabus, announcements, content topics)
+  registerCourseResources(server, apiClient, enrollments);
+
+  // Register MCP prompts (weekly_plan, exam_prep, grade_check, catch_up_on_course)
+  registerStudentPrompts(server, enrollments);
+
+  return server;
+}
@@ -13,8 +13,17 @@ import * as path from "node:path";
 import * as os from "node:os";
 import { execFile } from "node:child_process";
 import { fileURLToPath } from "node:url";
-import { saveConfigStore, getConfigStorePath } from "./utils/config-store.js";
+import {
+  saveConfigStore,
+  getConfigStorePath,
+  saveProfile,
+  getProfilePath,
+  validateProfileName,
+} from "./utils/config-store.js";
+import { resolveProfileName } from "./utils/config.js";
 import type { ConfigStoreData } from "./utils/config-store.js";
+import { SSO_PROVIDERS, isSSOProvider } from "./auth/sso-providers.js";
+import type { SSOProvider } from "./types/index.js";
 
 // ANSI helpers
 const bold = (s: string) => `\x1b[1m${s}\x1b[0m`;
@@ -31,6 +40,7 @@ interface SchoolPreset {
   baseUrl: string;
   usernameLabel: string;
   mfaNote: string;
+  ssoProvider: SSOProvider;
 }
 
 const SCHOOL_PRESETS: Record<string, SchoolPreset> = {
@@ -39,13 +49,22 @@ const SCHOOL_PRESETS: Record<string, SchoolPreset> = {
     baseUrl: "https://purdue.brightspace.com",
     usernameLabel: "Purdue career account username",
     mfaNote: "Approve the Duo push on your phone.",
+    ssoProvider: "purdue",
   },
 };
 
 // Parse --purdue, --osu, etc. from argv
-const schoolFlag = process.argv.find((a) => a.startsWith("--"))?.replace(/^--/, "").toLowerCase();
+const schoolFlag = process.argv
+  .find((a) => a.startsWith("--") && !a.startsWith("--profile"))
+  ?.replace(/^--/, "")
+  .toLowerCase();
 const preset = schoolFlag ? SCHOOL_PRESETS[schoolFlag] : undefined;
 
+// --profile NAME saves to ~/.brightspace-mcp/profiles/NAME.json instead of config.json
+const profile = resolveProfileName();
+const profileArgs = profile ? ["--profile", profile] : [];
+const authCommand = ["brightspace-auth", ...profileArgs].join(" ");
+
 // ── Readline helpers ───────────────────────────────────────────────
 
 function ask(rl: readline.Interface, question: string): Promise<string> {
@@ -224,14 +243,16 @@ function configureMcpClient(configPath: string): boolean {
   // Add/update brightspace entry
   // On Windows, npx is a .cmd shim that must be invoked through cmd.exe
   const isWindows = process.platform === "win32";
-  config.mcpServers["brightspace"] = isWindows
+  // A profile gets its own entry so both accounts stay available side by side
+  const serverName = profile ? `brightspace-${profile}` : "brightspace";
+  config.mcpServers[serverName] = isWindows
     ? {
         command: "cmd",
-        args: ["/c", "npx", "-y", "brightspace-mcp-server@latest"],
+        args: ["/c", "npx", "-y", "brightspace-mcp-server@latest", ...profileArgs],
       }
     : {
         command: "npx",
-        args: ["-y", "brightspace-mcp-server@latest"],
+        args: ["-y", "brightspace-mcp-server@latest", ...profileArgs],
       };
 
   // Ensure parent directory exists
@@ -252,7 +273,7 @@ function runAuth(): Promise<boolean> {
   return new Promise((resolve) => {
     const child = execFile(
       process.execPath,
-      [scriptPath],
+      [scriptPath, ...profileArgs],
       {
         timeout: 3 * 60 * 1000,
         env: { ...process.env },
@@ -277,6 +298,10 @@ async function main(): Promise<void> {
   });
 
   console.log("");
+  if (profile) {
+    validateProfileName(profile);
+    console.log(dim(`  Profile: ${profile}`));
+  }
   if (preset) {
     console.log(bold(`Brightspace MCP Server — ${preset.name} Setup`));
     console.log("=".repeat(`Brightspace MCP Server — ${preset.name} Setup`.length));
@@ -350,11 +375,29 @@ async function main(): Promise<void> {
     output: process.stdout,
   });
 
-  // ── Step 4: MFA info ─────────────────────────────────────────────
+  // ── Step 4: Login system + MFA info ─────────────────────────────
+  let ssoProvider: SSOProvider;
   if (preset) {
+    ssoProvider = preset.ssoProvider;
     console.log(dim(`  MFA: ${preset.mfaNote}`));
   } else {
-    console.log(dim("  MFA: You will be prompted to approve via Duo on your phone during auth."));
+    const choices = SSO_PROVIDERS.filter((p) => p !== "purdue");
+    let answer = "";
+    while (!isSSOProvider(answer) || answer === "purdue") {
+      answer = (await ask(
+        rl2,
+        `Which login page does your school use? (${choices.join(", ")}) [manual]: `,
+      )).toLowerCase() || "manual";
+      if (!isSSOProvider(answer) || answer === "purdue") {
+        console.log(yellow(`  Please enter one of: ${choices.join(", ")}`));
+      }
+    }
+    ssoProvider = answer;
+    if (ssoProvider === "manual") {
+      console.log(dim("  A browser window will open and you'll sign in yourself (including MFA)."));
+    } else {
+      console.log(dim("  MFA: You will be prompted to approve on your phone during auth."));
+    }
   }
   console.log("");
 
@@ -363,10 +406,16 @@ async function main(): Promise<void> {
     baseUrl,
     username,
     password,
+    ssoProvider,
   };
 
-  saveConfigStore(config);
-  console.log(green("  Config saved to: " + getConfigStorePath()));
+  const configPath = profile ? getProfilePath(profile) : getConfigStorePath();
+  if (profile) {
+    saveProfile(profile, config);
+  } else {
+    saveConfigStore(config);
+  }
+  console.log(green("  Config saved to: " + configPath));
   console.log("");
 
   // ── Step 6: Authenticate now? ────────────────────────────────────
@@ -379,10 +428,10 @@ async function main(): Promise<void> {
     if (ok) {
       console.log(green("\n  Authentication successful!"));
     } else {
-      console.log(yellow("\n  Authentication failed. You can retry later with: brightspace-auth"));
+      console.log(yellow(`\n  Authentication failed. You can retry later with: ${authCommand}`));
     }
   } else {
-    console.log(dim("  You can authenticate later by running: brightspace-auth"));
+    console.log(dim(`  You can authenticate later by running: ${authCommand}`));
   }
   console.log("");
 
@@ -431,8 +480,8 @@ async function main(): Promise<void> {
   if (isChatGPTInstalled()) {
     const isWindows = process.platform === "win32";
     const mcpJson = isWindows
-      ? `{\n  "command": "cmd",\n  "args": ["/c", "npx", "-y", "brightspace-mcp-server@latest"]\n}`
-      : `{\n  "command": "npx",\n  "args": ["-y", "brightspace-mcp-server@latest"]\n}`;
+      ? JSON.stringify({ command: "cmd", args: ["/c", "npx", "-y", "brightspace-mcp-server@latest", ...profileArgs] }, null, 2)
+      : JSON.stringify({ command: "npx", args: ["-y", "brightspace-mcp-server@latest", ...profileArgs] }, null, 2);
     console.log(yellow("  ChatGPT Desktop detected."));
     console.log(dim("  ChatGPT doesn't support automatic MCP config — add it manually:"));
     console.log(dim("  1. Open ChatGPT Desktop → Settings → Tools → Add MCP tool → Add manually"));
@@ -447,10 +496,10 @@ async function main(): Promise<void> {
   // ── Final summary ────────────────────────────────────────────────
   console.log(bold("Setup complete!"));
   console.log("");
-  console.log(`  Config saved to: ${dim(getConfigStorePath())}`);
+  console.log(`  Config saved to: ${dim(configPath)}`);
   console.log("");
   console.log("  Next steps:");
-  console.log("  1. Run 'brightspace-auth' to authenticate (if you haven't already)");
+  console.log(`  1. Run '${authCommand}' to authenticate (if you haven't already)`);
   console.log("  2. Restart Claude Desktop");
   console.log("  3. Ask Claude about your Brightspace courses!");
   console.log("");
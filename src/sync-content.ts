@@ -0,0 +1,71 @@
+#!/usr/bin/env node
+/**
+ * Brightspace MCP Server
+ * Copyright (c) 2026 Rohan Muppa. All rights reserved.
+ * Licensed under AGPL-3.0 — see LICENSE file for details.
+ *
+ * https://github.com/rohanmuppa/brightspace-mcp-server
+ */
+
+// brightspace-mcp-server sync --course ID [--out DIR] [--module TITLE] [--force] [--profile NAME]
+// Mirrors a course's files to a local directory. Re-runs only fetch new or changed files.
+
+import * as path from "node:path";
+import { parseArgs } from "node:util";
+import dotenv from "dotenv";
+import { loadConfig } from "./utils/config.js";
+import { createServerContext } from "./server.js";
+import { syncCourseContent } from "./tools/sync-course-content.js";
+
+dotenv.config({ quiet: true });
+
+async function main(): Promise<void> {
+  try {
+    const { values } = parseArgs({
+      args: process.argv.slice(3),
+      options: {
+        course: { type: "string" },
+        out: { type: "string", short: "o" },
+        module: { type: "string" },
+        force: { type: "boolean", default: false },
+        profile: { type: "string" }, // read by loadConfig()
+      },
+    });
+
+    const courseId = Number(values.course);
+    if (!Number.isInteger(courseId) || courseId <= 0) {
+      throw new Error("--course <id> is required (find course IDs by asking your AI client for your courses)");
+    }
+    const targetDir = path.resolve(values.out ?? `brightspace-${courseId}`);
+
+    const config = loadConfig();
+    const { apiClient, tokenManager } = await createServerContext(config);
+    if (!(await tokenManager.getToken())) {
+      console.error("Not authenticated. Run `npx brightspace-mcp-server auth` first.");
+      process.exit(1);
+    }
+
+    console.log(`Syncing course ${courseId} to ${targetDir}...`);
+    const result = await syncCourseContent(apiClient, {
+      courseId,
+      targetDir,
+      moduleTitle: values.module,
+      force: values.force,
+    });
+
+    for (const file of result.downloaded) console.log(`  + ${file}`);
+    for (const file of result.updated) console.log(`  ~ ${file}`);
+    for (const { title, error } of result.failed) console.error(`  ! ${title}: ${error}`);
+    for (const file of result.removedFromCourse) console.log(`  - ${file} (no longer in course, kept locally)`);
+
+    console.log(
+      `\nDone: ${result.downloaded.length} new, ${result.updated.length} updated, ${result.unchanged} unchanged, ${result.failed.length} failed.`
+    );
+    process.exit(0);
+  } catch (error) {
+    console.error("Sync failed:", error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+}
+
+main();
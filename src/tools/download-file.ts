@@ -6,7 +6,9 @@
 
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { D2LApiClient } from "../api/index.js";
-import { DownloadFileSchema } from "./schemas.js";
+import type { EnrollmentService } from "../api/index.js";
+import { DownloadFileSchema, DownloadFileOutputSchema } from "./schemas.js";
+import type { DownloadFileOutput } from "./schemas.js";
 import { toolResponse, sanitizeError, errorResponse } from "./tool-helpers.js";
 import { log } from "../utils/logger.js";
 import {
@@ -16,6 +18,7 @@ import {
   MAX_FILE_SIZE,
 } from "../utils/file-validator.js";
 import { secureDownload } from "../utils/download-helpers.js";
+import { extractDocumentText } from "../utils/document-extractor.js";
 import fs from "node:fs/promises";
 import path from "node:path";
 
@@ -24,23 +27,26 @@ import path from "node:path";
  */
 export function registerDownloadFile(
   server: McpServer,
-  apiClient: D2LApiClient
+  apiClient: D2LApiClient,
+  enrollments: EnrollmentService
 ): void {
   server.registerTool(
     "download_file",
     {
       title: "Download File",
       description:
-        "Download a file from course content or assignment submissions to a local directory. Use this when the user wants to download, save, or get a file from Brightspace course content or dropbox submissions. IMPORTANT: You MUST ask the user where they want to save the file before calling this tool. Never guess or assume a download directory. After identifying the file to download, suggest a clean readable filename to the user (e.g., 'Lecture 7 - Memory Management.pdf' instead of 'L07_CS251_2026SP_v2.pdf') and ask if they'd like to rename it. Pass their preferred name as customFilename, or omit it to keep the original.",
+        "Download a file from course content or assignment submissions to a local directory. To just read or summarize a file, use read_course_file instead — it needs no directory. Use this when the user wants to download, save, or get a file from Brightspace course content or dropbox submissions. IMPORTANT: You MUST ask the user where they want to save the file before calling this tool. Never guess or assume a download directory. After identifying the file to download, suggest a clean readable filename to the user (e.g., 'Lecture 7 - Memory Management.pdf' instead of 'L07_CS251_2026SP_v2.pdf') and ask if they'd like to rename it. Pass their preferred name as customFilename, or omit it to keep the original. Set extractText to also read the file (PDF, Word, PowerPoint, Excel, plain text) so you can summarize or answer questions about it.",
       inputSchema: DownloadFileSchema,
+      outputSchema: DownloadFileOutputSchema,
     },
     async (args: any) => {
       try {
         log("DEBUG", "download_file tool called", { args });
 
         // Parse and validate input
-        const { courseId, topicId, folderId, fileId, downloadPath, customFilename } =
+        const { topicId, folderId, fileId, downloadPath, customFilename, extractText, ...courseRef } =
           DownloadFileSchema.parse(args);
+        const courseId = await enrollments.requireCourseRef(courseRef);
 
         // Validate courseId
         validateContentId(courseId);
@@ -78,7 +84,8 @@ export function registerDownloadFile(
             courseId,
             topicId,
             downloadPath,
-            customFilename
+            customFilename,
+            extractText
           );
         } else if (folderId !== undefined && fileId !== undefined) {
           // Submission file download
@@ -90,7 +97,8 @@ export function registerDownloadFile(
             folderId,
             fileId,
             downloadPath,
-            customFilename
+            customFilename,
+            extractText
           );
         } else {
           return errorResponse(
@@ -105,20 +113,16 @@ export function registerDownloadFile(
 }
 
 /**
- * Download a content file using topicId
+ * Fetch a content topic's file body and its Content-Disposition filename.
+ * Also used by sync_course_content.
+ *
+ * @returns The file, or an error message if it exceeds MAX_FILE_SIZE
  */
-async function downloadContentFile(
+export async function fetchContentFile(
   apiClient: D2LApiClient,
   courseId: number,
-  topicId: number,
-  downloadPath: string,
-  customFilename?: string
-): Promise<any> {
-  log(
-    "INFO",
-    `Downloading content file: courseId=${courseId}, topicId=${topicId}`
-  );
-
+  topicId: number
+): Promise<{ filename: string; data: Buffer } | string> {
   // Build download URL using D2L API path helper
   const apiPath = apiClient.le(courseId, `/content/topics/${topicId}/file`);
 
@@ -131,9 +135,7 @@ async function downloadContentFile(
     10
   );
   if (contentLength > MAX_FILE_SIZE) {
-    return errorResponse(
-      `File too large (${Math.round(contentLength / 1024 / 1024)}MB). Maximum allowed: ${MAX_FILE_SIZE / 1024 / 1024}MB`
-    );
+    return `File too large (${Math.round(contentLength / 1024 / 1024)}MB). Maximum allowed: ${MAX_FILE_SIZE / 1024 / 1024}MB`;
   }
 
   // Get filename from Content-Disposition header
@@ -147,57 +149,28 @@ async function downloadContentFile(
   log("DEBUG", `Content-Disposition filename: ${filename}`);
 
   // Download body as buffer
-  const buffer = Buffer.from(await response.arrayBuffer());
+  const data = Buffer.from(await response.arrayBuffer());
 
   // Double-check actual size
-  if (buffer.length > MAX_FILE_SIZE) {
-    return errorResponse(
-      `File too large (${Math.round(buffer.length / 1024 / 1024)}MB). Maximum allowed: ${MAX_FILE_SIZE / 1024 / 1024}MB`
-    );
+  if (data.length > MAX_FILE_SIZE) {
+    return `File too large (${Math.round(data.length / 1024 / 1024)}MB). Maximum allowed: ${MAX_FILE_SIZE / 1024 / 1024}MB`;
   }
 
-  // Use custom filename if provided, otherwise use Content-Disposition filename
-  const originalFilename = filename;
-  const effectiveFilename = customFilename || filename;
-
-  // Use secureDownload for path traversal prevention, file type validation, and conflict resolution
-  const result = await secureDownload({
-    targetDir: downloadPath,
-    filename: effectiveFilename,
-    data: buffer,
-  });
-
-  log(
-    "INFO",
-    `File downloaded successfully: ${result.path} (${result.size} bytes, ${result.mime})`
-  );
-
-  return toolResponse({
-    success: true,
-    filePath: result.path,
-    fileSize: result.size,
-    mimeType: result.mime,
-    originalFilename,
-    message: `File downloaded successfully to ${result.path}`,
-  });
+  return { filename, data };
 }
 
 /**
- * Download a submission/feedback file using folderId + fileId
+ * Fetch a file from my submission to a dropbox folder.
+ * Also used by read_course_file.
+ *
+ * @returns The file, or an error message if it can't be found or exceeds MAX_FILE_SIZE
  */
-async function downloadSubmissionFile(
+export async function fetchSubmissionFile(
   apiClient: D2LApiClient,
   courseId: number,
   folderId: number,
-  fileId: number,
-  downloadPath: string,
-  customFilename?: string
-): Promise<any> {
-  log(
-    "INFO",
-    `Downloading submission file: courseId=${courseId}, folderId=${folderId}, fileId=${fileId}`
-  );
-
+  fileId: number
+): Promise<{ filename: string; data: Buffer } | string> {
   // D2L API pattern for submission file downloads:
   // GET /d2l/api/le/(version)/(orgUnitId)/dropbox/folders/(folderId)/submissions/mysubmissions/
   // Then find the file by fileId and construct its download URL
@@ -221,9 +194,7 @@ async function downloadSubmissionFile(
     await apiClient.get<DropboxSubmission[]>(submissionsPath);
 
   if (!submissions || submissions.length === 0) {
-    return errorResponse(
-      "No submissions found for this assignment. Upload a submission first."
-    );
+    return "No submissions found for this assignment. Upload a submission first.";
   }
 
   // Find the file in the submission
@@ -231,16 +202,12 @@ async function downloadSubmissionFile(
   const file = submission.Files.find((f) => f.FileId === fileId);
 
   if (!file) {
-    return errorResponse(
-      `File ID ${fileId} not found in submission. Available files: ${submission.Files.map((f) => `${f.FileName} (ID: ${f.FileId})`).join(", ")}`
-    );
+    return `File ID ${fileId} not found in submission. Available files: ${submission.Files.map((f) => `${f.FileName} (ID: ${f.FileId})`).join(", ")}`;
   }
 
   // Check file size before downloading
   if (file.Size > MAX_FILE_SIZE) {
-    return errorResponse(
-      `File too large (${Math.round(file.Size / 1024 / 1024)}MB). Maximum allowed: ${MAX_FILE_SIZE / 1024 / 1024}MB`
-    );
+    return `File too large (${Math.round(file.Size / 1024 / 1024)}MB). Maximum allowed: ${MAX_FILE_SIZE / 1024 / 1024}MB`;
   }
 
   // D2L file download URL pattern for submission files
@@ -258,14 +225,97 @@ async function downloadSubmissionFile(
 
   // Double-check actual size
   if (buffer.length > MAX_FILE_SIZE) {
-    return errorResponse(
-      `File too large (${Math.round(buffer.length / 1024 / 1024)}MB). Maximum allowed: ${MAX_FILE_SIZE / 1024 / 1024}MB`
-    );
+    return `File too large (${Math.round(buffer.length / 1024 / 1024)}MB). Maximum allowed: ${MAX_FILE_SIZE / 1024 / 1024}MB`;
+  }
+
+  return { filename: file.FileName, data: buffer };
+}
+
+/**
+ * Text of a downloaded file for the extractText option, keyed for the tool response.
+ */
+async function extractedContent(data: Buffer, filename: string): Promise<Record<string, unknown>> {
+  const extracted = await extractDocumentText(data, filename);
+  return extracted
+    ? { content: extracted }
+    : { content: null, contentNote: "Text could not be extracted from this file type." };
+}
+
+/**
+ * Download a content file using topicId
+ */
+async function downloadContentFile(
+  apiClient: D2LApiClient,
+  courseId: number,
+  topicId: number,
+  downloadPath: string,
+  customFilename?: string,
+  extractText = false
+): Promise<any> {
+  log(
+    "INFO",
+    `Downloading content file: courseId=${courseId}, topicId=${topicId}`
+  );
+
+  const file = await fetchContentFile(apiClient, courseId, topicId);
+  if (typeof file === "string") {
+    return errorResponse(file);
   }
+  const { filename, data: buffer } = file;
+
+  // Use custom filename if provided, otherwise use Content-Disposition filename
+  const originalFilename = filename;
+  const effectiveFilename = customFilename || filename;
+
+  // Use secureDownload for path traversal prevention, file type validation, and conflict resolution
+  const result = await secureDownload({
+    targetDir: downloadPath,
+    filename: effectiveFilename,
+    data: buffer,
+  });
+
+  log(
+    "INFO",
+    `File downloaded successfully: ${result.path} (${result.size} bytes, ${result.mime})`
+  );
+
+  return toolResponse({
+    success: true,
+    filePath: result.path,
+    fileSize: result.size,
+    mimeType: result.mime,
+    originalFilename,
+    message: `File downloaded successfully to ${result.path}`,
+    ...(extractText ? await extractedContent(buffer, originalFilename) : {}),
+  } satisfies DownloadFileOutput);
+}
+
+/**
+ * Download a submission/feedback file using folderId + fileId
+ */
+async function downloadSubmissionFile(
+  apiClient: D2LApiClient,
+  courseId: number,
+  folderId: number,
+  fileId: number,
+  downloadPath: string,
+  customFilename?: string,
+  extractText = false
+): Promise<any> {
+  log(
+    "INFO",
+    `Downloading submission file: courseId=${courseId}, folderId=${folderId}, fileId=${fileId}`
+  );
+
+  const file = await fetchSubmissionFile(apiClient, courseId, folderId, fileId);
+  if (typeof file === "string") {
+    return errorResponse(file);
+  }
+  const { filename, data: buffer } = file;
 
   // Use custom filename if provided, otherwise use original submission filename
-  const originalFilename = file.FileName;
-  const effectiveFilename = customFilename || file.FileName;
+  const originalFilename = filename;
+  const effectiveFilename = customFilename || filename;
 
   // Use secureDownload for path traversal prevention, file type validation, and conflict resolution
   const result = await secureDownload({
@@ -286,5 +336,6 @@ async function downloadSubmissionFile(
     mimeType: result.mime,
     originalFilename,
     message: `File downloaded successfully to ${result.path}`,
-  });
+    ...(extractText ? await extractedContent(buffer, originalFilename) : {}),
+  } satisfies DownloadFileOutput);
 }
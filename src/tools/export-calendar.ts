@@ -0,0 +1,214 @@
+/**
+ * Purdue Brightspace MCP Server
+ * Copyright (c) 2026 Rohan Muppa. All rights reserved.
+ * Licensed under AGPL-3.0 — see LICENSE file for details.
+ */
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { D2LApiClient, DEFAULT_CACHE_TTLS } from "../api/index.js";
+import type { EnrollmentService } from "../api/index.js";
+import { ExportCalendarSchema, ExportCalendarOutputSchema } from "./schemas.js";
+import type { ExportCalendarOutput } from "./schemas.js";
+import { toolResponse, sanitizeError, errorResponse, Freshness } from "./tool-helpers.js";
+import { fetchCourseAssignments } from "./get-assignments.js";
+import { myEventsPath, overlapsWindow } from "./get-upcoming-due-dates.js";
+import { log } from "../utils/logger.js";
+import { buildCalendar } from "../utils/ics.js";
+import type { IcsEvent } from "../utils/ics.js";
+import type { AppConfig } from "../types/index.js";
+import fs from "node:fs/promises";
+import path from "node:path";
+
+interface EventDataInfo {
+  CalendarEventId: number;
+  Title: string;
+  Description: string | null;
+  OrgUnitName: string;
+  OrgUnitId: number;
+  StartDateTime: string;
+  EndDateTime: string;
+  IsAllDayEvent: boolean;
+  AssociatedEntity: {
+    AssociatedEntityType: string; // e.g. "D2L.LE.Dropbox.Dropbox", "D2L.LE.Quizzing.Quiz"
+    AssociatedEntityId: number;
+  } | null;
+}
+
+// Calendar entity types that correspond to get_assignments items
+const DROPBOX_ENTITY = "D2L.LE.Dropbox.Dropbox";
+const QUIZ_ENTITY = "D2L.LE.Quizzing.Quiz";
+
+export interface DueDateExportOptions {
+  daysAhead: number;
+  courseId?: number;
+  /** Records offline-cache reads */
+  freshness?: Freshness;
+}
+
+/**
+ * Collect calendar events plus dropbox and quiz due dates as iCalendar events.
+ * Dropbox folders and quizzes already on the D2L calendar are not duplicated.
+ * Shared by the export_calendar tool and the export-ics CLI subcommand.
+ */
+export async function collectDueDateEvents(
+  apiClient: D2LApiClient,
+  enrollments: EnrollmentService,
+  config: AppConfig,
+  options: DueDateExportOptions
+): Promise<IcsEvent[]> {
+  const freshness = options.freshness ?? new Freshness();
+  const now = new Date();
+  const windowEnd = new Date(now.getTime() + options.daysAhead * 24 * 60 * 60 * 1000);
+  const host = new URL(config.baseUrl).host;
+
+  // Enrollments give us course codes for event summaries.
+  // An explicit courseId is honored even if it isn't in the enrollment list.
+  const courses = options.courseId
+    ? [
+        (await enrollments.findCourse(options.courseId)) ??
+          { id: options.courseId, name: `Course ${options.courseId}`, code: String(options.courseId) },
+      ]
+    : freshness.track(await enrollments.listCoursesWithMeta());
+  if (courses.length === 0) {
+    return [];
+  }
+
+  const codeById = new Map(courses.map((c) => [c.id, c.code || c.name]));
+  const courseUrl = (courseId: number) => `${config.baseUrl}/d2l/home/${courseId}`;
+  const inWindow = (date: Date) => date >= now && date <= windowEnd;
+
+  const eventsPath = myEventsPath(apiClient, courses.map((c) => c.id), now, windowEnd);
+  const calendarEvents = freshness.track(
+    await apiClient.getAllPagesWithMeta<EventDataInfo>(eventsPath, { ttl: DEFAULT_CACHE_TTLS.assignments })
+  ).filter((event) => overlapsWindow(event, now, windowEnd));
+
+  const events: IcsEvent[] = [];
+  const onCalendar = new Set<string>();
+
+  for (const event of calendarEvents) {
+    if (event.AssociatedEntity) {
+      const { AssociatedEntityType, AssociatedEntityId } = event.AssociatedEntity;
+      onCalendar.add(`${event.OrgUnitId}:${AssociatedEntityType}:${AssociatedEntityId}`);
+    }
+    events.push({
+      uid: `d2l-event-${event.CalendarEventId}@${host}`,
+      summary: `[${codeById.get(event.OrgUnitId) ?? event.OrgUnitName}] ${event.Title}`,
+      description: event.Description ?? undefined,
+      start: new Date(event.StartDateTime),
+      end: new Date(event.EndDateTime),
+      allDay: event.IsAllDayEvent,
+      url: courseUrl(event.OrgUnitId),
+    });
+  }
+
+  // Dropbox and quiz due dates that instructors didn't put on the calendar
+  const { results } = await enrollments.forEachCourse(courses, "export_calendar", async (course) => ({
+    courseId: course.id,
+    assignments: await fetchCourseAssignments(apiClient, course.id, { freshness }),
+  }));
+
+  for (const { value: { courseId, assignments } } of results) {
+    for (const item of assignments) {
+      const isQuiz = item.type === "quiz";
+      const due = isQuiz ? item.dueDate ?? item.endDate : item.dueDate;
+      if (!due || !inWindow(new Date(due))) continue;
+
+      const entityType = isQuiz ? QUIZ_ENTITY : DROPBOX_ENTITY;
+      if (onCalendar.has(`${courseId}:${entityType}:${item.id}`)) continue;
+
+      const status = isQuiz
+        ? `Attempts remaining: ${item.attemptsRemaining}`
+        : item.submission
+          ? `Submitted ${item.submission.submittedDate}`
+          : "Not submitted";
+
+      events.push({
+        uid: `d2l-${isQuiz ? "quiz" : "dropbox"}-${courseId}-${item.id}@${host}`,
+        summary: `[${codeById.get(courseId)}] ${item.name} ${isQuiz ? "(quiz) " : ""}due`,
+        description: status,
+        start: new Date(due),
+        end: new Date(due),
+        allDay: false,
+        url: courseUrl(courseId),
+      });
+    }
+  }
+
+  return events.sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+/**
+ * Check an .ics output path. Returns an error message, or null if the path is usable.
+ */
+export function validateCalendarPath(outputPath: string): string | null {
+  if (!path.isAbsolute(outputPath)) {
+    return `Output path must be absolute: ${outputPath}`;
+  }
+  if (path.extname(outputPath).toLowerCase() !== ".ics") {
+    return `Output file must have an .ics extension: ${outputPath}`;
+  }
+  return null;
+}
+
+/**
+ * Write an .ics file, creating the parent directory if needed.
+ */
+export async function writeCalendarFile(outputPath: string, contents: string): Promise<void> {
+  await fs.mkdir(path.dirname(outputPath), { recursive: true });
+  await fs.writeFile(outputPath, contents, "utf-8");
+}
+
+/**
+ * Register export_calendar tool
+ */
+export function registerExportCalendar(
+  server: McpServer,
+  apiClient: D2LApiClient,
+  enrollments: EnrollmentService,
+  config: AppConfig
+): void {
+  server.registerTool(
+    "export_calendar",
+    {
+      title: "Export Calendar",
+      description:
+        "Export upcoming due dates (calendar events, assignment dropbox due dates, and quiz due/end dates) as an iCalendar (.ics) file that can be imported into or subscribed to from Google Calendar, Outlook, or Apple Calendar. Use this when the user wants their deadlines in their own calendar app.",
+      inputSchema: ExportCalendarSchema,
+      outputSchema: ExportCalendarOutputSchema,
+    },
+    async (args: any) => {
+      try {
+        log("DEBUG", "export_calendar tool called", { args });
+
+        const { daysAhead, outputPath, reminderMinutes, ...courseRef } = ExportCalendarSchema.parse(args);
+        const courseId = await enrollments.resolveCourseRef(courseRef);
+
+        const pathError = outputPath ? validateCalendarPath(outputPath) : null;
+        if (pathError) {
+          return errorResponse(pathError);
+        }
+
+        const freshness = new Freshness();
+        const events = await collectDueDateEvents(apiClient, enrollments, config, { daysAhead, courseId, freshness });
+        const ics = buildCalendar(events, { name: "Brightspace Due Dates", reminderMinutes });
+
+        log("INFO", `export_calendar: Built calendar with ${events.length} events`);
+
+        if (!outputPath) {
+          return toolResponse({ eventCount: events.length, ics } satisfies ExportCalendarOutput, freshness.value);
+        }
+
+        await writeCalendarFile(outputPath, ics);
+
+        return toolResponse({
+          outputPath,
+          eventCount: events.length,
+          events: events.map((e) => ({ summary: e.summary, due: e.end.toISOString() })),
+          message: `Wrote ${events.length} events to ${outputPath}. Import or subscribe to this file from your calendar app.`,
+        } satisfies ExportCalendarOutput, freshness.value);
+      } catch (error) {
+        return sanitizeError(error);
+      }
+    }
+  );
+}
@@ -6,21 +6,32 @@
 
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { D2LApiClient, DEFAULT_CACHE_TTLS } from "../api/index.js";
+import type { EnrollmentService } from "../api/index.js";
 import {
   GetAnnouncementsSchema,
+  GetAnnouncementsOutputSchema,
 } from "./schemas.js";
-import { toolResponse, sanitizeError } from "./tool-helpers.js";
+import type { GetAnnouncementsOutput } from "./schemas.js";
+import { toolResponse, sanitizeError, Freshness } from "./tool-helpers.js";
 import { log } from "../utils/logger.js";
-import { applyCourseFilter } from "../utils/course-filter.js";
-import type { AppConfig } from "../types/index.js";
+
+// Valence documents this as the author's user ID; some versions send the user instead
+export type NewsAuthor = number | { Identifier: string; DisplayName: string } | null;
+
+/**
+ * The author's display name, or null when Brightspace only sends a user ID.
+ */
+export function newsAuthorName(author: NewsAuthor | undefined): string | null {
+  return typeof author === "object" && author !== null ? author.DisplayName ?? null : null;
+}
 
 interface NewsItem {
   Id: number;
   Title: string;
   Body: { Text: string; Html: string };
-  CreatedBy: { Identifier: string; DisplayName: string };
+  CreatedBy: NewsAuthor;
   CreatedDate: string;
-  LastModifiedBy: { Identifier: string; DisplayName: string };
+  LastModifiedBy: NewsAuthor;
   LastModifiedDate: string;
   StartDate: string;
   EndDate: string | null;
@@ -30,34 +41,13 @@ interface NewsItem {
   Attachments: any[];
 }
 
-interface EnrollmentItem {
-  OrgUnit: {
-    Id: number;
-    Name: string;
-    Code: string;
-  };
-  Access: {
-    ClasslistRoleName: string;
-    IsActive: boolean;
-    LastAccessed: string | null;
-  };
-}
-
-interface EnrollmentResponse {
-  Items: EnrollmentItem[];
-  PagingInfo?: {
-    HasMoreItems: boolean;
-    Bookmark?: string;
-  };
-}
-
 /**
  * Register get_announcements tool
  */
 export function registerGetAnnouncements(
   server: McpServer,
   apiClient: D2LApiClient,
-  config: AppConfig
+  enrollments: EnrollmentService
 ): void {
   server.registerTool(
     "get_announcements",
@@ -66,20 +56,23 @@ export function registerGetAnnouncements(
       description:
         "Fetch recent announcements from your courses. Can filter to a specific course or get announcements across all courses. Use this when the user asks about announcements, news, updates from instructors, recent posts, or what professors said.",
       inputSchema: GetAnnouncementsSchema,
+      outputSchema: GetAnnouncementsOutputSchema,
     },
     async (args: any) => {
       try {
         log("DEBUG", "get_announcements tool called", { args });
 
         // Parse and validate input
-        const { courseId, count } = GetAnnouncementsSchema.parse(args);
+        const { count, ...courseRef } = GetAnnouncementsSchema.parse(args);
+        const courseId = await enrollments.resolveCourseRef(courseRef);
+        const freshness = new Freshness();
 
         // Single course case
         if (courseId) {
           const path = apiClient.le(courseId, "/news/");
-          const newsItems = await apiClient.get<NewsItem[]>(path, {
+          const newsItems = freshness.track(await apiClient.getWithMeta<NewsItem[]>(path, {
             ttl: DEFAULT_CACHE_TTLS.announcements,
-          });
+          }));
 
           // Map to clean objects
           const announcements = newsItems
@@ -87,7 +80,7 @@ export function registerGetAnnouncements(
               id: item.Id,
               title: item.Title,
               body: item.Body.Text,
-              createdBy: item.CreatedBy.DisplayName,
+              createdBy: newsAuthorName(item.CreatedBy),
               createdDate: item.CreatedDate,
               startDate: item.StartDate,
               isPinned: item.IsPinned,
@@ -103,71 +96,30 @@ export function registerGetAnnouncements(
             "INFO",
             `get_announcements: Retrieved ${announcements.length} announcements for course ${courseId}`
           );
-          return toolResponse(announcements);
+          return toolResponse({ announcements } satisfies GetAnnouncementsOutput, freshness.value);
         }
 
-        // All courses case
-        // First, fetch enrolled courses
-        const enrollmentPath = apiClient.lp(
-          "/enrollments/myenrollments/?orgUnitTypeId=3&isActive=true"
-        );
-        const enrollmentResponse = await apiClient.get<EnrollmentResponse>(
-          enrollmentPath,
-          { ttl: DEFAULT_CACHE_TTLS.enrollments }
-        );
-
-        // Apply course filter
-        const filteredEnrollments = applyCourseFilter(
-          enrollmentResponse.Items.map(item => ({
-            id: item.OrgUnit.Id,
-            name: item.OrgUnit.Name,
-            code: item.OrgUnit.Code,
-            isActive: item.Access.IsActive,
-            ...item,
-          })),
-          config.courseFilter
-        );
-
-        // Fetch announcements for each course (handle 403s gracefully)
-        const announcementPromises = filteredEnrollments.map(
-          async (item) => {
-            try {
-              const path = apiClient.le(item.OrgUnit.Id, "/news/");
-              const newsItems = await apiClient.get<NewsItem[]>(path, {
-                ttl: DEFAULT_CACHE_TTLS.announcements,
-              });
-
-              return newsItems.map((newsItem) => ({
-                id: newsItem.Id,
-                title: newsItem.Title,
-                body: newsItem.Body.Text,
-                createdBy: newsItem.CreatedBy.DisplayName,
-                createdDate: newsItem.CreatedDate,
-                startDate: newsItem.StartDate,
-                isPinned: newsItem.IsPinned,
-                courseId: item.OrgUnit.Id,
-                courseName: item.OrgUnit.Name,
-              }));
-            } catch (error: any) {
-              // 403 means no access (past course, etc) - log and skip
-              if (error?.status === 403) {
-                log(
-                  "DEBUG",
-                  `get_announcements: 403 Forbidden for course ${item.OrgUnit.Id} (${item.OrgUnit.Name}) - skipping`
-                );
-                return [];
-              }
-              throw error; // Re-throw other errors
-            }
-          }
-        );
-
-        const results = await Promise.allSettled(announcementPromises);
-        const allAnnouncements = results
-          .filter(
-            (r): r is PromiseFulfilledResult<any> => r.status === "fulfilled"
-          )
-          .flatMap((r) => r.value);
+        // All courses case — courses without news access (past courses, etc.) are skipped
+        const enrolled = freshness.track(await enrollments.listCoursesWithMeta());
+        const { results } = await enrollments.forEachCourse(enrolled, "get_announcements", async (course) => {
+          const path = apiClient.le(course.id, "/news/");
+          const newsItems = freshness.track(await apiClient.getWithMeta<NewsItem[]>(path, {
+            ttl: DEFAULT_CACHE_TTLS.announcements,
+          }));
+
+          return newsItems.map((newsItem) => ({
+            id: newsItem.Id,
+            title: newsItem.Title,
+            body: newsItem.Body.Text,
+            createdBy: newsAuthorName(newsItem.CreatedBy),
+            createdDate: newsItem.CreatedDate,
+            startDate: newsItem.StartDate,
+            isPinned: newsItem.IsPinned,
+            courseId: course.id,
+            courseName: course.name,
+          }));
+        });
+        const allAnnouncements = results.flatMap((r) => r.value);
 
         // Sort by created date and slice to count
         const announcements = allAnnouncements
@@ -180,9 +132,9 @@ export function registerGetAnnouncements(
 
         log(
           "INFO",
-          `get_announcements: Retrieved ${announcements.length} announcements (out of ${allAnnouncements.length} total across ${enrollmentResponse.Items.length} courses)`
+          `get_announcements: Retrieved ${announcements.length} announcements (out of ${allAnnouncements.length} total across ${enrolled.length} courses)`
         );
-        return toolResponse(announcements);
+        return toolResponse({ announcements } satisfies GetAnnouncementsOutput, freshness.value);
       } catch (error) {
         return sanitizeError(error);
       }
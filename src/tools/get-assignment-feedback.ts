@@ -0,0 +1,231 @@
+/**
+ * Purdue Brightspace MCP Server
+ * Copyright (c) 2026 Rohan Muppa. All rights reserved.
+ * Licensed under AGPL-3.0 — see LICENSE file for details.
+ */
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { D2LApiClient, DEFAULT_CACHE_TTLS, ApiError, whoami } from "../api/index.js";
+import type { EnrollmentService } from "../api/index.js";
+import { GetAssignmentFeedbackSchema, GetAssignmentFeedbackOutputSchema } from "./schemas.js";
+import type { GetAssignmentFeedbackOutput } from "./schemas.js";
+import { toolResponse, sanitizeError, errorResponse, Freshness } from "./tool-helpers.js";
+import { convertHtmlToMarkdown } from "../utils/html-converter.js";
+import { extractDocumentText } from "../utils/document-extractor.js";
+import { joinRubricAssessment } from "../utils/rubric.js";
+import { secureDownload } from "../utils/download-helpers.js";
+import { MAX_FILE_SIZE } from "../utils/file-validator.js";
+import { log } from "../utils/logger.js";
+import type { DropboxFolder, DropboxFeedback } from "./get-assignments.js";
+import { fetchMyGroups } from "./get-my-groups.js";
+import fs from "node:fs/promises";
+import path from "node:path";
+
+// Inline text is capped so a long annotated PDF doesn't flood the conversation
+const MAX_INLINE_TEXT_CHARS = 20_000;
+
+// Whose feedback an attachment belongs to: the user, or the group for group folders
+interface FeedbackEntity {
+  type: "user" | "group";
+  id: string;
+}
+
+interface FeedbackAttachment {
+  fileId: number;
+  name: string;
+  size: number;
+  text?: string;
+  truncated?: boolean;
+  filePath?: string;
+  error?: string;
+}
+
+/**
+ * The entity feedback attachments are filed under: my group in the folder's
+ * group category for group folders, otherwise me.
+ * Returns null if I'm not in a group of that category (or groups aren't visible).
+ */
+async function feedbackEntity(
+  apiClient: D2LApiClient,
+  courseId: number,
+  folder: DropboxFolder
+): Promise<FeedbackEntity | null> {
+  if (folder.GroupTypeId === null) {
+    const { data: me } = await whoami(apiClient);
+    return { type: "user", id: me.Identifier };
+  }
+
+  try {
+    const categories = await fetchMyGroups(apiClient, courseId);
+    const group = categories.find((c) => c.categoryId === folder.GroupTypeId)?.myGroup;
+    return group ? { type: "group", id: String(group.groupId) } : null;
+  } catch (error) {
+    log("DEBUG", `Failed to fetch groups for course ${courseId}`, error);
+    return null;
+  }
+}
+
+/**
+ * Fetch one feedback attachment, read its text when possible and optionally save it.
+ * Failures are reported on the attachment rather than failing the whole tool.
+ */
+async function fetchAttachment(
+  apiClient: D2LApiClient,
+  courseId: number,
+  folderId: number,
+  entity: FeedbackEntity,
+  file: DropboxFeedback["Files"][number],
+  downloadPath: string | undefined
+): Promise<FeedbackAttachment> {
+  const attachment: FeedbackAttachment = { fileId: file.FileId, name: file.FileName, size: file.Size };
+
+  if (file.Size > MAX_FILE_SIZE) {
+    attachment.error = `File too large (${Math.round(file.Size / 1024 / 1024)}MB). Maximum allowed: ${MAX_FILE_SIZE / 1024 / 1024}MB`;
+    return attachment;
+  }
+
+  try {
+    const response = await apiClient.getRaw(
+      apiClient.le(courseId, `/dropbox/folders/${folderId}/feedback/${entity.type}/${entity.id}/attachments/${file.FileId}`)
+    );
+    const data = Buffer.from(await response.arrayBuffer());
+
+    const extracted = await extractDocumentText(data, file.FileName, { maxChars: MAX_INLINE_TEXT_CHARS });
+    if (extracted) {
+      attachment.text = extracted.text;
+      if (extracted.truncated) attachment.truncated = true;
+    }
+
+    if (downloadPath) {
+      const result = await secureDownload({ targetDir: downloadPath, filename: file.FileName, data });
+      attachment.filePath = result.path;
+    }
+  } catch (error) {
+    log("DEBUG", `Failed to fetch feedback attachment ${file.FileId} in folder ${folderId}`, error);
+    attachment.error = "Could not download this attachment.";
+  }
+
+  return attachment;
+}
+
+/**
+ * Register get_assignment_feedback tool
+ */
+export function registerGetAssignmentFeedback(
+  server: McpServer,
+  apiClient: D2LApiClient,
+  enrollments: EnrollmentService
+): void {
+  server.registerTool(
+    "get_assignment_feedback",
+    {
+      title: "Get Assignment Feedback",
+      description:
+        "Fetch the detailed feedback on your submission to one assignment: overall score and comments, the rubric assessment broken down per criterion (chosen level, points earned vs possible, grader's comment), and the text of any feedback attachments (annotated PDFs, Word documents, etc.). Use this when the user asks why they got a grade, where they lost points, or what the grader said. If downloadPath is provided, attachments are also saved there — you MUST ask the user where to save them first.",
+      inputSchema: GetAssignmentFeedbackSchema,
+      outputSchema: GetAssignmentFeedbackOutputSchema,
+    },
+    async (args: any) => {
+      try {
+        log("DEBUG", "get_assignment_feedback tool called", { args });
+
+        // Parse and validate input
+        const { folderId, downloadPath, ...courseRef } = GetAssignmentFeedbackSchema.parse(args);
+        const courseId = await enrollments.requireCourseRef(courseRef);
+
+        // Validate download directory up front so we don't fetch for nothing
+        if (downloadPath) {
+          if (!path.isAbsolute(downloadPath)) {
+            return errorResponse(
+              "Download path must be an absolute path (e.g., /Users/username/Downloads on Mac or C:\\Users\\username\\Downloads on Windows)"
+            );
+          }
+          try {
+            const stats = await fs.stat(downloadPath);
+            if (!stats.isDirectory()) {
+              return errorResponse(`Download path is not a directory: ${downloadPath}`);
+            }
+          } catch (error: any) {
+            if (error?.code === "ENOENT") {
+              return errorResponse(`Download directory does not exist: ${downloadPath}`);
+            }
+            throw error;
+          }
+        }
+
+        const freshness = new Freshness();
+        const folder = freshness.track(await apiClient.getWithMeta<DropboxFolder>(
+          apiClient.le(courseId, `/dropbox/folders/${folderId}`),
+          { ttl: DEFAULT_CACHE_TTLS.assignments }
+        ));
+
+        let feedback: DropboxFeedback;
+        try {
+          feedback = freshness.track(await apiClient.getWithMeta<DropboxFeedback>(
+            apiClient.le(courseId, `/dropbox/folders/${folderId}/feedback/myFeedback/`),
+            { ttl: DEFAULT_CACHE_TTLS.assignments }
+          ));
+        } catch (error) {
+          if (error instanceof ApiError && (error.status === 404 || error.status === 403)) {
+            return toolResponse({
+              courseId,
+              folderId,
+              assignment: folder.Name,
+              feedback: null,
+              message: "No feedback has been released for this assignment yet.",
+            } satisfies GetAssignmentFeedbackOutput, freshness.value);
+          }
+          throw error;
+        }
+
+        const definitions = folder.Assessment?.Rubrics ?? [];
+        const rubrics = (feedback.RubricAssessments ?? []).map((assessment) =>
+          joinRubricAssessment(
+            assessment,
+            definitions.find((r) => r.RubricId === assessment.RubricId)
+          )
+        );
+
+        // Attachment downloads are addressed by the feedback's entity (me, or my group)
+        const attachments: FeedbackAttachment[] = [];
+        const files = feedback.Files ?? [];
+        if (files.length > 0) {
+          const entity = await feedbackEntity(apiClient, courseId, folder);
+          // Sequential — attachments can be large and share the rate limit
+          for (const file of files) {
+            attachments.push(
+              entity
+                ? await fetchAttachment(apiClient, courseId, folderId, entity, file, downloadPath)
+                : {
+                    fileId: file.FileId,
+                    name: file.FileName,
+                    size: file.Size,
+                    error: "Could not find your group for this group assignment, so its attachments can't be downloaded.",
+                  }
+            );
+          }
+        }
+
+        log(
+          "INFO",
+          `get_assignment_feedback: ${rubrics.length} rubric assessments, ${attachments.length} attachments for folder ${folderId}`
+        );
+        return toolResponse({
+          courseId,
+          folderId,
+          assignment: folder.Name,
+          score: feedback.Score,
+          outOf: folder.Assessment?.ScoreDenominator ?? null,
+          isGraded: feedback.IsGraded ?? feedback.Score !== null,
+          feedback: feedback.Feedback?.Html
+            ? convertHtmlToMarkdown(feedback.Feedback.Html).markdown
+            : feedback.Feedback?.Text || null,
+          rubrics,
+          attachments,
+        } satisfies GetAssignmentFeedbackOutput, freshness.value);
+      } catch (error) {
+        return sanitizeError(error);
+      }
+    }
+  );
+}
@@ -6,15 +6,18 @@
 
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { D2LApiClient, DEFAULT_CACHE_TTLS } from "../api/index.js";
-import { GetAssignmentsSchema } from "./schemas.js";
-import { toolResponse, sanitizeError } from "./tool-helpers.js";
+import type { EnrollmentService } from "../api/index.js";
+import { GetAssignmentsSchema, GetAssignmentsOutputSchema } from "./schemas.js";
+import type { Assignment, GetAssignmentsOutput } from "./schemas.js";
+import { toolResponse, sanitizeError, Freshness } from "./tool-helpers.js";
 import { convertHtmlToMarkdown } from "../utils/html-converter.js";
 import { log } from "../utils/logger.js";
-import { applyCourseFilter } from "../utils/course-filter.js";
-import type { AppConfig } from "../types/index.js";
+import type { RubricDefinition, RubricAssessment } from "../utils/rubric.js";
+import { fetchMyGroups } from "./get-my-groups.js";
+import type { MyGroupCategory } from "./get-my-groups.js";
 
 // D2L Dropbox API types
-interface DropboxFolder {
+export interface DropboxFolder {
   Id: number;
   CategoryId: number | null;
   Name: string;
@@ -23,20 +26,7 @@ interface DropboxFolder {
   IsHidden: boolean;
   Assessment: {
     ScoreDenominator: number | null;
-    Rubrics: Array<{
-      RubricId: number;
-      Name: string;
-      Criteria: Array<{
-        CriterionId: number;
-        Name: string;
-        Levels: Array<{
-          LevelId: number;
-          Name: string;
-          Points: number;
-          Description: { Text: string; Html: string } | null;
-        }>;
-      }>;
-    }>;
+    Rubrics: RubricDefinition[];
   } | null;
   GroupTypeId: number | null; // null = individual, non-null = group
   SubmissionType: number | null;
@@ -50,14 +40,16 @@ interface DropboxSubmission {
   Files: Array<{ FileId: number; FileName: string; Size: number }>;
 }
 
-interface DropboxFeedback {
+export interface DropboxFeedback {
   Score: number | null;
   Feedback: { Text: string; Html: string } | null;
-  RubricAssessments: any[];
+  RubricAssessments: RubricAssessment[];
+  Files: Array<{ FileId: number; FileName: string; Size: number }>;
+  IsGraded: boolean;
 }
 
 // D2L Quiz API types
-interface QuizReadData {
+export interface QuizReadData {
   QuizId: number;
   Name: string;
   Description: { Text: string; Html: string } | null;
@@ -76,7 +68,7 @@ interface QuizReadData {
   } | null;
 }
 
-interface QuizAttemptData {
+export interface QuizAttemptData {
   AttemptId: number;
   AttemptNumber: number;
   Score: number | null;
@@ -84,53 +76,77 @@ interface QuizAttemptData {
   CompletedDate: string | null;
 }
 
-interface EnrollmentItem {
-  OrgUnit: {
-    Id: number;
-    Name: string;
-    Code: string;
-  };
-  Access: {
-    ClasslistRoleName: string;
-    IsActive: boolean;
-    LastAccessed: string | null;
-  };
-}
-
-interface EnrollmentResponse {
-  Items: EnrollmentItem[];
-  PagingInfo?: {
-    HasMoreItems: boolean;
-    Bookmark?: string;
+/**
+ * For a group folder: the group I'm submitting as and which groupmates have submitted.
+ * Returns null if I'm not in a group of the folder's category.
+ */
+function groupSubmissionStatus(
+  categories: MyGroupCategory[],
+  groupCategoryId: number,
+  submissions: DropboxSubmission[]
+) {
+  const group = categories.find((c) => c.categoryId === groupCategoryId)?.myGroup;
+  if (!group) return null;
+
+  return {
+    groupId: group.groupId,
+    name: group.name,
+    members: group.members.map((member) => {
+      const latest = submissions
+        .filter((s) => Number(s.SubmittedBy?.Identifier) === member.userId)
+        .map((s) => s.SubmissionDate)
+        .sort()
+        .pop();
+      return {
+        name: member.name,
+        isMe: member.isMe,
+        submitted: latest !== undefined,
+        lastSubmittedDate: latest ?? null,
+      };
+    }),
   };
 }
 
 /**
- * Fetch assignments (dropbox + quizzes) for a single course
+ * Fetch assignments (dropbox + quizzes) for a single course.
+ * Also used by export_calendar for due dates that aren't on the D2L calendar.
+ * With includeGroups, group folders also show my group and groupmates' submission status.
+ * Offline-cache reads are recorded in options.freshness.
+ *
+ * @throws the dropbox error if neither dropbox folders nor quizzes can be read
+ *   (e.g. 403 on a past course), so callers report the course as unavailable
+ *   instead of as having no assignments
  */
-async function fetchCourseAssignments(
+export async function fetchCourseAssignments(
   apiClient: D2LApiClient,
-  courseId: number
-): Promise<any[]> {
-  const assignments: any[] = [];
+  courseId: number,
+  options: { includeGroups?: boolean; freshness?: Freshness } = {}
+): Promise<Assignment[]> {
+  const freshness = options.freshness ?? new Freshness();
+  const assignments: Assignment[] = [];
+  // Fetched on the first group folder, shared by the rest
+  let groupCategories: MyGroupCategory[] | null = null;
 
   // Fetch dropbox folders and quizzes in parallel
   const [dropboxResult, quizResult] = await Promise.allSettled([
-    apiClient.get<{ Objects: DropboxFolder[] } | DropboxFolder[]>(
+    apiClient.getAllPagesWithMeta<DropboxFolder>(
       apiClient.le(courseId, "/dropbox/folders/"),
       { ttl: DEFAULT_CACHE_TTLS.assignments }
     ),
-    apiClient.get<{ Objects: QuizReadData[] } | QuizReadData[]>(
+    apiClient.getAllPagesWithMeta<QuizReadData>(
       apiClient.le(courseId, "/quizzes/"),
       { ttl: DEFAULT_CACHE_TTLS.assignments }
     ),
   ]);
 
+  if (dropboxResult.status === "rejected" && quizResult.status === "rejected") {
+    throw dropboxResult.reason;
+  }
+
   // Process Dropbox folders
   if (dropboxResult.status === "fulfilled") {
-    // D2L dropbox endpoint may return paged { Objects: [...] } or flat array
-    const dropboxRaw = dropboxResult.value;
-    const folders: DropboxFolder[] = Array.isArray(dropboxRaw) ? dropboxRaw : (dropboxRaw as any).Objects ?? [];
+    // getAllPages handles both paged { Objects: [...] } and flat array responses
+    const folders = freshness.track(dropboxResult.value);
 
     for (const folder of folders) {
       // Skip hidden folders
@@ -139,11 +155,10 @@ async function fetchCourseAssignments(
       // Fetch submissions for this folder
       let submissions: DropboxSubmission[] = [];
       try {
-        const submissionsRaw = await apiClient.get<{ Objects: DropboxSubmission[] } | DropboxSubmission[]>(
+        submissions = freshness.track(await apiClient.getAllPagesWithMeta<DropboxSubmission>(
           apiClient.le(courseId, `/dropbox/folders/${folder.Id}/submissions/mysubmissions/`),
           { ttl: DEFAULT_CACHE_TTLS.assignments }
-        );
-        submissions = Array.isArray(submissionsRaw) ? submissionsRaw : (submissionsRaw as any).Objects ?? [];
+        ));
       } catch (error: any) {
         // 404 means no submissions yet - that's fine
         if (error?.status !== 404) {
@@ -155,10 +170,10 @@ async function fetchCourseAssignments(
       let feedback: DropboxFeedback | null = null;
       if (submissions.length > 0) {
         try {
-          feedback = await apiClient.get<DropboxFeedback>(
+          feedback = freshness.track(await apiClient.getWithMeta<DropboxFeedback>(
             apiClient.le(courseId, `/dropbox/folders/${folder.Id}/feedback/myFeedback/`),
             { ttl: DEFAULT_CACHE_TTLS.assignments }
-          );
+          ));
         } catch (error: any) {
           // 404/403 means no feedback available - that's fine
           if (error?.status !== 404 && error?.status !== 403) {
@@ -167,9 +182,22 @@ async function fetchCourseAssignments(
         }
       }
 
+      let group = null;
+      if (options.includeGroups && folder.GroupTypeId !== null) {
+        if (!groupCategories) {
+          try {
+            groupCategories = await fetchMyGroups(apiClient, courseId, freshness);
+          } catch (error) {
+            log("DEBUG", `Failed to fetch groups for course ${courseId}`, error);
+            groupCategories = [];
+          }
+        }
+        group = groupSubmissionStatus(groupCategories, folder.GroupTypeId, submissions);
+      }
+
       // Build assignment object
       const assignment = {
-        type: "assignment",
+        type: "assignment" as const,
         id: folder.Id,
         name: folder.Name,
         instructions: folder.CustomInstructions?.Html
@@ -178,6 +206,7 @@ async function fetchCourseAssignments(
         dueDate: folder.DueDate,
         points: folder.Assessment?.ScoreDenominator ?? null,
         isGroup: folder.GroupTypeId !== null,
+        ...(options.includeGroups && folder.GroupTypeId !== null ? { group } : {}),
         rubric: folder.Assessment?.Rubrics?.map((r) => ({
           name: r.Name,
           criteria: r.Criteria?.map((c) => ({
@@ -219,11 +248,8 @@ async function fetchCourseAssignments(
 
   // Process Quizzes
   if (quizResult.status === "fulfilled") {
-    const quizResponse = quizResult.value;
-    // D2L quizzes API returns paged result { Objects: [...] } or a plain array
-    const quizzes: QuizReadData[] = Array.isArray(quizResponse)
-      ? quizResponse
-      : (quizResponse as any)?.Objects ?? [];
+    // D2L quizzes API returns paged ObjectListPage results — getAllPages follows Next
+    const quizzes = freshness.track(quizResult.value);
 
     for (const quiz of quizzes) {
       // Skip inactive quizzes
@@ -232,12 +258,10 @@ async function fetchCourseAssignments(
       // Fetch quiz attempts
       let attempts: QuizAttemptData[] = [];
       try {
-        const attemptsRaw = await apiClient.get<{ Objects: QuizAttemptData[] } | QuizAttemptData[]>(
+        attempts = freshness.track(await apiClient.getAllPagesWithMeta<QuizAttemptData>(
           apiClient.le(courseId, `/quizzes/${quiz.QuizId}/attempts/`),
           { ttl: DEFAULT_CACHE_TTLS.assignments }
-        );
-        // D2L attempts endpoint may return paged { Objects: [...] } or flat array
-        attempts = Array.isArray(attemptsRaw) ? attemptsRaw : (attemptsRaw as any).Objects ?? [];
+        ));
       } catch (error: any) {
         // 404 means no attempts yet - that's fine
         if (error?.status !== 404 && error?.status !== 403) {
@@ -247,7 +271,7 @@ async function fetchCourseAssignments(
 
       // Calculate remaining attempts
       const completedAttempts = attempts.filter((a) => a.IsCompleted);
-      let attemptsRemaining: number | string = "Unlimited";
+      let attemptsRemaining: number | "Unlimited" = "Unlimited";
       let attemptWarning: string | null = null;
 
       if (quiz.AttemptsAllowed && !quiz.AttemptsAllowed.IsUnlimited) {
@@ -264,7 +288,7 @@ async function fetchCourseAssignments(
 
       // Build quiz object
       const quizAssignment = {
-        type: "quiz",
+        type: "quiz" as const,
         id: quiz.QuizId,
         name: quiz.Name,
         instructions: quiz.Description?.Html
@@ -275,7 +299,7 @@ async function fetchCourseAssignments(
         endDate: quiz.EndDate,
         timeLimit: quiz.TimeLimit?.IsEnforced ? quiz.TimeLimit.TimeLimitValue : null,
         attemptsAllowed: quiz.AttemptsAllowed?.IsUnlimited
-          ? "Unlimited"
+          ? "Unlimited" as const
           : quiz.AttemptsAllowed?.NumberOfAttemptsAllowed ?? null,
         attemptsUsed: completedAttempts.length,
         attemptsRemaining,
@@ -283,6 +307,12 @@ async function fetchCourseAssignments(
         bestScore: completedAttempts.length > 0
           ? Math.max(...completedAttempts.map((a) => a.Score ?? 0))
           : null,
+        // For get_quiz_attempt
+        attempts: completedAttempts.map((a) => ({
+          attemptId: a.AttemptId,
+          attemptNumber: a.AttemptNumber,
+          score: a.Score,
+        })),
       };
 
       assignments.push(quizAssignment);
@@ -301,89 +331,52 @@ async function fetchCourseAssignments(
 export function registerGetAssignments(
   server: McpServer,
   apiClient: D2LApiClient,
-  config: AppConfig
+  enrollments: EnrollmentService
 ): void {
   server.registerTool(
     "get_assignments",
     {
       title: "Get Assignments",
       description:
-        "Fetch assignments and quizzes for a specific course or all enrolled courses. Shows dropbox submissions and quizzes with due dates, status, and rubric info. Use this when the user asks about assignments, homework, what to submit, quizzes, or assignment details and rubrics.",
+        "Fetch assignments and quizzes for a specific course or all enrolled courses. Shows dropbox submissions and quizzes with due dates, status, and rubric info. Group assignments show which group you submit as and whether your groupmates have submitted. Use this when the user asks about assignments, homework, what to submit, quizzes, or assignment details and rubrics. Pass term ('current', 'previous', 'Fall 2025') for one semester's courses, including past ones. For the per-criterion breakdown of a graded submission, use get_assignment_feedback; to review a quiz attempt, use get_quiz_attempt.",
       inputSchema: GetAssignmentsSchema,
+      outputSchema: GetAssignmentsOutputSchema,
     },
     async (args: any) => {
       try {
         log("DEBUG", "get_assignments tool called", { args });
 
         // Parse and validate input
-        const { courseId } = GetAssignmentsSchema.parse(args);
+        const { term, ...courseRef } = GetAssignmentsSchema.parse(args);
+        const courseId = await enrollments.resolveCourseRef(courseRef);
+        const freshness = new Freshness();
 
         // Single course case
         if (courseId) {
-          const assignments = await fetchCourseAssignments(apiClient, courseId);
+          const assignments = await fetchCourseAssignments(apiClient, courseId, { includeGroups: true, freshness });
 
           log("INFO", `get_assignments: Retrieved ${assignments.length} assignments for course ${courseId}`);
-          return toolResponse({ courseId, assignments });
+          return toolResponse({ courseId, assignments } satisfies GetAssignmentsOutput, freshness.value);
         }
 
-        // All courses case
-        // First, fetch enrolled courses
-        const enrollmentPath = apiClient.lp(
-          "/enrollments/myenrollments/?orgUnitTypeId=3&isActive=true"
-        );
-        const enrollmentResponse = await apiClient.get<EnrollmentResponse>(
-          enrollmentPath,
-          { ttl: DEFAULT_CACHE_TTLS.enrollments }
-        );
-
-        // Apply course filter
-        const filteredEnrollments = applyCourseFilter(
-          enrollmentResponse.Items.map(item => ({
-            id: item.OrgUnit.Id,
-            name: item.OrgUnit.Name,
-            code: item.OrgUnit.Code,
-            isActive: item.Access.IsActive,
-            ...item,
-          })),
-          config.courseFilter
-        );
-
-        // Fetch assignments for each course (handle 403s gracefully)
-        const assignmentPromises = filteredEnrollments.map(async (item) => {
-          try {
-            const assignments = await fetchCourseAssignments(apiClient, item.OrgUnit.Id);
-
-            return {
-              courseId: item.OrgUnit.Id,
-              courseName: item.OrgUnit.Name,
-              assignments,
-            };
-          } catch (error: any) {
-            // 403 means no access (past course, etc) - log and skip
-            if (error?.status === 403) {
-              log(
-                "DEBUG",
-                `get_assignments: 403 Forbidden for course ${item.OrgUnit.Id} (${item.OrgUnit.Name}) - skipping`
-              );
-              return null;
-            }
-            throw error; // Re-throw other errors
-          }
-        });
-
-        const results = await Promise.allSettled(assignmentPromises);
-        const courses = results
-          .filter(
-            (r): r is PromiseFulfilledResult<any> =>
-              r.status === "fulfilled" && r.value !== null
-          )
-          .map((r) => r.value);
+        // All courses case — courses whose assignments can't be read (often past courses) are listed as unavailable
+        const enrolled = freshness.track(await enrollments.listCoursesWithMeta({ term }));
+        const { results, failures } = await enrollments.forEachCourse(enrolled, "get_assignments", async (course) => ({
+          courseId: course.id,
+          courseName: course.name,
+          assignments: await fetchCourseAssignments(apiClient, course.id, { includeGroups: true, freshness }),
+        }));
+        const courses = results.map((r) => r.value);
+        const unavailable = failures.map((f) => ({ courseId: f.course.id, courseName: f.course.name }));
 
         log(
           "INFO",
-          `get_assignments: Retrieved assignments for ${courses.length} courses (out of ${enrollmentResponse.Items.length} enrolled)`
+          `get_assignments: Retrieved assignments for ${courses.length} courses (out of ${enrolled.length} enrolled)`
         );
-        return toolResponse({ courses });
+        return toolResponse({
+          courses,
+          ...(unavailable.length > 0 ? { unavailable } : {}),
+        } satisfies GetAssignmentsOutput, freshness.value);
       } catch (error) {
         // Temporary: log full error details to stderr for debugging
         if (error instanceof Error) {
@@ -6,7 +6,9 @@
 
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { D2LApiClient, DEFAULT_CACHE_TTLS } from "../api/index.js";
-import { GetClasslistEmailsSchema } from "./schemas.js";
+import type { EnrollmentService } from "../api/index.js";
+import { GetClasslistEmailsSchema, GetClasslistEmailsOutputSchema } from "./schemas.js";
+import type { GetClasslistEmailsOutput } from "./schemas.js";
 import { toolResponse, sanitizeError } from "./tool-helpers.js";
 import { log } from "../utils/logger.js";
 
@@ -17,17 +19,13 @@ interface ClasslistUser {
   ClasslistRoleDisplayName: string;
 }
 
-interface ClasslistResponse {
-  Objects: ClasslistUser[];
-  Next?: string | null;
-}
-
 /**
  * Register get_classlist_emails tool
  */
 export function registerGetClasslistEmails(
   server: McpServer,
-  apiClient: D2LApiClient
+  apiClient: D2LApiClient,
+  enrollments: EnrollmentService
 ): void {
   server.registerTool(
     "get_classlist_emails",
@@ -38,29 +36,22 @@ export function registerGetClasslistEmails(
         "Use this when the user wants a list of emails for a class, needs to email the whole class, " +
         "or wants contact info for everyone enrolled.",
       inputSchema: GetClasslistEmailsSchema,
+      outputSchema: GetClasslistEmailsOutputSchema,
     },
     async (args: any) => {
       try {
         log("DEBUG", "get_classlist_emails tool called", { args });
 
-        const { courseId } = GetClasslistEmailsSchema.parse(args);
+        const courseId = await enrollments.requireCourseRef(GetClasslistEmailsSchema.parse(args));
 
-        // Fetch full classlist (all roles) using paged endpoint
+        // Fetch full classlist (all roles, every page) using paged endpoint
         const path = apiClient.le(courseId, "/classlist/paged/");
-        const response = await apiClient.get<ClasslistResponse>(path, {
+        const { data: users, stale, fetchedAt } = await apiClient.getAllPagesWithMeta<ClasslistUser>(path, {
           ttl: DEFAULT_CACHE_TTLS.roster,
         });
 
-        if (response.Next) {
-          log(
-            "WARN",
-            "get_classlist_emails: Pagination detected but not implemented. Some users may be missing.",
-            { courseId, next: response.Next }
-          );
-        }
-
         // Extract emails, filtering out nulls (privacy-hidden)
-        const emails = response.Objects
+        const emails = users
           .filter((user) => user.Email)
           .map((user) => ({
             name: user.DisplayName,
@@ -68,8 +59,8 @@ export function registerGetClasslistEmails(
             role: user.ClasslistRoleDisplayName,
           }));
 
-        log("INFO", `get_classlist_emails: ${emails.length} emails from ${response.Objects.length} users in course ${courseId}`);
-        return toolResponse(emails);
+        log("INFO", `get_classlist_emails: ${emails.length} emails from ${users.length} users in course ${courseId}`);
+        return toolResponse({ emails } satisfies GetClasslistEmailsOutput, { stale, fetchedAt });
       } catch (error) {
         return sanitizeError(error);
       }
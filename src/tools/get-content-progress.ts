@@ -0,0 +1,113 @@
+/**
+ * Purdue Brightspace MCP Server
+ * Copyright (c) 2026 Rohan Muppa. All rights reserved.
+ * Licensed under AGPL-3.0 — see LICENSE file for details.
+ */
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { D2LApiClient, DEFAULT_CACHE_TTLS, whoami } from "../api/index.js";
+import type { EnrollmentService } from "../api/index.js";
+import { GetContentProgressSchema, GetContentProgressOutputSchema } from "./schemas.js";
+import type { GetContentProgressOutput } from "./schemas.js";
+import { toolResponse, sanitizeError, Freshness } from "./tool-helpers.js";
+import { buildContentTree, fetchProgressMap } from "./get-course-content.js";
+import { summarizeProgress } from "../utils/content-progress.js";
+import { log } from "../utils/logger.js";
+import type { ContentObject } from "./get-course-content.js";
+
+/**
+ * Mark topics as read/completed for the current user.
+ * Failures are reported per topic so one locked topic doesn't block the rest.
+ */
+async function markTopicsCompleted(
+  apiClient: D2LApiClient,
+  courseId: number,
+  topicIds: number[]
+): Promise<Array<{ topicId: number; success: boolean; error?: string }>> {
+  const { data: me } = await whoami(apiClient);
+
+  const results = [];
+  for (const topicId of topicIds) {
+    try {
+      // POST invalidates the cached /content/userprogress/ read that follows
+      await apiClient.post(apiClient.le(courseId, "/content/userprogress/"), {
+        ContentObjectId: topicId,
+        UserId: Number(me.Identifier),
+        IsRead: true,
+      });
+      results.push({ topicId, success: true });
+    } catch (error: any) {
+      log("DEBUG", `Failed to mark topic ${topicId} completed in course ${courseId}`, error);
+      results.push({
+        topicId,
+        success: false,
+        error: error?.status === 403 || error?.status === 404
+          ? "Topic not found or completion can't be set for it."
+          : "Could not mark this topic completed.",
+      });
+    }
+  }
+  return results;
+}
+
+/**
+ * Register get_content_progress tool
+ */
+export function registerGetContentProgress(
+  server: McpServer,
+  apiClient: D2LApiClient,
+  enrollments: EnrollmentService
+): void {
+  server.registerTool(
+    "get_content_progress",
+    {
+      title: "Get Content Progress",
+      description:
+        "Report how much of a course's content you've viewed/completed: completion percentage per module and a list of topics you haven't opened yet, soonest module due date first. Can also mark topics as viewed/completed (markCompleted). Use this when the user asks what lectures or readings they skipped, what they still need to watch, or how far through a course they are.",
+      inputSchema: GetContentProgressSchema,
+      outputSchema: GetContentProgressOutputSchema,
+    },
+    async (args: any) => {
+      try {
+        log("DEBUG", "get_content_progress tool called", { args });
+
+        // Parse and validate input
+        const { moduleTitle, markCompleted, ...courseRef } = GetContentProgressSchema.parse(args);
+        const courseId = await enrollments.requireCourseRef(courseRef);
+
+        const marked = markCompleted?.length
+          ? await markTopicsCompleted(apiClient, courseId, markCompleted)
+          : undefined;
+
+        const freshness = new Freshness();
+        let rootModules = freshness.track(await apiClient.getWithMeta<ContentObject[]>(
+          apiClient.le(courseId, "/content/root/"),
+          { ttl: DEFAULT_CACHE_TTLS.courseContent }
+        ));
+        if (moduleTitle) {
+          const searchTerm = moduleTitle.toLowerCase();
+          rootModules = rootModules.filter((m) => m.Title.toLowerCase().includes(searchTerm));
+        }
+
+        const progressMap = await fetchProgressMap(apiClient, courseId, freshness);
+        const tree = await buildContentTree(apiClient, courseId, rootModules, progressMap, { typeFilter: "all", freshness });
+        const report = summarizeProgress(tree);
+
+        log(
+          "INFO",
+          `get_content_progress: ${report.completedTopics}/${report.totalTopics} topics completed in course ${courseId}`
+        );
+        return toolResponse({
+          courseId,
+          ...(marked ? { marked } : {}),
+          ...report,
+          ...(progressMap.size === 0 && report.totalTopics > 0
+            ? { note: "Brightspace returned no progress data for this course, so every topic shows as incomplete." }
+            : {}),
+        } satisfies GetContentProgressOutput, freshness.value);
+      } catch (error) {
+        return sanitizeError(error);
+      }
+    }
+  );
+}
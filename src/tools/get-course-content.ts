@@ -5,14 +5,16 @@
  */
 
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { D2LApiClient, DEFAULT_CACHE_TTLS } from "../api/index.js";
-import { GetCourseContentSchema } from "./schemas.js";
-import { toolResponse, sanitizeError } from "./tool-helpers.js";
+import { D2LApiClient, ApiError, DEFAULT_CACHE_TTLS } from "../api/index.js";
+import type { EnrollmentService } from "../api/index.js";
+import { GetCourseContentSchema, GetCourseContentOutputSchema } from "./schemas.js";
+import type { GetCourseContentOutput } from "./schemas.js";
+import { toolResponse, sanitizeError, Freshness } from "./tool-helpers.js";
 import { convertHtmlToMarkdown } from "../utils/html-converter.js";
 import { log } from "../utils/logger.js";
 
 // D2L Content API response type
-interface ContentObject {
+export interface ContentObject {
   Id: number;
   Title: string;
   ShortTitle: string | null;
@@ -35,13 +37,49 @@ interface ContentObject {
 }
 
 // Progress tracking
-interface ContentProgress {
+export interface ContentProgress {
   UserId: number;
   ContentObjectId: number;
   IsRead: boolean;
   DateCompleted: string | null;
 }
 
+/**
+ * A module in the tree built by buildContentTree.
+ */
+export interface ContentTreeModule {
+  type: 'module';
+  id: number;
+  title: string;
+  description: string | null;
+  dueDate: string | null;
+  isHidden: boolean;
+  isLocked: boolean;
+  children: ContentTreeNode[];
+}
+
+/**
+ * A topic in the tree built by buildContentTree.
+ */
+export interface ContentTreeTopic {
+  type: 'topic';
+  topicType: string; // file, link or other
+  id: number;
+  title: string;
+  isHidden: boolean;
+  isLocked: boolean;
+  dueDate: string | null;
+  lastModified: string | null;
+  isCompleted: boolean;
+  completedDate: string | null;
+  description?: string | null; // file topics
+  topicId?: number; // file topics
+  url?: string | null; // link topics
+  content?: { markdown: string; html: string }; // HTML topics
+}
+
+export type ContentTreeNode = ContentTreeModule | ContentTreeTopic;
+
 // Topic type mapping
 const TOPIC_TYPE_MAP: Record<number, string> = {
   1: 'file',
@@ -68,38 +106,69 @@ function matchesTypeFilter(item: ContentObject, filter: string): boolean {
   }
 }
 
+/**
+ * Fetch my progress for a course, keyed by content object ID for O(1) lookups.
+ * Returns an empty map if progress isn't available. Also used by get_content_progress.
+ */
+export async function fetchProgressMap(
+  apiClient: D2LApiClient,
+  courseId: number,
+  freshness: Freshness = new Freshness()
+): Promise<Map<number, ContentProgress>> {
+  let progressArray: ContentProgress[] = [];
+  try {
+    progressArray = freshness.track(await apiClient.getWithMeta<ContentProgress[]>(
+      apiClient.le(courseId, '/content/userprogress/'),
+      { ttl: DEFAULT_CACHE_TTLS.courseContent }
+    ));
+  } catch (error) {
+    // 404/403 means no progress data available - not an error
+    if (!(error instanceof ApiError && (error.status === 404 || error.status === 403))) {
+      log('DEBUG', `Failed to fetch progress for course ${courseId}`, error);
+    }
+  }
+
+  const progressMap = new Map<number, ContentProgress>();
+  for (const p of progressArray) {
+    progressMap.set(p.ContentObjectId, p);
+  }
+  return progressMap;
+}
+
 /**
  * Recursively build the content tree with progress tracking.
+ * Also used by sync_course_content to enumerate file topics.
+ * Offline-cache reads are recorded in options.freshness.
  */
-async function buildContentTree(
+export async function buildContentTree(
   apiClient: D2LApiClient,
   courseId: number,
   modules: ContentObject[],
   progressMap: Map<number, ContentProgress>,
-  typeFilter: string,
-  maxDepth?: number,
+  options: { typeFilter: string; maxDepth?: number; freshness?: Freshness },
   currentDepth: number = 0,
-): Promise<any[]> {
-  const tree = [];
+): Promise<ContentTreeNode[]> {
+  const { typeFilter, maxDepth, freshness = new Freshness() } = options;
+  const tree: ContentTreeNode[] = [];
 
   for (const item of modules) {
     if (item.Type === 0) {
       // Module — fetch children recursively (unless maxDepth reached)
-      let processedChildren: any[] = [];
+      let processedChildren: ContentTreeNode[] = [];
 
       if (maxDepth === undefined || currentDepth < maxDepth) {
         let children: ContentObject[] = [];
         try {
-          children = await apiClient.get<ContentObject[]>(
+          children = freshness.track(await apiClient.getWithMeta<ContentObject[]>(
             apiClient.le(courseId, `/content/modules/${item.Id}/structure/`),
             { ttl: DEFAULT_CACHE_TTLS.courseContent }
-          );
+          ));
         } catch (e) {
           log('DEBUG', `Failed to fetch children for module ${item.Id}: skipping`);
         }
 
         processedChildren = await buildContentTree(
-          apiClient, courseId, children, progressMap, typeFilter, maxDepth, currentDepth + 1
+          apiClient, courseId, children, progressMap, { typeFilter, maxDepth, freshness }, currentDepth + 1
         );
       }
 
@@ -127,7 +196,7 @@ async function buildContentTree(
 
       const topicProgress = progressMap.get(item.Id);
 
-      const topic: any = {
+      const topic: ContentTreeTopic = {
         type: 'topic',
         topicType,
         id: item.Id,
@@ -135,6 +204,7 @@ async function buildContentTree(
         isHidden: item.IsHidden,
         isLocked: item.IsLocked,
         dueDate: item.DueDate ?? null,
+        lastModified: item.LastModifiedDate ?? null,
         isCompleted: topicProgress?.IsRead ?? false,
         completedDate: topicProgress?.DateCompleted ?? null,
       };
@@ -164,7 +234,7 @@ async function buildContentTree(
 /**
  * Count total topics in tree (for summary stats).
  */
-function countTopics(tree: any[]): number {
+function countTopics(tree: ContentTreeNode[]): number {
   let count = 0;
   for (const item of tree) {
     if (item.type === 'topic') {
@@ -179,7 +249,7 @@ function countTopics(tree: any[]): number {
 /**
  * Count total modules in tree (for summary stats).
  */
-function countModules(tree: any[]): number {
+function countModules(tree: ContentTreeNode[]): number {
   let count = 0;
   for (const item of tree) {
     if (item.type === 'module') {
@@ -197,7 +267,8 @@ function countModules(tree: any[]): number {
  */
 export function registerGetCourseContent(
   server: McpServer,
-  apiClient: D2LApiClient
+  apiClient: D2LApiClient,
+  enrollments: EnrollmentService
 ): void {
   server.registerTool(
     "get_course_content",
@@ -206,19 +277,22 @@ export function registerGetCourseContent(
       description:
         "Fetch the content tree for a course showing modules, topics, files, and links. Use this when the user asks about course materials, lecture slides, uploaded files, content structure, or what's in a course module. Use moduleTitle to filter to a specific module (e.g. 'Labs', 'Staff', 'Homeworks') instead of fetching the entire tree. Use maxDepth to limit recursion depth for a table-of-contents view.",
       inputSchema: GetCourseContentSchema,
+      outputSchema: GetCourseContentOutputSchema,
     },
     async (args: any) => {
       try {
         log("DEBUG", "get_course_content tool called", { args });
 
         // Parse and validate input
-        const { courseId, typeFilter = 'all', moduleTitle, maxDepth } = GetCourseContentSchema.parse(args);
+        const { typeFilter = 'all', moduleTitle, maxDepth, ...courseRef } = GetCourseContentSchema.parse(args);
+        const courseId = await enrollments.requireCourseRef(courseRef);
 
         // Fetch root modules
-        let rootModules = await apiClient.get<ContentObject[]>(
+        const freshness = new Freshness();
+        let rootModules = freshness.track(await apiClient.getWithMeta<ContentObject[]>(
           apiClient.le(courseId, '/content/root/'),
           { ttl: DEFAULT_CACHE_TTLS.courseContent }
-        );
+        ));
 
         // Filter root modules by title if specified
         if (moduleTitle) {
@@ -229,24 +303,7 @@ export function registerGetCourseContent(
         }
 
         // Fetch user progress for the course (graceful degradation)
-        let progressArray: ContentProgress[] = [];
-        try {
-          progressArray = await apiClient.get<ContentProgress[]>(
-            apiClient.le(courseId, '/content/userprogress/'),
-            { ttl: DEFAULT_CACHE_TTLS.courseContent }
-          );
-        } catch (error: any) {
-          // 404/403 means no progress data available - not an error
-          if (error?.status !== 404 && error?.status !== 403) {
-            log('DEBUG', `Failed to fetch progress for course ${courseId}`, error);
-          }
-        }
-
-        // Build progress map for O(1) lookups
-        const progressMap = new Map<number, ContentProgress>();
-        for (const p of progressArray) {
-          progressMap.set(p.ContentObjectId, p);
-        }
+        const progressMap = await fetchProgressMap(apiClient, courseId, freshness);
 
         // Recursively build content tree
         const contentTree = await buildContentTree(
@@ -254,8 +311,7 @@ export function registerGetCourseContent(
           courseId,
           rootModules,
           progressMap,
-          typeFilter,
-          maxDepth
+          { typeFilter, maxDepth, freshness }
         );
 
         const topicCount = countTopics(contentTree);
@@ -269,7 +325,7 @@ export function registerGetCourseContent(
           contentTree,
           topicCount,
           moduleCount,
-        });
+        } satisfies GetCourseContentOutput, freshness.value);
       } catch (error) {
         return sanitizeError(error);
       }
@@ -6,8 +6,10 @@
 
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { D2LApiClient, DEFAULT_CACHE_TTLS } from "../api/index.js";
-import { GetDiscussionsSchema } from "./schemas.js";
-import { toolResponse, sanitizeError, errorResponse } from "./tool-helpers.js";
+import type { EnrollmentService } from "../api/index.js";
+import { GetDiscussionsSchema, GetDiscussionsOutputSchema } from "./schemas.js";
+import type { GetDiscussionsOutput } from "./schemas.js";
+import { toolResponse, sanitizeError, errorResponse, Freshness } from "./tool-helpers.js";
 import { convertHtmlToMarkdown } from "../utils/html-converter.js";
 import { log } from "../utils/logger.js";
 
@@ -65,7 +67,8 @@ interface D2LPost {
  */
 export function registerGetDiscussions(
   server: McpServer,
-  apiClient: D2LApiClient
+  apiClient: D2LApiClient,
+  enrollments: EnrollmentService
 ): void {
   server.registerTool(
     "get_discussions",
@@ -74,12 +77,14 @@ export function registerGetDiscussions(
       description:
         "Fetch discussion board content for a course including forums, topics, and posts. Use this when the user asks about discussion boards, forum posts, class discussions, or wants to see what's been posted. Provide just courseId to list all forums and their topics. Add forumId to get topics and posts for a specific forum. Add both forumId and topicId to get all posts in a specific discussion topic.",
       inputSchema: GetDiscussionsSchema,
+      outputSchema: GetDiscussionsOutputSchema,
     },
     async (args: any) => {
       try {
         log("DEBUG", "get_discussions tool called", { args });
 
-        const { courseId, forumId, topicId } = GetDiscussionsSchema.parse(args);
+        const { forumId, topicId, ...courseRef } = GetDiscussionsSchema.parse(args);
+        const courseId = await enrollments.requireCourseRef(courseRef);
 
         // topicId requires forumId
         if (topicId !== undefined && forumId === undefined) {
@@ -114,10 +119,11 @@ async function getForumsOverview(
   apiClient: D2LApiClient,
   courseId: number
 ): Promise<any> {
+  const freshness = new Freshness();
   const forumsPath = apiClient.le(courseId, "/discussions/forums/");
-  const forums = await apiClient.get<D2LForum[]>(forumsPath, {
+  const forums = freshness.track(await apiClient.getWithMeta<D2LForum[]>(forumsPath, {
     ttl: DEFAULT_CACHE_TTLS.courseContent,
-  });
+  }));
 
   const result = [];
 
@@ -129,9 +135,9 @@ async function getForumsOverview(
         courseId,
         `/discussions/forums/${forum.ForumId}/topics/`
       );
-      topics = await apiClient.get<D2LTopic[]>(topicsPath, {
+      topics = freshness.track(await apiClient.getWithMeta<D2LTopic[]>(topicsPath, {
         ttl: DEFAULT_CACHE_TTLS.courseContent,
-      });
+      }));
     } catch (error: any) {
       if (error?.status === 403) {
         log("DEBUG", `No access to topics for forum ${forum.ForumId}, skipping`);
@@ -169,7 +175,7 @@ async function getForumsOverview(
     courseId,
     forumCount: result.length,
     forums: result,
-  });
+  } satisfies GetDiscussionsOutput, freshness.value);
 }
 
 /**
@@ -180,23 +186,25 @@ async function getForumDetail(
   courseId: number,
   forumId: number
 ): Promise<any> {
+  const freshness = new Freshness();
+
   // Fetch forum info
   const forumPath = apiClient.le(
     courseId,
     `/discussions/forums/${forumId}`
   );
-  const forum = await apiClient.get<D2LForum>(forumPath, {
+  const forum = freshness.track(await apiClient.getWithMeta<D2LForum>(forumPath, {
     ttl: DEFAULT_CACHE_TTLS.courseContent,
-  });
+  }));
 
   // Fetch topics
   const topicsPath = apiClient.le(
     courseId,
     `/discussions/forums/${forumId}/topics/`
   );
-  const topics = await apiClient.get<D2LTopic[]>(topicsPath, {
+  const topics = freshness.track(await apiClient.getWithMeta<D2LTopic[]>(topicsPath, {
     ttl: DEFAULT_CACHE_TTLS.courseContent,
-  });
+  }));
 
   // Fetch posts for each topic
   const topicsWithPosts = [];
@@ -207,9 +215,9 @@ async function getForumDetail(
         courseId,
         `/discussions/forums/${forumId}/topics/${topic.TopicId}/posts/`
       );
-      posts = await apiClient.get<D2LPost[]>(postsPath, {
+      posts = freshness.track(await apiClient.getWithMeta<D2LPost[]>(postsPath, {
         ttl: DEFAULT_CACHE_TTLS.announcements,
-      });
+      }));
     } catch (error: any) {
       if (error?.status === 403) {
         log("DEBUG", `No access to posts for topic ${topic.TopicId}, skipping`);
@@ -249,7 +257,7 @@ async function getForumDetail(
     },
     topicCount: topicsWithPosts.length,
     topics: topicsWithPosts,
-  });
+  } satisfies GetDiscussionsOutput, freshness.value);
 }
 
 /**
@@ -261,23 +269,25 @@ async function getTopicPosts(
   forumId: number,
   topicId: number
 ): Promise<any> {
+  const freshness = new Freshness();
+
   // Fetch topic info
   const topicPath = apiClient.le(
     courseId,
     `/discussions/forums/${forumId}/topics/${topicId}`
   );
-  const topic = await apiClient.get<D2LTopic>(topicPath, {
+  const topic = freshness.track(await apiClient.getWithMeta<D2LTopic>(topicPath, {
     ttl: DEFAULT_CACHE_TTLS.courseContent,
-  });
+  }));
 
   // Fetch posts
   const postsPath = apiClient.le(
     courseId,
     `/discussions/forums/${forumId}/topics/${topicId}/posts/`
   );
-  const posts = await apiClient.get<D2LPost[]>(postsPath, {
+  const posts = freshness.track(await apiClient.getWithMeta<D2LPost[]>(postsPath, {
     ttl: DEFAULT_CACHE_TTLS.announcements,
-  });
+  }));
 
   log(
     "INFO",
@@ -300,13 +310,13 @@ async function getTopicPosts(
     },
     postCount: posts.length,
     posts: formatPosts(posts),
-  });
+  } satisfies GetDiscussionsOutput, freshness.value);
 }
 
 /**
  * Format posts into a clean thread structure.
  */
-function formatPosts(posts: D2LPost[]): any[] {
+function formatPosts(posts: D2LPost[]) {
   return posts
     .filter((p) => !p.IsDeleted)
     .map((p) => ({
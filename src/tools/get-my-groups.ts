@@ -0,0 +1,186 @@
+/**
+ * Purdue Brightspace MCP Server
+ * Copyright (c) 2026 Rohan Muppa. All rights reserved.
+ * Licensed under AGPL-3.0 — see LICENSE file for details.
+ */
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { D2LApiClient, DEFAULT_CACHE_TTLS, whoami } from "../api/index.js";
+import type { EnrollmentService } from "../api/index.js";
+import { GetMyGroupsSchema, GetMyGroupsOutputSchema } from "./schemas.js";
+import type { GetMyGroupsOutput } from "./schemas.js";
+import { toolResponse, sanitizeError, Freshness } from "./tool-helpers.js";
+import { log } from "../utils/logger.js";
+
+// D2L Groups API types
+interface GroupCategoryData {
+  GroupCategoryId: number;
+  Name: string;
+  Description: { Text: string; Html: string } | null;
+  MaxUsersPerGroup: number | null;
+  SelfEnrollmentExpiryDate: string | null;
+}
+
+interface GroupData {
+  GroupId: number;
+  Name: string;
+  Code: string;
+  Enrollments: number[]; // user IDs
+}
+
+interface ClasslistUser {
+  Identifier: string;
+  DisplayName: string;
+  Email: string | null;
+}
+
+export interface GroupMember {
+  userId: number;
+  name: string;
+  email: string | null;
+  isMe: boolean;
+}
+
+export interface MyGroupCategory {
+  categoryId: number;
+  name: string;
+  description: string | null;
+  maxUsersPerGroup: number | null;
+  selfEnrollmentDeadline: string | null;
+  myGroup: {
+    groupId: number;
+    name: string;
+    code: string;
+    members: GroupMember[];
+  } | null; // null = not in any group of this category
+}
+
+/**
+ * Fetch a course's group categories with the group I'm in for each one.
+ * Also used by get_assignments to show group folder membership.
+ * Offline-cache reads are recorded in freshness.
+ *
+ * @throws ApiError (e.g. 403) if the course's groups aren't visible to students
+ */
+export async function fetchMyGroups(
+  apiClient: D2LApiClient,
+  courseId: number,
+  freshness = new Freshness()
+): Promise<MyGroupCategory[]> {
+  const [meRead, categoriesRead] = await Promise.all([
+    whoami(apiClient),
+    apiClient.getWithMeta<GroupCategoryData[]>(apiClient.lp(`/${courseId}/groupcategories/`), {
+      ttl: DEFAULT_CACHE_TTLS.roster,
+    }),
+  ]);
+  const me = freshness.track(meRead);
+  const categories = freshness.track(categoriesRead);
+  const myId = Number(me.Identifier);
+
+  const results: MyGroupCategory[] = [];
+  let classlist: Map<number, ClasslistUser> | null = null;
+
+  for (const category of categories) {
+    let groups: GroupData[] = [];
+    try {
+      groups = freshness.track(await apiClient.getWithMeta<GroupData[]>(
+        apiClient.lp(`/${courseId}/groupcategories/${category.GroupCategoryId}/groups/`),
+        { ttl: DEFAULT_CACHE_TTLS.roster }
+      ));
+    } catch (error: any) {
+      // Some categories are hidden from students — list the category without a group
+      if (error?.status !== 403 && error?.status !== 404) throw error;
+      log("DEBUG", `Groups hidden for category ${category.GroupCategoryId} in course ${courseId}`);
+    }
+
+    const mine = groups.find((g) => g.Enrollments?.includes(myId));
+
+    let members: GroupMember[] = [];
+    if (mine) {
+      // Classlist is fetched once, and only if I'm actually in a group
+      if (!classlist) {
+        classlist = new Map();
+        try {
+          const users = freshness.track(await apiClient.getAllPagesWithMeta<ClasslistUser>(
+            apiClient.le(courseId, "/classlist/paged/"),
+            { ttl: DEFAULT_CACHE_TTLS.roster }
+          ));
+          for (const user of users) classlist.set(Number(user.Identifier), user);
+        } catch (error) {
+          log("DEBUG", `Classlist unavailable for course ${courseId}, group members will be unnamed`, error);
+        }
+      }
+      members = mine.Enrollments.map((userId) => ({
+        userId,
+        name: classlist!.get(userId)?.DisplayName ?? `User ${userId}`,
+        email: classlist!.get(userId)?.Email ?? null,
+        isMe: userId === myId,
+      }));
+    }
+
+    results.push({
+      categoryId: category.GroupCategoryId,
+      name: category.Name,
+      description: category.Description?.Text || null,
+      maxUsersPerGroup: category.MaxUsersPerGroup ?? null,
+      selfEnrollmentDeadline: category.SelfEnrollmentExpiryDate ?? null,
+      myGroup: mine
+        ? { groupId: mine.GroupId, name: mine.Name, code: mine.Code, members }
+        : null,
+    });
+  }
+
+  return results;
+}
+
+/**
+ * Register get_my_groups tool
+ */
+export function registerGetMyGroups(
+  server: McpServer,
+  apiClient: D2LApiClient,
+  enrollments: EnrollmentService
+): void {
+  server.registerTool(
+    "get_my_groups",
+    {
+      title: "Get My Groups",
+      description:
+        "List group categories (project teams, lab sections, etc.) for a course or all enrolled courses, with the group you're in and your groupmates' names and emails. Use this when the user asks about their project group, team members, groupmates, or which group they're in.",
+      inputSchema: GetMyGroupsSchema,
+      outputSchema: GetMyGroupsOutputSchema,
+    },
+    async (args: any) => {
+      try {
+        log("DEBUG", "get_my_groups tool called", { args });
+
+        // Parse and validate input
+        const courseId = await enrollments.resolveCourseRef(GetMyGroupsSchema.parse(args));
+        const freshness = new Freshness();
+
+        // Single course case
+        if (courseId) {
+          const categories = await fetchMyGroups(apiClient, courseId, freshness);
+          log("INFO", `get_my_groups: Retrieved ${categories.length} group categories for course ${courseId}`);
+          return toolResponse({ courseId, categories } satisfies GetMyGroupsOutput, freshness.value);
+        }
+
+        // All courses case — 403/404 means groups aren't used or visible in that course
+        const courses = freshness.track(await enrollments.listCoursesWithMeta());
+        const { results } = await enrollments.forEachCourse(courses, "get_my_groups", async (course) => ({
+          courseId: course.id,
+          courseName: course.name,
+          categories: await fetchMyGroups(apiClient, course.id, freshness),
+        }));
+
+        // Skip courses without any group categories
+        const withGroups = results.map((r) => r.value).filter((c) => c.categories.length > 0);
+
+        log("INFO", `get_my_groups: ${withGroups.length} of ${courses.length} courses use groups`);
+        return toolResponse({ courses: withGroups } satisfies GetMyGroupsOutput, freshness.value);
+      } catch (error) {
+        return sanitizeError(error);
+      }
+    }
+  );
+}
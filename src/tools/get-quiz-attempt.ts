@@ -0,0 +1,143 @@
+/**
+ * Purdue Brightspace MCP Server
+ * Copyright (c) 2026 Rohan Muppa. All rights reserved.
+ * Licensed under AGPL-3.0 — see LICENSE file for details.
+ */
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { D2LApiClient, DEFAULT_CACHE_TTLS, ApiError } from "../api/index.js";
+import type { EnrollmentService } from "../api/index.js";
+import { GetQuizAttemptSchema, GetQuizAttemptOutputSchema } from "./schemas.js";
+import type { GetQuizAttemptOutput } from "./schemas.js";
+import { toolResponse, sanitizeError, errorResponse, Freshness } from "./tool-helpers.js";
+import { convertHtmlToMarkdown } from "../utils/html-converter.js";
+import { reviewQuestion } from "../utils/quiz-review.js";
+import { log } from "../utils/logger.js";
+import type { QuizQuestion, QuizQuestionResponse } from "../utils/quiz-review.js";
+import type { QuizReadData, QuizAttemptData } from "./get-assignments.js";
+
+interface QuizAttemptDetail extends QuizAttemptData {
+  OverallFeedback: { Text: string; Html: string } | null;
+}
+
+const REVIEW_DISABLED_MESSAGE =
+  "The instructor has not allowed students to review this quiz's questions and answers. Only the attempt score is available.";
+
+function isForbidden(error: unknown): boolean {
+  return error instanceof ApiError && error.status === 403;
+}
+
+/**
+ * Register get_quiz_attempt tool
+ */
+export function registerGetQuizAttempt(
+  server: McpServer,
+  apiClient: D2LApiClient,
+  enrollments: EnrollmentService
+): void {
+  server.registerTool(
+    "get_quiz_attempt",
+    {
+      title: "Get Quiz Attempt",
+      description:
+        "Review a completed quiz attempt question by question: question text, your answer, the correct answer, points earned and feedback. Only works where the instructor allows quiz review; otherwise returns the attempt score with a note. Use this when the user wants to study from a past quiz, see what they got wrong, or go over quiz feedback. Defaults to the most recent completed attempt.",
+      inputSchema: GetQuizAttemptSchema,
+      outputSchema: GetQuizAttemptOutputSchema,
+    },
+    async (args: any) => {
+      try {
+        log("DEBUG", "get_quiz_attempt tool called", { args });
+
+        // Parse and validate input
+        const { quizId, attemptId, ...courseRef } = GetQuizAttemptSchema.parse(args);
+        const courseId = await enrollments.requireCourseRef(courseRef);
+
+        const freshness = new Freshness();
+        const quiz = freshness.track(await apiClient.getWithMeta<QuizReadData>(
+          apiClient.le(courseId, `/quizzes/${quizId}`),
+          { ttl: DEFAULT_CACHE_TTLS.assignments }
+        ));
+
+        // Resolve which attempt to review
+        let selectedAttemptId = attemptId;
+        if (selectedAttemptId === undefined) {
+          const attempts = freshness.track(await apiClient.getAllPagesWithMeta<QuizAttemptData>(
+            apiClient.le(courseId, `/quizzes/${quizId}/attempts/`),
+            { ttl: DEFAULT_CACHE_TTLS.assignments }
+          ));
+          const latest = attempts
+            .filter((a) => a.IsCompleted)
+            .sort((a, b) => b.AttemptNumber - a.AttemptNumber)[0];
+          if (!latest) {
+            return errorResponse(`You have no completed attempts for "${quiz.Name}".`);
+          }
+          selectedAttemptId = latest.AttemptId;
+        }
+
+        const attempt = freshness.track(await apiClient.getWithMeta<QuizAttemptDetail>(
+          apiClient.le(courseId, `/quizzes/${quizId}/attempts/${selectedAttemptId}`),
+          { ttl: DEFAULT_CACHE_TTLS.assignments }
+        ));
+
+        const summary = {
+          courseId,
+          quizId,
+          quiz: quiz.Name,
+          attemptId: attempt.AttemptId,
+          attemptNumber: attempt.AttemptNumber,
+          completedDate: attempt.CompletedDate,
+          score: attempt.Score,
+          overallFeedback: attempt.OverallFeedback?.Html
+            ? convertHtmlToMarkdown(attempt.OverallFeedback.Html).markdown
+            : attempt.OverallFeedback?.Text || null,
+        };
+
+        // Questions and responses are only readable when review is enabled (403 otherwise)
+        let questions: QuizQuestion[];
+        let responses: QuizQuestionResponse[] | null = null;
+        try {
+          questions = freshness.track(await apiClient.getAllPagesWithMeta<QuizQuestion>(
+            apiClient.le(courseId, `/quizzes/${quizId}/questions/`),
+            { ttl: DEFAULT_CACHE_TTLS.assignments }
+          ));
+        } catch (error) {
+          if (isForbidden(error)) {
+            log("INFO", `get_quiz_attempt: review disabled for quiz ${quizId}`);
+            return toolResponse({ ...summary, reviewAvailable: false, message: REVIEW_DISABLED_MESSAGE } satisfies GetQuizAttemptOutput, freshness.value);
+          }
+          throw error;
+        }
+
+        try {
+          responses = freshness.track(await apiClient.getAllPagesWithMeta<QuizQuestionResponse>(
+            apiClient.le(courseId, `/quizzes/${quizId}/attempts/${attempt.AttemptId}/responses/`),
+            { ttl: DEFAULT_CACHE_TTLS.assignments }
+          ));
+        } catch (error) {
+          if (isForbidden(error)) {
+            return toolResponse({ ...summary, reviewAvailable: false, message: REVIEW_DISABLED_MESSAGE } satisfies GetQuizAttemptOutput, freshness.value);
+          }
+          if (!(error instanceof ApiError && error.status === 404)) {
+            throw error;
+          }
+          // 404: questions are reviewable but this attempt's answers aren't
+        }
+
+        const byQuestion = new Map((responses ?? []).map((r) => [r.QuestionId, r]));
+        const reviewed = questions.map((question) =>
+          reviewQuestion(question, responses ? byQuestion.get(question.QuestionId) : undefined)
+        );
+
+        log("INFO", `get_quiz_attempt: Reviewed ${reviewed.length} questions for attempt ${attempt.AttemptId}`);
+        return toolResponse({
+          ...summary,
+          reviewAvailable: true,
+          ...(responses ? {} : { message: "Your answers for this attempt aren't available; showing questions and correct answers only." }),
+          questions: reviewed,
+        } satisfies GetQuizAttemptOutput, freshness.value);
+      } catch (error) {
+        return sanitizeError(error);
+      }
+    }
+  );
+}
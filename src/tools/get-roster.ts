@@ -6,9 +6,13 @@
 
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { D2LApiClient, DEFAULT_CACHE_TTLS } from "../api/index.js";
+import type { EnrollmentService } from "../api/index.js";
+import type { CachedResponse } from "../api/index.js";
 import {
   GetRosterSchema,
+  GetRosterOutputSchema,
 } from "./schemas.js";
+import type { GetRosterOutput } from "./schemas.js";
 import { toolResponse, sanitizeError } from "./tool-helpers.js";
 import { log } from "../utils/logger.js";
 
@@ -24,11 +28,6 @@ interface ClasslistUser {
   LastAccessed: string | null;
 }
 
-interface ClasslistResponse {
-  Objects: ClasslistUser[];
-  Next?: string | null;
-}
-
 // Purdue-specific role IDs. These are institution-specific values.
 // If using at another institution, you may need to adjust these.
 // Discover by fetching classlist for a known course and inspecting RoleId values.
@@ -36,13 +35,13 @@ const INSTRUCTOR_ROLE_ID = 109;
 const TA_ROLE_ID = 135;
 
 /**
- * Fetch a page of classlist users with optional filters
+ * Fetch all classlist users (every page) with optional filters
  */
-async function fetchClasslistPage(
+async function fetchClasslist(
   apiClient: D2LApiClient,
   courseId: number,
   options?: { roleId?: number; searchTerm?: string }
-): Promise<ClasslistUser[]> {
+): Promise<CachedResponse<ClasslistUser[]>> {
   const params = new URLSearchParams();
 
   if (options?.roleId !== undefined) {
@@ -59,19 +58,9 @@ async function fetchClasslistPage(
     `/classlist/paged/${queryString ? "?" + queryString : ""}`
   );
 
-  const response = await apiClient.get<ClasslistResponse>(path, {
+  return apiClient.getAllPagesWithMeta<ClasslistUser>(path, {
     ttl: DEFAULT_CACHE_TTLS.roster,
   });
-
-  if (response.Next) {
-    log(
-      "WARN",
-      "get_roster: Pagination detected but not implemented. Some users may be missing.",
-      { courseId, next: response.Next }
-    );
-  }
-
-  return response.Objects;
 }
 
 /**
@@ -79,7 +68,8 @@ async function fetchClasslistPage(
  */
 export function registerGetRoster(
   server: McpServer,
-  apiClient: D2LApiClient
+  apiClient: D2LApiClient,
+  enrollments: EnrollmentService
 ): void {
   server.registerTool(
     "get_roster",
@@ -88,24 +78,27 @@ export function registerGetRoster(
       description:
         "Fetch the roster for a course including instructors, TAs, and optionally students with their names, emails, and roles. Use this when the user asks about classmates, instructor contact info, TA emails, professor names, or who's in a class. By default returns only instructors and TAs for privacy. Use includeStudents to get full class list.",
       inputSchema: GetRosterSchema,
+      outputSchema: GetRosterOutputSchema,
     },
     async (args: any) => {
       try {
         log("DEBUG", "get_roster tool called", { args });
 
         // Parse and validate input
-        const { courseId, includeStudents, searchTerm } = GetRosterSchema.parse(args);
+        const { includeStudents, searchTerm, ...courseRef } = GetRosterSchema.parse(args);
+        const courseId = await enrollments.requireCourseRef(courseRef);
 
         let allUsers: ClasslistUser[] = [];
+        const pages: CachedResponse<ClasslistUser[]>[] = [];
 
         if (!includeStudents) {
           // Fetch instructors and TAs in parallel
           const [instructorResult, taResult] = await Promise.allSettled([
-            fetchClasslistPage(apiClient, courseId, {
+            fetchClasslist(apiClient, courseId, {
               roleId: INSTRUCTOR_ROLE_ID,
               searchTerm,
             }),
-            fetchClasslistPage(apiClient, courseId, {
+            fetchClasslist(apiClient, courseId, {
               roleId: TA_ROLE_ID,
               searchTerm,
             }),
@@ -113,7 +106,8 @@ export function registerGetRoster(
 
           // Merge results
           if (instructorResult.status === "fulfilled") {
-            allUsers.push(...instructorResult.value);
+            pages.push(instructorResult.value);
+            allUsers.push(...instructorResult.value.data);
           } else {
             log("WARN", "get_roster: Failed to fetch instructors", {
               error: instructorResult.reason,
@@ -121,7 +115,8 @@ export function registerGetRoster(
           }
 
           if (taResult.status === "fulfilled") {
-            allUsers.push(...taResult.value);
+            pages.push(taResult.value);
+            allUsers.push(...taResult.value.data);
           } else {
             log("WARN", "get_roster: Failed to fetch TAs", {
               error: taResult.reason,
@@ -129,9 +124,11 @@ export function registerGetRoster(
           }
         } else {
           // Fetch all users
-          allUsers = await fetchClasslistPage(apiClient, courseId, {
+          const page = await fetchClasslist(apiClient, courseId, {
             searchTerm,
           });
+          pages.push(page);
+          allUsers = page.data;
 
           // Cap at 100 users to prevent MCP response size issues
           if (allUsers.length > 100) {
@@ -150,8 +147,14 @@ export function registerGetRoster(
           role: user.ClasslistRoleDisplayName,
         }));
 
+        // Report the oldest stale page, if any were served from the offline cache
+        const stalePages = pages.filter((p) => p.stale);
+        const freshness = stalePages.length > 0
+          ? { stale: true, fetchedAt: Math.min(...stalePages.map((p) => p.fetchedAt)) }
+          : undefined;
+
         log("INFO", `get_roster: Retrieved ${roster.length} users for course ${courseId}`);
-        return toolResponse(roster);
+        return toolResponse({ roster } satisfies GetRosterOutput, freshness);
       } catch (error) {
         return sanitizeError(error);
       }
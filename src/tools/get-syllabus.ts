@@ -6,12 +6,14 @@
 
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { D2LApiClient, ApiError, DEFAULT_CACHE_TTLS } from "../api/index.js";
-import { GetSyllabusSchema } from "./schemas.js";
-import { toolResponse, sanitizeError, errorResponse } from "./tool-helpers.js";
+import type { EnrollmentService } from "../api/index.js";
+import { GetSyllabusSchema, GetSyllabusOutputSchema } from "./schemas.js";
+import type { GetSyllabusOutput } from "./schemas.js";
+import { toolResponse, sanitizeError, errorResponse, Freshness } from "./tool-helpers.js";
 import { convertHtmlToMarkdown } from "../utils/html-converter.js";
 import { secureDownload } from "../utils/download-helpers.js";
 import { MAX_FILE_SIZE } from "../utils/file-validator.js";
-import { extractPdfText } from "../utils/pdf-extractor.js";
+import { extractDocumentText } from "../utils/document-extractor.js";
 import { log } from "../utils/logger.js";
 import path from "node:path";
 import fs from "node:fs/promises";
@@ -21,26 +23,77 @@ interface CourseOverview {
   Description: { Text: string; Html: string } | null;
 }
 
+/**
+ * Fetch a course's syllabus/overview attachment.
+ * Also used by the syllabus resource.
+ *
+ * @returns The file, null if the course has none, or an error message if it exceeds MAX_FILE_SIZE
+ */
+export async function fetchSyllabusAttachment(
+  apiClient: D2LApiClient,
+  courseId: number
+): Promise<{ filename: string; data: Buffer } | string | null> {
+  try {
+    const response = await apiClient.getRaw(
+      apiClient.le(courseId, "/overview/attachment")
+    );
+    if (!response.ok) return null;
+
+    // Check Content-Length before downloading body
+    const contentLength = parseInt(
+      response.headers.get("Content-Length") ?? "0",
+      10
+    );
+    if (contentLength > MAX_FILE_SIZE) {
+      return `Attachment too large (${Math.round(contentLength / 1024 / 1024)}MB). Maximum allowed: ${MAX_FILE_SIZE / 1024 / 1024}MB`;
+    }
+
+    // Get filename from Content-Disposition header
+    let filename = "syllabus";
+    const disposition = response.headers.get("Content-Disposition") ?? "";
+    const match = disposition.match(/filename[^;=\n]*=((['"]).*?\2|[^;\n]*)/);
+    if (match?.[1]) {
+      filename = match[1].replace(/['"]/g, "");
+    }
+
+    // Download body as buffer
+    const data = Buffer.from(await response.arrayBuffer());
+    if (data.length > MAX_FILE_SIZE) {
+      return `Attachment too large (${Math.round(data.length / 1024 / 1024)}MB). Maximum allowed: ${MAX_FILE_SIZE / 1024 / 1024}MB`;
+    }
+
+    return { filename, data };
+  } catch (error) {
+    if (!(error instanceof ApiError && error.status === 404)) {
+      log("DEBUG", "Could not fetch syllabus attachment", error);
+    }
+    return null;
+  }
+}
+
 /**
  * Register get_syllabus tool
  */
 export function registerGetSyllabus(
   server: McpServer,
-  apiClient: D2LApiClient
+  apiClient: D2LApiClient,
+  enrollments: EnrollmentService
 ): void {
   server.registerTool(
     "get_syllabus",
     {
       title: "Get Course Syllabus",
       description:
-        "Fetch the syllabus/overview text and optional attachment for a course. Returns the course overview description as markdown. If downloadPath is provided, also downloads the syllabus attachment (e.g. PDF). IMPORTANT: You MUST ask the user where they want to save the file before calling this tool with a downloadPath.",
+        "Fetch the syllabus/overview text and optional attachment for a course. Returns the course overview description as markdown, plus the text of the syllabus attachment (PDF, Word, PowerPoint, Excel). If downloadPath is provided, also downloads the syllabus attachment (e.g. PDF). IMPORTANT: You MUST ask the user where they want to save the file before calling this tool with a downloadPath.",
       inputSchema: GetSyllabusSchema,
+      outputSchema: GetSyllabusOutputSchema,
     },
     async (args: any) => {
       try {
         log("DEBUG", "get_syllabus tool called", { args });
 
-        const { courseId, downloadPath } = GetSyllabusSchema.parse(args);
+        const { downloadPath, extractText, ...courseRef } = GetSyllabusSchema.parse(args);
+        const courseId = await enrollments.requireCourseRef(courseRef);
 
         // Validate downloadPath if provided
         if (downloadPath !== undefined) {
@@ -67,12 +120,13 @@ export function registerGetSyllabus(
         }
 
         // Fetch overview text
+        const freshness = new Freshness();
         let overview: CourseOverview | null = null;
         try {
-          overview = await apiClient.get<CourseOverview>(
+          overview = freshness.track(await apiClient.getWithMeta<CourseOverview>(
             apiClient.le(courseId, "/overview"),
             { ttl: DEFAULT_CACHE_TTLS.courseContent }
-          );
+          ));
         } catch (error) {
           if (error instanceof ApiError && error.status === 404) {
             return toolResponse({
@@ -80,7 +134,7 @@ export function registerGetSyllabus(
               description: null,
               hasAttachment: false,
               message: "No syllabus/overview found for this course.",
-            });
+            } satisfies GetSyllabusOutput);
           }
           throw error;
         }
@@ -90,64 +144,19 @@ export function registerGetSyllabus(
           ? convertHtmlToMarkdown(overview.Description.Html)
           : null;
 
-        // Always attempt to fetch the attachment so we can extract PDF text
-        let attachmentBuffer: Buffer | null = null;
-        let attachmentFilename = "syllabus";
-        let hasAttachment = false;
-
-        try {
-          const response = await apiClient.getRaw(
-            apiClient.le(courseId, "/overview/attachment")
-          );
-
-          if (response.ok) {
-            hasAttachment = true;
-
-            // Check Content-Length before downloading body
-            const contentLength = parseInt(
-              response.headers.get("Content-Length") ?? "0",
-              10
-            );
-            if (contentLength > MAX_FILE_SIZE) {
-              return errorResponse(
-                `Attachment too large (${Math.round(contentLength / 1024 / 1024)}MB). Maximum allowed: ${MAX_FILE_SIZE / 1024 / 1024}MB`
-              );
-            }
-
-            // Get filename from Content-Disposition header
-            const disposition = response.headers.get("Content-Disposition") ?? "";
-            const match = disposition.match(/filename[^;=\n]*=((['"]).*?\2|[^;\n]*)/);
-            if (match?.[1]) {
-              attachmentFilename = match[1].replace(/['"]/g, "");
-            }
-
-            // Download body as buffer
-            attachmentBuffer = Buffer.from(await response.arrayBuffer());
-
-            if (attachmentBuffer.length > MAX_FILE_SIZE) {
-              return errorResponse(
-                `Attachment too large (${Math.round(attachmentBuffer.length / 1024 / 1024)}MB). Maximum allowed: ${MAX_FILE_SIZE / 1024 / 1024}MB`
-              );
-            }
-          }
-        } catch (error) {
-          if (error instanceof ApiError && error.status === 404) {
-            hasAttachment = false;
-          } else {
-            log("DEBUG", "Could not fetch syllabus attachment", error);
-          }
+        // Always attempt to fetch the attachment so we can extract its text
+        const attachment = await fetchSyllabusAttachment(apiClient, courseId);
+        if (typeof attachment === "string") {
+          return errorResponse(attachment);
         }
+        const hasAttachment = attachment !== null;
+        const attachmentBuffer = attachment?.data ?? null;
+        const attachmentFilename = attachment?.filename ?? "syllabus";
 
-        // Extract text from PDF attachment if available
-        let syllabusText: string | null = null;
-        let totalPages: number | undefined;
-        if (attachmentBuffer && attachmentFilename.toLowerCase().endsWith(".pdf")) {
-          const extracted = await extractPdfText(attachmentBuffer);
-          if (extracted) {
-            syllabusText = extracted.text;
-            totalPages = extracted.totalPages;
-          }
-        }
+        // Extract text from the attachment (PDF, Word, etc.) if available
+        const extracted = attachmentBuffer && extractText
+          ? await extractDocumentText(attachmentBuffer, attachmentFilename)
+          : null;
 
         // Save to disk if downloadPath provided
         let download: { success: boolean; filePath?: string; fileSize?: number; mimeType?: string; error?: string } | undefined;
@@ -182,11 +191,13 @@ export function registerGetSyllabus(
         log("INFO", `get_syllabus: Retrieved overview for course ${courseId}`);
 
         // Build response
-        const result: Record<string, unknown> = { courseId, description };
+        const result: GetSyllabusOutput = { courseId, description };
 
-        if (syllabusText) {
-          result.syllabusText = syllabusText;
-          if (totalPages) result.totalPages = totalPages;
+        if (extracted) {
+          result.syllabusText = extracted.text;
+          if (extracted.totalPages) result.totalPages = extracted.totalPages;
+          if (extracted.totalSlides) result.totalSlides = extracted.totalSlides;
+          if (extracted.truncated) result.truncated = true;
         } else {
           result.hasAttachment = hasAttachment;
         }
@@ -195,7 +206,7 @@ export function registerGetSyllabus(
           result.download = download;
         }
 
-        return toolResponse(result);
+        return toolResponse(result, freshness.value);
       } catch (error) {
         return sanitizeError(error);
       }
@@ -0,0 +1,133 @@
+/**
+ * Purdue Brightspace MCP Server
+ * Copyright (c) 2026 Rohan Muppa. All rights reserved.
+ * Licensed under AGPL-3.0 — see LICENSE file for details.
+ */
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { D2LApiClient, ApiError, DEFAULT_CACHE_TTLS } from "../api/index.js";
+import type { EnrollmentService, EnrolledCourse } from "../api/index.js";
+import { GetTranscriptSummarySchema, GetTranscriptSummaryOutputSchema } from "./schemas.js";
+import type { GetTranscriptSummaryOutput } from "./schemas.js";
+import { toolResponse, sanitizeError, Freshness } from "./tool-helpers.js";
+import { groupByTerm } from "../utils/terms.js";
+import { log } from "../utils/logger.js";
+
+// D2L GradeValue for the final calculated/adjusted grade — only the parts we read
+interface FinalGradeValue {
+  DisplayedGrade: string;
+  PointsNumerator: number | null;
+  PointsDenominator: number | null;
+}
+
+type FinalGradeStatus = "graded" | "not_released" | "unavailable";
+
+interface TranscriptCourse {
+  courseId: number;
+  code: string;
+  name: string;
+  finalGrade: string | null;
+  percent: number | null;
+  status: FinalGradeStatus;
+}
+
+/**
+ * The user's released final grade in a course, or null if there is none
+ * (not released yet, or the course has no final grade item).
+ */
+async function fetchFinalGrade(
+  apiClient: D2LApiClient,
+  courseId: number,
+  freshness: Freshness
+): Promise<FinalGradeValue | null> {
+  try {
+    return freshness.track(await apiClient.getWithMeta<FinalGradeValue>(
+      apiClient.le(courseId, "/grades/final/values/myGradeValue"),
+      { ttl: DEFAULT_CACHE_TTLS.grades }
+    ));
+  } catch (error) {
+    if (error instanceof ApiError && error.status === 404) return null;
+    throw error;
+  }
+}
+
+function toTranscriptCourse(
+  course: EnrolledCourse,
+  grade: FinalGradeValue | null | undefined
+): TranscriptCourse {
+  const base = { courseId: course.id, code: course.code, name: course.name };
+  if (grade === undefined) {
+    return { ...base, finalGrade: null, percent: null, status: "unavailable" };
+  }
+  if (grade === null) {
+    return { ...base, finalGrade: null, percent: null, status: "not_released" };
+  }
+  const percent = grade.PointsNumerator !== null && grade.PointsDenominator
+    ? Math.round((grade.PointsNumerator / grade.PointsDenominator) * 1000) / 10
+    : null;
+  return { ...base, finalGrade: grade.DisplayedGrade || null, percent, status: "graded" };
+}
+
+/**
+ * Register get_transcript_summary tool
+ */
+export function registerGetTranscriptSummary(
+  server: McpServer,
+  apiClient: D2LApiClient,
+  enrollments: EnrollmentService
+): void {
+  server.registerTool(
+    "get_transcript_summary",
+    {
+      title: "Get Transcript Summary",
+      description:
+        "Tabulate your final grades by semester across current and past courses, where Brightspace still gives access to them. Use this when the user asks about past semesters, their transcript, final grades from previous terms, or how they did last semester. This shows Brightspace final grades only, not the official registrar transcript.",
+      inputSchema: GetTranscriptSummarySchema,
+      outputSchema: GetTranscriptSummaryOutputSchema,
+    },
+    async (args: any) => {
+      try {
+        log("DEBUG", "get_transcript_summary tool called", { args });
+
+        const { term } = GetTranscriptSummarySchema.parse(args);
+
+        // Every enrollment, past ones included, unless a term narrows it down
+        const freshness = new Freshness();
+        const courses = freshness.track(term
+          ? await enrollments.listCoursesWithMeta({ term })
+          : await enrollments.listCoursesWithMeta({ activeOnly: false, withTerms: true }));
+
+        // Old courses often deny gradebook access — those are reported as unavailable
+        const { results } = await enrollments.forEachCourse(courses, "get_transcript_summary", (course) =>
+          fetchFinalGrade(apiClient, course.id, freshness)
+        );
+        const grades = new Map(results.map((r) => [r.course.id, r.value]));
+        const row = (course: EnrolledCourse) => toTranscriptCourse(course, grades.get(course.id));
+
+        const terms = groupByTerm(courses).map((group) => ({
+          term: group.term.name,
+          termCode: group.term.code,
+          courses: group.courses.map(row),
+        }));
+        const withoutTerm = courses.filter((c) => !c.term).map(row);
+        if (withoutTerm.length > 0) {
+          terms.push({ term: "No term", termCode: null, courses: withoutTerm });
+        }
+
+        const rows = terms.flatMap((t) => t.courses);
+        const count = (status: FinalGradeStatus) => rows.filter((r) => r.status === status).length;
+        const summary = {
+          courses: rows.length,
+          graded: count("graded"),
+          notReleased: count("not_released"),
+          unavailable: count("unavailable"),
+        };
+
+        log("INFO", `get_transcript_summary: ${summary.graded} final grades across ${terms.length} terms`);
+        return toolResponse({ terms, summary } satisfies GetTranscriptSummaryOutput, freshness.value);
+      } catch (error) {
+        return sanitizeError(error);
+      }
+    }
+  );
+}
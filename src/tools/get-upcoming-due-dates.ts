@@ -6,16 +6,17 @@
 
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { D2LApiClient, DEFAULT_CACHE_TTLS } from "../api/index.js";
+import type { EnrollmentService } from "../api/index.js";
 import {
   GetUpcomingDueDatesSchema,
+  GetUpcomingDueDatesOutputSchema,
 } from "./schemas.js";
-import { toolResponse, sanitizeError } from "./tool-helpers.js";
+import type { GetUpcomingDueDatesOutput } from "./schemas.js";
+import { toolResponse, sanitizeError, Freshness } from "./tool-helpers.js";
 import { log } from "../utils/logger.js";
-import { applyCourseFilter } from "../utils/course-filter.js";
-import type { AppConfig } from "../types/index.js";
 
 interface EventDataInfo {
-  CalendarEventId: string;
+  CalendarEventId: number;
   Title: string;
   OrgUnitName: string;
   OrgUnitId: number;
@@ -24,19 +25,30 @@ interface EventDataInfo {
   IsAllDayEvent: boolean;
 }
 
-interface EnrollmentItem {
-  OrgUnit: {
-    Id: number;
-    Name: string;
-    Code: string;
-  };
-  Access: {
-    IsActive: boolean;
-  };
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Calendar events path for [from, to], widened to whole hours so calls within
+ * the same hour share one cache entry (a timestamp in the key would make every
+ * call a new disk cache file). Trim the results with overlapsWindow().
+ */
+export function myEventsPath(apiClient: D2LApiClient, orgUnitIds: number[], from: Date, to: Date): string {
+  const start = new Date(Math.floor(from.getTime() / HOUR_MS) * HOUR_MS).toISOString();
+  const end = new Date(Math.ceil(to.getTime() / HOUR_MS) * HOUR_MS).toISOString();
+  return apiClient.leGlobal(
+    `/calendar/events/myEvents/?startDateTime=${encodeURIComponent(start)}&endDateTime=${encodeURIComponent(end)}&orgUnitIdsCSV=${orgUnitIds.join(",")}`
+  );
 }
 
-interface EnrollmentResponse {
-  Items: EnrollmentItem[];
+/**
+ * Whether a calendar event overlaps the exact [from, to] window.
+ */
+export function overlapsWindow(
+  event: { StartDateTime: string; EndDateTime: string },
+  from: Date,
+  to: Date
+): boolean {
+  return new Date(event.EndDateTime) >= from && new Date(event.StartDateTime) <= to;
 }
 
 /**
@@ -45,7 +57,7 @@ interface EnrollmentResponse {
 export function registerGetUpcomingDueDates(
   server: McpServer,
   apiClient: D2LApiClient,
-  config: AppConfig
+  enrollments: EnrollmentService
 ): void {
   server.registerTool(
     "get_upcoming_due_dates",
@@ -54,61 +66,39 @@ export function registerGetUpcomingDueDates(
       description:
         "Fetch upcoming due dates across all your courses. Shows assignments, quizzes, and other items due within the specified time window. Use this when the user asks about deadlines, what's due, upcoming work, or what they need to do this week.",
       inputSchema: GetUpcomingDueDatesSchema,
+      outputSchema: GetUpcomingDueDatesOutputSchema,
     },
     async (args: any) => {
       try {
         log("DEBUG", "get_upcoming_due_dates tool called", { args });
 
         // Parse and validate input
-        const { daysAhead, courseId } = GetUpcomingDueDatesSchema.parse(args);
+        const { daysAhead, ...courseRef } = GetUpcomingDueDatesSchema.parse(args);
+        const courseId = await enrollments.resolveCourseRef(courseRef);
+        const freshness = new Freshness();
 
         // Build time window
         const now = new Date();
         const endDate = new Date(now.getTime() + daysAhead * 24 * 60 * 60 * 1000);
 
-        const startDateTime = now.toISOString();
-        const endDateTime = endDate.toISOString();
-
         // D2L calendar API requires orgUnitIdsCSV — fetch enrolled course IDs if not provided
-        let orgUnitIds: string;
-        if (courseId) {
-          orgUnitIds = String(courseId);
-        } else {
-          const enrollments = await apiClient.get<{ Items: EnrollmentItem[] }>(
-            apiClient.lp(`/enrollments/myenrollments/?orgUnitTypeId=3&isActive=true`),
-            { ttl: DEFAULT_CACHE_TTLS.enrollments }
-          );
-
-          // Apply course filter
-          const filteredEnrollments = applyCourseFilter(
-            enrollments.Items.map(item => ({
-              id: item.OrgUnit.Id,
-              name: item.OrgUnit.Name,
-              code: item.OrgUnit.Code,
-              isActive: item.Access.IsActive,
-            })),
-            config.courseFilter
-          );
-
-          orgUnitIds = filteredEnrollments.map((e) => e.id).join(",");
-        }
+        const orgUnitIds = courseId
+          ? [courseId]
+          : freshness.track(await enrollments.listCoursesWithMeta()).map((c) => c.id);
 
-        log("DEBUG", `get_upcoming_due_dates: querying orgUnitIds=${orgUnitIds}, window=${startDateTime} to ${endDateTime}`);
+        log("DEBUG", `get_upcoming_due_dates: querying orgUnitIds=${orgUnitIds.join(",")}, window=${now.toISOString()} to ${endDate.toISOString()}`);
 
-        // Build path
-        const path = apiClient.leGlobal(
-          `/calendar/events/myEvents/?startDateTime=${encodeURIComponent(startDateTime)}&endDateTime=${encodeURIComponent(endDateTime)}&orgUnitIdsCSV=${orgUnitIds}`
-        );
+        const path = myEventsPath(apiClient, orgUnitIds, now, endDate);
 
-        // Fetch events — D2L returns ObjectListPage wrapper with "Objects" array (NOT "Items")
-        const response = await apiClient.get<{ Objects: EventDataInfo[]; Next: string | null }>(path, {
+        // Fetch events — D2L returns ObjectListPage pages ("Objects" + "Next" link)
+        const events = freshness.track(await apiClient.getAllPagesWithMeta<EventDataInfo>(path, {
           ttl: DEFAULT_CACHE_TTLS.assignments,
-        });
-        const events = response.Objects ?? [];
-        log("DEBUG", `get_upcoming_due_dates: raw response keys=${Object.keys(response).join(",")}, event count=${events.length}`);
+        }));
+        log("DEBUG", `get_upcoming_due_dates: event count=${events.length}`);
 
         // Map to clean objects and sort by end date (soonest due first)
         const mappedEvents = events
+          .filter((event) => overlapsWindow(event, now, endDate))
           .map((event) => ({
             id: event.CalendarEventId,
             title: event.Title,
@@ -127,7 +117,7 @@ export function registerGetUpcomingDueDates(
           "INFO",
           `get_upcoming_due_dates: Retrieved ${mappedEvents.length} events`
         );
-        return toolResponse(mappedEvents);
+        return toolResponse({ events: mappedEvents } satisfies GetUpcomingDueDatesOutput, freshness.value);
       } catch (error) {
         return sanitizeError(error);
       }
@@ -0,0 +1,329 @@
+/**
+ * Purdue Brightspace MCP Server
+ * Copyright (c) 2026 Rohan Muppa. All rights reserved.
+ * Licensed under AGPL-3.0 — see LICENSE file for details.
+ */
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { D2LApiClient, ApiError, DEFAULT_CACHE_TTLS } from "../api/index.js";
+import type { EnrollmentService, CachedResponse } from "../api/index.js";
+import { GetWhatsNewSchema, GetWhatsNewOutputSchema } from "./schemas.js";
+import type { GetWhatsNewOutput } from "./schemas.js";
+import { toolResponse, sanitizeError, Freshness } from "./tool-helpers.js";
+import { buildContentTree } from "./get-course-content.js";
+import type { ContentObject, ContentTreeNode } from "./get-course-content.js";
+import { fetchCourseAssignments } from "./get-assignments.js";
+import { SnapshotStore, diffSnapshots, mergeSnapshot, emptySnapshotItems, CHANGE_KINDS } from "../utils/change-feed.js";
+import type { ChangeKind, CourseSnapshot, SnapshotItem } from "../utils/change-feed.js";
+import { log } from "../utils/logger.js";
+import type { AppConfig } from "../types/index.js";
+
+interface GradeValue {
+  GradeObjectIdentifier: string;
+  GradeObjectName: string;
+  DisplayedGrade: string;
+  PointsNumerator: number | null;
+  PointsDenominator: number | null;
+  LastModified: string;
+}
+
+interface NewsItem {
+  Id: number;
+  Title: string;
+  CreatedDate: string;
+  LastModifiedDate: string | null;
+  StartDate: string;
+}
+
+interface D2LForum {
+  ForumId: number;
+  Name: string;
+}
+
+interface D2LTopic {
+  TopicId: number;
+  Name: string;
+}
+
+interface D2LPost {
+  PostId: number;
+  Subject: string;
+  PostingUserDisplayName: string;
+  DatePosted: string;
+  LastEditedDate: string | null;
+  IsDeleted: boolean;
+}
+
+// First check of a course has nothing to diff against — report this far back instead
+const BASELINE_LOOKBACK_DAYS = 7;
+
+type Section = Record<string, SnapshotItem>;
+
+// 403/404 mean the course doesn't use (or hide) the feature — an empty section, not a failure
+function isMissingFeature(error: unknown): boolean {
+  return error instanceof ApiError && (error.status === 403 || error.status === 404);
+}
+
+async function gradeItems(apiClient: D2LApiClient, courseId: number, freshness: Freshness): Promise<Section> {
+  const values = freshness.track(await apiClient.getWithMeta<GradeValue[]>(
+    apiClient.le(courseId, "/grades/values/myGradeValues/"),
+    { ttl: DEFAULT_CACHE_TTLS.grades }
+  ));
+  const items: Section = {};
+  for (const gv of values) {
+    items[gv.GradeObjectIdentifier] = {
+      title: gv.GradeObjectName,
+      version: `${gv.LastModified}|${gv.DisplayedGrade}`,
+      timestamp: gv.LastModified,
+      detail: {
+        grade: gv.DisplayedGrade,
+        points: gv.PointsDenominator ? `${gv.PointsNumerator ?? "-"}/${gv.PointsDenominator}` : null,
+      },
+    };
+  }
+  return items;
+}
+
+async function announcementItems(apiClient: D2LApiClient, courseId: number, freshness: Freshness): Promise<Section> {
+  const news = freshness.track(await apiClient.getWithMeta<NewsItem[]>(apiClient.le(courseId, "/news/"), {
+    ttl: DEFAULT_CACHE_TTLS.announcements,
+  }));
+  const items: Section = {};
+  for (const item of news) {
+    const changedAt = item.LastModifiedDate ?? item.CreatedDate;
+    items[String(item.Id)] = {
+      title: item.Title,
+      version: changedAt,
+      timestamp: changedAt,
+      detail: { announcementId: item.Id, startDate: item.StartDate },
+    };
+  }
+  return items;
+}
+
+async function contentItems(apiClient: D2LApiClient, courseId: number, freshness: Freshness): Promise<Section> {
+  const root = freshness.track(await apiClient.getWithMeta<ContentObject[]>(apiClient.le(courseId, "/content/root/"), {
+    ttl: DEFAULT_CACHE_TTLS.courseContent,
+  }));
+  const tree = await buildContentTree(apiClient, courseId, root, new Map(), { typeFilter: "all", freshness });
+
+  const items: Section = {};
+  const walk = (nodes: ContentTreeNode[], trail: string[]): void => {
+    for (const node of nodes) {
+      if (node.type === "module") {
+        walk(node.children, [...trail, node.title]);
+      } else {
+        items[String(node.id)] = {
+          title: node.title,
+          version: node.lastModified ?? "",
+          timestamp: node.lastModified,
+          detail: { topicId: node.id, topicType: node.topicType, module: trail.join(" / ") },
+        };
+      }
+    }
+  };
+  walk(tree, []);
+  return items;
+}
+
+async function feedbackItems(apiClient: D2LApiClient, courseId: number, freshness: Freshness): Promise<Section> {
+  const assignments = await fetchCourseAssignments(apiClient, courseId, { freshness });
+  const items: Section = {};
+  for (const assignment of assignments) {
+    if (assignment.type !== "assignment" || !assignment.feedback) continue;
+    const { score, feedback } = assignment.feedback;
+    items[String(assignment.id)] = {
+      title: assignment.name ?? `Assignment ${assignment.id}`,
+      // D2L doesn't date feedback — detect changes by content
+      version: JSON.stringify([score, feedback?.markdown ?? ""]),
+      timestamp: null,
+      detail: { folderId: assignment.id, score, outOf: assignment.points },
+    };
+  }
+  return items;
+}
+
+async function discussionItems(apiClient: D2LApiClient, courseId: number, freshness: Freshness): Promise<Section> {
+  const ttl = DEFAULT_CACHE_TTLS.announcements;
+  const forums = freshness.track(
+    await apiClient.getWithMeta<D2LForum[]>(apiClient.le(courseId, "/discussions/forums/"), { ttl })
+  );
+
+  const items: Section = {};
+  for (const forum of forums) {
+    const topics = freshness.track(await apiClient.getWithMeta<D2LTopic[]>(
+      apiClient.le(courseId, `/discussions/forums/${forum.ForumId}/topics/`),
+      { ttl }
+    ));
+    for (const topic of topics) {
+      const posts = freshness.track(await apiClient.getWithMeta<D2LPost[]>(
+        apiClient.le(courseId, `/discussions/forums/${forum.ForumId}/topics/${topic.TopicId}/posts/`),
+        { ttl }
+      ));
+      for (const post of posts.filter((p) => !p.IsDeleted)) {
+        const changedAt = post.LastEditedDate ?? post.DatePosted;
+        items[String(post.PostId)] = {
+          title: post.Subject || topic.Name,
+          version: changedAt,
+          timestamp: changedAt,
+          detail: {
+            forumId: forum.ForumId,
+            topicId: topic.TopicId,
+            postId: post.PostId,
+            topic: `${forum.Name} / ${topic.Name}`,
+            author: post.PostingUserDisplayName,
+          },
+        };
+      }
+    }
+  }
+  return items;
+}
+
+type Collector = (apiClient: D2LApiClient, courseId: number, freshness: Freshness) => Promise<Section>;
+
+const COLLECTORS: Record<ChangeKind, Collector> = {
+  grade: gradeItems,
+  announcement: announcementItems,
+  content: contentItems,
+  feedback: feedbackItems,
+  discussion: discussionItems,
+};
+
+/**
+ * Snapshot a course. Sections that fail to load keep the previous snapshot's
+ * items so a transient error doesn't make everything look new next time.
+ * Only `kinds` are fetched; the rest are left empty.
+ * The snapshot is stale if any section came from the offline cache — callers
+ * must not save it as the next baseline. Also used by the watch subcommand.
+ */
+export async function takeSnapshot(
+  apiClient: D2LApiClient,
+  courseId: number,
+  previous: CourseSnapshot | null,
+  kinds: readonly ChangeKind[] = CHANGE_KINDS
+): Promise<CachedResponse<CourseSnapshot>> {
+  const items = emptySnapshotItems();
+  const freshness = new Freshness();
+
+  const results = await Promise.allSettled(kinds.map((kind) => COLLECTORS[kind](apiClient, courseId, freshness)));
+  results.forEach((result, i) => {
+    const kind = kinds[i];
+    if (result.status === "fulfilled") {
+      items[kind] = result.value;
+    } else if (!isMissingFeature(result.reason)) {
+      log("DEBUG", `get_whats_new: failed to fetch ${kind} for course ${courseId}, keeping previous`, result.reason);
+      items[kind] = previous?.items[kind] ?? {};
+    }
+  });
+
+  const takenAt = new Date();
+  return {
+    data: { courseId, takenAt: takenAt.toISOString(), items },
+    stale: freshness.stale,
+    fetchedAt: freshness.value?.fetchedAt ?? takenAt.getTime(),
+  };
+}
+
+/**
+ * Register get_whats_new tool
+ */
+export function registerGetWhatsNew(
+  server: McpServer,
+  apiClient: D2LApiClient,
+  enrollments: EnrollmentService,
+  config: AppConfig
+): void {
+  // One store per session dir — switch_profile changes config.sessionDir
+  const stores = new Map<string, SnapshotStore>();
+  const getStore = (): SnapshotStore => {
+    let store = stores.get(config.sessionDir);
+    if (!store) {
+      store = new SnapshotStore(config.sessionDir);
+      stores.set(config.sessionDir, store);
+    }
+    return store;
+  };
+
+  server.registerTool(
+    "get_whats_new",
+    {
+      title: "Get What's New",
+      description:
+        "Report what changed since the last check (or since a given time) across courses: new or updated grades, announcements, course content, assignment feedback, and discussion posts. Each call remembers what was seen, so the next call only reports newer changes. The first call for a course reports the last 7 days. Use this when the user asks what's new, what changed, what they missed, or for a daily catch-up.",
+      inputSchema: GetWhatsNewSchema,
+      outputSchema: GetWhatsNewOutputSchema,
+    },
+    async (args: any) => {
+      try {
+        log("DEBUG", "get_whats_new tool called", { args });
+
+        const { since, kinds, ...courseRef } = GetWhatsNewSchema.parse(args);
+        const courseId = await enrollments.resolveCourseRef(courseRef);
+        const store = getStore();
+
+        // An explicit courseId is honored even if the course filter excludes it
+        const freshness = new Freshness();
+        const courses = courseId
+          ? [(await enrollments.findCourse(courseId)) ?? { id: courseId, name: `Course ${courseId}`, code: "" }]
+          : freshness.track(await enrollments.listCoursesWithMeta());
+
+        const sinceDate = since ? new Date(since) : undefined;
+        const { results, failures } = await enrollments.forEachCourse(
+          courses,
+          "get_whats_new",
+          async (course) => {
+            const previous = await store.load(course.id);
+            // The first check records every kind, so later checks of other kinds have a baseline
+            const checked = previous ? kinds ?? CHANGE_KINDS : CHANGE_KINDS;
+            const snapshot = await takeSnapshot(apiClient, course.id, previous, checked);
+            const current = freshness.track(snapshot);
+
+            const baseline = !previous && !sinceDate;
+            const cutoff = baseline
+              ? new Date(Date.now() - BASELINE_LOOKBACK_DAYS * 24 * 60 * 60 * 1000)
+              : sinceDate;
+            const changes = diffSnapshots(previous, current, cutoff).filter(
+              (change) => !kinds || kinds.includes(change.kind)
+            );
+
+            // An explicit `since` is a look-back — it doesn't move the last-check point,
+            // and an offline snapshot mustn't either, or the changes since it would be lost
+            if (!sinceDate && !snapshot.stale) {
+              await store.save(mergeSnapshot(previous, current, checked));
+            }
+
+            return {
+              courseId: course.id,
+              courseName: course.name,
+              courseCode: course.code,
+              comparedTo: since ?? previous?.takenAt ?? `last ${BASELINE_LOOKBACK_DAYS} days (first check)`,
+              changes,
+            };
+          }
+        );
+
+        // Single-course failures should surface (e.g. auth errors), not look like "nothing new"
+        if (courseId && failures.length > 0) {
+          throw failures[0].error;
+        }
+
+        const changed = results.map((r) => r.value).filter((course) => course.changes.length > 0);
+        const failed = failures.length;
+
+        const totalChanges = changed.reduce((sum, course) => sum + course.changes.length, 0);
+        log("INFO", `get_whats_new: ${totalChanges} changes across ${changed.length} of ${courses.length} courses`);
+
+        return toolResponse({
+          checkedAt: new Date().toISOString(),
+          coursesChecked: courses.length - failed,
+          totalChanges,
+          courses: changed,
+          ...(failed > 0 ? { coursesFailed: failed } : {}),
+        } satisfies GetWhatsNewOutput, freshness.value);
+      } catch (error) {
+        return sanitizeError(error);
+      }
+    }
+  );
+}
@@ -16,6 +16,20 @@ export { registerGetClasslistEmails } from "./get-classlist-emails.js";
 export { registerGetRoster } from "./get-roster.js";
 export { registerGetSyllabus } from "./get-syllabus.js";
 export { registerGetDiscussions } from "./get-discussions.js";
+export { registerSubmitAssignment } from "./submit-assignment.js";
+export { registerProjectFinalGrade } from "./project-final-grade.js";
+export { registerExportCalendar } from "./export-calendar.js";
+export { registerSyncCourseContent } from "./sync-course-content.js";
+export { registerSearchCourse } from "./search-course.js";
+export { registerListProfiles } from "./list-profiles.js";
+export { registerSwitchProfile } from "./switch-profile.js";
+export { registerGetWhatsNew } from "./get-whats-new.js";
+export { registerGetAssignmentFeedback } from "./get-assignment-feedback.js";
+export { registerGetQuizAttempt } from "./get-quiz-attempt.js";
+export { registerGetMyGroups } from "./get-my-groups.js";
+export { registerGetContentProgress } from "./get-content-progress.js";
+export { registerReadCourseFile } from "./read-course-file.js";
+export { registerGetTranscriptSummary } from "./get-transcript-summary.js";
 
 // Re-export shared helpers and schemas for convenience
 export { toolResponse, errorResponse, sanitizeError } from "./tool-helpers.js";
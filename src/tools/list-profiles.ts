@@ -0,0 +1,65 @@
+/**
+ * Purdue Brightspace MCP Server
+ * Copyright (c) 2026 Rohan Muppa. All rights reserved.
+ * Licensed under AGPL-3.0 — see LICENSE file for details.
+ */
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ListProfilesOutputSchema } from "./schemas.js";
+import type { ListProfilesOutput } from "./schemas.js";
+import { toolResponse, sanitizeError } from "./tool-helpers.js";
+import {
+  DEFAULT_PROFILE,
+  configStoreExists,
+  listProfiles,
+  loadConfigStore,
+  loadProfile,
+} from "../utils/config-store.js";
+import type { ConfigStoreData } from "../utils/config-store.js";
+import { log } from "../utils/logger.js";
+import type { AppConfig } from "../types/index.js";
+
+/**
+ * Register list_profiles tool
+ */
+export function registerListProfiles(server: McpServer, config: AppConfig): void {
+  server.registerTool(
+    "list_profiles",
+    {
+      title: "List Profiles",
+      description:
+        "List the Brightspace accounts (profiles) this server can use, e.g. a student account and a TA account at another school, and which one is active. Use this when the user mentions another school or account, or before calling switch_profile.",
+      outputSchema: ListProfilesOutputSchema,
+    },
+    async () => {
+      try {
+        log("DEBUG", "list_profiles tool called");
+
+        const describe = (name: string, store: ConfigStoreData | null) => ({
+          name,
+          baseUrl: store?.baseUrl ?? null,
+          username: store?.username ?? null,
+          ssoProvider: store?.ssoProvider ?? null,
+          active: (config.profile ?? DEFAULT_PROFILE) === name,
+        });
+
+        const profiles = [describe(DEFAULT_PROFILE, configStoreExists() ? loadConfigStore() : null)];
+        for (const name of listProfiles()) {
+          try {
+            profiles.push(describe(name, loadProfile(name)));
+          } catch (error) {
+            log("WARN", `list_profiles: could not read profile "${name}"`, error);
+          }
+        }
+
+        return toolResponse({
+          activeProfile: config.profile ?? DEFAULT_PROFILE,
+          activeBaseUrl: config.baseUrl,
+          profiles,
+        } satisfies ListProfilesOutput);
+      } catch (error) {
+        return sanitizeError(error);
+      }
+    }
+  );
+}
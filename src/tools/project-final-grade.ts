@@ -0,0 +1,218 @@
+/**
+ * Purdue Brightspace MCP Server
+ * Copyright (c) 2026 Rohan Muppa. All rights reserved.
+ * Licensed under AGPL-3.0 — see LICENSE file for details.
+ */
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { D2LApiClient, DEFAULT_CACHE_TTLS } from "../api/index.js";
+import type { EnrollmentService } from "../api/index.js";
+import { ProjectFinalGradeSchema, ProjectFinalGradeOutputSchema } from "./schemas.js";
+import type { ProjectFinalGradeOutput } from "./schemas.js";
+import { toolResponse, sanitizeError, errorResponse, Freshness } from "./tool-helpers.js";
+import { log } from "../utils/logger.js";
+import { projectFinalGrade } from "../utils/grade-calculator.js";
+import type {
+  GradeCategoryInput,
+  GradeCutoff,
+  GradeItemInput,
+  WeightDistribution,
+} from "../utils/grade-calculator.js";
+
+// D2L grade object (subset used for projection)
+interface GradeObject {
+  Id: number;
+  Name: string;
+  GradeType: string; // "Numeric" | "PassFail" | "SelectBox" | "Text" | "Formula" | "Calculated"
+  CategoryId: number; // 0 = uncategorized
+  MaxPoints: number;
+  Weight: number;
+  IsBonus: boolean;
+  ExcludeFromFinalGradeCalculation: boolean;
+}
+
+// D2L grade category
+interface GradeCategory {
+  Id: number;
+  Name: string;
+  Weight: number;
+  WeightDistributionType: number; // 0 = manual, 1 = by points, 2 = equally
+  NumberOfHighestToDrop: number;
+  NumberOfLowestToDrop: number;
+  ExcludeFromFinalGrade: boolean;
+}
+
+interface GradeSetup {
+  GradingSystem: "Weighted" | "Points" | "Formula";
+  IsNullGradeZero: boolean;
+  DefaultGradeSchemeId: number;
+}
+
+interface GradeScheme {
+  Id: number;
+  Name: string;
+  Ranges: { PercentStart: number; Symbol: string }[];
+}
+
+interface GradeValue {
+  GradeObjectIdentifier: string;
+  PointsNumerator: number | null;
+  PointsDenominator: number | null;
+}
+
+// Grade types that carry points toward the final grade
+const SCORED_GRADE_TYPES = new Set(["Numeric", "PassFail", "SelectBox"]);
+
+// Used when the course's grade scheme isn't visible to students
+const FALLBACK_CUTOFFS: GradeCutoff[] = [
+  { symbol: "A", percentStart: 93 },
+  { symbol: "A-", percentStart: 90 },
+  { symbol: "B+", percentStart: 87 },
+  { symbol: "B", percentStart: 83 },
+  { symbol: "B-", percentStart: 80 },
+  { symbol: "C+", percentStart: 77 },
+  { symbol: "C", percentStart: 73 },
+  { symbol: "C-", percentStart: 70 },
+  { symbol: "D+", percentStart: 67 },
+  { symbol: "D", percentStart: 63 },
+  { symbol: "D-", percentStart: 60 },
+];
+
+const DISTRIBUTIONS: Record<number, WeightDistribution> = {
+  0: "manual",
+  1: "points",
+  2: "equal",
+};
+
+/**
+ * Register project_final_grade tool
+ */
+export function registerProjectFinalGrade(
+  server: McpServer,
+  apiClient: D2LApiClient,
+  enrollments: EnrollmentService
+): void {
+  server.registerTool(
+    "project_final_grade",
+    {
+      title: "Project Final Grade",
+      description:
+        "Compute your current weighted course grade from the gradebook (category weights, drop-lowest/highest rules, bonus items) and the average score needed on the remaining items to reach each letter-grade cutoff. Use this when the user asks what their grade is, what they need on the final, or whether they can still get an A. Always use this instead of doing grade arithmetic yourself.",
+      inputSchema: ProjectFinalGradeSchema,
+      outputSchema: ProjectFinalGradeOutputSchema,
+    },
+    async (args: any) => {
+      try {
+        log("DEBUG", "project_final_grade tool called", { args });
+
+        const { targetPercent, ...courseRef } = ProjectFinalGradeSchema.parse(args);
+        const courseId = await enrollments.requireCourseRef(courseRef);
+        const ttl = DEFAULT_CACHE_TTLS.grades;
+
+        const freshness = new Freshness();
+        const [setup, gradeObjects, categories, values] = await Promise.all([
+          apiClient.getWithMeta<GradeSetup>(apiClient.le(courseId, "/grades/setup/"), { ttl }).then((r) => freshness.track(r)),
+          apiClient.getWithMeta<GradeObject[]>(apiClient.le(courseId, "/grades/"), { ttl }).then((r) => freshness.track(r)),
+          apiClient.getWithMeta<GradeCategory[]>(apiClient.le(courseId, "/grades/categories/"), { ttl }).then((r) => freshness.track(r)),
+          apiClient.getWithMeta<GradeValue[]>(apiClient.le(courseId, "/grades/values/myGradeValues/"), { ttl }).then((r) => freshness.track(r)),
+        ]);
+
+        if (setup.GradingSystem === "Formula") {
+          return errorResponse(
+            "This course uses a custom formula for its final grade, which can't be projected. Use get_my_grades to see individual scores."
+          );
+        }
+
+        // Letter-grade cutoffs from the course's scheme, if students can see it
+        let cutoffs = FALLBACK_CUTOFFS;
+        let schemeName: string | null = null;
+        try {
+          const scheme = freshness.track(await apiClient.getWithMeta<GradeScheme>(
+            apiClient.le(courseId, `/grades/schemes/${setup.DefaultGradeSchemeId}`),
+            { ttl: DEFAULT_CACHE_TTLS.courseContent }
+          ));
+          const ranges = scheme.Ranges.filter((r) => r.PercentStart > 0);
+          if (ranges.length > 0) {
+            cutoffs = ranges.map((r) => ({ symbol: r.Symbol, percentStart: r.PercentStart }));
+            schemeName = scheme.Name;
+          }
+        } catch (error: any) {
+          if (error?.status !== 403 && error?.status !== 404) throw error;
+          log("DEBUG", `project_final_grade: grade scheme not visible for course ${courseId}, using default cutoffs`);
+        }
+
+        if (targetPercent !== undefined) {
+          cutoffs = [...cutoffs, { symbol: "Target", percentStart: targetPercent }];
+        }
+
+        const excludedCategories = new Set(
+          categories.filter((c) => c.ExcludeFromFinalGrade).map((c) => c.Id)
+        );
+        const valuesById = new Map(values.map((v) => [v.GradeObjectIdentifier, v]));
+
+        const categoryInputs: GradeCategoryInput[] = categories
+          .filter((c) => !c.ExcludeFromFinalGrade)
+          .map((c) => ({
+            id: c.Id,
+            name: c.Name,
+            weight: c.Weight,
+            distribution: DISTRIBUTIONS[c.WeightDistributionType] ?? "points",
+            dropLowest: c.NumberOfLowestToDrop ?? 0,
+            dropHighest: c.NumberOfHighestToDrop ?? 0,
+          }));
+
+        const itemInputs: GradeItemInput[] = gradeObjects
+          .filter(
+            (g) =>
+              SCORED_GRADE_TYPES.has(g.GradeType) &&
+              g.MaxPoints > 0 &&
+              !g.ExcludeFromFinalGradeCalculation &&
+              !excludedCategories.has(g.CategoryId)
+          )
+          .map((g) => {
+            const value = valuesById.get(String(g.Id));
+            const denominator = value?.PointsDenominator || g.MaxPoints;
+            const score =
+              value?.PointsNumerator !== null && value?.PointsNumerator !== undefined
+                ? value.PointsNumerator / denominator
+                : null;
+            return {
+              id: g.Id,
+              name: g.Name,
+              categoryId: g.CategoryId > 0 ? g.CategoryId : null,
+              maxPoints: g.MaxPoints,
+              weight: g.Weight,
+              isBonus: g.IsBonus,
+              score,
+            };
+          });
+
+        if (itemInputs.length === 0) {
+          return errorResponse("No graded items that count toward the final grade were found for this course.");
+        }
+
+        const projection = projectFinalGrade(setup.GradingSystem, categoryInputs, itemInputs, cutoffs);
+
+        log(
+          "INFO",
+          `project_final_grade: Projected course ${courseId} (${itemInputs.length} items, ${projection.remainingItems.length} remaining)`
+        );
+
+        return toolResponse({
+          courseId,
+          gradeScheme: schemeName ?? "default (course scheme not visible)",
+          ...projection,
+          notes: [
+            "requiredAverage is the percentage needed on EVERY remaining item to reach the cutoff.",
+            setup.IsNullGradeZero
+              ? "This course counts ungraded items as zero in Brightspace's displayed final grade; currentPercent here covers graded items only."
+              : "currentPercent covers graded items only.",
+            "Projections assume remaining items have no late penalties and cutoffs are not curved.",
+          ],
+        } satisfies ProjectFinalGradeOutput, freshness.value);
+      } catch (error) {
+        return sanitizeError(error);
+      }
+    }
+  );
+}
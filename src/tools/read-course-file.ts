@@ -0,0 +1,128 @@
+/**
+ * Purdue Brightspace MCP Server
+ * Copyright (c) 2026 Rohan Muppa. All rights reserved.
+ * Licensed under AGPL-3.0 — see LICENSE file for details.
+ */
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { D2LApiClient } from "../api/index.js";
+import type { EnrollmentService } from "../api/index.js";
+import { ReadCourseFileSchema, ReadCourseFileOutputSchema } from "./schemas.js";
+import type { ReadCourseFileOutput } from "./schemas.js";
+import { toolResponse, sanitizeError, errorResponse } from "./tool-helpers.js";
+import { fetchContentFile, fetchSubmissionFile } from "./download-file.js";
+import { extractDocumentText } from "../utils/document-extractor.js";
+import { validateFileType, validateContentId } from "../utils/file-validator.js";
+import { log } from "../utils/logger.js";
+
+// Image types MCP clients can show inline; larger images are better downloaded
+const INLINE_IMAGE_TYPES = new Set(["image/png", "image/jpeg", "image/gif", "image/webp"]);
+const MAX_INLINE_IMAGE_BYTES = 5 * 1024 * 1024;
+
+function parsePageRange(pages: string): { from: number; to: number } | string {
+  const [from, to = from] = pages.split("-").map(Number);
+  if (from < 1 || to < from) {
+    return `Invalid page range "${pages}". Use e.g. "3" or "10-15".`;
+  }
+  return { from, to };
+}
+
+/**
+ * Register read_course_file tool
+ */
+export function registerReadCourseFile(
+  server: McpServer,
+  apiClient: D2LApiClient,
+  enrollments: EnrollmentService
+): void {
+  server.registerTool(
+    "read_course_file",
+    {
+      title: "Read Course File",
+      description:
+        "Read a course content file or one of your submission files directly, without saving it to disk. Returns the text of PDFs, Word, PowerPoint (with speaker notes), Excel, HTML and plain-text files, or the image itself for pictures. Long documents are returned in chunks: pass nextOffset back as offset to continue, or use pages to jump to a PDF page range. Use this when the user asks what a file says, to summarize lecture slides or a handout, or to answer questions about a course document. Prefer this over download_file unless the user wants the file saved.",
+      inputSchema: ReadCourseFileSchema,
+      outputSchema: ReadCourseFileOutputSchema,
+    },
+    async (args: any): Promise<CallToolResult> => {
+      try {
+        log("DEBUG", "read_course_file tool called", { args });
+
+        // Parse and validate input
+        const { topicId, folderId, fileId, pages, offset, maxChars, ...courseRef } =
+          ReadCourseFileSchema.parse(args);
+        const courseId = await enrollments.requireCourseRef(courseRef);
+        validateContentId(courseId);
+
+        const pageRange = pages ? parsePageRange(pages) : undefined;
+        if (typeof pageRange === "string") {
+          return errorResponse(pageRange);
+        }
+
+        // Same fetch pipeline as download_file, minus the disk write
+        let file: { filename: string; data: Buffer } | string;
+        let uri: string;
+        if (topicId !== undefined) {
+          file = await fetchContentFile(apiClient, courseId, topicId);
+          uri = `brightspace://course/${courseId}/content/${topicId}`;
+        } else if (folderId !== undefined && fileId !== undefined) {
+          file = await fetchSubmissionFile(apiClient, courseId, folderId, fileId);
+          uri = `brightspace://course/${courseId}/dropbox/${folderId}/files/${fileId}`;
+        } else {
+          return errorResponse(
+            "Either topicId (for content files) or both folderId and fileId (for submission files) must be provided"
+          );
+        }
+        if (typeof file === "string") {
+          return errorResponse(file);
+        }
+        const { filename, data } = file;
+
+        let mime: string;
+        try {
+          ({ mime } = await validateFileType(data));
+        } catch (error) {
+          log("DEBUG", `read_course_file: rejected ${filename}`, error);
+          return errorResponse(`${filename} isn't a file type that can be read here. Use download_file to save it instead.`);
+        }
+
+        // Images come back as image/resource content; structuredContent just describes the file
+        const image: ReadCourseFileOutput = { courseId, filename, mimeType: mime, size: data.length };
+
+        if (INLINE_IMAGE_TYPES.has(mime)) {
+          if (data.length > MAX_INLINE_IMAGE_BYTES) {
+            return errorResponse(`${filename} is too large to show inline. Use download_file to save it instead.`);
+          }
+          log("INFO", `read_course_file: returning image ${filename} (${data.length} bytes)`);
+          return {
+            content: [
+              { type: "text", text: JSON.stringify(image, null, 2) },
+              { type: "image", data: data.toString("base64"), mimeType: mime },
+            ],
+            structuredContent: image,
+          };
+        }
+
+        if (mime === "image/svg+xml") {
+          return {
+            content: [
+              { type: "resource", resource: { uri, mimeType: mime, text: data.toString("utf-8") } },
+            ],
+            structuredContent: image,
+          };
+        }
+
+        const extracted = await extractDocumentText(data, filename, { maxChars, offset, pages: pageRange });
+        if (!extracted) {
+          return errorResponse(`Text can't be extracted from ${filename} (${mime}). Use download_file to save it instead.`);
+        }
+
+        log("INFO", `read_course_file: extracted ${extracted.text.length} chars from ${filename}`);
+        return toolResponse({ courseId, filename, mimeType: mime, ...extracted } satisfies ReadCourseFileOutput);
+      } catch (error) {
+        return sanitizeError(error);
+      }
+    }
+  );
+}
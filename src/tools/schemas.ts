@@ -10,34 +10,52 @@ import { z } from "zod";
  * Zod schemas for MCP tool input validation.
  * Passed directly to MCP SDK as inputSchema — SDK detects Zod v4 via ._zod property.
  * Also used in tool handlers for runtime parsing via .parse(args).
+ * Output schemas are at the end of the file.
  */
 
+// Every course-scoped tool takes courseId or course; tools resolve them with
+// EnrollmentService.resolveCourseRef() / requireCourseRef()
+const course = z.string().trim().min(1).max(200).optional()
+  .describe("Course code (e.g. 'CS25100'), name (e.g. 'data structures') or ID. Alternative to courseId when you don't know the ID.");
+
+// Term filter for multi-course tools; resolved by EnrollmentService.listCourses({ term })
+const term = z.string().trim().min(1).max(100).optional()
+  .describe("Only courses in this term: 'current', 'previous', or a term name like 'Fall 2025'. Includes past semesters.");
+
 export const GetMyCoursesSchema = z.object({
   activeOnly: z.boolean().default(true).describe("Only return currently active courses"),
+  term,
 });
 
 export const GetUpcomingDueDatesSchema = z.object({
   daysAhead: z.coerce.number().int().min(1).max(90).default(7).describe("Number of days ahead to look for due dates"),
   courseId: z.coerce.number().int().positive().optional().describe("Filter to a specific course ID"),
+  course,
 });
 
 export const GetMyGradesSchema = z.object({
   courseId: z.coerce.number().int().positive().optional().describe("Course ID to get grades for. If omitted, returns grades for all enrolled courses."),
+  course,
+  term,
 });
 
 export const GetAnnouncementsSchema = z.object({
   courseId: z.coerce.number().int().positive().optional().describe("Course ID to get announcements for. If omitted, returns recent announcements across all courses."),
+  course,
   count: z.coerce.number().int().min(1).max(50).default(10).describe("Maximum number of announcements to return"),
 });
 
 export const GetAssignmentsSchema = z.object({
   courseId: z.coerce.number().int().positive().optional()
     .describe("Course ID to get assignments for. If omitted, returns assignments for all enrolled courses."),
+  course,
+  term,
 });
 
 export const GetCourseContentSchema = z.object({
-  courseId: z.coerce.number().int().positive()
-    .describe("Course ID to get content tree for."),
+  courseId: z.coerce.number().int().positive().optional()
+    .describe("Course ID to get content tree for. Either courseId or course is required."),
+  course,
   typeFilter: z.enum(["file", "link", "html", "video", "all"]).default("all").optional()
     .describe("Optional filter to narrow results by content type."),
   moduleTitle: z.string().optional()
@@ -47,13 +65,15 @@ export const GetCourseContentSchema = z.object({
 });
 
 export const GetClasslistEmailsSchema = z.object({
-  courseId: z.coerce.number().int().positive()
-    .describe("Course ID to get emails for."),
+  courseId: z.coerce.number().int().positive().optional()
+    .describe("Course ID to get emails for. Either courseId or course is required."),
+  course,
 });
 
 export const DownloadFileSchema = z.object({
-  courseId: z.coerce.number().int().positive()
-    .describe("Course ID the file belongs to."),
+  courseId: z.coerce.number().int().positive().optional()
+    .describe("Course ID the file belongs to. Either courseId or course is required."),
+  course,
   topicId: z.coerce.number().int().positive().optional()
     .describe("Content topic ID to download (for course content files)."),
   folderId: z.coerce.number().int().positive().optional()
@@ -64,18 +84,24 @@ export const DownloadFileSchema = z.object({
     .describe("Absolute path to the directory where the file should be saved."),
   customFilename: z.string().optional()
     .describe("Custom filename for the downloaded file (include extension). If not provided, uses the original filename from Brightspace."),
+  extractText: z.boolean().default(false)
+    .describe("Also return the file's text (PDF, Word, PowerPoint with speaker notes, Excel as tables, plain text) so you can read it."),
 });
 
 export const GetSyllabusSchema = z.object({
-  courseId: z.coerce.number().int().positive()
-    .describe("Course ID to get syllabus for."),
+  courseId: z.coerce.number().int().positive().optional()
+    .describe("Course ID to get syllabus for. Either courseId or course is required."),
+  course,
   downloadPath: z.string().min(1).optional()
     .describe("Absolute path to the directory where the attachment should be saved."),
+  extractText: z.boolean().default(true)
+    .describe("Return the attachment's text (PDF, Word, PowerPoint, Excel, plain text) when there is one."),
 });
 
 export const GetDiscussionsSchema = z.object({
-  courseId: z.coerce.number().int().positive()
-    .describe("Course ID to get discussion boards for."),
+  courseId: z.coerce.number().int().positive().optional()
+    .describe("Course ID to get discussion boards for. Either courseId or course is required."),
+  course,
   forumId: z.coerce.number().int().positive().optional()
     .describe("Specific forum ID to get topics and posts for. If omitted, returns all forums."),
   topicId: z.coerce.number().int().positive().optional()
@@ -83,10 +109,774 @@ export const GetDiscussionsSchema = z.object({
 });
 
 export const GetRosterSchema = z.object({
-  courseId: z.coerce.number().int().positive()
-    .describe("Course ID to get roster for."),
+  courseId: z.coerce.number().int().positive().optional()
+    .describe("Course ID to get roster for. Either courseId or course is required."),
+  course,
   includeStudents: z.boolean().default(false)
     .describe("Include students in results. Default is instructors and TAs only."),
   searchTerm: z.string().optional()
     .describe("Optional search term to filter by name."),
 });
+
+export const SubmitAssignmentSchema = z.object({
+  courseId: z.coerce.number().int().positive().optional()
+    .describe("Course ID the assignment belongs to. Either courseId or course is required."),
+  course,
+  folderId: z.coerce.number().int().positive()
+    .describe("Dropbox folder ID of the assignment (the assignment 'id' from get_assignments)."),
+  filePaths: z.array(z.string().min(1)).min(1).max(10)
+    .describe("Absolute paths of the local files to submit."),
+  comment: z.string().max(5000).optional()
+    .describe("Optional comment to attach to the submission."),
+  confirmationToken: z.string().max(200).optional()
+    .describe("Token from this tool's preview. Pass it back ONLY after the user has explicitly confirmed that preview. Without it, nothing is submitted and a preview is returned. It expires after 10 minutes and only works for exactly the previewed files and comment."),
+});
+
+export const ProjectFinalGradeSchema = z.object({
+  courseId: z.coerce.number().int().positive().optional()
+    .describe("Course ID to project the final grade for. Either courseId or course is required."),
+  course,
+  targetPercent: z.coerce.number().min(0).max(100).optional()
+    .describe("Optional custom target final percentage (e.g. 85) to solve for, in addition to the course's letter-grade cutoffs."),
+});
+
+export const ExportCalendarSchema = z.object({
+  daysAhead: z.coerce.number().int().min(1).max(365).default(120)
+    .describe("Number of days ahead to include."),
+  courseId: z.coerce.number().int().positive().optional()
+    .describe("Only export due dates for this course ID. If omitted, exports all enrolled courses."),
+  course,
+  outputPath: z.string().min(1).optional()
+    .describe("Absolute path of the .ics file to write. If omitted, the calendar text is returned instead."),
+  reminderMinutes: z.coerce.number().int().min(0).max(10080).default(1440)
+    .describe("Minutes before each due date to trigger a reminder. 0 disables reminders."),
+});
+
+export const SyncCourseContentSchema = z.object({
+  courseId: z.coerce.number().int().positive().optional()
+    .describe("Course ID to mirror. Either courseId or course is required."),
+  course,
+  targetDir: z.string().min(1)
+    .describe("Absolute path of the local directory to mirror into. Created if it doesn't exist. Module folders are recreated inside it."),
+  moduleTitle: z.string().optional()
+    .describe("Case-insensitive substring match on top-level module titles. Only matching modules (and everything inside them) are mirrored."),
+  force: z.boolean().default(false)
+    .describe("Re-download every file even if it hasn't changed since the last sync."),
+});
+
+export const SearchCourseSchema = z.object({
+  query: z.string().min(2)
+    .describe("Words or phrase to search for (e.g. 'Dijkstra', 'midterm review')."),
+  courseId: z.coerce.number().int().positive().optional()
+    .describe("Course ID to search. If omitted, searches all enrolled courses (the first search of a course indexes it and can take a while)."),
+  course,
+  kinds: z.array(z.enum(["content", "announcement", "discussion"])).optional()
+    .describe("Only return these kinds of results. Default: all."),
+  limit: z.coerce.number().int().min(1).max(50).default(10)
+    .describe("Maximum number of results."),
+  refresh: z.boolean().default(false)
+    .describe("Check Brightspace for changes before searching even if the index was updated recently."),
+});
+
+export const SwitchProfileSchema = z.object({
+  profile: z.string().regex(/^[a-z0-9][a-z0-9_-]{0,63}$/i)
+    .describe("Profile name from list_profiles. Use 'default' for the main config (~/.brightspace-mcp/config.json)."),
+});
+
+export const GetWhatsNewSchema = z.object({
+  courseId: z.coerce.number().int().positive().optional()
+    .describe("Only check this course ID. If omitted, checks all enrolled courses."),
+  course,
+  since: z.string().datetime({ offset: true }).optional()
+    .describe("ISO 8601 timestamp (e.g. '2026-01-15T00:00:00Z'). Report changes after this time instead of since the last check. Does not reset the last-check point."),
+  kinds: z.array(z.enum(["grade", "announcement", "content", "feedback", "discussion"])).optional()
+    .describe("Only report these kinds of changes. Default: all."),
+});
+
+export const GetAssignmentFeedbackSchema = z.object({
+  courseId: z.coerce.number().int().positive().optional()
+    .describe("Course ID the assignment belongs to. Either courseId or course is required."),
+  course,
+  folderId: z.coerce.number().int().positive()
+    .describe("Dropbox folder ID of the assignment (the assignment 'id' from get_assignments)."),
+  downloadPath: z.string().min(1).optional()
+    .describe("Absolute path to the directory where feedback attachments should be saved. If omitted, attachments are only read inline."),
+});
+
+export const GetQuizAttemptSchema = z.object({
+  courseId: z.coerce.number().int().positive().optional()
+    .describe("Course ID the quiz belongs to. Either courseId or course is required."),
+  course,
+  quizId: z.coerce.number().int().positive()
+    .describe("Quiz ID (the quiz 'id' from get_assignments)."),
+  attemptId: z.coerce.number().int().positive().optional()
+    .describe("Attempt ID to review. If omitted, reviews the most recent completed attempt."),
+});
+
+export const GetMyGroupsSchema = z.object({
+  courseId: z.coerce.number().int().positive().optional()
+    .describe("Course ID to list groups for. If omitted, checks all enrolled courses."),
+  course,
+});
+
+export const GetContentProgressSchema = z.object({
+  courseId: z.coerce.number().int().positive().optional()
+    .describe("Course ID to report progress for. Either courseId or course is required."),
+  course,
+  moduleTitle: z.string().optional()
+    .describe("Case-insensitive substring match on top-level module titles. Only matching modules are reported."),
+  markCompleted: z.array(z.coerce.number().int().positive()).max(50).optional()
+    .describe("Topic IDs to mark as viewed/completed before reporting. Only use when the user asks to mark something as done."),
+});
+
+export const ReadCourseFileSchema = z.object({
+  courseId: z.coerce.number().int().positive().optional()
+    .describe("Course ID the file belongs to. Either courseId or course is required."),
+  course,
+  topicId: z.coerce.number().int().positive().optional()
+    .describe("Content topic ID to read (for course content files)."),
+  folderId: z.coerce.number().int().positive().optional()
+    .describe("Dropbox folder ID (for reading one of your submission files)."),
+  fileId: z.coerce.number().int().positive().optional()
+    .describe("Specific file ID within your dropbox submission."),
+  pages: z.string().regex(/^\d+(-\d+)?$/).optional()
+    .describe("PDF page or page range to read, e.g. '3' or '10-15'. Default: the whole document."),
+  offset: z.coerce.number().int().min(0).default(0)
+    .describe("Character offset to start reading from. Use the nextOffset from a previous call to continue a long document."),
+  maxChars: z.coerce.number().int().min(1000).max(100000).default(20000)
+    .describe("Maximum number of characters of text to return."),
+});
+
+export const GetTranscriptSummarySchema = z.object({
+  term: term.describe("Only summarize this term: 'current', 'previous' or a term name like 'Fall 2025'. Default: every term."),
+});
+
+/**
+ * Output schemas, passed to the MCP SDK as outputSchema. Every tool returns its
+ * result as structuredContent (validated by the SDK against these) and as JSON
+ * text. The inferred *Output types are for code that consumes this server.
+ */
+
+// Values copied from Brightspace responses. Valence doesn't always send fields
+// its docs list, and structuredContent that fails its schema fails the whole
+// call, so these accept null or a missing value. IDs stay required.
+const d2lString = z.string().nullish();
+const d2lNumber = z.number().nullish();
+const d2lBoolean = z.boolean().nullish();
+
+/**
+ * Top-level tool output: the tool's fields plus the freshness flags
+ * toolResponse() adds when the data is an offline disk-cache fallback.
+ */
+function toolOutput<Shape extends z.ZodRawShape>(shape: Shape) {
+  return z.object({
+    ...shape,
+    stale: z.literal(true).optional(),
+    fetchedAt: z.string().optional(), // when the stale data was fetched
+  });
+}
+
+// convertHtmlToMarkdown() result
+const RichTextOutput = z.object({
+  markdown: z.string(),
+  html: z.string(),
+});
+
+// extractDocumentText() result
+const ExtractedDocumentOutput = z.object({
+  format: z.enum(["pdf", "docx", "pptx", "xlsx", "html", "text"]),
+  text: z.string(),
+  totalPages: z.number().optional(),
+  pages: z.object({ from: z.number(), to: z.number() }).optional(),
+  totalSlides: z.number().optional(),
+  sheets: z.array(z.string()).optional(),
+  totalChars: z.number().optional(),
+  truncated: z.boolean().optional(),
+  nextOffset: z.number().optional(),
+});
+
+// Courses a multi-course tool couldn't read (often past courses)
+const UnavailableCoursesOutput = z.array(z.object({
+  courseId: z.number(),
+  courseName: d2lString,
+})).optional();
+
+export const CheckAuthOutputSchema = toolOutput({
+  authenticated: z.boolean(),
+  expiresInMinutes: z.number().nullable(),
+  source: z.string().nullable(),
+  message: z.string(),
+});
+
+export const GetMyCoursesOutputSchema = toolOutput({
+  courses: z.array(z.object({
+    id: z.number(),
+    name: d2lString,
+    code: d2lString,
+    term: d2lString,
+    role: d2lString,
+    isActive: d2lBoolean,
+    lastAccessed: d2lString,
+  })),
+});
+
+export const GetUpcomingDueDatesOutputSchema = toolOutput({
+  events: z.array(z.object({
+    id: z.number(),
+    title: d2lString,
+    courseName: d2lString,
+    courseId: z.number(),
+    startDate: d2lString,
+    endDate: d2lString,
+    isAllDay: d2lBoolean,
+  })),
+});
+
+const GradeItemOutput = z.object({
+  name: d2lString,
+  displayGrade: d2lString,
+  pointsNumerator: d2lNumber,
+  pointsDenominator: d2lNumber,
+  weightedNumerator: d2lNumber,
+  weightedDenominator: d2lNumber,
+  comments: d2lString,
+  lastModified: d2lString,
+});
+
+export const GetMyGradesOutputSchema = toolOutput({
+  // One course
+  courseId: z.number().optional(),
+  grades: z.array(GradeItemOutput).optional(),
+  // All courses
+  courses: z.array(z.object({
+    courseId: z.number(),
+    courseName: d2lString,
+    grades: z.array(GradeItemOutput),
+  })).optional(),
+  unavailable: UnavailableCoursesOutput,
+});
+
+export const GetAnnouncementsOutputSchema = toolOutput({
+  announcements: z.array(z.object({
+    id: z.number(),
+    title: d2lString,
+    body: d2lString,
+    createdBy: d2lString,
+    createdDate: d2lString,
+    startDate: d2lString,
+    isPinned: d2lBoolean,
+    // Set when listing across all courses
+    courseId: z.number().optional(),
+    courseName: d2lString,
+  })),
+});
+
+const GroupMemberOutput = z.object({
+  userId: z.number(),
+  name: d2lString,
+  email: d2lString,
+  isMe: z.boolean(),
+});
+
+const GroupCategoryOutput = z.object({
+  categoryId: z.number(),
+  name: d2lString,
+  description: d2lString,
+  maxUsersPerGroup: d2lNumber,
+  selfEnrollmentDeadline: d2lString,
+  myGroup: z.object({
+    groupId: z.number(),
+    name: d2lString,
+    code: d2lString,
+    members: z.array(GroupMemberOutput),
+  }).nullable(),
+});
+
+const DropboxAssignmentOutput = z.object({
+  type: z.literal("assignment"),
+  id: z.number(),
+  name: d2lString,
+  instructions: RichTextOutput,
+  dueDate: d2lString,
+  points: d2lNumber,
+  isGroup: z.boolean(),
+  // Group folders, with includeGroups: my group and who has submitted (null = not in a group)
+  group: z.object({
+    groupId: z.number(),
+    name: d2lString,
+    members: z.array(z.object({
+      name: d2lString,
+      isMe: z.boolean(),
+      submitted: z.boolean(),
+      lastSubmittedDate: d2lString,
+    })),
+  }).nullish(),
+  rubric: z.array(z.object({
+    name: d2lString,
+    criteria: z.array(z.object({
+      name: d2lString,
+      levels: z.array(z.object({
+        name: d2lString,
+        points: d2lNumber,
+        description: d2lString,
+      })),
+    })),
+  })).nullable(),
+  submission: z.object({
+    submittedDate: d2lString,
+    files: z.array(z.object({ name: d2lString, size: d2lNumber, fileId: z.number() })),
+    comment: d2lString,
+  }).nullable(),
+  feedback: z.object({
+    score: d2lNumber,
+    feedback: RichTextOutput.nullable(),
+  }).nullable(),
+});
+
+const QuizAssignmentOutput = z.object({
+  type: z.literal("quiz"),
+  id: z.number(),
+  name: d2lString,
+  instructions: RichTextOutput,
+  dueDate: d2lString,
+  startDate: d2lString,
+  endDate: d2lString,
+  timeLimit: d2lNumber, // minutes
+  attemptsAllowed: z.union([z.number(), z.literal("Unlimited")]).nullable(),
+  attemptsUsed: z.number(),
+  attemptsRemaining: z.union([z.number(), z.literal("Unlimited")]),
+  attemptWarning: z.string().nullable(),
+  bestScore: z.number().nullable(),
+  attempts: z.array(z.object({
+    attemptId: z.number(),
+    attemptNumber: d2lNumber,
+    score: d2lNumber,
+  })),
+});
+
+const AssignmentOutput = z.discriminatedUnion("type", [DropboxAssignmentOutput, QuizAssignmentOutput]);
+
+export const GetAssignmentsOutputSchema = toolOutput({
+  // One course
+  courseId: z.number().optional(),
+  assignments: z.array(AssignmentOutput).optional(),
+  // All courses
+  courses: z.array(z.object({
+    courseId: z.number(),
+    courseName: d2lString,
+    assignments: z.array(AssignmentOutput),
+  })).optional(),
+  unavailable: UnavailableCoursesOutput,
+});
+
+// A module (with children) or a topic in the content tree
+const ContentNodeOutput = z.object({
+  type: z.enum(["module", "topic"]),
+  id: z.number(),
+  title: d2lString,
+  description: d2lString,
+  dueDate: d2lString,
+  isHidden: d2lBoolean,
+  isLocked: d2lBoolean,
+  // Topics only
+  topicType: z.string().optional(), // file, link or other
+  topicId: z.number().optional(), // file topics, for download_file / read_course_file
+  url: d2lString, // link topics
+  content: RichTextOutput.optional(), // HTML topics
+  lastModified: d2lString,
+  isCompleted: d2lBoolean,
+  completedDate: d2lString,
+  // Modules only
+  get children() {
+    return z.array(ContentNodeOutput).optional();
+  },
+});
+
+export const GetCourseContentOutputSchema = toolOutput({
+  courseId: z.number(),
+  typeFilter: z.enum(["file", "link", "html", "video", "all"]),
+  contentTree: z.array(ContentNodeOutput),
+  topicCount: z.number(),
+  moduleCount: z.number(),
+});
+
+const ClasslistEntryOutput = z.object({
+  name: d2lString,
+  email: d2lString,
+  role: d2lString,
+});
+
+export const GetClasslistEmailsOutputSchema = toolOutput({
+  emails: z.array(ClasslistEntryOutput),
+});
+
+export const DownloadFileOutputSchema = toolOutput({
+  success: z.literal(true),
+  filePath: z.string(),
+  fileSize: z.number(),
+  mimeType: z.string(),
+  originalFilename: z.string(),
+  message: z.string(),
+  // With extractText
+  content: ExtractedDocumentOutput.nullish(),
+  contentNote: z.string().optional(),
+});
+
+export const GetSyllabusOutputSchema = toolOutput({
+  courseId: z.number(),
+  description: RichTextOutput.nullable(),
+  message: z.string().optional(),
+  hasAttachment: z.boolean().optional(),
+  syllabusText: z.string().optional(),
+  totalPages: z.number().optional(),
+  totalSlides: z.number().optional(),
+  truncated: z.boolean().optional(),
+  download: z.object({
+    success: z.boolean(),
+    filePath: z.string().optional(),
+    fileSize: z.number().optional(),
+    mimeType: z.string().optional(),
+    error: z.string().optional(),
+  }).optional(),
+});
+
+const DiscussionPostOutput = z.object({
+  postId: z.number(),
+  threadId: d2lNumber,
+  parentPostId: d2lNumber,
+  subject: d2lString,
+  message: z.string(),
+  author: d2lString,
+  datePosted: d2lString,
+  lastEditedDate: d2lString,
+  replyCount: z.number(),
+  wordCount: d2lNumber,
+  attachmentCount: d2lNumber,
+  isRead: d2lBoolean,
+});
+
+const DiscussionForumOutput = z.object({
+  forumId: z.number(),
+  name: d2lString,
+  description: d2lString,
+  isLocked: d2lBoolean,
+  isHidden: d2lBoolean,
+});
+
+const DiscussionTopicOutput = z.object({
+  topicId: z.number(),
+  name: d2lString,
+  description: d2lString,
+  dueDate: d2lString,
+  isLocked: d2lBoolean,
+  mustPostToParticipate: d2lBoolean,
+  scoreOutOf: d2lNumber,
+});
+
+export const GetDiscussionsOutputSchema = toolOutput({
+  courseId: z.number(),
+  // All forums
+  forumCount: z.number().optional(),
+  forums: z.array(DiscussionForumOutput.extend({
+    topics: z.array(DiscussionTopicOutput.extend({ forumId: d2lNumber, isHidden: d2lBoolean })),
+  })).optional(),
+  // One forum (forumId)
+  forum: DiscussionForumOutput.optional(),
+  topicCount: z.number().optional(),
+  topics: z.array(DiscussionTopicOutput.extend({
+    postCount: z.number(),
+    posts: z.array(DiscussionPostOutput),
+  })).optional(),
+  // One topic (forumId + topicId)
+  forumId: z.number().optional(),
+  topic: DiscussionTopicOutput.optional(),
+  postCount: z.number().optional(),
+  posts: z.array(DiscussionPostOutput).optional(),
+});
+
+export const GetRosterOutputSchema = toolOutput({
+  roster: z.array(ClasslistEntryOutput),
+});
+
+export const SubmitAssignmentOutputSchema = toolOutput({
+  dryRun: z.literal(true).optional(), // preview only, nothing submitted
+  confirmationToken: z.string().optional(), // preview only: pass back to submit
+  confirmationExpiresAt: z.string().optional(),
+  success: z.literal(true).optional(),
+  courseId: z.number(),
+  folder: z.object({
+    id: z.number(),
+    name: d2lString,
+    dueDate: d2lString,
+  }),
+  files: z.array(z.object({
+    name: z.string(),
+    path: z.string(),
+    size: z.number(),
+    mimeType: z.string(),
+  })),
+  comment: z.string().nullable(),
+  submittedAt: z.string().optional(),
+  message: z.string(),
+});
+
+export const ProjectFinalGradeOutputSchema = toolOutput({
+  courseId: z.number(),
+  gradeScheme: d2lString,
+  gradingSystem: z.enum(["Weighted", "Points"]),
+  currentPercent: z.number().nullable(),
+  minimumPercent: z.number().nullable(),
+  maximumPercent: z.number().nullable(),
+  remainingItems: z.array(z.object({ name: d2lString, maxPoints: z.number() })),
+  categories: z.array(z.object({
+    id: z.number().nullable(),
+    name: d2lString,
+    weight: d2lNumber,
+    currentPercent: z.number().nullable(),
+    gradedItems: z.number(),
+    remainingItems: z.number(),
+    droppedItems: z.array(d2lString),
+  })),
+  cutoffs: z.array(z.object({
+    symbol: d2lString,
+    percentStart: z.number(),
+    status: z.enum(["secured", "reachable", "unreachable"]),
+    requiredAverage: z.number().nullable(),
+  })),
+  notes: z.array(z.string()),
+});
+
+export const ExportCalendarOutputSchema = toolOutput({
+  eventCount: z.number(),
+  ics: z.string().optional(), // when no outputPath was given
+  outputPath: z.string().optional(),
+  events: z.array(z.object({ summary: z.string(), due: z.string() })).optional(),
+  message: z.string().optional(),
+});
+
+export const SyncCourseContentOutputSchema = toolOutput({
+  courseId: z.number(),
+  targetDir: z.string(),
+  manifestPath: z.string(),
+  downloaded: z.array(z.string()),
+  updated: z.array(z.string()),
+  unchanged: z.number(),
+  failed: z.array(z.object({ title: d2lString, error: z.string() })),
+  removedFromCourse: z.array(z.string()),
+  message: z.string(),
+});
+
+export const SearchCourseOutputSchema = toolOutput({
+  query: z.string(),
+  courseIds: z.array(z.number()),
+  documentsSearched: z.number(),
+  results: z.array(z.object({
+    id: z.string(),
+    kind: z.enum(["content", "announcement", "discussion"]),
+    courseId: z.number(),
+    title: d2lString,
+    score: z.number(),
+    snippet: z.string(),
+    ref: z.record(z.string(), z.number()), // IDs for follow-up tools (topicId, forumId, ...)
+  })),
+});
+
+export const ListProfilesOutputSchema = toolOutput({
+  activeProfile: z.string(),
+  activeBaseUrl: z.string(),
+  profiles: z.array(z.object({
+    name: z.string(),
+    baseUrl: z.string().nullable(),
+    username: z.string().nullable(),
+    ssoProvider: z.string().nullable(),
+    active: z.boolean(),
+  })),
+});
+
+export const SwitchProfileOutputSchema = toolOutput({
+  profile: z.string(),
+  baseUrl: z.string(),
+  authenticated: z.boolean(),
+  message: z.string(),
+});
+
+export const GetWhatsNewOutputSchema = toolOutput({
+  checkedAt: z.string(),
+  coursesChecked: z.number(),
+  totalChanges: z.number(),
+  courses: z.array(z.object({
+    courseId: z.number(),
+    courseName: d2lString,
+    courseCode: d2lString,
+    comparedTo: z.string(),
+    changes: z.array(z.object({
+      kind: z.enum(["grade", "announcement", "content", "feedback", "discussion"]),
+      id: z.string(),
+      title: d2lString,
+      change: z.enum(["new", "updated"]),
+      timestamp: d2lString,
+      detail: z.record(z.string(), z.unknown()).optional(),
+    })),
+  })),
+  coursesFailed: z.number().optional(),
+});
+
+export const GetAssignmentFeedbackOutputSchema = toolOutput({
+  courseId: z.number(),
+  folderId: z.number(),
+  assignment: d2lString,
+  feedback: d2lString,
+  message: z.string().optional(), // set when no feedback has been released
+  score: d2lNumber,
+  outOf: d2lNumber,
+  isGraded: d2lBoolean,
+  rubrics: z.array(z.object({
+    rubricId: z.number(),
+    name: d2lString,
+    overallLevel: d2lString,
+    pointsEarned: d2lNumber,
+    pointsPossible: d2lNumber,
+    overallComment: d2lString,
+    criteria: z.array(z.object({
+      criterion: d2lString,
+      level: d2lString,
+      levelDescription: d2lString,
+      pointsEarned: d2lNumber,
+      pointsPossible: d2lNumber,
+      scoreOverridden: d2lBoolean,
+      comment: d2lString,
+    })),
+  })).optional(),
+  attachments: z.array(z.object({
+    fileId: z.number(),
+    name: d2lString,
+    size: d2lNumber,
+    text: z.string().optional(),
+    truncated: z.boolean().optional(),
+    filePath: z.string().optional(),
+    error: z.string().optional(),
+  })).optional(),
+});
+
+export const GetQuizAttemptOutputSchema = toolOutput({
+  courseId: z.number(),
+  quizId: z.number(),
+  quiz: d2lString,
+  attemptId: z.number(),
+  attemptNumber: d2lNumber,
+  completedDate: d2lString,
+  score: d2lNumber,
+  overallFeedback: d2lString,
+  reviewAvailable: z.boolean(),
+  message: z.string().optional(),
+  questions: z.array(z.object({
+    questionId: z.number(),
+    name: d2lString,
+    type: z.string(),
+    question: z.string(),
+    myAnswer: z.array(z.string()).nullable(),
+    correctAnswer: z.array(z.string()).nullable(),
+    pointsEarned: d2lNumber,
+    pointsPossible: d2lNumber,
+    feedback: z.string().nullable(),
+  })).optional(),
+});
+
+export const GetMyGroupsOutputSchema = toolOutput({
+  // One course
+  courseId: z.number().optional(),
+  categories: z.array(GroupCategoryOutput).optional(),
+  // All courses (only those that use groups)
+  courses: z.array(z.object({
+    courseId: z.number(),
+    courseName: d2lString,
+    categories: z.array(GroupCategoryOutput),
+  })).optional(),
+});
+
+export const GetContentProgressOutputSchema = toolOutput({
+  courseId: z.number(),
+  marked: z.array(z.object({
+    topicId: z.number(),
+    success: z.boolean(),
+    error: z.string().optional(),
+  })).optional(),
+  totalTopics: z.number(),
+  completedTopics: z.number(),
+  percentComplete: z.number(),
+  modules: z.array(z.object({
+    moduleId: z.number(),
+    module: z.string(),
+    dueDate: d2lString,
+    totalTopics: z.number(),
+    completedTopics: z.number(),
+    percentComplete: z.number(),
+  })),
+  incomplete: z.array(z.object({
+    topicId: z.number(),
+    title: d2lString,
+    topicType: z.string(),
+    module: z.string(),
+    moduleDueDate: d2lString,
+    dueDate: d2lString,
+  })),
+  note: z.string().optional(),
+});
+
+export const ReadCourseFileOutputSchema = toolOutput({
+  ...ExtractedDocumentOutput.partial().shape,
+  courseId: z.number(),
+  filename: z.string(),
+  mimeType: z.string(),
+  size: z.number().optional(), // images, which are returned as image content
+});
+
+export const GetTranscriptSummaryOutputSchema = toolOutput({
+  terms: z.array(z.object({
+    term: d2lString,
+    termCode: d2lString,
+    courses: z.array(z.object({
+      courseId: z.number(),
+      code: d2lString,
+      name: d2lString,
+      finalGrade: d2lString,
+      percent: z.number().nullable(),
+      status: z.enum(["graded", "not_released", "unavailable"]),
+    })),
+  })),
+  summary: z.object({
+    courses: z.number(),
+    graded: z.number(),
+    notReleased: z.number(),
+    unavailable: z.number(),
+  }),
+});
+
+export type CheckAuthOutput = z.infer<typeof CheckAuthOutputSchema>;
+export type GetMyCoursesOutput = z.infer<typeof GetMyCoursesOutputSchema>;
+export type GetUpcomingDueDatesOutput = z.infer<typeof GetUpcomingDueDatesOutputSchema>;
+export type GetMyGradesOutput = z.infer<typeof GetMyGradesOutputSchema>;
+export type GetAnnouncementsOutput = z.infer<typeof GetAnnouncementsOutputSchema>;
+export type Assignment = z.infer<typeof AssignmentOutput>;
+export type GetAssignmentsOutput = z.infer<typeof GetAssignmentsOutputSchema>;
+export type ContentNode = z.infer<typeof ContentNodeOutput>;
+export type GetCourseContentOutput = z.infer<typeof GetCourseContentOutputSchema>;
+export type GetClasslistEmailsOutput = z.infer<typeof GetClasslistEmailsOutputSchema>;
+export type DownloadFileOutput = z.infer<typeof DownloadFileOutputSchema>;
+export type GetSyllabusOutput = z.infer<typeof GetSyllabusOutputSchema>;
+export type GetDiscussionsOutput = z.infer<typeof GetDiscussionsOutputSchema>;
+export type GetRosterOutput = z.infer<typeof GetRosterOutputSchema>;
+export type SubmitAssignmentOutput = z.infer<typeof SubmitAssignmentOutputSchema>;
+export type ProjectFinalGradeOutput = z.infer<typeof ProjectFinalGradeOutputSchema>;
+export type ExportCalendarOutput = z.infer<typeof ExportCalendarOutputSchema>;
+export type SyncCourseContentOutput = z.infer<typeof SyncCourseContentOutputSchema>;
+export type SearchCourseOutput = z.infer<typeof SearchCourseOutputSchema>;
+export type ListProfilesOutput = z.infer<typeof ListProfilesOutputSchema>;
+export type SwitchProfileOutput = z.infer<typeof SwitchProfileOutputSchema>;
+export type GetWhatsNewOutput = z.infer<typeof GetWhatsNewOutputSchema>;
+export type GetAssignmentFeedbackOutput = z.infer<typeof GetAssignmentFeedbackOutputSchema>;
+export type GetQuizAttemptOutput = z.infer<typeof GetQuizAttemptOutputSchema>;
+export type GetMyGroupsOutput = z.infer<typeof GetMyGroupsOutputSchema>;
+export type GetContentProgressOutput = z.infer<typeof GetContentProgressOutputSchema>;
+export type ReadCourseFileOutput = z.infer<typeof ReadCourseFileOutputSchema>;
+export type GetTranscriptSummaryOutput = z.infer<typeof GetTranscriptSummaryOutputSchema>;
@@ -0,0 +1,314 @@
+/**
+ * Purdue Brightspace MCP Server
+ * Copyright (c) 2026 Rohan Muppa. All rights reserved.
+ * Licensed under AGPL-3.0 — see LICENSE file for details.
+ */
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { D2LApiClient, DEFAULT_CACHE_TTLS } from "../api/index.js";
+import type { EnrollmentService } from "../api/index.js";
+import { SearchCourseSchema, SearchCourseOutputSchema } from "./schemas.js";
+import type { SearchCourseOutput } from "./schemas.js";
+import { toolResponse, sanitizeError, Freshness } from "./tool-helpers.js";
+import type { ContentObject } from "./get-course-content.js";
+import { fetchContentFile } from "./download-file.js";
+import { convertHtmlToMarkdown } from "../utils/html-converter.js";
+import { extractPdfText } from "../utils/pdf-extractor.js";
+import { log } from "../utils/logger.js";
+import { SearchIndexStore, searchDocuments } from "../utils/search-index.js";
+import type { CourseSearchIndex, SearchDocument } from "../utils/search-index.js";
+import type { AppConfig } from "../types/index.js";
+
+interface NewsItem {
+  Id: number;
+  Title: string;
+  Body: { Text: string; Html: string };
+  LastModifiedDate: string | null;
+  CreatedDate: string;
+}
+
+interface D2LForum {
+  ForumId: number;
+  Name: string;
+}
+
+interface D2LTopic {
+  ForumId: number;
+  TopicId: number;
+  Name: string;
+}
+
+interface D2LPost {
+  ForumId: number;
+  TopicId: number;
+  PostId: number;
+  Subject: string;
+  Message: { Text: string; Html: string };
+  DatePosted: string;
+  LastEditedDate: string | null;
+  IsDeleted: boolean;
+}
+
+// Longest body kept per document — keeps index files and ranking fast
+const MAX_INDEXED_CHARS = 200_000;
+
+// File topics whose text we extract (everything else is indexed by title/description)
+const EXTRACTABLE_EXTENSIONS = /\.(pdf|html?|txt|md)$/i;
+
+function htmlToText(html: string | null | undefined): string {
+  return html ? convertHtmlToMarkdown(html).markdown : "";
+}
+
+/**
+ * Extract searchable text from a file topic. Returns "" if the file can't be read.
+ */
+async function extractTopicText(
+  apiClient: D2LApiClient,
+  courseId: number,
+  topic: ContentObject
+): Promise<string> {
+  if (!EXTRACTABLE_EXTENSIONS.test(topic.Url ?? "")) {
+    return "";
+  }
+
+  try {
+    const file = await fetchContentFile(apiClient, courseId, topic.Id);
+    if (typeof file === "string") {
+      log("DEBUG", `search_course: skipping topic ${topic.Id}: ${file}`);
+      return "";
+    }
+
+    if (file.data.subarray(0, 5).toString("latin1") === "%PDF-") {
+      return (await extractPdfText(file.data))?.text ?? "";
+    }
+    const text = file.data.toString("utf-8");
+    return /\.html?$/i.test(topic.Url ?? "") ? htmlToText(text) : text;
+  } catch (error) {
+    log("DEBUG", `search_course: failed to extract text for topic ${topic.Id}`, error);
+    return "";
+  }
+}
+
+/**
+ * Bring a course's index up to date. Documents whose source version is
+ * unchanged are kept as-is, so only new or edited items are re-fetched.
+ * An index built from offline-cache reads keeps its old refreshedAt so the
+ * next search refreshes it again; those reads are also recorded in freshness.
+ */
+async function refreshCourseIndex(
+  apiClient: D2LApiClient,
+  store: SearchIndexStore,
+  index: CourseSearchIndex,
+  freshness: Freshness
+): Promise<CourseSearchIndex> {
+  const { courseId } = index;
+  const courseFreshness = new Freshness();
+  const previous = index.documents;
+  const documents: Record<string, SearchDocument> = {};
+  let changed = 0;
+
+  // Keep the previous document if its version is unchanged, otherwise build a new one
+  const upsert = async (
+    id: string,
+    version: string,
+    build: () => Promise<Omit<SearchDocument, "id" | "courseId" | "version">>
+  ): Promise<void> => {
+    const existing = previous[id];
+    if (existing && existing.version === version) {
+      documents[id] = existing;
+      return;
+    }
+    const doc = await build();
+    documents[id] = { ...doc, id, courseId, version, text: doc.text.slice(0, MAX_INDEXED_CHARS) };
+    changed++;
+  };
+
+  const ttl = DEFAULT_CACHE_TTLS.courseContent;
+
+  // Course content — walk modules recursively
+  const walk = async (items: ContentObject[], trail: string[]): Promise<void> => {
+    for (const item of items) {
+      if (item.Type === 0) {
+        let children: ContentObject[] = [];
+        try {
+          children = courseFreshness.track(await apiClient.getWithMeta<ContentObject[]>(
+            apiClient.le(courseId, `/content/modules/${item.Id}/structure/`),
+            { ttl }
+          ));
+        } catch {
+          log("DEBUG", `search_course: failed to fetch children for module ${item.Id}: skipping`);
+        }
+        await walk(children, [...trail, item.Title]);
+      } else if (item.Type === 1) {
+        await upsert(`content:${item.Id}`, item.LastModifiedDate ?? "", async () => {
+          const fileText = item.TopicType === 1 ? await extractTopicText(apiClient, courseId, item) : "";
+          return {
+            kind: "content",
+            title: item.Title,
+            text: [trail.join(" / "), htmlToText(item.Description?.Html), item.Url ?? "", fileText]
+              .filter(Boolean)
+              .join("\n\n"),
+            ref: { topicId: item.Id },
+          };
+        });
+      }
+    }
+  };
+
+  try {
+    const root = courseFreshness.track(
+      await apiClient.getWithMeta<ContentObject[]>(apiClient.le(courseId, "/content/root/"), { ttl })
+    );
+    await walk(root, []);
+  } catch (error: any) {
+    if (error?.status !== 403 && error?.status !== 404) throw error;
+    log("DEBUG", `search_course: no content access for course ${courseId}`);
+  }
+
+  // Announcements
+  try {
+    const news = courseFreshness.track(await apiClient.getWithMeta<NewsItem[]>(apiClient.le(courseId, "/news/"), {
+      ttl: DEFAULT_CACHE_TTLS.announcements,
+    }));
+    for (const item of news) {
+      await upsert(`announcement:${item.Id}`, item.LastModifiedDate ?? item.CreatedDate, async () => ({
+        kind: "announcement",
+        title: item.Title,
+        text: htmlToText(item.Body?.Html) || item.Body?.Text || "",
+        ref: { announcementId: item.Id },
+      }));
+    }
+  } catch (error: any) {
+    if (error?.status !== 403 && error?.status !== 404) throw error;
+    log("DEBUG", `search_course: no announcement access for course ${courseId}`);
+  }
+
+  // Discussion posts
+  try {
+    const forums = courseFreshness.track(
+      await apiClient.getWithMeta<D2LForum[]>(apiClient.le(courseId, "/discussions/forums/"), { ttl })
+    );
+    for (const forum of forums) {
+      let topics: D2LTopic[] = [];
+      try {
+        topics = courseFreshness.track(await apiClient.getWithMeta<D2LTopic[]>(
+          apiClient.le(courseId, `/discussions/forums/${forum.ForumId}/topics/`),
+          { ttl }
+        ));
+      } catch {
+        log("DEBUG", `search_course: failed to fetch topics for forum ${forum.ForumId}`);
+      }
+
+      for (const topic of topics) {
+        let posts: D2LPost[] = [];
+        try {
+          posts = courseFreshness.track(await apiClient.getWithMeta<D2LPost[]>(
+            apiClient.le(courseId, `/discussions/forums/${forum.ForumId}/topics/${topic.TopicId}/posts/`),
+            { ttl: DEFAULT_CACHE_TTLS.announcements }
+          ));
+        } catch {
+          log("DEBUG", `search_course: failed to fetch posts for topic ${topic.TopicId}`);
+        }
+
+        for (const post of posts.filter((p) => !p.IsDeleted)) {
+          await upsert(`discussion:${post.PostId}`, post.LastEditedDate ?? post.DatePosted, async () => ({
+            kind: "discussion",
+            title: post.Subject || topic.Name,
+            text: [`${forum.Name} / ${topic.Name}`, htmlToText(post.Message?.Html) || post.Message?.Text || ""].join("\n\n"),
+            ref: { forumId: forum.ForumId, topicId: topic.TopicId, postId: post.PostId },
+          }));
+        }
+      }
+    }
+  } catch (error: any) {
+    if (error?.status !== 403 && error?.status !== 404) throw error;
+    log("DEBUG", `search_course: no discussion access for course ${courseId}`);
+  }
+
+  const removed = Object.keys(previous).filter((id) => !(id in documents)).length;
+  const refreshedAt = courseFreshness.stale ? index.refreshedAt : Date.now();
+  const refreshed: CourseSearchIndex = { courseId, refreshedAt, documents };
+  await store.save(refreshed);
+  freshness.include(courseFreshness.value);
+
+  log(
+    "INFO",
+    `search_course: indexed course ${courseId} (${Object.keys(documents).length} documents, ${changed} new/changed, ${removed} removed)`
+  );
+  return refreshed;
+}
+
+/**
+ * Register search_course tool
+ */
+export function registerSearchCourse(
+  server: McpServer,
+  apiClient: D2LApiClient,
+  enrollments: EnrollmentService,
+  config: AppConfig
+): void {
+  // One store per session dir — switch_profile changes config.sessionDir
+  const stores = new Map<string, SearchIndexStore>();
+  const getStore = (): SearchIndexStore => {
+    let store = stores.get(config.sessionDir);
+    if (!store) {
+      store = new SearchIndexStore(config.sessionDir);
+      stores.set(config.sessionDir, store);
+    }
+    return store;
+  };
+
+  server.registerTool(
+    "search_course",
+    {
+      title: "Search Course",
+      description:
+        "Full-text search across course content (topic text, PDFs, HTML pages), announcements, and discussion posts. Returns ranked snippets with IDs for follow-up tools (topicId for download_file, forumId/topicId for get_discussions). Use this when the user asks which lecture or module covered a topic, where something was mentioned, or to find material by what it says rather than its title.",
+      inputSchema: SearchCourseSchema,
+      outputSchema: SearchCourseOutputSchema,
+    },
+    async (args: any) => {
+      try {
+        log("DEBUG", "search_course tool called", { args });
+
+        const { query, kinds, limit, refresh, ...courseRef } = SearchCourseSchema.parse(args);
+        const courseId = await enrollments.resolveCourseRef(courseRef);
+
+        const freshness = new Freshness();
+        const courses = courseId
+          ? [{ id: courseId, name: `Course ${courseId}` }]
+          : freshness.track(await enrollments.listCoursesWithMeta());
+        const courseIds = courses.map((c) => c.id);
+
+        // Lazily refresh indexes older than the content TTL
+        const store = getStore();
+        const { results, failures } = await enrollments.forEachCourse(courses, "search_course", async (course) => {
+          const index = await store.load(course.id);
+          const isStale = Date.now() - index.refreshedAt > DEFAULT_CACHE_TTLS.courseContent;
+          return refresh || isStale ? refreshCourseIndex(apiClient, store, index, freshness) : index;
+        });
+
+        // Single-course failures should surface (e.g. auth errors), not look like "no results"
+        if (courseId && failures.length > 0) {
+          throw failures[0].error;
+        }
+
+        const documents: SearchDocument[] = results.flatMap((r) => Object.values(r.value.documents));
+
+        const candidates = kinds ? documents.filter((d) => kinds.includes(d.kind)) : documents;
+        const hits = searchDocuments(candidates, query, limit);
+
+        log("INFO", `search_course: ${hits.length} hits for "${query}" across ${courseIds.length} courses`);
+
+        return toolResponse({
+          query,
+          courseIds,
+          documentsSearched: candidates.length,
+          results: hits,
+        } satisfies SearchCourseOutput, freshness.value);
+      } catch (error) {
+        return sanitizeError(error);
+      }
+    }
+  );
+}
@@ -0,0 +1,236 @@
+/**
+ * Purdue Brightspace MCP Server
+ * Copyright (c) 2026 Rohan Muppa. All rights reserved.
+ * Licensed under AGPL-3.0 — see LICENSE file for details.
+ */
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { D2LApiClient, ApiError } from "../api/index.js";
+import type { EnrollmentService } from "../api/index.js";
+import type { MultipartPart } from "../api/multipart.js";
+import { SubmitAssignmentSchema, SubmitAssignmentOutputSchema } from "./schemas.js";
+import type { SubmitAssignmentOutput } from "./schemas.js";
+import { toolResponse, sanitizeError, errorResponse } from "./tool-helpers.js";
+import { log } from "../utils/logger.js";
+import { validateFileType, MAX_FILE_SIZE } from "../utils/file-validator.js";
+import { SubmissionTokens } from "../utils/submission-token.js";
+import sanitizeFilename from "sanitize-filename";
+import fs from "node:fs/promises";
+import path from "node:path";
+
+// D2L Dropbox folder (subset needed to describe the target)
+interface DropboxFolder {
+  Id: number;
+  Name: string;
+  DueDate: string | null;
+  IsHidden: boolean;
+  GroupTypeId: number | null; // null = individual, non-null = group
+}
+
+// A local file that passed validation and is ready to upload
+interface PreparedFile {
+  filename: string;
+  localPath: string;
+  size: number;
+  mime: string;
+  data: Buffer;
+}
+
+/**
+ * Read and validate a local file for upload.
+ * Returns an error message string instead of throwing so all problems can be reported at once.
+ */
+async function prepareFile(filePath: string): Promise<PreparedFile | string> {
+  if (!path.isAbsolute(filePath)) {
+    return `File path must be absolute: ${filePath}`;
+  }
+
+  let stats;
+  try {
+    stats = await fs.stat(filePath);
+  } catch (error: any) {
+    if (error?.code === "ENOENT") {
+      return `File does not exist: ${filePath}`;
+    }
+    throw error;
+  }
+
+  if (!stats.isFile()) {
+    return `Not a file: ${filePath}`;
+  }
+
+  // Check size before reading into memory
+  if (stats.size > MAX_FILE_SIZE) {
+    return `File too large (${Math.round(stats.size / 1024 / 1024)}MB): ${filePath}. Maximum allowed: ${MAX_FILE_SIZE / 1024 / 1024}MB`;
+  }
+
+  if (stats.size === 0) {
+    return `File is empty: ${filePath}`;
+  }
+
+  const filename = sanitizeFilename(path.basename(filePath));
+  if (!filename) {
+    return `Invalid filename: ${filePath}`;
+  }
+
+  const data = await fs.readFile(filePath);
+
+  // Same magic-byte allowlist as downloads
+  try {
+    const { mime } = await validateFileType(data);
+    return { filename, localPath: filePath, size: data.length, mime, data };
+  } catch (error) {
+    return `${filePath}: ${error instanceof Error ? error.message : String(error)}`;
+  }
+}
+
+/**
+ * Register submit_assignment tool
+ */
+export function registerSubmitAssignment(
+  server: McpServer,
+  apiClient: D2LApiClient,
+  enrollments: EnrollmentService
+): void {
+  // Tokens are only valid on the server that issued the preview
+  const tokens = new SubmissionTokens();
+
+  server.registerTool(
+    "submit_assignment",
+    {
+      title: "Submit Assignment",
+      description:
+        "Submit one or more local files to an assignment dropbox folder, with an optional comment. Use this when the user wants to turn in, upload, or submit an assignment. " +
+        "IMPORTANT: Call this first without confirmationToken to get a preview and a confirmation token. Show the preview to the user, and only call again with that confirmationToken (and the same files and comment) after the user explicitly says to submit.",
+      inputSchema: SubmitAssignmentSchema,
+      outputSchema: SubmitAssignmentOutputSchema,
+    },
+    async (args: any) => {
+      try {
+        log("DEBUG", "submit_assignment tool called", {
+          courseId: args?.courseId,
+          folderId: args?.folderId,
+          fileCount: args?.filePaths?.length,
+          confirming: Boolean(args?.confirmationToken),
+        });
+
+        const { folderId, filePaths, comment, confirmationToken, ...courseRef } =
+          SubmitAssignmentSchema.parse(args);
+        const courseId = await enrollments.requireCourseRef(courseRef);
+
+        // Look up the target folder so the preview names it
+        const folder = await apiClient.get<DropboxFolder>(
+          apiClient.le(courseId, `/dropbox/folders/${folderId}`)
+        );
+
+        if (folder.GroupTypeId !== null) {
+          return errorResponse(
+            `"${folder.Name}" is a group assignment. Group submissions are not supported yet; submit through Brightspace directly.`
+          );
+        }
+
+        // Validate every file before touching the network
+        const prepared: PreparedFile[] = [];
+        const problems: string[] = [];
+        for (const filePath of filePaths) {
+          const result = await prepareFile(filePath);
+          if (typeof result === "string") {
+            problems.push(result);
+          } else {
+            prepared.push(result);
+          }
+        }
+
+        if (problems.length > 0) {
+          return errorResponse(`Cannot submit:\n- ${problems.join("\n- ")}`);
+        }
+
+        const summary = {
+          courseId,
+          folder: {
+            id: folder.Id,
+            name: folder.Name,
+            dueDate: folder.DueDate,
+          },
+          files: prepared.map((f) => ({
+            name: f.filename,
+            path: f.localPath,
+            size: f.size,
+            mimeType: f.mime,
+          })),
+          comment: comment ?? null,
+        };
+
+        const intent = {
+          courseId,
+          folderId,
+          files: prepared.map((f) => ({ path: f.localPath, data: f.data })),
+          comment: comment ?? null,
+        };
+
+        // Dry run: describe what would be submitted and stop
+        if (!confirmationToken) {
+          const { token, expiresAt } = tokens.issue(intent);
+          log("INFO", `submit_assignment: dry run for folder ${folderId} (${prepared.length} files)`);
+          return toolResponse({
+            dryRun: true,
+            confirmationToken: token,
+            confirmationExpiresAt: new Date(expiresAt).toISOString(),
+            ...summary,
+            message:
+              "Nothing has been submitted. Show this summary to the user and call submit_assignment again with this confirmationToken only if they explicitly approve.",
+          } satisfies SubmitAssignmentOutput);
+        }
+
+        const check = tokens.reserve(confirmationToken, intent);
+        if (check !== "valid") {
+          log("INFO", `submit_assignment: rejected ${check} confirmation token for folder ${folderId}`);
+          const reasons = {
+            invalid: "The confirmation token doesn't match this submission. The folder, files or comment differ from the preview, or the token didn't come from a preview.",
+            expired: "The confirmation token has expired.",
+            used: "This confirmation token was already used to submit.",
+          };
+          return errorResponse(
+            `Nothing was submitted. ${reasons[check]} Call submit_assignment without confirmationToken for a new preview and confirm it with the user.`
+          );
+        }
+
+        // D2L expects a JSON RichText comment part followed by one part per file
+        const parts: MultipartPart[] = [
+          {
+            contentType: "application/json",
+            data: JSON.stringify({ Text: comment ?? "", Html: null }),
+          },
+          ...prepared.map((f) => ({
+            contentType: f.mime,
+            filename: f.filename,
+            data: f.data,
+          })),
+        ];
+
+        try {
+          await apiClient.postMultipart(
+            apiClient.le(courseId, `/dropbox/folders/${folderId}/submissions/mysubmissions/`),
+            parts
+          );
+        } catch (error) {
+          // An HTTP error means D2L rejected it, so the same preview may be retried.
+          // After a network error it may have gone through — keep the token spent.
+          if (error instanceof ApiError) tokens.release(confirmationToken);
+          throw error;
+        }
+
+        log("INFO", `submit_assignment: submitted ${prepared.length} files to folder ${folderId} in course ${courseId}`);
+
+        return toolResponse({
+          success: true,
+          ...summary,
+          submittedAt: new Date().toISOString(),
+          message: `Submitted ${prepared.length} file(s) to "${folder.Name}".`,
+        } satisfies SubmitAssignmentOutput);
+      } catch (error) {
+        return sanitizeError(error);
+      }
+    }
+  );
+}
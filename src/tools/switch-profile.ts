@@ -0,0 +1,72 @@
+/**
+ * Purdue Brightspace MCP Server
+ * Copyright (c) 2026 Rohan Muppa. All rights reserved.
+ * Licensed under AGPL-3.0 — see LICENSE file for details.
+ */
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { SwitchProfileSchema, SwitchProfileOutputSchema } from "./schemas.js";
+import type { SwitchProfileOutput } from "./schemas.js";
+import { toolResponse, sanitizeError, errorResponse } from "./tool-helpers.js";
+import { loadConfig } from "../utils/config.js";
+import { DEFAULT_PROFILE, profileExists } from "../utils/config-store.js";
+import { log } from "../utils/logger.js";
+import type { AppConfig } from "../types/index.js";
+
+/**
+ * Points the server at the given profile's tenant and session.
+ * Resolves to whether that profile already has a valid session.
+ */
+export type ProfileActivator = (next: AppConfig) => Promise<{ authenticated: boolean }>;
+
+/**
+ * Register switch_profile tool
+ */
+export function registerSwitchProfile(
+  server: McpServer,
+  config: AppConfig,
+  activate: ProfileActivator
+): void {
+  server.registerTool(
+    "switch_profile",
+    {
+      title: "Switch Profile",
+      description:
+        "Switch every tool to another Brightspace account or school (a profile from list_profiles). Stays in effect until switched again or the server restarts. Use this when the user asks about courses at their other school or account.",
+      inputSchema: SwitchProfileSchema,
+      outputSchema: SwitchProfileOutputSchema,
+    },
+    async (args: any) => {
+      try {
+        log("DEBUG", "switch_profile tool called", { args });
+
+        const { profile } = SwitchProfileSchema.parse(args);
+        const name = profile.toLowerCase() === DEFAULT_PROFILE ? undefined : profile;
+
+        if (name && !profileExists(name)) {
+          return errorResponse(
+            `Profile "${name}" does not exist. Use list_profiles to see available profiles, or create it with: brightspace-mcp-server setup --profile ${name}`
+          );
+        }
+
+        const next = loadConfig(name);
+        const { authenticated } = await activate(next);
+        Object.assign(config, next);
+
+        const active = name ?? DEFAULT_PROFILE;
+        log("INFO", `switch_profile: now using profile "${active}" (${next.baseUrl})`);
+
+        return toolResponse({
+          profile: active,
+          baseUrl: next.baseUrl,
+          authenticated,
+          message: authenticated
+            ? `Switched to profile "${active}" (${next.baseUrl}).`
+            : `Switched to profile "${active}" (${next.baseUrl}), but it has no valid session. The next request will try to log in automatically; if that fails, run: brightspace-auth --profile ${active}`,
+        } satisfies SwitchProfileOutput);
+      } catch (error) {
+        return sanitizeError(error);
+      }
+    }
+  );
+}
@@ -0,0 +1,259 @@
+/**
+ * Purdue Brightspace MCP Server
+ * Copyright (c) 2026 Rohan Muppa. All rights reserved.
+ * Licensed under AGPL-3.0 — see LICENSE file for details.
+ */
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { D2LApiClient, DEFAULT_CACHE_TTLS } from "../api/index.js";
+import type { EnrollmentService } from "../api/index.js";
+import { SyncCourseContentSchema, SyncCourseContentOutputSchema } from "./schemas.js";
+import type { SyncCourseContentOutput } from "./schemas.js";
+import { toolResponse, sanitizeError, errorResponse, Freshness } from "./tool-helpers.js";
+import { buildContentTree } from "./get-course-content.js";
+import type { ContentObject, ContentTreeNode, ContentTreeTopic } from "./get-course-content.js";
+import { fetchContentFile } from "./download-file.js";
+import { secureDownload } from "../utils/download-helpers.js";
+import { log } from "../utils/logger.js";
+import sanitizeFilename from "sanitize-filename";
+import fs from "node:fs/promises";
+import path from "node:path";
+
+// Written to the root of the mirror; tracks what was downloaded and when it last changed
+const MANIFEST_FILENAME = ".brightspace-sync.json";
+const MANIFEST_VERSION = 1;
+
+interface ManifestEntry {
+  topicId: number;
+  title: string;
+  path: string; // relative to the mirror root
+  originalFilename: string;
+  lastModified: string | null; // D2L LastModifiedDate at download time
+  size: number;
+  mime: string;
+  syncedAt: string;
+}
+
+interface SyncManifest {
+  version: number;
+  courseId: number;
+  lastSync: string;
+  files: Record<string, ManifestEntry>; // keyed by topic ID
+}
+
+export interface SyncOptions {
+  courseId: number;
+  targetDir: string;
+  moduleTitle?: string;
+  force?: boolean;
+  /** Records offline-cache reads */
+  freshness?: Freshness;
+}
+
+export interface SyncResult {
+  courseId: number;
+  targetDir: string;
+  manifestPath: string;
+  downloaded: string[];
+  updated: string[];
+  unchanged: number;
+  failed: { title: string; error: string }[];
+  removedFromCourse: string[];
+}
+
+async function fileExists(filePath: string): Promise<boolean> {
+  try {
+    return (await fs.stat(filePath)).isFile();
+  } catch {
+    return false;
+  }
+}
+
+async function readManifest(manifestPath: string, courseId: number): Promise<SyncManifest> {
+  try {
+    const manifest: SyncManifest = JSON.parse(await fs.readFile(manifestPath, "utf-8"));
+    if (manifest.version === MANIFEST_VERSION && manifest.courseId === courseId) {
+      return manifest;
+    }
+    log("WARN", `Ignoring sync manifest for a different course or version: ${manifestPath}`);
+  } catch {
+    // No previous sync
+  }
+  return { version: MANIFEST_VERSION, courseId, lastSync: "", files: {} };
+}
+
+/**
+ * Mirror a course's file topics to a local directory, one folder per module.
+ * Files whose LastModifiedDate matches the manifest are skipped; changed files
+ * are replaced in place. Every file goes through secureDownload validation.
+ * Shared by the sync_course_content tool and the sync CLI subcommand.
+ */
+export async function syncCourseContent(
+  apiClient: D2LApiClient,
+  options: SyncOptions
+): Promise<SyncResult> {
+  const { courseId, targetDir, moduleTitle, force = false, freshness = new Freshness() } = options;
+
+  let rootModules = freshness.track(await apiClient.getWithMeta<ContentObject[]>(
+    apiClient.le(courseId, "/content/root/"),
+    { ttl: DEFAULT_CACHE_TTLS.courseContent }
+  ));
+  if (moduleTitle) {
+    const searchTerm = moduleTitle.toLowerCase();
+    rootModules = rootModules.filter((m) => m.Title.toLowerCase().includes(searchTerm));
+  }
+
+  // Only file topics, and only modules that contain some
+  const tree = await buildContentTree(apiClient, courseId, rootModules, new Map(), { typeFilter: "file", freshness });
+
+  await fs.mkdir(targetDir, { recursive: true });
+  const manifestPath = path.join(targetDir, MANIFEST_FILENAME);
+  const manifest = await readManifest(manifestPath, courseId);
+
+  const result: SyncResult = {
+    courseId,
+    targetDir,
+    manifestPath,
+    downloaded: [],
+    updated: [],
+    unchanged: 0,
+    failed: [],
+    removedFromCourse: [],
+  };
+  const seen = new Set<string>();
+
+  const syncTopic = async (topic: ContentTreeTopic, dir: string): Promise<void> => {
+    const key = String(topic.id);
+    seen.add(key);
+    const existing = manifest.files[key];
+    const existingPath = existing ? path.join(targetDir, existing.path) : null;
+
+    if (
+      !force &&
+      existing &&
+      existing.lastModified === topic.lastModified &&
+      (await fileExists(existingPath!))
+    ) {
+      result.unchanged++;
+      return;
+    }
+
+    const file = await fetchContentFile(apiClient, courseId, topic.id);
+    if (typeof file === "string") {
+      result.failed.push({ title: topic.title, error: file });
+      return;
+    }
+
+    await fs.mkdir(dir, { recursive: true });
+
+    // Same file at the same location — replace it rather than saving "name(1).ext"
+    const replace =
+      existingPath !== null &&
+      existing!.originalFilename === file.filename &&
+      path.dirname(existingPath) === dir &&
+      (await fileExists(existingPath));
+
+    const saved = await secureDownload({
+      targetDir: dir,
+      filename: replace ? path.basename(existingPath!) : file.filename,
+      data: file.data,
+      overwrite: replace,
+    });
+
+    const relativePath = path.relative(targetDir, saved.path);
+    manifest.files[key] = {
+      topicId: topic.id,
+      title: topic.title,
+      path: relativePath,
+      originalFilename: file.filename,
+      lastModified: topic.lastModified,
+      size: saved.size,
+      mime: saved.mime,
+      syncedAt: new Date().toISOString(),
+    };
+    (existing ? result.updated : result.downloaded).push(relativePath);
+  };
+
+  const walk = async (nodes: ContentTreeNode[], dir: string): Promise<void> => {
+    for (const node of nodes) {
+      if (node.type === "module") {
+        const folder = sanitizeFilename(node.title).trim() || `module-${node.id}`;
+        await walk(node.children, path.join(dir, folder));
+      } else {
+        try {
+          await syncTopic(node, dir);
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          log("DEBUG", `sync_course_content: failed to sync topic ${node.id}`, error);
+          result.failed.push({ title: node.title, error: message });
+        }
+      }
+    }
+  };
+
+  try {
+    await walk(tree, targetDir);
+  } finally {
+    // A module filter only covers part of the course — keep entries outside it
+    if (!moduleTitle) {
+      for (const [key, entry] of Object.entries(manifest.files)) {
+        if (!seen.has(key)) {
+          result.removedFromCourse.push(entry.path);
+          delete manifest.files[key];
+        }
+      }
+    }
+    manifest.lastSync = new Date().toISOString();
+    await fs.writeFile(manifestPath, JSON.stringify(manifest, null, 2), "utf-8");
+  }
+
+  log(
+    "INFO",
+    `sync_course_content: course ${courseId} — ${result.downloaded.length} new, ${result.updated.length} updated, ${result.unchanged} unchanged, ${result.failed.length} failed`
+  );
+  return result;
+}
+
+/**
+ * Register sync_course_content tool
+ */
+export function registerSyncCourseContent(
+  server: McpServer,
+  apiClient: D2LApiClient,
+  enrollments: EnrollmentService
+): void {
+  server.registerTool(
+    "sync_course_content",
+    {
+      title: "Sync Course Content",
+      description:
+        "Mirror every file in a course (or in modules matching moduleTitle) to a local directory, recreating the module hierarchy as folders. Re-running only downloads new or changed files. Use this when the user wants all lecture slides, notes, or course files saved locally (e.g. before an exam). IMPORTANT: You MUST ask the user where they want the files saved before calling this tool. Never guess or assume a directory.",
+      inputSchema: SyncCourseContentSchema,
+      outputSchema: SyncCourseContentOutputSchema,
+    },
+    async (args: any) => {
+      try {
+        log("DEBUG", "sync_course_content tool called", { args });
+
+        const { targetDir, moduleTitle, force, ...courseRef } = SyncCourseContentSchema.parse(args);
+        const courseId = await enrollments.requireCourseRef(courseRef);
+
+        if (!path.isAbsolute(targetDir)) {
+          return errorResponse(
+            "Target directory must be an absolute path (e.g., /Users/username/Documents/CS251 on Mac or C:\\Users\\username\\Documents\\CS251 on Windows)"
+          );
+        }
+
+        const freshness = new Freshness();
+        const result = await syncCourseContent(apiClient, { courseId, targetDir, moduleTitle, force, freshness });
+
+        return toolResponse({
+          ...result,
+          message: `Synced course ${courseId} to ${targetDir}: ${result.downloaded.length} new, ${result.updated.length} updated, ${result.unchanged} unchanged, ${result.failed.length} failed.`,
+        } satisfies SyncCourseContentOutput, freshness.value);
+      } catch (error) {
+        return sanitizeError(error);
+      }
+    }
+  );
+}
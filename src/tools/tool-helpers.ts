@@ -6,21 +6,77 @@
 
 import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
 import { ZodError } from "zod";
-import { ApiError, RateLimitError, NetworkError } from "../api/index.js";
+import { ApiError, RateLimitError, NetworkError, CourseResolutionError } from "../api/index.js";
+import type { CachedResponse } from "../api/index.js";
 import { log } from "../utils/logger.js";
 
 /**
- * Wrap data as MCP-compatible tool result
+ * Collects the freshness of every cached read behind one tool response, so a
+ * response built from several reads is flagged stale if any of them was a
+ * disk-cache fallback, dated by the oldest such read. Pass `value` to toolResponse().
  */
-export function toolResponse(data: unknown): CallToolResult {
-  return {
-    content: [
-      {
-        type: "text",
-        text: JSON.stringify(data, null, 2),
-      },
-    ],
-  };
+export class Freshness {
+  private oldestStale: number | null = null;
+
+  /** Record a read's freshness and return its data. */
+  track<T>(response: CachedResponse<T>): T {
+    this.include(response);
+    return response.data;
+  }
+
+  /** Fold in freshness reported by something else (e.g. a per-course collector's value). */
+  include(freshness: Pick<CachedResponse<unknown>, "stale" | "fetchedAt"> | undefined): void {
+    if (freshness?.stale) {
+      this.oldestStale = Math.min(this.oldestStale ?? Infinity, freshness.fetchedAt);
+    }
+  }
+
+  get stale(): boolean {
+    return this.oldestStale !== null;
+  }
+
+  /** Stale plus the oldest stale fetch time, or undefined when every read was fresh. */
+  get value(): Pick<CachedResponse<unknown>, "stale" | "fetchedAt"> | undefined {
+    return this.oldestStale === null ? undefined : { stale: true, fetchedAt: this.oldestStale };
+  }
+}
+
+/**
+ * Wrap data as MCP-compatible tool result: structuredContent for clients that
+ * read the tool's outputSchema, and the same JSON as text for those that don't.
+ * If freshness says the data is a stale disk-cache fallback, structuredContent
+ * gets stale and fetchedAt, and a second content block flags it with the
+ * original fetch timestamp.
+ */
+export function toolResponse(
+  data: Record<string, unknown>,
+  freshness?: Pick<CachedResponse<unknown>, "stale" | "fetchedAt">
+): CallToolResult {
+  const content: CallToolResult["content"] = [
+    {
+      type: "text",
+      text: JSON.stringify(data, null, 2),
+    },
+  ];
+
+  if (freshness?.stale) {
+    const fetchedAt = new Date(freshness.fetchedAt).toISOString();
+    content.push({
+      type: "text",
+      text: JSON.stringify(
+        {
+          stale: true,
+          fetchedAt,
+          notice: "Brightspace is unreachable. This is cached data from the last successful fetch.",
+        },
+        null,
+        2
+      ),
+    });
+    return { content, structuredContent: { ...data, stale: true, fetchedAt } };
+  }
+
+  return { content, structuredContent: data };
 }
 
 /**
@@ -79,6 +135,10 @@ export function sanitizeError(error: unknown): CallToolResult {
     );
   }
 
+  if (error instanceof CourseResolutionError) {
+    return errorResponse(error.message);
+  }
+
   if (error instanceof ZodError) {
     const issues = error.issues.map((i) => `${i.path.join(".")}: ${i.message}`);
     return errorResponse(`Invalid input: ${issues.join(", ")}`);
@@ -27,17 +27,32 @@ export interface SessionFile {
   expiresAt: number; // Unix timestamp ms
 }
 
+// Cached API response persisted to <sessionDir>/cache/
+export interface CacheFile {
+  version: 1;
+  encrypted: EncryptedData;
+  fetchedAt: number; // Unix timestamp ms
+  expiresAt: number; // Unix timestamp ms
+}
+
 // Application configuration
 export interface AppConfig {
+  profile?: string; // named profile, undefined = default (config.json)
   baseUrl: string;
   sessionDir: string;
   tokenTtl: number; // seconds
   headless: boolean;
   username?: string;
   password?: string;
+  diskCache: boolean;
+  ssoProvider: SSOProvider;
+  ssoEntityId?: string; // SAML IdP used to skip the campus selector
   courseFilter: CourseFilterConfig;
 }
 
+// Login flows in src/auth/sso-providers.ts
+export type SSOProvider = "purdue" | "azure-ad" | "okta" | "d2l" | "manual";
+
 // Auth result from browser auth flow
 export interface AuthResult {
   token: TokenData;
@@ -0,0 +1,154 @@
+/**
+ * Purdue Brightspace MCP Server
+ * Copyright (c) 2026 Rohan Muppa. All rights reserved.
+ * Licensed under AGPL-3.0 — see LICENSE file for details.
+ */
+
+import { EncryptedJsonStore } from "./encrypted-store.js";
+
+const DEFAULT_SNAPSHOT_DIR_NAME = "snapshots";
+const SNAPSHOT_VERSION = 1;
+
+export const CHANGE_KINDS = ["grade", "announcement", "content", "feedback", "discussion"] as const;
+export type ChangeKind = (typeof CHANGE_KINDS)[number];
+
+export interface SnapshotItem {
+  title: string;
+  version: string; // changes whenever the item changes (LastModified, score + text, ...)
+  timestamp: string | null; // when it was posted/changed, if Brightspace says
+  detail?: Record<string, unknown>; // included in the change (grade, author, module, ...)
+}
+
+export interface CourseSnapshot {
+  courseId: number;
+  takenAt: string;
+  items: Record<ChangeKind, Record<string, SnapshotItem>>; // keyed by Brightspace ID
+}
+
+export interface Change {
+  kind: ChangeKind;
+  id: string;
+  title: string;
+  change: "new" | "updated";
+  timestamp: string | null;
+  detail?: Record<string, unknown>;
+}
+
+export function emptySnapshotItems(): CourseSnapshot["items"] {
+  return { grade: {}, announcement: {}, content: {}, feedback: {}, discussion: {} };
+}
+
+/**
+ * Changes in `current` relative to `previous`.
+ *
+ * Without `since`, an item is new if the previous snapshot lacks it and updated
+ * if its version differs. With `since`, timestamped items are reported when
+ * their timestamp is after `since`; items without a timestamp (e.g. feedback)
+ * still fall back to the snapshot comparison. With neither, nothing is reported.
+ */
+export function diffSnapshots(
+  previous: CourseSnapshot | null,
+  current: CourseSnapshot,
+  since?: Date
+): Change[] {
+  const changes: Change[] = [];
+
+  for (const kind of CHANGE_KINDS) {
+    const before = previous?.items[kind] ?? {};
+    for (const [id, item] of Object.entries(current.items[kind])) {
+      const prior = before[id];
+
+      let changed: boolean;
+      if (since && item.timestamp) {
+        changed = new Date(item.timestamp).getTime() > since.getTime();
+      } else {
+        changed = previous !== null && (!prior || prior.version !== item.version);
+      }
+      if (!changed) continue;
+
+      changes.push({
+        kind,
+        id,
+        title: item.title,
+        change: prior ? "updated" : "new",
+        timestamp: item.timestamp,
+        ...(item.detail ? { detail: item.detail } : {}),
+      });
+    }
+  }
+
+  // Newest first; untimestamped changes last
+  return changes.sort(
+    (a, b) => (b.timestamp ? Date.parse(b.timestamp) : 0) - (a.timestamp ? Date.parse(a.timestamp) : 0)
+  );
+}
+
+/**
+ * The snapshot to save after checking only some kinds. The other kinds keep
+ * their last-seen items, so their pending changes are still reported by a
+ * later check that includes them.
+ */
+export function mergeSnapshot(
+  previous: CourseSnapshot | null,
+  current: CourseSnapshot,
+  kinds: readonly ChangeKind[]
+): CourseSnapshot {
+  if (!previous) return current;
+  const items = { ...current.items };
+  for (const kind of CHANGE_KINDS) {
+    if (!kinds.includes(kind)) items[kind] = previous.items[kind];
+  }
+  return { ...current, items };
+}
+
+/**
+ * `snapshot` with `changes` put back to how they were in `previous`, so the
+ * next diff against it reports them again.
+ */
+export function revertChanges(
+  snapshot: CourseSnapshot,
+  previous: CourseSnapshot | null,
+  changes: Change[]
+): CourseSnapshot {
+  if (changes.length === 0) return snapshot;
+  const items = { ...snapshot.items };
+  for (const { kind, id } of changes) {
+    const section = { ...items[kind] };
+    const prior = previous?.items[kind][id];
+    if (prior) {
+      section[id] = prior;
+    } else {
+      delete section[id];
+    }
+    items[kind] = section;
+  }
+  return { ...snapshot, items };
+}
+
+/**
+ * Last-seen snapshot per course under <sessionDir>/<dirName>/, encrypted
+ * (snapshots include grades and feedback). Separate consumers (get_whats_new,
+ * the watch daemon) use separate directories so they don't consume each other's changes.
+ */
+export class SnapshotStore {
+  private readonly store: EncryptedJsonStore<CourseSnapshot>;
+
+  constructor(sessionDir: string, dirName: string = DEFAULT_SNAPSHOT_DIR_NAME) {
+    this.store = new EncryptedJsonStore(sessionDir, dirName, SNAPSHOT_VERSION);
+  }
+
+  /**
+   * Returns null if the course has never been snapshotted (or the file is unreadable).
+   */
+  async load(courseId: number): Promise<CourseSnapshot | null> {
+    try {
+      return await this.store.read(courseId);
+    } catch {
+      return null;
+    }
+  }
+
+  async save(snapshot: CourseSnapshot): Promise<void> {
+    await this.store.write(snapshot.courseId, snapshot);
+  }
+}
@@ -7,6 +7,7 @@
 import * as fs from "node:fs";
 import * as path from "node:path";
 import * as os from "node:os";
+import type { SSOProvider } from "../types/index.js";
 
 /** JSON schema for ~/.brightspace-mcp/config.json */
 export interface ConfigStoreData {
@@ -19,10 +20,19 @@ export interface ConfigStoreData {
   includeCourses?: number[];
   excludeCourses?: number[];
   activeOnly?: boolean;
+  diskCache?: boolean;
+  ssoProvider?: SSOProvider;
+  ssoEntityId?: string;
 }
 
 const CONFIG_DIR = path.join(os.homedir(), ".brightspace-mcp");
 const CONFIG_FILE = path.join(CONFIG_DIR, "config.json");
+const PROFILES_DIR = path.join(CONFIG_DIR, "profiles");
+
+// The unnamed profile — config.json itself
+export const DEFAULT_PROFILE = "default";
+
+const PROFILE_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]{0,63}$/i;
 
 export function configStoreExists(): boolean {
   return fs.existsSync(CONFIG_FILE);
@@ -34,15 +44,70 @@ export function loadConfigStore(): ConfigStoreData {
 }
 
 export function saveConfigStore(config: ConfigStoreData): void {
-  const isWindows = process.platform === "win32";
-  if (!fs.existsSync(CONFIG_DIR)) {
-    fs.mkdirSync(CONFIG_DIR, { recursive: true, ...(isWindows ? {} : { mode: 0o700 }) });
-  }
-  fs.writeFileSync(CONFIG_FILE, JSON.stringify(config, null, 2) + "\n", {
-    ...(isWindows ? {} : { mode: 0o600 }),
-  });
+  writeStoreFile(CONFIG_FILE, config);
 }
 
 export function getConfigStorePath(): string {
   return CONFIG_FILE;
 }
+
+/**
+ * Named profiles live in ~/.brightspace-mcp/profiles/<name>.json and use the
+ * same schema as config.json. Each gets its own session directory.
+ */
+export function validateProfileName(name: string): void {
+  if (!PROFILE_NAME_PATTERN.test(name) || name.toLowerCase() === DEFAULT_PROFILE) {
+    throw new Error(
+      `Invalid profile name "${name}" (use letters, digits, "-" and "_"; "${DEFAULT_PROFILE}" is reserved)`
+    );
+  }
+}
+
+export function getProfilePath(name: string): string {
+  validateProfileName(name);
+  return path.join(PROFILES_DIR, `${name}.json`);
+}
+
+export function profileExists(name: string): boolean {
+  return fs.existsSync(getProfilePath(name));
+}
+
+export function loadProfile(name: string): ConfigStoreData {
+  const profilePath = getProfilePath(name);
+  if (!fs.existsSync(profilePath)) {
+    throw new Error(
+      `Profile "${name}" not found at ${profilePath}. Create it with: brightspace-mcp-server setup --profile ${name}`
+    );
+  }
+  return JSON.parse(fs.readFileSync(profilePath, "utf-8")) as ConfigStoreData;
+}
+
+export function saveProfile(name: string, config: ConfigStoreData): void {
+  writeStoreFile(getProfilePath(name), config);
+}
+
+/**
+ * Names of all saved profiles, sorted (excludes the default profile).
+ */
+export function listProfiles(): string[] {
+  if (!fs.existsSync(PROFILES_DIR)) {
+    return [];
+  }
+  return fs
+    .readdirSync(PROFILES_DIR)
+    .filter((file) => file.endsWith(".json"))
+    .map((file) => file.slice(0, -".json".length))
+    .filter((name) => PROFILE_NAME_PATTERN.test(name) && name.toLowerCase() !== DEFAULT_PROFILE)
+    .sort();
+}
+
+function writeStoreFile(filePath: string, config: ConfigStoreData): void {
+  const isWindows = process.platform === "win32";
+  const dir = path.dirname(filePath);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true, ...(isWindows ? {} : { mode: 0o700 }) });
+  }
+  fs.writeFileSync(filePath, JSON.stringify(config, null, 2) + "\n", {
+    ...(isWindows ? {} : { mode: 0o600 }),
+  });
+}
@@ -7,23 +7,58 @@
 import * as path from "node:path";
 import * as os from "node:os";
 import type { AppConfig } from "../types/index.js";
-import { configStoreExists, loadConfigStore } from "./config-store.js";
+import {
+  DEFAULT_PROFILE,
+  configStoreExists,
+  loadConfigStore,
+  loadProfile,
+} from "./config-store.js";
+import { SSO_PROVIDERS, isSSOProvider } from "../auth/sso-providers.js";
 
-export function loadConfig(): AppConfig {
-  const store = configStoreExists() ? loadConfigStore() : null;
+/**
+ * Profile selected on the command line (--profile NAME or --profile=NAME),
+ * falling back to D2L_PROFILE. Returns undefined for the default profile.
+ */
+export function resolveProfileName(argv: string[] = process.argv): string | undefined {
+  let name: string | undefined;
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === "--profile") {
+      name = argv[i + 1];
+    } else if (argv[i].startsWith("--profile=")) {
+      name = argv[i].slice("--profile=".length);
+    }
+  }
+  name = name ?? process.env.D2L_PROFILE;
+  return name && name.toLowerCase() !== DEFAULT_PROFILE ? name : undefined;
+}
+
+/**
+ * Load configuration for the default profile (config.json) or a named profile.
+ *
+ * Named profiles are self-contained: the env vars that identify a tenant
+ * (D2L_BASE_URL, credentials, session dir, SSO settings, course lists) are ignored so that
+ * one MCP client config can't point every profile at the same account.
+ */
+export function loadConfig(profile: string | undefined = resolveProfileName()): AppConfig {
+  const store = profile ? loadProfile(profile) : configStoreExists() ? loadConfigStore() : null;
+  const tenantEnv: NodeJS.ProcessEnv = profile ? {} : process.env;
 
-  if (store) {
+  if (profile) {
+    console.error(`[config] Loaded profile "${profile}" from ~/.brightspace-mcp/profiles/${profile}.json`);
+  } else if (store) {
     console.error("[config] Loaded base config from ~/.brightspace-mcp/config.json");
   } else {
     console.error("[config] No config.json found, using environment variables");
   }
 
-  // Resolve sessionDir: env > store > default
-  const sessionDir = process.env.D2L_SESSION_DIR
-    ? expandTilde(process.env.D2L_SESSION_DIR)
+  // Resolve sessionDir: env > store > default (one directory per profile)
+  const sessionDir = tenantEnv.D2L_SESSION_DIR
+    ? expandTilde(tenantEnv.D2L_SESSION_DIR)
     : store?.sessionDir
       ? expandTilde(store.sessionDir)
-      : path.join(os.homedir(), ".d2l-session");
+      : profile
+        ? path.join(os.homedir(), ".d2l-session", "profiles", profile)
+        : path.join(os.homedir(), ".d2l-session");
 
   // Resolve headless: env > store > default (false)
   let headless = store?.headless ?? false;
@@ -37,13 +72,13 @@ export function loadConfig(): AppConfig {
     : store?.tokenTtl ?? 3600;
 
   // Resolve includeCourseIds: env > store > undefined
-  const includeCourseIds = process.env.D2L_INCLUDE_COURSES
-    ? process.env.D2L_INCLUDE_COURSES.split(',').map(s => parseInt(s.trim(), 10)).filter(n => !isNaN(n))
+  const includeCourseIds = tenantEnv.D2L_INCLUDE_COURSES
+    ? tenantEnv.D2L_INCLUDE_COURSES.split(',').map(s => parseInt(s.trim(), 10)).filter(n => !isNaN(n))
     : store?.includeCourses;
 
   // Resolve excludeCourseIds: env > store > undefined
-  const excludeCourseIds = process.env.D2L_EXCLUDE_COURSES
-    ? process.env.D2L_EXCLUDE_COURSES.split(',').map(s => parseInt(s.trim(), 10)).filter(n => !isNaN(n))
+  const excludeCourseIds = tenantEnv.D2L_EXCLUDE_COURSES
+    ? tenantEnv.D2L_EXCLUDE_COURSES.split(',').map(s => parseInt(s.trim(), 10)).filter(n => !isNaN(n))
     : store?.excludeCourses;
 
   // Resolve activeOnly: env > store > default (true)
@@ -52,13 +87,34 @@ export function loadConfig(): AppConfig {
     activeOnly = process.env.D2L_ACTIVE_ONLY !== 'false';
   }
 
+  // Resolve diskCache: env > store > default (false)
+  let diskCache = store?.diskCache ?? false;
+  if (process.env.D2L_DISK_CACHE !== undefined) {
+    diskCache = process.env.D2L_DISK_CACHE === "true";
+  }
+
+  const baseUrl = tenantEnv.D2L_BASE_URL || store?.baseUrl || "https://purdue.brightspace.com";
+
+  // Resolve ssoProvider: env > store > default (Purdue's flow on Purdue, manual elsewhere)
+  const ssoProvider = tenantEnv.D2L_SSO_PROVIDER || store?.ssoProvider ||
+    (/^https:\/\/purdue\.brightspace\.com\/?$/.test(baseUrl) ? "purdue" : "manual");
+  if (!isSSOProvider(ssoProvider)) {
+    throw new Error(
+      `Unknown SSO provider "${ssoProvider}" (expected one of: ${SSO_PROVIDERS.join(", ")})`
+    );
+  }
+
   return {
-    baseUrl: process.env.D2L_BASE_URL || store?.baseUrl || "https://purdue.brightspace.com",
+    profile,
+    baseUrl,
     sessionDir,
     tokenTtl,
     headless,
-    username: process.env.D2L_USERNAME || store?.username,
-    password: process.env.D2L_PASSWORD || store?.password,
+    username: tenantEnv.D2L_USERNAME || store?.username,
+    password: tenantEnv.D2L_PASSWORD || store?.password,
+    diskCache,
+    ssoProvider,
+    ssoEntityId: tenantEnv.D2L_SSO_ENTITY_ID || store?.ssoEntityId,
     courseFilter: {
       includeCourseIds,
       excludeCourseIds,
@@ -0,0 +1,126 @@
+/**
+ * Purdue Brightspace MCP Server
+ * Copyright (c) 2026 Rohan Muppa. All rights reserved.
+ * Licensed under AGPL-3.0 — see LICENSE file for details.
+ */
+
+// The parts of a buildContentTree() node the progress report reads
+export interface ContentTreeNode {
+  type: "module" | "topic";
+  id: number;
+  title: string;
+  isHidden: boolean;
+  dueDate: string | null;
+  isCompleted?: boolean;
+  completedDate?: string | null;
+  topicType?: string;
+  children?: ContentTreeNode[];
+}
+
+export interface ModuleProgress {
+  moduleId: number;
+  module: string; // "Week 3 / Lectures"
+  dueDate: string | null;
+  totalTopics: number;
+  completedTopics: number;
+  percentComplete: number;
+}
+
+export interface IncompleteTopic {
+  topicId: number;
+  title: string;
+  topicType: string;
+  module: string;
+  moduleDueDate: string | null;
+  dueDate: string | null;
+}
+
+export interface ProgressReport {
+  totalTopics: number;
+  completedTopics: number;
+  percentComplete: number;
+  modules: ModuleProgress[];
+  incomplete: IncompleteTopic[];
+}
+
+function percent(completed: number, total: number): number {
+  return total === 0 ? 100 : Math.round((completed / total) * 100);
+}
+
+function isDone(topic: ContentTreeNode): boolean {
+  return !!topic.isCompleted || !!topic.completedDate;
+}
+
+/**
+ * Per-module completion (every module, counting topics in nested modules too)
+ * and the incomplete topics, soonest module due date first. Topics without a
+ * module due date fall back to their own due date; undated topics come last.
+ * Hidden items are ignored.
+ */
+export function summarizeProgress(tree: ContentTreeNode[]): ProgressReport {
+  const modules: ModuleProgress[] = [];
+  const incomplete: IncompleteTopic[] = [];
+
+  // Returns [total, completed] for the subtree
+  const walk = (
+    nodes: ContentTreeNode[],
+    trail: string[],
+    moduleDueDate: string | null
+  ): [number, number] => {
+    let total = 0;
+    let completed = 0;
+
+    for (const node of nodes) {
+      if (node.isHidden) continue;
+
+      if (node.type === "module") {
+        const path = [...trail, node.title];
+        const dueDate = node.dueDate ?? moduleDueDate;
+        const index = modules.length;
+        const [t, c] = walk(node.children ?? [], path, dueDate);
+        // Insert before the nested modules the walk just added so parents come first
+        modules.splice(index, 0, {
+          moduleId: node.id,
+          module: path.join(" / "),
+          dueDate,
+          totalTopics: t,
+          completedTopics: c,
+          percentComplete: percent(c, t),
+        });
+        total += t;
+        completed += c;
+      } else {
+        total++;
+        if (isDone(node)) {
+          completed++;
+        } else {
+          incomplete.push({
+            topicId: node.id,
+            title: node.title,
+            topicType: node.topicType ?? "other",
+            module: trail.join(" / "),
+            moduleDueDate,
+            dueDate: node.dueDate,
+          });
+        }
+      }
+    }
+    return [total, completed];
+  };
+
+  const [totalTopics, completedTopics] = walk(tree, [], null);
+
+  const sortKey = (topic: IncompleteTopic): number => {
+    const date = topic.moduleDueDate ?? topic.dueDate;
+    return date ? Date.parse(date) : Number.MAX_SAFE_INTEGER;
+  };
+  incomplete.sort((a, b) => sortKey(a) - sortKey(b));
+
+  return {
+    totalTopics,
+    completedTopics,
+    percentComplete: percent(completedTopics, totalTopics),
+    modules,
+    incomplete,
+  };
+}
@@ -52,3 +52,29 @@ export function applyCourseFilter<T extends FilterableCourse>(
 
   return filtered;
 }
+
+interface CompletableCourse {
+  id: number;
+  name: string;
+  code: string;
+}
+
+// Completion lists are capped by the MCP spec
+const MAX_COMPLETIONS = 100;
+
+/**
+ * Course IDs to offer when completing a courseId argument.
+ * Matches IDs by prefix, and course codes or names by substring, so typing
+ * "ece" or "264" both find ECE 26400.
+ */
+export function completeCourseIds(courses: CompletableCourse[], value: string): string[] {
+  const term = value.trim().toLowerCase();
+  return courses
+    .filter((c) =>
+      String(c.id).startsWith(term) ||
+      c.code.toLowerCase().includes(term) ||
+      c.name.toLowerCase().includes(term)
+    )
+    .map((c) => String(c.id))
+    .slice(0, MAX_COMPLETIONS);
+}
@@ -0,0 +1,95 @@
+/**
+ * Purdue Brightspace MCP Server
+ * Copyright (c) 2026 Rohan Muppa. All rights reserved.
+ * Licensed under AGPL-3.0 — see LICENSE file for details.
+ */
+
+interface MatchableCourse {
+  id: number;
+  name: string;
+  code: string;
+}
+
+export type CourseResolution<T extends MatchableCourse> =
+  | { status: "found"; course: T }
+  | { status: "ambiguous"; candidates: T[] }
+  | { status: "not_found" };
+
+// Match strength, strongest first
+const SCORE_ID = 100;
+const SCORE_EXACT = 90; // whole code or name, ignoring case/spacing/punctuation
+const SCORE_CODE_TOKENS = 60; // every query word starts a word of the code
+const SCORE_TOKENS = 50; // every query word starts a word of the code or name
+const SCORE_SUBSTRING = 30; // query appears somewhere in the name
+
+/**
+ * Lowercase words, split at punctuation and at letter/digit boundaries
+ * so "CS25100", "cs-251" and "CS 25100" line up.
+ */
+function words(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/([a-z])(\d)/g, "$1 $2")
+    .replace(/(\d)([a-z])/g, "$1 $2")
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+function compact(text: string): string {
+  return words(text).join("");
+}
+
+function everyWordStartsOne(query: string[], target: string[]): boolean {
+  return query.every((q) => target.some((t) => t.startsWith(q)));
+}
+
+function score(course: MatchableCourse, query: string): number {
+  const trimmed = query.trim();
+  if (/^\d+$/.test(trimmed) && Number(trimmed) === course.id) return SCORE_ID;
+
+  const key = compact(trimmed);
+  if (!key) return 0;
+  if (compact(course.code) === key || compact(course.name) === key) return SCORE_EXACT;
+
+  const queryWords = words(trimmed);
+  const codeWords = words(course.code);
+  if (everyWordStartsOne(queryWords, codeWords)) return SCORE_CODE_TOKENS;
+  if (everyWordStartsOne(queryWords, [...codeWords, ...words(course.name)])) return SCORE_TOKENS;
+
+  if (key.length >= 3 && compact(course.name).includes(key)) return SCORE_SUBSTRING;
+  return 0;
+}
+
+function rank<T extends MatchableCourse>(courses: T[], query: string): Array<{ course: T; score: number }> {
+  return courses
+    .map((course) => ({ course, score: score(course, query) }))
+    .filter((m) => m.score > 0)
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Courses matching a course ID, code or (partial) name, best match first.
+ * "CS 251", "cs251" and "CS 25100" all match code "CS 25100"; "data struct"
+ * matches "Data Structures and Algorithms".
+ */
+export function matchCourses<T extends MatchableCourse>(courses: T[], query: string): T[] {
+  return rank(courses, query).map((m) => m.course);
+}
+
+/**
+ * Resolve a course reference to a single course. A reference is ambiguous when
+ * more than one course matches equally well (e.g. "CS 251" with both the
+ * lecture and the lab enrolled).
+ */
+export function resolveCourseQuery<T extends MatchableCourse>(
+  courses: T[],
+  query: string
+): CourseResolution<T> {
+  const scored = rank(courses, query);
+
+  if (scored.length === 0) return { status: "not_found" };
+
+  const best = scored.filter((m) => m.score === scored[0].score);
+  if (best.length === 1) return { status: "found", course: best[0].course };
+  return { status: "ambiguous", candidates: best.map((m) => m.course) };
+}
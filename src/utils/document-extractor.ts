@@ -0,0 +1,329 @@
+/**
+ * Purdue Brightspace MCP Server
+ * Copyright (c) 2026 Rohan Muppa. All rights reserved.
+ * Licensed under AGPL-3.0 — see LICENSE file for details.
+ */
+
+import path from "node:path";
+import { extractPdfText, extractPdfPages } from "./pdf-extractor.js";
+import { convertHtmlToMarkdown } from "./html-converter.js";
+import { ZipArchive } from "./zip-reader.js";
+import { log } from "./logger.js";
+
+export type DocumentFormat = "pdf" | "docx" | "pptx" | "xlsx" | "html" | "text";
+
+export interface ExtractedDocument {
+  format: DocumentFormat;
+  text: string; // markdown-ish plain text
+  totalPages?: number; // pdf
+  pages?: { from: number; to: number }; // pdf, when a page range was requested
+  totalSlides?: number; // pptx
+  sheets?: string[]; // xlsx
+  totalChars?: number; // length of the full text, set when only part of it is returned
+  truncated?: boolean; // text was cut at maxChars
+  nextOffset?: number; // pass as offset to continue reading
+}
+
+export interface ExtractOptions {
+  maxChars?: number; // default MAX_EXTRACTED_CHARS
+  offset?: number; // character offset to start from, for reading in chunks
+  pages?: { from: number; to: number }; // 1-based inclusive PDF page range
+}
+
+const TEXT_EXTENSIONS = new Set([".txt", ".md", ".csv", ".tsv", ".json", ".log", ".py", ".java", ".c", ".cpp", ".h", ".js", ".ts", ".xml"]);
+// Large spreadsheets are mostly noise to the assistant
+const MAX_SHEET_ROWS = 500;
+// Keeps a 300-page PDF from flooding the conversation
+export const MAX_EXTRACTED_CHARS = 100_000;
+
+/**
+ * Document format from the file extension, or null if we can't extract it.
+ */
+export function documentFormat(filename: string): DocumentFormat | null {
+  const ext = path.extname(filename).toLowerCase();
+  switch (ext) {
+    case ".pdf":
+      return "pdf";
+    case ".docx":
+      return "docx";
+    case ".pptx":
+      return "pptx";
+    case ".xlsx":
+      return "xlsx";
+    case ".html":
+    case ".htm":
+      return "html";
+    default:
+      return TEXT_EXTENSIONS.has(ext) ? "text" : null;
+  }
+}
+
+/**
+ * Extract readable text from a PDF, Word, PowerPoint, Excel, HTML or plain-text
+ * file, returning at most maxChars starting at offset. Returns null for
+ * unsupported formats or on failure (graceful degradation — download still works).
+ */
+export async function extractDocumentText(
+  buffer: Buffer,
+  filename: string,
+  options: ExtractOptions = {}
+): Promise<ExtractedDocument | null> {
+  const { maxChars = MAX_EXTRACTED_CHARS, offset = 0 } = options;
+  const result = await extractFullText(buffer, filename, options.pages);
+  if (!result || (offset === 0 && result.text.length <= maxChars)) {
+    return result;
+  }
+
+  const end = offset + maxChars;
+  return {
+    ...result,
+    text: result.text.slice(offset, end),
+    totalChars: result.text.length,
+    ...(end < result.text.length ? { truncated: true, nextOffset: end } : {}),
+  };
+}
+
+async function extractFullText(
+  buffer: Buffer,
+  filename: string,
+  pages?: { from: number; to: number }
+): Promise<ExtractedDocument | null> {
+  const format = documentFormat(filename);
+  if (!format) return null;
+
+  try {
+    switch (format) {
+      case "pdf": {
+        if (!pages) {
+          const result = await extractPdfText(buffer);
+          return result ? { format, text: result.text, totalPages: result.totalPages } : null;
+        }
+        const result = await extractPdfPages(buffer);
+        if (!result) return null;
+        const to = Math.min(pages.to, result.totalPages);
+        const text = result.pages
+          .slice(pages.from - 1, to)
+          .map((page, i) => `--- Page ${pages.from + i} ---\n${page}`)
+          .join("\n\n");
+        return { format, text, totalPages: result.totalPages, pages: { from: pages.from, to } };
+      }
+      case "html":
+        return { format, text: convertHtmlToMarkdown(buffer.toString("utf-8")).markdown };
+      case "text":
+        return { format, text: buffer.toString("utf-8") };
+      case "docx":
+        return { format, text: extractDocx(new ZipArchive(buffer)) };
+      case "pptx": {
+        const slides = extractPptx(new ZipArchive(buffer));
+        return { format, text: slides.join("\n\n"), totalSlides: slides.length };
+      }
+      case "xlsx": {
+        const sheets = extractXlsx(new ZipArchive(buffer));
+        return {
+          format,
+          text: sheets.map((s) => `## ${s.name}\n\n${s.table}`).join("\n\n"),
+          sheets: sheets.map((s) => s.name),
+        };
+      }
+    }
+  } catch (error) {
+    log("ERROR", `Failed to extract text from ${filename}`, error);
+    return null;
+  }
+}
+
+// --- XML helpers (Office XML is regular enough that regexes do the job) ---
+
+function decodeXmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|lt|gt|amp|quot|apos);/gi, (_, entity: string) => {
+    switch (entity.toLowerCase()) {
+      case "lt": return "<";
+      case "gt": return ">";
+      case "amp": return "&";
+      case "quot": return '"';
+      case "apos": return "'";
+      default:
+        return String.fromCodePoint(
+          entity[1].toLowerCase() === "x" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10)
+        );
+    }
+  });
+}
+
+function attr(tag: string, name: string): string | null {
+  const match = new RegExp(`\\s${name}="([^"]*)"`).exec(tag);
+  return match ? decodeXmlEntities(match[1]) : null;
+}
+
+/**
+ * Paragraph texts inside `xml`, where paragraphs are <prefix:p> and runs <prefix:t>.
+ */
+function paragraphs(xml: string, prefix: "w" | "a"): string[] {
+  const result: string[] = [];
+  const paragraphRe = new RegExp(`<${prefix}:p[\\s>][\\s\\S]*?</${prefix}:p>`, "g");
+  const runRe = new RegExp(`<${prefix}:t(?:\\s[^>]*)?>([\\s\\S]*?)</${prefix}:t>|<${prefix}:(tab|br)\\b[^>]*/>`, "g");
+
+  for (const [paragraph] of xml.matchAll(paragraphRe)) {
+    let text = "";
+    for (const run of paragraph.matchAll(runRe)) {
+      if (run[2] === "tab") text += "\t";
+      else if (run[2] === "br") text += "\n";
+      else text += decodeXmlEntities(run[1]);
+    }
+    result.push(text);
+  }
+  return result;
+}
+
+/**
+ * Relationship ID → target path (resolved against the part's directory).
+ */
+function relationships(zip: ZipArchive, partPath: string): Map<string, string> {
+  const dir = path.posix.dirname(partPath);
+  const relsPath = path.posix.join(dir, "_rels", `${path.posix.basename(partPath)}.rels`);
+  const xml = zip.readText(relsPath) ?? "";
+  const rels = new Map<string, string>();
+  for (const [tag] of xml.matchAll(/<Relationship\b[^>]*>/g)) {
+    const id = attr(tag, "Id");
+    const target = attr(tag, "Target");
+    if (id && target) {
+      rels.set(id, target.startsWith("/") ? target.slice(1) : path.posix.normalize(path.posix.join(dir, target)));
+    }
+  }
+  return rels;
+}
+
+// --- DOCX ---
+
+function extractDocx(zip: ZipArchive): string {
+  const xml = zip.readText("word/document.xml");
+  if (xml === null) throw new Error("Missing word/document.xml");
+
+  const lines: string[] = [];
+  for (const [paragraph] of xml.matchAll(/<w:p[\s>][\s\S]*?<\/w:p>/g)) {
+    const text = paragraphs(paragraph, "w")[0]?.trim() ?? "";
+    if (!text) continue;
+
+    const style = /<w:pStyle w:val="([^"]+)"/.exec(paragraph)?.[1] ?? "";
+    const heading = /^(?:Heading|Title)(\d?)$/i.exec(style);
+    if (heading) {
+      lines.push(`${"#".repeat(Math.min(Number(heading[1] || 1), 6))} ${text}`);
+    } else if (/<w:numPr>/.test(paragraph)) {
+      lines.push(`- ${text}`);
+    } else {
+      lines.push(text);
+    }
+  }
+  return lines.join("\n\n");
+}
+
+// --- PPTX ---
+
+/**
+ * One markdown block per slide, in presentation order, with speaker notes.
+ */
+function extractPptx(zip: ZipArchive): string[] {
+  const presentation = zip.readText("ppt/presentation.xml");
+  if (presentation === null) throw new Error("Missing ppt/presentation.xml");
+
+  const rels = relationships(zip, "ppt/presentation.xml");
+  const slidePaths = [...presentation.matchAll(/<p:sldId\b[^>]*>/g)]
+    .map(([tag]) => rels.get(attr(tag, "r:id") ?? ""))
+    .filter((p): p is string => !!p && zip.has(p));
+
+  return slidePaths.map((slidePath, index) => {
+    const slideText = paragraphs(zip.readText(slidePath) ?? "", "a")
+      .map((line) => line.trim())
+      .filter(Boolean);
+
+    const notesPath = [...relationships(zip, slidePath).values()].find((target) =>
+      target.includes("notesSlides/")
+    );
+    // Notes pages repeat the slide number in a field — drop fields before reading text
+    const notesXml = notesPath ? (zip.readText(notesPath) ?? "").replace(/<a:fld\b[\s\S]*?<\/a:fld>/g, "") : "";
+    const notes = paragraphs(notesXml, "a").map((line) => line.trim()).filter(Boolean);
+
+    let block = `## Slide ${index + 1}`;
+    if (slideText.length > 0) block += `: ${slideText[0]}`;
+    if (slideText.length > 1) block += `\n\n${slideText.slice(1).join("\n")}`;
+    if (notes.length > 0) block += `\n\n**Speaker notes:** ${notes.join("\n")}`;
+    return block;
+  });
+}
+
+// --- XLSX ---
+
+function columnIndex(cellRef: string): number {
+  let index = 0;
+  for (const ch of cellRef.replace(/\d+$/, "")) {
+    index = index * 26 + (ch.toUpperCase().charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+function escapeTableCell(value: string): string {
+  return value.replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+}
+
+/**
+ * Each worksheet as a markdown table (first row as the header).
+ */
+function extractXlsx(zip: ZipArchive): Array<{ name: string; table: string }> {
+  const workbook = zip.readText("xl/workbook.xml");
+  if (workbook === null) throw new Error("Missing xl/workbook.xml");
+
+  const sharedStrings = [...(zip.readText("xl/sharedStrings.xml") ?? "").matchAll(/<si>([\s\S]*?)<\/si>/g)].map(
+    ([, si]) => [...si.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)].map(([, t]) => decodeXmlEntities(t)).join("")
+  );
+
+  const rels = relationships(zip, "xl/workbook.xml");
+  const sheets: Array<{ name: string; table: string }> = [];
+
+  for (const [tag] of workbook.matchAll(/<sheet\b[^>]*>/g)) {
+    const name = attr(tag, "name") ?? "Sheet";
+    const sheetPath = rels.get(attr(tag, "r:id") ?? "");
+    const xml = sheetPath ? zip.readText(sheetPath) : null;
+    if (!xml) continue;
+
+    const rows: string[][] = [];
+    let truncated = false;
+    for (const [, rowXml] of xml.matchAll(/<row\b[^>]*>([\s\S]*?)<\/row>/g)) {
+      if (rows.length >= MAX_SHEET_ROWS) {
+        truncated = true;
+        break;
+      }
+      const row: string[] = [];
+      for (const [, cellAttrs, body = ""] of rowXml.matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+        const ref = attr(cellAttrs, "r");
+        const type = attr(cellAttrs, "t");
+        const raw = /<v>([\s\S]*?)<\/v>/.exec(body)?.[1];
+        let value: string;
+        if (type === "s") value = sharedStrings[Number(raw)] ?? "";
+        else if (type === "inlineStr") value = decodeXmlEntities(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/.exec(body)?.[1] ?? "");
+        else if (type === "b") value = raw === "1" ? "TRUE" : "FALSE";
+        else value = raw !== undefined ? decodeXmlEntities(raw) : "";
+
+        const col = ref ? columnIndex(ref) : row.length;
+        row[col] = escapeTableCell(value);
+      }
+      if (row.some((cell) => cell)) rows.push(Array.from(row, (cell) => cell ?? ""));
+    }
+
+    if (rows.length === 0) {
+      sheets.push({ name, table: "_(empty)_" });
+      continue;
+    }
+
+    const width = Math.max(...rows.map((r) => r.length));
+    const pad = (r: string[]) => [...r, ...Array(width - r.length).fill("")];
+    const lines = [
+      `| ${pad(rows[0]).join(" | ")} |`,
+      `| ${Array(width).fill("---").join(" | ")} |`,
+      ...rows.slice(1).map((r) => `| ${pad(r).join(" | ")} |`),
+    ];
+    if (truncated) lines.push("", `_(only the first ${MAX_SHEET_ROWS} rows are shown)_`);
+    sheets.push({ name, table: lines.join("\n") });
+  }
+
+  return sheets;
+}
@@ -53,6 +53,8 @@ export async function resolveFilenameConflict(
 
 /**
  * Securely download file with validation, conflict resolution, and size limits.
+ * With overwrite set, an existing file of the same name is replaced instead of
+ * saving alongside it as "name(1).ext" (used by sync to refresh changed files).
  *
  * @param options - Download configuration
  * @returns Download result with path, size, and detected MIME type
@@ -63,8 +65,9 @@ export async function secureDownload(options: {
   filename: string;
   data: Buffer;
   allowedTypes?: string[];
+  overwrite?: boolean;
 }): Promise<{ path: string; size: number; mime: string }> {
-  const { targetDir, filename, data, allowedTypes } = options;
+  const { targetDir, filename, data, allowedTypes, overwrite = false } = options;
 
   log("DEBUG", `secureDownload: starting download of ${filename} to ${targetDir}`);
 
@@ -98,10 +101,13 @@ export async function secureDownload(options: {
   const validatedPath = validateDownloadPath(targetDir, filename);
   log("DEBUG", `secureDownload: path validated as ${validatedPath}`);
 
-  // Resolve filename conflicts
-  const resolvedFilename = await resolveFilenameConflict(targetDir, filename);
-  const finalPath = path.join(targetDir, resolvedFilename);
-  log("DEBUG", `secureDownload: resolved filename to ${resolvedFilename}`);
+  // Resolve filename conflicts (unless replacing in place)
+  let finalPath = validatedPath;
+  if (!overwrite) {
+    const resolvedFilename = await resolveFilenameConflict(targetDir, path.basename(validatedPath));
+    finalPath = path.join(targetDir, resolvedFilename);
+    log("DEBUG", `secureDownload: resolved filename to ${resolvedFilename}`);
+  }
 
   // Write file to disk
   await fs.writeFile(finalPath, data);
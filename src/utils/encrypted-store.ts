@@ -0,0 +1,88 @@
+/**
+ * Purdue Brightspace MCP Server
+ * Copyright (c) 2026 Rohan Muppa. All rights reserved.
+ * Licensed under AGPL-3.0 — see LICENSE file for details.
+ */
+
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import type { EncryptedData } from "../types/index.js";
+import { deriveKey, encrypt, decrypt } from "./encryption.js";
+
+interface EncryptedStoreFile {
+  version: number;
+  encrypted: EncryptedData;
+}
+
+/**
+ * One encrypted JSON document per key under <sessionDir>/<dirName>/<key>.json,
+ * using the same installation key as the session and disk cache.
+ * Files written with a different format version read as missing.
+ */
+export class EncryptedJsonStore<T> {
+  private readonly dir: string;
+  private readonly sessionDir: string;
+  private readonly version: number;
+  private key: Buffer | null = null;
+
+  constructor(sessionDir: string, dirName: string, version: number) {
+    this.sessionDir = sessionDir;
+    this.dir = path.join(sessionDir, dirName);
+    this.version = version;
+  }
+
+  private getKey(): Buffer {
+    if (!this.key) {
+      this.key = deriveKey(this.sessionDir);
+    }
+    return this.key;
+  }
+
+  private filePathFor(key: string | number): string {
+    return path.join(this.dir, `${key}.json`);
+  }
+
+  /**
+   * Read a document. Returns null if it doesn't exist or has another format version.
+   * @throws if the file exists but can't be read or decrypted
+   */
+  async read(key: string | number): Promise<T | null> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.filePathFor(key), "utf-8");
+    } catch (error: any) {
+      if (error?.code === "ENOENT") return null;
+      throw error;
+    }
+
+    const file: EncryptedStoreFile = JSON.parse(raw);
+    if (file.version !== this.version) {
+      return null;
+    }
+    return JSON.parse(decrypt(file.encrypted, this.getKey())) as T;
+  }
+
+  async write(key: string | number, value: T): Promise<void> {
+    const isWindows = process.platform === "win32";
+    await fs.mkdir(this.dir, {
+      recursive: true,
+      ...(isWindows ? {} : { mode: 0o700 }),
+    });
+
+    const file: EncryptedStoreFile = {
+      version: this.version,
+      encrypted: encrypt(JSON.stringify(value), this.getKey()),
+    };
+    await fs.writeFile(this.filePathFor(key), JSON.stringify(file), {
+      encoding: "utf-8",
+      ...(isWindows ? {} : { mode: 0o600 }),
+    });
+  }
+
+  /**
+   * Delete every document in the store.
+   */
+  async clear(): Promise<void> {
+    await fs.rm(this.dir, { recursive: true, force: true });
+  }
+}
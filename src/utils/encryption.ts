@@ -0,0 +1,92 @@
+/**
+ * Purdue Brightspace MCP Server
+ * Copyright (c) 2026 Rohan Muppa. All rights reserved.
+ * Licensed under AGPL-3.0 — see LICENSE file for details.
+ */
+
+import * as crypto from "node:crypto";
+import * as fsSync from "node:fs";
+import * as path from "node:path";
+import * as os from "node:os";
+import type { EncryptedData } from "../types/index.js";
+
+// Encryption constants
+const ALGORITHM = "aes-256-gcm";
+const IV_LENGTH = 12; // GCM recommended IV length
+const SALT_LENGTH = 16;
+const SALT_FILE_NAME = "salt";
+
+/**
+ * Get or create a random salt unique to this installation.
+ * Stored at <sessionDir>/salt with restricted permissions.
+ */
+function getOrCreateSalt(sessionDir: string): Buffer {
+  const saltPath = path.join(sessionDir, SALT_FILE_NAME);
+  try {
+    return fsSync.readFileSync(saltPath);
+  } catch {
+    // Salt doesn't exist yet — create session dir and generate one
+    const isWindows = process.platform === "win32";
+    fsSync.mkdirSync(sessionDir, {
+      recursive: true,
+      ...(isWindows ? {} : { mode: 0o700 }),
+    });
+    const salt = crypto.randomBytes(SALT_LENGTH);
+    fsSync.writeFileSync(saltPath, salt, {
+      ...(isWindows ? {} : { mode: 0o600 }),
+    });
+    return salt;
+  }
+}
+
+/**
+ * Derive AES-256 key from username and hostname using scrypt.
+ * Uses a per-installation random salt (stored in sessionDir) to prevent precomputation attacks.
+ */
+export function deriveKey(sessionDir: string): Buffer {
+  const username = os.userInfo().username;
+  const hostname = os.hostname();
+  const keyMaterial = username + hostname;
+  const salt = getOrCreateSalt(sessionDir);
+
+  // Use scrypt to derive a 32-byte key (256 bits for AES-256)
+  return crypto.scryptSync(keyMaterial, salt, 32);
+}
+
+/**
+ * Encrypt plaintext using AES-256-GCM.
+ * Returns IV, auth tag, and ciphertext as hex strings.
+ */
+export function encrypt(plaintext: string, key: Buffer): EncryptedData {
+  const iv = crypto.randomBytes(IV_LENGTH);
+
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+
+  let encrypted = cipher.update(plaintext, "utf8", "hex");
+  encrypted += cipher.final("hex");
+
+  const authTag = cipher.getAuthTag();
+
+  return {
+    iv: iv.toString("hex"),
+    authTag: authTag.toString("hex"),
+    data: encrypted,
+  };
+}
+
+/**
+ * Decrypt ciphertext using AES-256-GCM.
+ * Returns plaintext string, or throws if auth tag verification fails.
+ */
+export function decrypt(encrypted: EncryptedData, key: Buffer): string {
+  const iv = Buffer.from(encrypted.iv, "hex");
+  const authTag = Buffer.from(encrypted.authTag, "hex");
+
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAuthTag(authTag);
+
+  let decrypted = decipher.update(encrypted.data, "hex", "utf8");
+  decrypted += decipher.final("utf8");
+
+  return decrypted;
+}
@@ -0,0 +1,263 @@
+/**
+ * Purdue Brightspace MCP Server
+ * Copyright (c) 2026 Rohan Muppa. All rights reserved.
+ * Licensed under AGPL-3.0 — see LICENSE file for details.
+ */
+
+// Pure grade math for project_final_grade — no API access, easy to test.
+// Mirrors how the D2L gradebook computes the final calculated grade for the
+// Weighted and Points grading systems, including category drop rules.
+
+export type GradingSystem = "Weighted" | "Points";
+
+// How a category splits its weight among its items
+export type WeightDistribution = "manual" | "points" | "equal";
+
+export interface GradeCategoryInput {
+  id: number;
+  name: string;
+  weight: number; // percent of the final grade (Weighted system)
+  distribution: WeightDistribution;
+  dropLowest: number;
+  dropHighest: number;
+}
+
+export interface GradeItemInput {
+  id: number;
+  name: string;
+  categoryId: number | null;
+  maxPoints: number;
+  weight: number; // percent of category (manual distribution) or of final grade (uncategorized)
+  isBonus: boolean;
+  score: number | null; // earned fraction (0.85 = 85%), null = not graded yet
+}
+
+export interface GradeCutoff {
+  symbol: string;
+  percentStart: number;
+}
+
+export interface CutoffProjection {
+  symbol: string;
+  percentStart: number;
+  status: "secured" | "reachable" | "unreachable";
+  requiredAverage: number | null; // percent needed on every remaining item, when reachable
+}
+
+export interface CategoryBreakdown {
+  id: number | null;
+  name: string;
+  weight: number | null;
+  currentPercent: number | null;
+  gradedItems: number;
+  remainingItems: number;
+  droppedItems: string[];
+}
+
+export interface GradeProjection {
+  gradingSystem: GradingSystem;
+  currentPercent: number | null; // over graded items only
+  minimumPercent: number | null; // if every remaining item scores 0
+  maximumPercent: number | null; // if every remaining item scores 100%
+  remainingItems: { name: string; maxPoints: number }[];
+  categories: CategoryBreakdown[];
+  cutoffs: CutoffProjection[];
+}
+
+interface ScoredItem extends GradeItemInput {
+  score: number;
+}
+
+interface GroupResult {
+  earned: number;
+  possible: number;
+  dropped: ScoredItem[];
+}
+
+// Precision of the required-average search, as a fraction (0.0001 = 0.01%)
+const SOLVE_TOLERANCE = 0.0001;
+
+function round(value: number, digits: number = 2): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function share(item: GradeItemInput, distribution: WeightDistribution): number {
+  if (distribution === "manual") return item.weight;
+  if (distribution === "points") return item.maxPoints;
+  return 1;
+}
+
+/**
+ * Score one category: apply drop rules to regular items, then sum earned
+ * and possible in the category's share units. Bonus items add to earned only.
+ * Returns null if no regular item has a score.
+ */
+function scoreGroup(
+  items: ScoredItem[],
+  distribution: WeightDistribution,
+  dropLowest: number,
+  dropHighest: number
+): GroupResult | null {
+  const regular = items.filter((i) => !i.isBonus).sort((a, b) => a.score - b.score);
+  if (regular.length === 0) return null;
+
+  // Never drop every item — D2L keeps at least one
+  let lowest = dropLowest;
+  let highest = dropHighest;
+  while (lowest + highest >= regular.length && (lowest > 0 || highest > 0)) {
+    if (highest > 0) highest--;
+    else lowest--;
+  }
+
+  const kept = regular.slice(lowest, regular.length - highest);
+  const dropped = [...regular.slice(0, lowest), ...regular.slice(regular.length - highest)];
+
+  let earned = 0;
+  let possible = 0;
+  for (const item of kept) {
+    earned += share(item, distribution) * item.score;
+    possible += share(item, distribution);
+  }
+  for (const item of items.filter((i) => i.isBonus)) {
+    earned += share(item, distribution) * item.score;
+  }
+
+  return possible > 0 ? { earned, possible, dropped } : null;
+}
+
+/**
+ * Final grade (as a fraction) with remaining items scored at `fill`,
+ * or over graded items only when fill is null. Returns null if nothing counts yet.
+ */
+function finalFraction(
+  system: GradingSystem,
+  categories: GradeCategoryInput[],
+  items: GradeItemInput[],
+  fill: number | null
+): number | null {
+  const scored: ScoredItem[] = [];
+  for (const item of items) {
+    const score = item.score ?? fill;
+    if (score !== null) scored.push({ ...item, score });
+  }
+
+  let earned = 0;
+  let possible = 0;
+
+  for (const category of categories) {
+    const members = scored.filter((i) => i.categoryId === category.id);
+    const distribution = system === "Points" ? "points" : category.distribution;
+    const result = scoreGroup(members, distribution, category.dropLowest, category.dropHighest);
+    if (!result) continue;
+
+    if (system === "Points") {
+      earned += result.earned;
+      possible += result.possible;
+    } else {
+      earned += category.weight * (result.earned / result.possible);
+      possible += category.weight;
+    }
+  }
+
+  // Uncategorized items count directly toward the final grade
+  const categoryIds = new Set(categories.map((c) => c.id));
+  for (const item of scored.filter((i) => i.categoryId === null || !categoryIds.has(i.categoryId))) {
+    const size = system === "Points" ? item.maxPoints : item.weight;
+    earned += size * item.score;
+    if (!item.isBonus) possible += size;
+  }
+
+  return possible > 0 ? earned / possible : null;
+}
+
+/**
+ * Lowest uniform score on every remaining item that reaches the target fraction.
+ * Final grade is non-decreasing in the fill score, so bisection converges.
+ */
+function solveRequiredFill(
+  system: GradingSystem,
+  categories: GradeCategoryInput[],
+  items: GradeItemInput[],
+  target: number
+): number {
+  let low = 0;
+  let high = 1;
+  while (high - low > SOLVE_TOLERANCE) {
+    const mid = (low + high) / 2;
+    const projected = finalFraction(system, categories, items, mid) ?? 0;
+    if (projected >= target) high = mid;
+    else low = mid;
+  }
+  return high;
+}
+
+/**
+ * Project the final grade from the gradebook structure and current scores.
+ *
+ * @param system - Course grading system (Formula courses are not supported)
+ * @param categories - Grade categories with weights and drop rules
+ * @param items - Grade items that count toward the final grade
+ * @param cutoffs - Letter-grade cutoffs (percent) to solve for
+ * @returns Current/min/max percentages, per-category breakdown, and the average
+ *   needed on remaining items for each cutoff
+ */
+export function projectFinalGrade(
+  system: GradingSystem,
+  categories: GradeCategoryInput[],
+  items: GradeItemInput[],
+  cutoffs: GradeCutoff[]
+): GradeProjection {
+  const toPercent = (fraction: number | null) => (fraction === null ? null : round(fraction * 100));
+  const minimum = finalFraction(system, categories, items, 0);
+  const maximum = finalFraction(system, categories, items, 1);
+  const remaining = items.filter((i) => i.score === null && !i.isBonus);
+
+  const projections: CutoffProjection[] = [...cutoffs]
+    .sort((a, b) => b.percentStart - a.percentStart)
+    .map((cutoff) => {
+      const target = cutoff.percentStart / 100;
+      if (minimum !== null && minimum >= target) {
+        return { ...cutoff, status: "secured", requiredAverage: null };
+      }
+      if (maximum === null || maximum < target) {
+        return { ...cutoff, status: "unreachable", requiredAverage: null };
+      }
+      const fill = solveRequiredFill(system, categories, items, target);
+      return { ...cutoff, status: "reachable", requiredAverage: round(fill * 100, 1) };
+    });
+
+  // Per-category view over graded items only
+  const graded: ScoredItem[] = items.filter((i): i is ScoredItem => i.score !== null);
+  const breakdown: CategoryBreakdown[] = categories
+    .filter((c) => items.some((i) => i.categoryId === c.id))
+    .map((category) => {
+      const members = items.filter((i) => i.categoryId === category.id);
+      const distribution = system === "Points" ? "points" : category.distribution;
+      const result = scoreGroup(
+        graded.filter((i) => i.categoryId === category.id),
+        distribution,
+        category.dropLowest,
+        category.dropHighest
+      );
+      return {
+        id: category.id,
+        name: category.name,
+        weight: system === "Weighted" ? category.weight : null,
+        currentPercent: result ? round((result.earned / result.possible) * 100) : null,
+        gradedItems: members.filter((i) => i.score !== null).length,
+        remainingItems: members.filter((i) => i.score === null).length,
+        droppedItems: result ? result.dropped.map((i) => i.name) : [],
+      };
+    });
+
+  return {
+    gradingSystem: system,
+    currentPercent: toPercent(finalFraction(system, categories, items, null)),
+    minimumPercent: toPercent(minimum),
+    maximumPercent: toPercent(maximum),
+    remainingItems: remaining.map((i) => ({ name: i.name, maxPoints: i.maxPoints })),
+    categories: breakdown,
+    cutoffs: projections,
+  };
+}
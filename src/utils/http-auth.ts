@@ -0,0 +1,52 @@
+/**
+ * Purdue Brightspace MCP Server
+ * Copyright (c) 2026 Rohan Muppa. All rights reserved.
+ * Licensed under AGPL-3.0 — see LICENSE file for details.
+ */
+
+import type { IncomingMessage } from "node:http";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { randomBytes, timingSafeEqual } from "node:crypto";
+
+export const TOKEN_FILENAME = "http-token";
+
+/**
+ * Bearer secret for `serve --http`: D2L_HTTP_TOKEN if set, otherwise a random
+ * token persisted (0600) in the session directory so client configs survive restarts.
+ */
+export async function loadOrCreateToken(sessionDir: string): Promise<{ token: string; source: string }> {
+  if (process.env.D2L_HTTP_TOKEN) {
+    return { token: process.env.D2L_HTTP_TOKEN, source: "D2L_HTTP_TOKEN" };
+  }
+
+  const tokenPath = path.join(sessionDir, TOKEN_FILENAME);
+  try {
+    const token = (await fs.readFile(tokenPath, "utf-8")).trim();
+    if (token) return { token, source: tokenPath };
+  } catch {
+    // Not created yet
+  }
+
+  const isWindows = process.platform === "win32";
+  await fs.mkdir(sessionDir, { recursive: true, ...(isWindows ? {} : { mode: 0o700 }) });
+  const token = randomBytes(32).toString("base64url");
+  await fs.writeFile(tokenPath, token + "\n", {
+    encoding: "utf-8",
+    ...(isWindows ? {} : { mode: 0o600 }),
+  });
+  return { token, source: tokenPath };
+}
+
+/**
+ * Whether the request carries "Authorization: Bearer <token>" (constant-time compare).
+ */
+export function isAuthorized(req: Pick<IncomingMessage, "headers">, token: string): boolean {
+  const header = req.headers.authorization ?? "";
+  const match = /^Bearer\s+(.+)$/i.exec(header);
+  if (!match) return false;
+
+  const given = Buffer.from(match[1].trim());
+  const expected = Buffer.from(token);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
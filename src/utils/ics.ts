@@ -0,0 +1,130 @@
+/**
+ * Purdue Brightspace MCP Server
+ * Copyright (c) 2026 Rohan Muppa. All rights reserved.
+ * Licensed under AGPL-3.0 — see LICENSE file for details.
+ */
+
+// Minimal RFC 5545 (iCalendar) writer for due-date feeds.
+// Only what export_calendar needs: VEVENT with optional VALARM.
+
+export interface IcsEvent {
+  uid: string; // must be stable across exports so calendar apps update instead of duplicating
+  summary: string;
+  description?: string;
+  start: Date;
+  end: Date;
+  allDay: boolean;
+  url?: string;
+}
+
+export interface IcsCalendarOptions {
+  name: string;
+  reminderMinutes?: number; // 0 or undefined = no VALARM
+}
+
+// RFC 5545 §3.1: lines SHOULD NOT exceed 75 octets
+const MAX_LINE_OCTETS = 75;
+
+/**
+ * Escape a TEXT property value (RFC 5545 §3.3.11).
+ */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Fold a content line at 75 octets without splitting multi-byte characters.
+ * Continuation lines start with a single space.
+ */
+function foldLine(line: string): string {
+  if (Buffer.byteLength(line, "utf-8") <= MAX_LINE_OCTETS) {
+    return line;
+  }
+
+  const parts: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+  for (const char of line) {
+    const charBytes = Buffer.byteLength(char, "utf-8");
+    // Continuation lines lose one octet to the leading space
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentBytes + charBytes > limit) {
+      parts.push(current);
+      current = "";
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  parts.push(current);
+
+  return parts.join("\r\n ");
+}
+
+// 20260918T235900Z
+function formatDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+// 20260918 (all-day events use the UTC calendar date, matching how D2L stores them)
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10).replace(/-/g, "");
+}
+
+/**
+ * Build an iCalendar document.
+ *
+ * @param events - Events to include
+ * @param options - Calendar name and optional reminder lead time
+ * @returns .ics file contents with CRLF line endings
+ */
+export function buildCalendar(events: IcsEvent[], options: IcsCalendarOptions): string {
+  const stamp = formatDateTime(new Date());
+  const lines: string[] = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Rohan Muppa//Brightspace MCP Server//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(options.name)}`,
+  ];
+
+  for (const event of events) {
+    lines.push("BEGIN:VEVENT", `UID:${event.uid}`, `DTSTAMP:${stamp}`);
+
+    if (event.allDay) {
+      // DTEND is exclusive for all-day events
+      const end = new Date(Math.max(event.end.getTime(), event.start.getTime() + 24 * 60 * 60 * 1000));
+      lines.push(`DTSTART;VALUE=DATE:${formatDate(event.start)}`, `DTEND;VALUE=DATE:${formatDate(end)}`);
+    } else {
+      lines.push(`DTSTART:${formatDateTime(event.start)}`, `DTEND:${formatDateTime(event.end)}`);
+    }
+
+    lines.push(`SUMMARY:${escapeText(event.summary)}`);
+    if (event.description) {
+      lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    }
+    if (event.url) {
+      lines.push(`URL:${event.url}`);
+    }
+
+    if (options.reminderMinutes && options.reminderMinutes > 0) {
+      lines.push(
+        "BEGIN:VALARM",
+        "ACTION:DISPLAY",
+        `DESCRIPTION:${escapeText(event.summary)}`,
+        `TRIGGER:-PT${Math.round(options.reminderMinutes)}M`,
+        "END:VALARM"
+      );
+    }
+
+    lines.push("END:VEVENT");
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,153 @@
+/**
+ * Purdue Brightspace MCP Server
+ * Copyright (c) 2026 Rohan Muppa. All rights reserved.
+ * Licensed under AGPL-3.0 — see LICENSE file for details.
+ */
+
+import { spawn } from "node:child_process";
+import type { Change } from "./change-feed.js";
+
+const HTTP_TIMEOUT_MS = 15_000;
+const COMMAND_TIMEOUT_MS = 30_000;
+
+export interface Notification extends Change {
+  courseId: number;
+  courseName: string;
+  courseCode: string;
+  message: string; // one-line human-readable summary
+  detectedAt: string;
+}
+
+/**
+ * Where the watch subcommand delivers notifications.
+ */
+export interface NotificationSink {
+  readonly name: string;
+  send(notification: Notification): Promise<void>;
+}
+
+const KIND_LABELS: Record<Change["kind"], string> = {
+  grade: "grade",
+  announcement: "announcement",
+  content: "course content",
+  feedback: "feedback",
+  discussion: "discussion post",
+};
+
+/**
+ * e.g. "[CS 251] New grade: Quiz 1 (9/10)"
+ */
+export function formatNotificationMessage(change: Change, courseLabel: string): string {
+  const verb = change.change === "new" ? "New" : "Updated";
+  const grade = change.kind === "grade" ? change.detail?.grade : undefined;
+  const suffix = grade ? ` (${grade})` : "";
+  return `[${courseLabel}] ${verb} ${KIND_LABELS[change.kind]}: ${change.title}${suffix}`;
+}
+
+/**
+ * HTTP header values must be Latin-1 (fetch throws on anything else), so
+ * non-ASCII text is sent as an RFC 2047 encoded-word, which ntfy decodes.
+ */
+export function encodeHeaderValue(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, "utf-8").toString("base64")}?=`;
+}
+
+async function postWithTimeout(url: string, init: RequestInit): Promise<void> {
+  const response = await fetch(url, { ...init, signal: AbortSignal.timeout(HTTP_TIMEOUT_MS) });
+  if (!response.ok) {
+    throw new Error(`${url} responded ${response.status} ${response.statusText}`);
+  }
+}
+
+/**
+ * One JSON object per line on stdout — pipe into jq, a log file, or another program.
+ */
+export class StdoutSink implements NotificationSink {
+  readonly name = "stdout";
+
+  async send(notification: Notification): Promise<void> {
+    process.stdout.write(JSON.stringify(notification) + "\n");
+  }
+}
+
+/**
+ * POSTs the notification as JSON (Slack/Discord bridges, Zapier, Home Assistant, ...).
+ */
+export class WebhookSink implements NotificationSink {
+  readonly name = "webhook";
+
+  constructor(private readonly url: string) {}
+
+  async send(notification: Notification): Promise<void> {
+    await postWithTimeout(this.url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(notification),
+    });
+  }
+}
+
+/**
+ * ntfy-style push (https://ntfy.sh/<topic> or a self-hosted server):
+ * plain-text body with Title/Tags/Priority headers. Grades are sent at high priority.
+ * Course names and titles may hold any Unicode, so the Title header is RFC 2047-encoded when needed.
+ */
+export class NtfySink implements NotificationSink {
+  readonly name = "ntfy";
+
+  constructor(
+    private readonly url: string,
+    private readonly token?: string,
+  ) {}
+
+  async send(notification: Notification): Promise<void> {
+    const headers: Record<string, string> = {
+      Title: encodeHeaderValue(`${notification.courseCode || notification.courseName}: ${notification.title}`),
+      Tags: notification.kind,
+      Priority: notification.kind === "grade" || notification.kind === "feedback" ? "high" : "default",
+    };
+    if (this.token) {
+      headers.Authorization = `Bearer ${this.token}`;
+    }
+    await postWithTimeout(this.url, { method: "POST", headers, body: notification.message });
+  }
+}
+
+/**
+ * Runs a local command (through the shell) per notification, e.g. notify-send or osascript.
+ * The notification JSON is written to stdin; BRIGHTSPACE_MESSAGE, BRIGHTSPACE_KIND,
+ * BRIGHTSPACE_TITLE and BRIGHTSPACE_COURSE are set in the environment.
+ */
+export class CommandSink implements NotificationSink {
+  readonly name = "command";
+
+  constructor(private readonly command: string) {}
+
+  send(notification: Notification): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const child = spawn(this.command, {
+        shell: true,
+        stdio: ["pipe", "ignore", "inherit"],
+        timeout: COMMAND_TIMEOUT_MS,
+        env: {
+          ...process.env,
+          BRIGHTSPACE_MESSAGE: notification.message,
+          BRIGHTSPACE_KIND: notification.kind,
+          BRIGHTSPACE_TITLE: notification.title,
+          BRIGHTSPACE_COURSE: notification.courseCode || notification.courseName,
+        },
+      });
+      child.on("error", reject);
+      child.on("close", (code, signal) => {
+        if (code === 0) resolve();
+        else reject(new Error(`Command exited with ${signal ?? `code ${code}`}`));
+      });
+      child.stdin.on("error", () => {
+        // Command didn't read stdin — that's fine
+      });
+      child.stdin.end(JSON.stringify(notification));
+    });
+  }
+}
@@ -27,3 +27,24 @@ export async function extractPdfText(
     return null;
   }
 }
+
+/**
+ * Extract text per page from a PDF buffer.
+ * Returns null on failure (graceful degradation — download still works).
+ */
+export async function extractPdfPages(
+  buffer: Buffer
+): Promise<{ pages: string[]; totalPages: number } | null> {
+  try {
+    const result = await extractText(new Uint8Array(buffer), {
+      mergePages: false,
+    });
+    return {
+      pages: result.text as string[],
+      totalPages: result.totalPages,
+    };
+  } catch (error) {
+    log("ERROR", "Failed to extract text from PDF", error);
+    return null;
+  }
+}
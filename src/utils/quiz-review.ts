@@ -0,0 +1,135 @@
+/**
+ * Purdue Brightspace MCP Server
+ * Copyright (c) 2026 Rohan Muppa. All rights reserved.
+ * Licensed under AGPL-3.0 — see LICENSE file for details.
+ */
+
+import { convertHtmlToMarkdown } from "./html-converter.js";
+
+interface RichText {
+  Text: string;
+  Html: string;
+}
+
+interface AnswerOption {
+  PartId: number;
+  Answer: RichText | null;
+  AnswerFeedback: RichText | null;
+  Weight: number; // percent of the question's points; > 0 means correct
+}
+
+// D2L quiz QuestionData (only the parts we review)
+export interface QuizQuestion {
+  QuestionId: number;
+  QuestionTypeId: number;
+  Name: string;
+  QuestionText: RichText | null;
+  Points: number;
+  Feedback: RichText | null;
+  QuestionInfo: {
+    Answers?: AnswerOption[]; // multiple choice / multi-select
+    TruePartId?: number; // true/false
+    TrueWeight?: number;
+    FalsePartId?: number;
+    FalseWeight?: number;
+  } | null;
+}
+
+// One question's result within an attempt
+export interface QuizQuestionResponse {
+  QuestionId: number;
+  Points: number | null; // points earned
+  Feedback: RichText | null; // grader or auto feedback for this attempt
+  Responses: Array<{ PartId: number | null; Text: string | null }>;
+}
+
+export interface ReviewedQuestion {
+  questionId: number;
+  name: string;
+  type: string;
+  question: string;
+  myAnswer: string[] | null; // null if the attempt's responses aren't available
+  correctAnswer: string[] | null; // null for question types without a fixed answer
+  pointsEarned: number | null;
+  pointsPossible: number;
+  feedback: string | null;
+}
+
+// D2L QuestionTypeId values
+const QUESTION_TYPES: Record<number, string> = {
+  1: "multiple choice",
+  2: "true/false",
+  3: "fill in the blanks",
+  4: "multi-select",
+  5: "matching",
+  6: "ordering",
+  7: "written response",
+  8: "short answer",
+  9: "likert",
+  10: "image",
+  11: "text information",
+  12: "arithmetic",
+  13: "significant figures",
+  14: "multi-short answer",
+};
+
+function richTextToMarkdown(text: RichText | null | undefined): string {
+  if (text?.Html) {
+    return convertHtmlToMarkdown(text.Html).markdown;
+  }
+  return text?.Text ?? "";
+}
+
+/**
+ * Answer options keyed by PartId, with whether each one is correct.
+ */
+function answerOptions(question: QuizQuestion): Map<number, { text: string; correct: boolean }> {
+  const options = new Map<number, { text: string; correct: boolean }>();
+  const info = question.QuestionInfo;
+  if (!info) return options;
+
+  for (const answer of info.Answers ?? []) {
+    options.set(answer.PartId, { text: richTextToMarkdown(answer.Answer), correct: answer.Weight > 0 });
+  }
+  if (info.TruePartId !== undefined) {
+    options.set(info.TruePartId, { text: "True", correct: (info.TrueWeight ?? 0) > 0 });
+  }
+  if (info.FalsePartId !== undefined) {
+    options.set(info.FalsePartId, { text: "False", correct: (info.FalseWeight ?? 0) > 0 });
+  }
+  return options;
+}
+
+/**
+ * Join a quiz question with my response to it in one attempt.
+ * Selected options are shown by their answer text; free-text responses as written.
+ */
+export function reviewQuestion(
+  question: QuizQuestion,
+  response: QuizQuestionResponse | undefined
+): ReviewedQuestion {
+  const options = answerOptions(question);
+  const correct = [...options.values()].filter((o) => o.correct).map((o) => o.text);
+
+  const myAnswer = response
+    ? response.Responses
+        .map((r) => (r.PartId !== null && options.has(r.PartId) ? options.get(r.PartId)!.text : r.Text))
+        .filter((answer): answer is string => !!answer)
+    : null;
+
+  const feedback = [response?.Feedback, question.Feedback]
+    .map((text) => richTextToMarkdown(text))
+    .filter(Boolean);
+
+  return {
+    questionId: question.QuestionId,
+    name: question.Name,
+    type: QUESTION_TYPES[question.QuestionTypeId] ?? "other",
+    question: richTextToMarkdown(question.QuestionText),
+    myAnswer,
+    correctAnswer: correct.length > 0 ? correct : null,
+    pointsEarned: response?.Points ?? null,
+    pointsPossible: question.Points,
+    feedback: feedback.length > 0 ? feedback.join("\n\n") : null,
+  };
+}
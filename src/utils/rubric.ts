@@ -0,0 +1,125 @@
+/**
+ * Purdue Brightspace MCP Server
+ * Copyright (c) 2026 Rohan Muppa. All rights reserved.
+ * Licensed under AGPL-3.0 — see LICENSE file for details.
+ */
+
+import { convertHtmlToMarkdown } from "./html-converter.js";
+
+interface RichText {
+  Text: string;
+  Html: string;
+}
+
+// D2L Rubric definition, as found in a dropbox folder's Assessment.Rubrics
+export interface RubricDefinition {
+  RubricId: number;
+  Name: string;
+  Criteria: Array<{
+    CriterionId: number;
+    Name: string;
+    Levels: Array<{
+      LevelId: number;
+      Name: string;
+      Points: number;
+      Description: RichText | null;
+    }>;
+  }>;
+}
+
+// D2L Rubric.Assessment, as found in dropbox feedback's RubricAssessments
+export interface RubricAssessment {
+  RubricId: number;
+  OverallScore: number | null;
+  OverallFeedback: RichText | null;
+  OverallLevel: { LevelId: number; Name: string } | null;
+  CriteriaOutcome: Array<{
+    CriterionId: number;
+    LevelId: number | null;
+    Score: number | null;
+    ScoreIsOverridden: boolean;
+    Feedback: RichText | null;
+  }>;
+}
+
+export interface AssessedCriterion {
+  criterion: string;
+  level: string | null; // null if the grader didn't pick a level
+  levelDescription: string | null;
+  pointsEarned: number | null;
+  pointsPossible: number;
+  scoreOverridden: boolean;
+  comment: string | null;
+}
+
+export interface AssessedRubric {
+  rubricId: number;
+  name: string;
+  overallLevel: string | null;
+  pointsEarned: number | null;
+  pointsPossible: number;
+  overallComment: string | null;
+  criteria: AssessedCriterion[];
+}
+
+function richTextToMarkdown(text: RichText | null): string | null {
+  if (text?.Html) {
+    return convertHtmlToMarkdown(text.Html).markdown || null;
+  }
+  return text?.Text || null;
+}
+
+/**
+ * Join a rubric assessment with its definition so each criterion carries the
+ * chosen level, points earned vs possible and the grader's comment.
+ *
+ * Criteria missing from the assessment are reported with a null level and score.
+ * If the definition isn't available (e.g. the rubric is hidden from students),
+ * criteria fall back to their IDs.
+ */
+export function joinRubricAssessment(
+  assessment: RubricAssessment,
+  definition: RubricDefinition | undefined
+): AssessedRubric {
+  const outcomes = new Map(
+    (assessment.CriteriaOutcome ?? []).map((outcome) => [outcome.CriterionId, outcome])
+  );
+  const definedCriteria =
+    definition?.Criteria ??
+    (assessment.CriteriaOutcome ?? []).map((outcome) => ({
+      CriterionId: outcome.CriterionId,
+      Name: `Criterion ${outcome.CriterionId}`,
+      Levels: [],
+    }));
+
+  const criteria = definedCriteria.map((criterion): AssessedCriterion => {
+    const outcome = outcomes.get(criterion.CriterionId);
+    const level = criterion.Levels?.find((l) => l.LevelId === outcome?.LevelId);
+    const pointsPossible = Math.max(0, ...(criterion.Levels ?? []).map((l) => l.Points));
+
+    return {
+      criterion: criterion.Name,
+      level: level?.Name ?? null,
+      levelDescription: level?.Description?.Text || null,
+      pointsEarned: outcome?.Score ?? level?.Points ?? null,
+      pointsPossible,
+      scoreOverridden: outcome?.ScoreIsOverridden ?? false,
+      comment: richTextToMarkdown(outcome?.Feedback ?? null),
+    };
+  });
+
+  const earned = criteria.filter((c) => c.pointsEarned !== null);
+  const summedEarned = earned.length > 0
+    ? earned.reduce((sum, c) => sum + (c.pointsEarned ?? 0), 0)
+    : null;
+
+  return {
+    rubricId: assessment.RubricId,
+    name: definition?.Name ?? `Rubric ${assessment.RubricId}`,
+    overallLevel: assessment.OverallLevel?.Name ?? null,
+    pointsEarned: assessment.OverallScore ?? summedEarned,
+    pointsPossible: criteria.reduce((sum, c) => sum + c.pointsPossible, 0),
+    overallComment: richTextToMarkdown(assessment.OverallFeedback),
+    criteria,
+  };
+}
@@ -0,0 +1,202 @@
+/**
+ * Purdue Brightspace MCP Server
+ * Copyright (c) 2026 Rohan Muppa. All rights reserved.
+ * Licensed under AGPL-3.0 — see LICENSE file for details.
+ */
+
+import { EncryptedJsonStore } from "./encrypted-store.js";
+import { log } from "./logger.js";
+
+const INDEX_DIR_NAME = "search-index";
+const INDEX_VERSION = 1;
+
+// BM25 parameters (standard defaults)
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// Title terms count this many times over body terms
+const TITLE_BOOST = 3;
+
+const SNIPPET_RADIUS = 100;
+
+const STOPWORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "for", "from", "how", "in",
+  "is", "it", "of", "on", "or", "that", "the", "this", "to", "was", "what",
+  "when", "where", "which", "who", "with",
+]);
+
+export type SearchDocumentKind = "content" | "announcement" | "discussion";
+
+export interface SearchDocument {
+  id: string; // unique within a course, e.g. "content:123"
+  kind: SearchDocumentKind;
+  courseId: number;
+  title: string;
+  text: string;
+  version: string; // source LastModifiedDate (or similar) — unchanged version means no re-fetch
+  ref: Record<string, number>; // IDs for follow-up tools (topicId, forumId, postId, ...)
+}
+
+export interface CourseSearchIndex {
+  courseId: number;
+  refreshedAt: number; // Unix timestamp ms, 0 = never
+  documents: Record<string, SearchDocument>;
+}
+
+export interface SearchHit {
+  id: string;
+  kind: SearchDocumentKind;
+  courseId: number;
+  title: string;
+  score: number;
+  snippet: string;
+  ref: Record<string, number>;
+}
+
+/**
+ * Split text into lowercase search terms, dropping stopwords.
+ */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).filter(
+    (term) => !STOPWORDS.has(term)
+  );
+}
+
+/**
+ * Excerpt around the first query term in the text, whitespace collapsed.
+ */
+export function makeSnippet(text: string, terms: string[]): string {
+  const flat = text.replace(/\s+/g, " ").trim();
+  const lower = flat.toLowerCase();
+
+  let position = -1;
+  for (const term of terms) {
+    const index = lower.indexOf(term);
+    if (index !== -1 && (position === -1 || index < position)) {
+      position = index;
+    }
+  }
+
+  if (position === -1) {
+    return flat.length > SNIPPET_RADIUS * 2 ? `${flat.slice(0, SNIPPET_RADIUS * 2)}…` : flat;
+  }
+
+  const start = Math.max(0, position - SNIPPET_RADIUS);
+  const end = Math.min(flat.length, position + SNIPPET_RADIUS);
+  return `${start > 0 ? "…" : ""}${flat.slice(start, end)}${end < flat.length ? "…" : ""}`;
+}
+
+/**
+ * Rank documents against a query with BM25 (title terms boosted).
+ * Documents containing the whole query as a phrase get an extra boost.
+ *
+ * @param documents - Candidate documents (typically from one or more course indexes)
+ * @param query - Free-text query
+ * @param limit - Maximum hits to return
+ * @returns Hits with score > 0, best first
+ */
+export function searchDocuments(
+  documents: SearchDocument[],
+  query: string,
+  limit: number
+): SearchHit[] {
+  const queryTerms = [...new Set(tokenize(query))];
+  if (queryTerms.length === 0 || documents.length === 0) {
+    return [];
+  }
+
+  // Term frequencies per document
+  const docTerms = documents.map((doc) => {
+    const counts = new Map<string, number>();
+    const titleTerms = tokenize(doc.title);
+    const bodyTerms = tokenize(doc.text);
+    for (const term of bodyTerms) counts.set(term, (counts.get(term) ?? 0) + 1);
+    for (const term of titleTerms) counts.set(term, (counts.get(term) ?? 0) + TITLE_BOOST);
+    return { counts, length: bodyTerms.length + titleTerms.length * TITLE_BOOST };
+  });
+
+  const averageLength = docTerms.reduce((sum, d) => sum + d.length, 0) / documents.length || 1;
+  const idf = new Map<string, number>();
+  for (const term of queryTerms) {
+    const containing = docTerms.filter((d) => d.counts.has(term)).length;
+    idf.set(term, Math.log(1 + (documents.length - containing + 0.5) / (containing + 0.5)));
+  }
+
+  const phrase = queryTerms.length > 1 ? query.toLowerCase().replace(/\s+/g, " ").trim() : null;
+
+  const hits: SearchHit[] = [];
+  documents.forEach((doc, i) => {
+    const { counts, length } = docTerms[i];
+    let score = 0;
+    for (const term of queryTerms) {
+      const tf = counts.get(term) ?? 0;
+      if (tf === 0) continue;
+      score +=
+        idf.get(term)! *
+        ((tf * (BM25_K1 + 1)) / (tf + BM25_K1 * (1 - BM25_B + (BM25_B * length) / averageLength)));
+    }
+    if (score === 0) return;
+
+    if (phrase && `${doc.title} ${doc.text}`.toLowerCase().replace(/\s+/g, " ").includes(phrase)) {
+      score *= 1.5;
+    }
+
+    hits.push({
+      id: doc.id,
+      kind: doc.kind,
+      courseId: doc.courseId,
+      title: doc.title,
+      score: Math.round(score * 1000) / 1000,
+      snippet: makeSnippet(doc.text, queryTerms),
+      ref: doc.ref,
+    });
+  });
+
+  return hits.sort((a, b) => b.score - a.score).slice(0, limit);
+}
+
+/**
+ * Persists one search index per course under <sessionDir>/search-index/,
+ * encrypted with the same installation key as the session and disk cache
+ * (indexes contain announcement and discussion text).
+ * Loaded indexes are kept in memory for the life of the process.
+ */
+export class SearchIndexStore {
+  private readonly store: EncryptedJsonStore<CourseSearchIndex>;
+  private readonly loaded = new Map<number, CourseSearchIndex>();
+
+  constructor(sessionDir: string) {
+    this.store = new EncryptedJsonStore(sessionDir, INDEX_DIR_NAME, INDEX_VERSION);
+  }
+
+  /**
+   * Load a course's index. Returns an empty index if none exists or it can't be read.
+   */
+  async load(courseId: number): Promise<CourseSearchIndex> {
+    const cached = this.loaded.get(courseId);
+    if (cached) return cached;
+
+    let index: CourseSearchIndex = { courseId, refreshedAt: 0, documents: {} };
+    try {
+      index = (await this.store.read(courseId)) ?? index;
+    } catch {
+      log("WARN", `Failed to read search index for course ${courseId}, rebuilding`);
+    }
+
+    this.loaded.set(courseId, index);
+    return index;
+  }
+
+  async save(index: CourseSearchIndex): Promise<void> {
+    await this.store.write(index.courseId, index);
+    this.loaded.set(index.courseId, index);
+  }
+
+  /**
+   * Delete every stored index.
+   */
+  async clear(): Promise<void> {
+    this.loaded.clear();
+    await this.store.clear();
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * Purdue Brightspace MCP Server
+ * Copyright (c) 2026 Rohan Muppa. All rights reserved.
+ * Licensed under AGPL-3.0 — see LICENSE file for details.
+ */
+
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+
+// Long enough to show the preview and get an answer, short enough that a stale preview can't be replayed later
+export const CONFIRMATION_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * Everything a submission confirmation covers: changing any of it needs a new preview.
+ */
+export interface SubmissionIntent {
+  courseId: number;
+  folderId: number;
+  files: Array<{ path: string; data: Buffer }>;
+  comment: string | null;
+}
+
+export type TokenCheck = "valid" | "invalid" | "expired" | "used";
+
+function fingerprint(intent: SubmissionIntent): string {
+  return JSON.stringify([
+    intent.courseId,
+    intent.folderId,
+    intent.files.map((f) => [f.path, f.data.length, createHash("sha256").update(f.data).digest("hex")]),
+    intent.comment ?? "",
+  ]);
+}
+
+/**
+ * Issues and checks submit_assignment confirmation tokens.
+ *
+ * A token is the expiry time plus an HMAC over the submission's fingerprint
+ * (course, folder, file paths, sizes and content hashes, comment), keyed with a
+ * per-process secret. It can only be obtained from a preview, only submits
+ * exactly what was previewed, and works once.
+ */
+export class SubmissionTokens {
+  private readonly secret = randomBytes(32);
+  private readonly used = new Set<string>();
+
+  constructor(private readonly ttlMs = CONFIRMATION_TTL_MS) {}
+
+  issue(intent: SubmissionIntent, now = Date.now()): { token: string; expiresAt: number } {
+    const expiresAt = now + this.ttlMs;
+    return { token: `${expiresAt.toString(36)}.${this.sign(intent, expiresAt)}`, expiresAt };
+  }
+
+  check(token: string, intent: SubmissionIntent, now = Date.now()): TokenCheck {
+    const [expiry, signature] = token.split(".");
+    const expiresAt = parseInt(expiry, 36);
+    if (!signature || !Number.isFinite(expiresAt)) return "invalid";
+
+    const expected = Buffer.from(this.sign(intent, expiresAt));
+    const actual = Buffer.from(signature);
+    if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return "invalid";
+
+    if (this.used.has(token)) return "used";
+    if (now > expiresAt) return "expired";
+    return "valid";
+  }
+
+  /**
+   * Check a token and, if it's valid, mark it spent in the same synchronous step,
+   * so concurrent confirms with one token can't both pass. Call release() if the
+   * submission is then rejected.
+   */
+  reserve(token: string, intent: SubmissionIntent, now = Date.now()): TokenCheck {
+    const result = this.check(token, intent, now);
+    if (result === "valid") this.used.add(token);
+    return result;
+  }
+
+  /** Make a reserved token usable again after D2L rejected its submission. */
+  release(token: string): void {
+    this.used.delete(token);
+  }
+
+  private sign(intent: SubmissionIntent, expiresAt: number): string {
+    return createHmac("sha256", this.secret)
+      .update(`${expiresAt}\n${fingerprint(intent)}`)
+      .digest("base64url");
+  }
+}
@@ -0,0 +1,141 @@
+/**
+ * Purdue Brightspace MCP Server
+ * Copyright (c) 2026 Rohan Muppa. All rights reserved.
+ * Licensed under AGPL-3.0 — see LICENSE file for details.
+ */
+
+interface Term {
+  id: number;
+  name: string;
+  code: string | null;
+}
+
+interface TermCourse {
+  term?: Term | null;
+  startDate: string | null;
+  endDate: string | null;
+}
+
+/** A term and the enrolled courses in it, with dates spanning those courses */
+export interface TermGroup<T extends TermCourse> {
+  term: Term;
+  start: number | null; // ms; earliest course start, else estimated from the term name
+  end: number | null; // ms; latest course end
+  courses: T[];
+}
+
+export type TermSelection<T extends TermCourse> =
+  | { status: "found"; terms: Term[]; courses: T[] }
+  | { status: "not_found"; known: string[] };
+
+// Month each season usually starts in, for terms whose courses have no dates
+const SEASON_START_MONTH: Record<string, number> = {
+  winter: 0,
+  spring: 0,
+  summer: 4,
+  fall: 7,
+  autumn: 7,
+};
+
+function words(text: string): string[] {
+  return text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+}
+
+function parseDate(value: string | null): number | null {
+  if (!value) return null;
+  const ms = Date.parse(value);
+  return Number.isNaN(ms) ? null : ms;
+}
+
+/**
+ * Start of a term estimated from a name like "Fall 2025" or "2026 Spring Semester".
+ */
+function startFromName(name: string): number | null {
+  const tokens = words(name);
+  const year = tokens.find((t) => /^(19|20)\d\d$/.test(t));
+  if (!year) return null;
+  const season = tokens.find((t) => t in SEASON_START_MONTH);
+  return Date.UTC(Number(year), season ? SEASON_START_MONTH[season] : 0, 1);
+}
+
+/**
+ * Group courses by term, newest term first. Courses without a term are left out.
+ */
+export function groupByTerm<T extends TermCourse>(courses: T[]): TermGroup<T>[] {
+  const groups = new Map<number, TermGroup<T>>();
+
+  for (const course of courses) {
+    if (!course.term) continue;
+    let group = groups.get(course.term.id);
+    if (!group) {
+      group = { term: course.term, start: null, end: null, courses: [] };
+      groups.set(course.term.id, group);
+    }
+    group.courses.push(course);
+
+    const start = parseDate(course.startDate);
+    const end = parseDate(course.endDate);
+    if (start !== null && (group.start === null || start < group.start)) group.start = start;
+    if (end !== null && (group.end === null || end > group.end)) group.end = end;
+  }
+
+  for (const group of groups.values()) {
+    group.start ??= startFromName(group.term.name);
+  }
+
+  return [...groups.values()].sort(
+    (a, b) => (b.start ?? -Infinity) - (a.start ?? -Infinity) || a.term.name.localeCompare(b.term.name)
+  );
+}
+
+/**
+ * Terms in progress at `now`. When course dates don't say, the most recent term
+ * that has started.
+ */
+function currentGroups<T extends TermCourse>(groups: TermGroup<T>[], now: number): TermGroup<T>[] {
+  const running = groups.filter((g) => g.start !== null && g.start <= now && g.end !== null && g.end >= now);
+  if (running.length > 0) return running;
+  const started = groups.find((g) => g.start !== null && g.start <= now);
+  return started ? [started] : [];
+}
+
+/**
+ * Select the courses in one or more terms.
+ *
+ * @param query - "current", "previous", or a term name or code ("Fall 2025",
+ *   "fall", "202610"); a name matching several terms ("2025") selects all of them
+ * @param now - Reference time in ms, for "current" and "previous"
+ */
+export function selectTerm<T extends TermCourse>(
+  courses: T[],
+  query: string,
+  now: number = Date.now()
+): TermSelection<T> {
+  const groups = groupByTerm(courses);
+  const key = query.trim().toLowerCase();
+  let selected: TermGroup<T>[];
+
+  if (key === "current") {
+    selected = currentGroups(groups, now);
+  } else if (key === "previous" || key === "last") {
+    // groups are newest first, so the previous term follows the oldest current one
+    const current = currentGroups(groups, now);
+    const after = current.length > 0 ? Math.max(...current.map((g) => groups.indexOf(g))) + 1 : 0;
+    selected = groups.slice(after, after + 1);
+  } else {
+    const queryWords = words(key);
+    selected = queryWords.length === 0 ? [] : groups.filter((g) => {
+      const termWords = [...words(g.term.name), ...words(g.term.code ?? "")];
+      return queryWords.every((q) => termWords.some((t) => t.startsWith(q)));
+    });
+  }
+
+  if (selected.length === 0) {
+    return { status: "not_found", known: groups.map((g) => g.term.name) };
+  }
+  return {
+    status: "found",
+    terms: selected.map((g) => g.term),
+    courses: selected.flatMap((g) => g.courses),
+  };
+}
@@ -0,0 +1,112 @@
+/**
+ * Purdue Brightspace MCP Server
+ * Copyright (c) 2026 Rohan Muppa. All rights reserved.
+ * Licensed under AGPL-3.0 — see LICENSE file for details.
+ */
+
+import { inflateRawSync } from "node:zlib";
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const EOCD_MIN_SIZE = 22;
+const MAX_COMMENT_SIZE = 0xffff;
+// Guards against zip bombs — no single XML part of an Office file comes close
+const MAX_ENTRY_SIZE = 64 * 1024 * 1024;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+interface ZipEntry {
+  compressionMethod: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  localHeaderOffset: number;
+}
+
+/**
+ * Minimal read-only ZIP archive (stored and deflate entries, no ZIP64 or
+ * encryption) — enough for Office Open XML files. Entries are inflated on demand.
+ */
+export class ZipArchive {
+  private readonly entries = new Map<string, ZipEntry>();
+
+  /**
+   * @throws Error if the buffer isn't a readable ZIP archive
+   */
+  constructor(private readonly buffer: Buffer) {
+    const eocd = this.findEndOfCentralDirectory();
+    const entryCount = buffer.readUInt16LE(eocd + 10);
+    let offset = buffer.readUInt32LE(eocd + 16);
+
+    for (let i = 0; i < entryCount; i++) {
+      if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== CENTRAL_HEADER_SIGNATURE) {
+        throw new Error("Corrupt ZIP central directory");
+      }
+      const nameLength = buffer.readUInt16LE(offset + 28);
+      const extraLength = buffer.readUInt16LE(offset + 30);
+      const commentLength = buffer.readUInt16LE(offset + 32);
+      const name = buffer.toString("utf-8", offset + 46, offset + 46 + nameLength);
+
+      this.entries.set(name, {
+        compressionMethod: buffer.readUInt16LE(offset + 10),
+        compressedSize: buffer.readUInt32LE(offset + 20),
+        uncompressedSize: buffer.readUInt32LE(offset + 24),
+        localHeaderOffset: buffer.readUInt32LE(offset + 42),
+      });
+      offset += 46 + nameLength + extraLength + commentLength;
+    }
+  }
+
+  get names(): string[] {
+    return [...this.entries.keys()];
+  }
+
+  has(name: string): boolean {
+    return this.entries.has(name);
+  }
+
+  /**
+   * Read an entry's contents. Returns null if the archive has no such entry.
+   * @throws Error if the entry is corrupt, too large or uses an unsupported compression method
+   */
+  read(name: string): Buffer | null {
+    const entry = this.entries.get(name);
+    if (!entry) return null;
+
+    if (entry.uncompressedSize > MAX_ENTRY_SIZE) {
+      throw new Error(`ZIP entry ${name} is too large`);
+    }
+
+    const local = entry.localHeaderOffset;
+    if (local + 30 > this.buffer.length || this.buffer.readUInt32LE(local) !== LOCAL_HEADER_SIGNATURE) {
+      throw new Error(`Corrupt ZIP entry ${name}`);
+    }
+    // The local header's name/extra lengths can differ from the central directory's
+    const dataStart = local + 30 + this.buffer.readUInt16LE(local + 26) + this.buffer.readUInt16LE(local + 28);
+    const data = this.buffer.subarray(dataStart, dataStart + entry.compressedSize);
+
+    switch (entry.compressionMethod) {
+      case METHOD_STORED:
+        return Buffer.from(data);
+      case METHOD_DEFLATE:
+        return inflateRawSync(data, { maxOutputLength: MAX_ENTRY_SIZE });
+      default:
+        throw new Error(`Unsupported ZIP compression method ${entry.compressionMethod} for ${name}`);
+    }
+  }
+
+  readText(name: string): string | null {
+    return this.read(name)?.toString("utf-8") ?? null;
+  }
+
+  private findEndOfCentralDirectory(): number {
+    const stop = Math.max(0, this.buffer.length - EOCD_MIN_SIZE - MAX_COMMENT_SIZE);
+    for (let offset = this.buffer.length - EOCD_MIN_SIZE; offset >= stop; offset--) {
+      if (this.buffer.readUInt32LE(offset) === EOCD_SIGNATURE) {
+        return offset;
+      }
+    }
+    throw new Error("Not a ZIP archive");
+  }
+}
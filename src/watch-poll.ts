@@ -0,0 +1,79 @@
+/**
+ * Brightspace MCP Server
+ * Copyright (c) 2026 Rohan Muppa. All rights reserved.
+ * Licensed under AGPL-3.0 — see LICENSE file for details.
+ */
+
+import { log } from "./utils/logger.js";
+import { diffSnapshots, mergeSnapshot, revertChanges, CHANGE_KINDS } from "./utils/change-feed.js";
+import type { Change, ChangeKind, SnapshotStore } from "./utils/change-feed.js";
+import { formatNotificationMessage } from "./utils/notifiers.js";
+import type { NotificationSink } from "./utils/notifiers.js";
+import { takeSnapshot } from "./tools/get-whats-new.js";
+import type { D2LApiClient, EnrollmentService } from "./api/index.js";
+
+/**
+ * Poll every watched course once and send notifications for changes.
+ * Courses are checked one after another so polling stays well inside the
+ * client's rate limit alongside any interactive use.
+ *
+ * The snapshot is saved after delivery, with any change a sink failed to take
+ * left out, so the next poll reports it again (to every sink — at-least-once).
+ */
+export async function pollOnce(
+  apiClient: D2LApiClient,
+  enrollments: EnrollmentService,
+  store: SnapshotStore,
+  sinks: NotificationSink[],
+  kinds: ChangeKind[],
+  courseId?: number
+): Promise<number> {
+  const courses = (await enrollments.listCourses()).filter((course) => !courseId || course.id === courseId);
+
+  let sent = 0;
+  for (const course of courses) {
+    try {
+      const previous = await store.load(course.id);
+      // The baseline records every kind, so widening --kinds later doesn't report old items as new
+      const checked = previous ? kinds : CHANGE_KINDS;
+      const snapshot = await takeSnapshot(apiClient, course.id, previous, checked);
+      if (snapshot.stale) {
+        log("INFO", `watch: ${course.code || course.name} was read from the offline cache, will retry next poll`);
+        continue;
+      }
+      const current = snapshot.data;
+      const changes = diffSnapshots(previous, current).filter((change) => kinds.includes(change.kind));
+
+      const undelivered: Change[] = [];
+      for (const change of changes) {
+        const notification = {
+          ...change,
+          courseId: course.id,
+          courseName: course.name,
+          courseCode: course.code,
+          message: formatNotificationMessage(change, course.code || course.name),
+          detectedAt: current.takenAt,
+        };
+        let delivered = true;
+        for (const sink of sinks) {
+          try {
+            await sink.send(notification);
+            sent++;
+          } catch (error) {
+            log("WARN", `watch: ${sink.name} notification failed, will retry next poll`, error);
+            delivered = false;
+          }
+        }
+        if (!delivered) undelivered.push(change);
+      }
+
+      await store.save(revertChanges(mergeSnapshot(previous, current, checked), previous, undelivered));
+      if (!previous) {
+        log("INFO", `watch: recorded baseline for ${course.code || course.name}`);
+      }
+    } catch (error) {
+      log("WARN", `watch: failed to check course ${course.id}, will retry next poll`, error);
+    }
+  }
+  return sent;
+}
@@ -0,0 +1,116 @@
+#!/usr/bin/env node
+/**
+ * Brightspace MCP Server
+ * Copyright (c) 2026 Rohan Muppa. All rights reserved.
+ * Licensed under AGPL-3.0 — see LICENSE file for details.
+ *
+ * https://github.com/rohanmuppa/brightspace-mcp-server
+ */
+
+// brightspace-mcp-server watch [--interval MIN] [--kinds grade,announcement,feedback] [--course ID]
+//                              [--stdout] [--webhook URL] [--ntfy URL] [--exec CMD] [--once] [--profile NAME]
+// Polls Brightspace on a schedule and sends a notification for every new grade,
+// announcement or piece of feedback. The first poll only records a baseline.
+
+import { parseArgs } from "node:util";
+import dotenv from "dotenv";
+import { loadConfig } from "./utils/config.js";
+import { log } from "./utils/logger.js";
+import { SnapshotStore, CHANGE_KINDS } from "./utils/change-feed.js";
+import type { ChangeKind } from "./utils/change-feed.js";
+import {
+  StdoutSink,
+  WebhookSink,
+  NtfySink,
+  CommandSink,
+} from "./utils/notifiers.js";
+import type { NotificationSink } from "./utils/notifiers.js";
+import { createServerContext } from "./server.js";
+import { pollOnce } from "./watch-poll.js";
+
+dotenv.config({ quiet: true });
+
+// Separate from get_whats_new's snapshots so the daemon doesn't swallow chat "what's new" results
+const WATCH_SNAPSHOT_DIR = "watch-snapshots";
+const DEFAULT_KINDS: ChangeKind[] = ["grade", "announcement", "feedback"];
+const DEFAULT_INTERVAL_MINUTES = 15;
+const MIN_INTERVAL_MINUTES = 5;
+
+function parseKinds(value: string | undefined): ChangeKind[] {
+  if (!value) return DEFAULT_KINDS;
+  const kinds = value.split(",").map((k) => k.trim().toLowerCase()).filter(Boolean);
+  for (const kind of kinds) {
+    if (!(CHANGE_KINDS as readonly string[]).includes(kind)) {
+      throw new Error(`Unknown kind "${kind}" (expected: ${CHANGE_KINDS.join(", ")})`);
+    }
+  }
+  return kinds as ChangeKind[];
+}
+
+async function main(): Promise<void> {
+  try {
+    const { values } = parseArgs({
+      args: process.argv.slice(3),
+      options: {
+        interval: { type: "string" },
+        kinds: { type: "string" },
+        course: { type: "string" },
+        stdout: { type: "boolean", default: false },
+        webhook: { type: "string", multiple: true },
+        ntfy: { type: "string", multiple: true },
+        exec: { type: "string", multiple: true },
+        once: { type: "boolean", default: false },
+        profile: { type: "string" }, // read by loadConfig()
+      },
+    });
+
+    const intervalMinutes = values.interval ? Number(values.interval) : DEFAULT_INTERVAL_MINUTES;
+    if (!Number.isFinite(intervalMinutes) || intervalMinutes < MIN_INTERVAL_MINUTES) {
+      throw new Error(`--interval must be at least ${MIN_INTERVAL_MINUTES} minutes`);
+    }
+    const courseId = values.course ? Number(values.course) : undefined;
+    if (courseId !== undefined && (!Number.isInteger(courseId) || courseId <= 0)) {
+      throw new Error(`Invalid --course "${values.course}"`);
+    }
+    const kinds = parseKinds(values.kinds);
+
+    const sinks: NotificationSink[] = [
+      ...(values.webhook ?? []).map((url) => new WebhookSink(url)),
+      ...(values.ntfy ?? []).map((url) => new NtfySink(url, process.env.NTFY_TOKEN)),
+      ...(values.exec ?? []).map((command) => new CommandSink(command)),
+    ];
+    if (values.stdout || sinks.length === 0) {
+      sinks.unshift(new StdoutSink());
+    }
+
+    const config = loadConfig();
+    const { apiClient, enrollments } = await createServerContext(config);
+    const store = new SnapshotStore(config.sessionDir, WATCH_SNAPSHOT_DIR);
+
+    // Status goes to stderr — stdout is reserved for the JSON-lines sink
+    console.error(
+      `Watching ${kinds.join(", ")} every ${intervalMinutes} min → ${sinks.map((s) => s.name).join(", ")}`
+    );
+
+    process.on("SIGINT", () => process.exit(0));
+    process.on("SIGTERM", () => process.exit(0));
+
+    for (;;) {
+      try {
+        const sent = await pollOnce(apiClient, enrollments, store, sinks, kinds, courseId);
+        log("INFO", `watch: poll complete, ${sent} notifications sent`);
+      } catch (error) {
+        log("ERROR", "watch: poll failed, will retry next interval", error);
+      }
+
+      if (values.once) break;
+      await new Promise((resolve) => setTimeout(resolve, intervalMinutes * 60 * 1000));
+    }
+    process.exit(0);
+  } catch (error) {
+    console.error("Watch failed:", error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+}
+
+main();
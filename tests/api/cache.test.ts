@@ -125,4 +125,15 @@ describe("TTLCache", () => {
     expect(cache.get("long")).toBeUndefined();
     expect(cache.size).toBe(0);
   });
+
+  it("should delete only entries matching a predicate", () => {
+    cache.set("/a/1", "one", 1000);
+    cache.set("/a/2", "two", 1000);
+    cache.set("/b/1", "three", 1000);
+
+    expect(cache.deleteWhere((key) => key.startsWith("/a/"))).toBe(2);
+    expect(cache.has("/a/1")).toBe(false);
+    expect(cache.has("/a/2")).toBe(false);
+    expect(cache.get("/b/1")).toBe("three");
+  });
 });
@@ -1,6 +1,7 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import { D2LApiClient } from "../../src/api/client.js";
 import { ApiError, RateLimitError, NetworkError } from "../../src/api/errors.js";
+import type { DiskCache, DiskCacheEntry } from "../../src/api/disk-cache.js";
 import type { TokenManager } from "../../src/auth/token-manager.js";
 import type { TokenData } from "../../src/types/index.js";
 
@@ -27,6 +28,29 @@ const createMockTokenManager = (): TokenManager => {
   } as TokenManager;
 };
 
+// In-memory stand-in for DiskCache
+const createMockDiskCache = (entries: Record<string, DiskCacheEntry<unknown>> = {}): DiskCache => {
+  return {
+    async get(key: string) {
+      return entries[key] ?? null;
+    },
+    async set(key: string, value: unknown, ttlMs: number) {
+      entries[key] = { data: value, fetchedAt: Date.now(), expiresAt: Date.now() + ttlMs };
+    },
+    async delete(key: string) {
+      delete entries[key];
+    },
+    async deleteWhere(predicate: (key: string) => boolean) {
+      const keys = Object.keys(entries).filter(predicate);
+      for (const key of keys) delete entries[key];
+      return keys.length;
+    },
+    async clear() {
+      for (const key of Object.keys(entries)) delete entries[key];
+    },
+  } as unknown as DiskCache;
+};
+
 // Mock token data
 const createMockToken = (prefix: string = ""): TokenData => ({
   accessToken: `${prefix}test-token-12345678`,
@@ -665,4 +689,554 @@ describe("D2LApiClient", () => {
       expect(client.cacheSize).toBe(0);
     });
   });
+
+  describe("getWithMeta() - disk cache tier", () => {
+    const initClient = async (diskCache: DiskCache) => {
+      const client = new D2LApiClient({
+        baseUrl: "https://purdue.brightspace.com",
+        tokenManager: mockTokenManager,
+        diskCache,
+      });
+
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => [
+          { ProductCode: "lp", LatestVersion: "1.56" },
+          { ProductCode: "le", LatestVersion: "1.91" },
+        ],
+      });
+      await client.initialize();
+      await mockTokenManager.setToken(createMockToken());
+      return client;
+    };
+
+    it("should serve fresh disk entries without fetching", async () => {
+      const fetchedAt = Date.now() - 1000;
+      const client = await initClient(
+        createMockDiskCache({
+          "/path": { data: { Items: [1] }, fetchedAt, expiresAt: Date.now() + 60000 },
+        }),
+      );
+
+      const result = await client.getWithMeta("/path", { ttl: 60000 });
+
+      expect(result).toEqual({ data: { Items: [1] }, stale: false, fetchedAt });
+      expect(mockFetch).toHaveBeenCalledTimes(1); // init only
+    });
+
+    it("should write fetched responses through to disk", async () => {
+      const entries: Record<string, DiskCacheEntry<unknown>> = {};
+      const client = await initClient(createMockDiskCache(entries));
+
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => ({ data: "fresh" }),
+      });
+
+      await client.get("/path", { ttl: 60000 });
+
+      expect(entries["/path"]?.data).toEqual({ data: "fresh" });
+    });
+
+    it("should fall back to expired disk entries flagged stale when the network fails", async () => {
+      const fetchedAt = Date.now() - 7200000;
+      const client = await initClient(
+        createMockDiskCache({
+          "/path": { data: { Items: [1] }, fetchedAt, expiresAt: Date.now() - 3600000 },
+        }),
+      );
+
+      mockFetch.mockRejectedValueOnce(new TypeError("Failed to fetch"));
+
+      const result = await client.getWithMeta("/path", { ttl: 60000 });
+
+      expect(result).toEqual({ data: { Items: [1] }, stale: true, fetchedAt });
+    });
+
+    it("should fall back on 5xx responses", async () => {
+      const client = await initClient(
+        createMockDiskCache({
+          "/path": { data: "old", fetchedAt: 1, expiresAt: 2 },
+        }),
+      );
+
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 503,
+        text: async () => "Service Unavailable",
+      });
+
+      const result = await client.getWithMeta("/path", { ttl: 60000 });
+      expect(result.stale).toBe(true);
+      expect(result.data).toBe("old");
+    });
+
+    it("should not fall back on 403 responses", async () => {
+      const client = await initClient(
+        createMockDiskCache({
+          "/path": { data: "old", fetchedAt: 1, expiresAt: 2 },
+        }),
+      );
+
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 403,
+        text: async () => "Forbidden",
+      });
+
+      await expect(client.getWithMeta("/path", { ttl: 60000 })).rejects.toThrow(ApiError);
+    });
+
+    it("should throw NetworkError when there is no disk entry to fall back to", async () => {
+      const client = await initClient(createMockDiskCache());
+
+      mockFetch.mockRejectedValueOnce(new TypeError("Failed to fetch"));
+
+      await expect(client.get("/path", { ttl: 60000 })).rejects.toThrow(NetworkError);
+    });
+  });
+
+  describe("paginate() / getAllPages()", () => {
+    const initClient = async () => {
+      const client = new D2LApiClient({
+        baseUrl: "https://purdue.brightspace.com",
+        tokenManager: mockTokenManager,
+      });
+
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => [
+          { ProductCode: "lp", LatestVersion: "1.56" },
+          { ProductCode: "le", LatestVersion: "1.91" },
+        ],
+      });
+      await client.initialize();
+      await mockTokenManager.setToken(createMockToken());
+      return client;
+    };
+
+    const jsonResponse = (body: unknown) => ({
+      ok: true,
+      status: 200,
+      json: async () => body,
+    });
+
+    it("should follow ObjectListPage Next links", async () => {
+      const client = await initClient();
+
+      mockFetch
+        .mockResolvedValueOnce(jsonResponse({
+          Objects: [{ id: 1 }, { id: 2 }],
+          Next: "https://purdue.brightspace.com/d2l/api/le/1.91/1/classlist/paged/?bookmark=2",
+        }))
+        .mockResolvedValueOnce(jsonResponse({ Objects: [{ id: 3 }], Next: null }));
+
+      const items = await client.getAllPages("/d2l/api/le/1.91/1/classlist/paged/");
+
+      expect(items).toEqual([{ id: 1 }, { id: 2 }, { id: 3 }]);
+      expect(mockFetch).toHaveBeenLastCalledWith(
+        "https://purdue.brightspace.com/d2l/api/le/1.91/1/classlist/paged/?bookmark=2",
+        expect.anything(),
+      );
+    });
+
+    it("should follow PagedResultSet bookmarks while HasMoreItems", async () => {
+      const client = await initClient();
+
+      mockFetch
+        .mockResolvedValueOnce(jsonResponse({
+          Items: [{ id: 1 }],
+          PagingInfo: { Bookmark: "abc", HasMoreItems: true },
+        }))
+        .mockResolvedValueOnce(jsonResponse({
+          Items: [{ id: 2 }],
+          PagingInfo: { Bookmark: "def", HasMoreItems: false },
+        }));
+
+      const items = await client.getAllPages("/d2l/api/lp/1.56/enrollments/myenrollments/?orgUnitTypeId=3");
+
+      expect(items).toEqual([{ id: 1 }, { id: 2 }]);
+      expect(mockFetch).toHaveBeenLastCalledWith(
+        "https://purdue.brightspace.com/d2l/api/lp/1.56/enrollments/myenrollments/?orgUnitTypeId=3&bookmark=abc",
+        expect.anything(),
+      );
+    });
+
+    it("should treat a plain array as a single page", async () => {
+      const client = await initClient();
+
+      mockFetch.mockResolvedValueOnce(jsonResponse([{ id: 1 }]));
+
+      expect(await client.getAllPages("/folders/")).toEqual([{ id: 1 }]);
+      expect(mockFetch).toHaveBeenCalledTimes(2); // init + 1 page
+    });
+
+    it("should stop at maxItems", async () => {
+      const client = await initClient();
+
+      mockFetch.mockResolvedValueOnce(jsonResponse({
+        Items: [{ id: 1 }, { id: 2 }, { id: 3 }],
+        PagingInfo: { Bookmark: "abc", HasMoreItems: true },
+      }));
+
+      const items = await client.getAllPages("/items/", { maxItems: 2 });
+
+      expect(items).toEqual([{ id: 1 }, { id: 2 }]);
+      expect(mockFetch).toHaveBeenCalledTimes(2); // second page never requested
+    });
+
+    it("should not follow Next links to another origin", async () => {
+      const client = await initClient();
+
+      mockFetch.mockResolvedValueOnce(jsonResponse({
+        Objects: [{ id: 1 }],
+        Next: "https://evil.example.com/steal",
+      }));
+
+      expect(await client.getAllPages("/paged/")).toEqual([{ id: 1 }]);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("should stop when a Next link repeats", async () => {
+      const client = await initClient();
+
+      mockFetch.mockResolvedValueOnce(jsonResponse({
+        Objects: [{ id: 1 }],
+        Next: "https://purdue.brightspace.com/paged/",
+      }));
+
+      expect(await client.getAllPages("/paged/")).toEqual([{ id: 1 }]);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("postMultipart()", () => {
+    it("should POST a multipart/mixed body and tolerate an empty response", async () => {
+      const client = new D2LApiClient({
+        baseUrl: "https://purdue.brightspace.com",
+        tokenManager: mockTokenManager,
+      });
+
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => [
+          { ProductCode: "lp", LatestVersion: "1.56" },
+          { ProductCode: "le", LatestVersion: "1.91" },
+        ],
+      });
+      await client.initialize();
+      await mockTokenManager.setToken(createMockToken());
+
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        text: async () => "",
+      });
+
+      const result = await client.postMultipart(
+        "/d2l/api/le/1.91/123/dropbox/folders/7/submissions/mysubmissions/",
+        [
+          { contentType: "application/json", data: JSON.stringify({ Text: "hi", Html: null }) },
+          { contentType: "application/pdf", filename: "essay.pdf", data: Buffer.from("%PDF-1.4") },
+        ]
+      );
+
+      expect(result).toBeUndefined();
+
+      const [url, init] = mockFetch.mock.calls[1];
+      expect(url).toBe(
+        "https://purdue.brightspace.com/d2l/api/le/1.91/123/dropbox/folders/7/submissions/mysubmissions/"
+      );
+      expect(init.method).toBe("POST");
+
+      const contentType: string = init.headers["Content-Type"];
+      const boundary = contentType.match(/^multipart\/mixed;boundary=(.+)$/)?.[1];
+      expect(boundary).toBeDefined();
+
+      const body = Buffer.from(init.body).toString("utf-8");
+      expect(body).toContain(`--${boundary}\r\nContent-Type: application/json\r\n\r\n{"Text":"hi","Html":null}\r\n`);
+      expect(body).toContain('Content-Disposition: form-data; name=""; filename="essay.pdf"');
+      expect(body.endsWith(`--${boundary}--\r\n`)).toBe(true);
+    });
+
+    it("should not cache POST responses", async () => {
+      const client = new D2LApiClient({
+        baseUrl: "https://purdue.brightspace.com",
+        tokenManager: mockTokenManager,
+      });
+
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => [
+          { ProductCode: "lp", LatestVersion: "1.56" },
+          { ProductCode: "le", LatestVersion: "1.91" },
+        ],
+      });
+      await client.initialize();
+      await mockTokenManager.setToken(createMockToken());
+
+      const path = "/d2l/api/le/1.91/123/dropbox/folders/7/submissions/mysubmissions/";
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, status: 200, text: async () => "" })
+        .mockResolvedValueOnce({ ok: true, status: 200, text: async () => "" });
+
+      await client.postMultipart(path, [{ contentType: "text/plain", data: "a" }]);
+      await client.postMultipart(path, [{ contentType: "text/plain", data: "a" }]);
+
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe("post() / put() / delete()", () => {
+    const initClient = async (diskCache?: DiskCache) => {
+      const client = new D2LApiClient({
+        baseUrl: "https://purdue.brightspace.com",
+        tokenManager: mockTokenManager,
+        diskCache,
+      });
+
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => [
+          { ProductCode: "lp", LatestVersion: "1.56" },
+          { ProductCode: "le", LatestVersion: "1.91" },
+        ],
+      });
+      await client.initialize();
+      return client;
+    };
+
+    const postsPath = "/d2l/api/le/1.91/123/discussions/forums/5/topics/9/posts/";
+
+    it("should send JSON bodies and return the parsed response", async () => {
+      const client = await initClient();
+      await mockTokenManager.setToken(createMockToken());
+
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        text: async () => JSON.stringify({ PostId: 77 }),
+      });
+
+      const result = await client.post<{ PostId: number }>(postsPath, { Subject: "Hi" });
+
+      expect(result).toEqual({ PostId: 77 });
+      const [, init] = mockFetch.mock.calls[1];
+      expect(init.method).toBe("POST");
+      expect(init.headers["Content-Type"]).toBe("application/json");
+      expect(init.body).toBe(JSON.stringify({ Subject: "Hi" }));
+    });
+
+    it("should evict the affected collection from memory and disk after a write", async () => {
+      const diskEntries: Record<string, DiskCacheEntry<unknown>> = {};
+      const client = await initClient(createMockDiskCache(diskEntries));
+      await mockTokenManager.setToken(createMockToken());
+
+      const otherPath = "/d2l/api/le/1.91/123/discussions/forums/5/topics/10/posts/";
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, status: 200, json: async () => [{ PostId: 1 }] })
+        .mockResolvedValueOnce({ ok: true, status: 200, json: async () => [{ PostId: 2 }] });
+      await client.get(postsPath, { ttl: 60000 });
+      await client.get(otherPath, { ttl: 60000 });
+      expect(client.cacheSize).toBe(2);
+
+      mockFetch.mockResolvedValueOnce({ ok: true, status: 200, text: async () => "" });
+      await client.post(postsPath, { Subject: "Hi" });
+
+      expect(client.cacheSize).toBe(1);
+      expect(diskEntries[postsPath]).toBeUndefined();
+      expect(diskEntries[otherPath]).toBeDefined();
+
+      // Next read goes back to the network
+      mockFetch.mockResolvedValueOnce({ ok: true, status: 200, json: async () => [{ PostId: 1 }, { PostId: 3 }] });
+      expect(await client.get(postsPath, { ttl: 60000 })).toEqual([{ PostId: 1 }, { PostId: 3 }]);
+    });
+
+    it("should evict a resource and its parent collection on put() and delete()", async () => {
+      const client = await initClient();
+      await mockTokenManager.setToken(createMockToken());
+
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, status: 200, json: async () => [{ PostId: 42 }] })
+        .mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({ PostId: 42 }) });
+      await client.get(postsPath, { ttl: 60000 });
+      await client.get(`${postsPath}42`, { ttl: 60000 });
+
+      mockFetch.mockResolvedValueOnce({ ok: true, status: 200, text: async () => "" });
+      await client.put(`${postsPath}42`, { Subject: "Edited" });
+      expect(client.cacheSize).toBe(0);
+
+      mockFetch.mockResolvedValueOnce({ ok: true, status: 200, text: async () => "" });
+      await client.delete(`${postsPath}42`);
+      const [, init] = mockFetch.mock.calls[mockFetch.mock.calls.length - 1];
+      expect(init.method).toBe("DELETE");
+      expect(init.body).toBeUndefined();
+    });
+
+    it("should not invalidate the cache when the write fails", async () => {
+      const client = await initClient();
+      await mockTokenManager.setToken(createMockToken());
+
+      mockFetch.mockResolvedValueOnce({ ok: true, status: 200, json: async () => [] });
+      await client.get(postsPath, { ttl: 60000 });
+
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 400, text: async () => "Bad Request" });
+      await expect(client.post(postsPath, {})).rejects.toThrow(ApiError);
+      expect(client.cacheSize).toBe(1);
+    });
+
+    it("should notify invalidation listeners after a successful write", async () => {
+      const client = await initClient();
+      await mockTokenManager.setToken(createMockToken());
+
+      const seen: string[][] = [];
+      const unsubscribe = client.onInvalidate((prefixes) => seen.push(prefixes));
+
+      mockFetch.mockResolvedValueOnce({ ok: true, status: 200, text: async () => "" });
+      await client.put(`${postsPath}42`, { Subject: "Edited" });
+      expect(seen).toEqual([[`${postsPath}42`, postsPath]]);
+
+      unsubscribe();
+      mockFetch.mockResolvedValueOnce({ ok: true, status: 200, text: async () => "" });
+      await client.delete(`${postsPath}42`);
+      expect(seen).toHaveLength(1);
+    });
+
+    it("should fetch and send an XSRF token for cookie-based writes", async () => {
+      const client = await initClient();
+      await mockTokenManager.setToken({
+        ...createMockToken(),
+        accessToken: "cookie:d2lSessionVal=abc; d2lSecureSessionVal=xyz",
+      });
+
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({ referrerToken: "xsrf-1" }) })
+        .mockResolvedValueOnce({ ok: true, status: 200, text: async () => "" })
+        .mockResolvedValueOnce({ ok: true, status: 200, text: async () => "" });
+
+      await client.post(postsPath, { Subject: "a" });
+      await client.post(postsPath, { Subject: "b" });
+
+      expect(mockFetch.mock.calls[1][0]).toBe("https://purdue.brightspace.com/d2l/lp/auth/xsrf-tokens");
+      expect(mockFetch.mock.calls[2][1].headers["X-Csrf-Token"]).toBe("xsrf-1");
+      // Token is reused for the same session
+      expect(mockFetch).toHaveBeenCalledTimes(4);
+      expect(mockFetch.mock.calls[3][1].headers["X-Csrf-Token"]).toBe("xsrf-1");
+    });
+
+    it("should refresh the XSRF token once when a cookie-based write gets 403", async () => {
+      const client = await initClient();
+      await mockTokenManager.setToken({
+        ...createMockToken(),
+        accessToken: "cookie:d2lSessionVal=abc",
+      });
+
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({ referrerToken: "old" }) })
+        .mockResolvedValueOnce({ ok: false, status: 403, text: async () => "Forbidden" })
+        .mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({ referrerToken: "new" }) })
+        .mockResolvedValueOnce({ ok: true, status: 200, text: async () => "" });
+
+      await client.post(postsPath, { Subject: "a" });
+
+      expect(mockFetch.mock.calls[4][1].headers["X-Csrf-Token"]).toBe("new");
+    });
+
+    it("should not send an XSRF token with Bearer auth", async () => {
+      const client = await initClient();
+      await mockTokenManager.setToken(createMockToken());
+
+      mockFetch.mockResolvedValueOnce({ ok: true, status: 200, text: async () => "" });
+      await client.post(postsPath);
+
+      const [, init] = mockFetch.mock.calls[1];
+      expect(init.headers["X-Csrf-Token"]).toBeUndefined();
+      expect(init.headers["Content-Type"]).toBeUndefined();
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("switchTenant()", () => {
+    const versionsResponse = (lp: string, le: string) => ({
+      ok: true,
+      status: 200,
+      json: async () => [
+        { ProductCode: "lp", LatestVersion: lp },
+        { ProductCode: "le", LatestVersion: le },
+      ],
+    });
+
+    it("should use the new base URL, versions and token and drop cached responses", async () => {
+      const client = new D2LApiClient({
+        baseUrl: "https://purdue.brightspace.com",
+        tokenManager: mockTokenManager,
+      });
+      mockFetch.mockResolvedValueOnce(versionsResponse("1.56", "1.91"));
+      await client.initialize();
+      await mockTokenManager.setToken(createMockToken());
+
+      mockFetch.mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({ a: 1 }) });
+      await client.get("/d2l/api/lp/1.56/users/whoami", { ttl: 60000 });
+      expect(client.cacheSize).toBe(1);
+
+      const otherTokenManager = createMockTokenManager();
+      await otherTokenManager.setToken(createMockToken("other-"));
+      mockFetch.mockResolvedValueOnce(versionsResponse("1.50", "1.80"));
+
+      await client.switchTenant({
+        baseUrl: "https://other.brightspace.com/",
+        tokenManager: otherTokenManager,
+      });
+
+      expect(client.cacheSize).toBe(0);
+      expect(client.apiVersions).toEqual({ lp: "1.50", le: "1.80" });
+      expect(client.lp("/users/whoami")).toBe("/d2l/api/lp/1.50/users/whoami");
+
+      mockFetch.mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({ b: 2 }) });
+      await client.get("/d2l/api/lp/1.50/users/whoami");
+
+      const [url, init] = mockFetch.mock.calls.at(-1)!;
+      expect(url).toBe("https://other.brightspace.com/d2l/api/lp/1.50/users/whoami");
+      expect(init.headers.Authorization).toBe("Bearer other-test-token-12345678");
+    });
+
+    it("should keep the current tenant if version discovery fails", async () => {
+      const client = new D2LApiClient({
+        baseUrl: "https://purdue.brightspace.com",
+        tokenManager: mockTokenManager,
+      });
+      mockFetch.mockResolvedValueOnce(versionsResponse("1.56", "1.91"));
+      await client.initialize();
+
+      mockFetch.mockRejectedValueOnce(new TypeError("fetch failed"));
+
+      await expect(
+        client.switchTenant({
+          baseUrl: "https://unreachable.brightspace.com",
+          tokenManager: createMockTokenManager(),
+        }),
+      ).rejects.toThrow();
+      expect(client.apiVersions).toEqual({ lp: "1.56", le: "1.91" });
+    });
+
+    it("should reject HTTP base URLs", async () => {
+      const client = new D2LApiClient({
+        baseUrl: "https://purdue.brightspace.com",
+        tokenManager: mockTokenManager,
+      });
+
+      await expect(
+        client.switchTenant({
+          baseUrl: "http://other.brightspace.com",
+          tokenManager: mockTokenManager,
+        }),
+      ).rejects.toThrow("HTTPS is required");
+    });
+  });
 });
@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { DiskCache } from "../../src/api/disk-cache.js";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import * as os from "node:os";
+
+describe("DiskCache", () => {
+  let testDir: string;
+  let diskCache: DiskCache;
+
+  beforeEach(() => {
+    // Create isolated temp directory for each test
+    testDir = path.join(
+      os.tmpdir(),
+      `disk-cache-test-${Date.now()}-${Math.random().toString(36).slice(2)}`
+    );
+    diskCache = new DiskCache(testDir, { maxStaleMs: 60000 });
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    try {
+      await fs.rm(testDir, { recursive: true, force: true });
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  it("set then get returns the stored value with timestamps", async () => {
+    await diskCache.set("/d2l/api/lp/1.56/users/whoami", { Identifier: "42" }, 5000);
+
+    const entry = await diskCache.get<{ Identifier: string }>("/d2l/api/lp/1.56/users/whoami");
+
+    expect(entry?.data).toEqual({ Identifier: "42" });
+    expect(entry!.expiresAt - entry!.fetchedAt).toBe(5000);
+  });
+
+  it("returns null for a missing key", async () => {
+    expect(await diskCache.get("/missing")).toBeNull();
+  });
+
+  it("stores entries encrypted, not as plaintext", async () => {
+    await diskCache.set("/secret", { name: "Data Structures" }, 5000);
+
+    const files = await fs.readdir(path.join(testDir, "cache"));
+    expect(files).toHaveLength(1);
+
+    const raw = await fs.readFile(path.join(testDir, "cache", files[0]), "utf-8");
+    expect(raw).not.toContain("Data Structures");
+    expect(raw).not.toContain("/secret");
+  });
+
+  it("returns expired entries within the stale window", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    await diskCache.set("/path", "value", 1000);
+
+    vi.setSystemTime(Date.now() + 30000);
+
+    const entry = await diskCache.get<string>("/path");
+    expect(entry?.data).toBe("value");
+    expect(entry!.expiresAt).toBeLessThan(Date.now());
+  });
+
+  it("drops entries past the stale window", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    await diskCache.set("/path", "value", 1000);
+
+    vi.setSystemTime(Date.now() + 1000 + 60001);
+
+    expect(await diskCache.get("/path")).toBeNull();
+    expect(await fs.readdir(path.join(testDir, "cache"))).toHaveLength(0);
+  });
+
+  it("returns null when an entry has been tampered with", async () => {
+    await diskCache.set("/path", "value", 5000);
+
+    const [file] = await fs.readdir(path.join(testDir, "cache"));
+    const filePath = path.join(testDir, "cache", file);
+    const cacheFile = JSON.parse(await fs.readFile(filePath, "utf-8"));
+    cacheFile.encrypted.data = cacheFile.encrypted.data.replace(/^./, (c: string) => (c === "a" ? "b" : "a"));
+    await fs.writeFile(filePath, JSON.stringify(cacheFile));
+
+    expect(await diskCache.get("/path")).toBeNull();
+  });
+
+  it("delete and clear remove entries", async () => {
+    await diskCache.set("/a", 1, 5000);
+    await diskCache.set("/b", 2, 5000);
+
+    await diskCache.delete("/a");
+    expect(await diskCache.get("/a")).toBeNull();
+    expect((await diskCache.get("/b"))?.data).toBe(2);
+
+    await diskCache.clear();
+    expect(await diskCache.get("/b")).toBeNull();
+  });
+
+  it("deleteWhere removes only matching keys", async () => {
+    await diskCache.set("/topics/9/posts/", [1], 5000);
+    await diskCache.set("/topics/9/posts/?page=2", [2], 5000);
+    await diskCache.set("/topics/10/posts/", [3], 5000);
+
+    const removed = await diskCache.deleteWhere((key) => key.startsWith("/topics/9/"));
+
+    expect(removed).toBe(2);
+    expect(await diskCache.get("/topics/9/posts/")).toBeNull();
+    expect((await diskCache.get("/topics/10/posts/"))?.data).toEqual([3]);
+  });
+
+  it("sweep removes only entries past the stale window, without being asked for them", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    await diskCache.set("/old", "value", 1000);
+    vi.setSystemTime(Date.now() + 1000 + 60001);
+    await diskCache.set("/new", "value", 1000);
+
+    expect(await diskCache.sweep()).toBe(1);
+    expect(await fs.readdir(path.join(testDir, "cache"))).toHaveLength(1);
+    expect((await diskCache.get("/new"))?.data).toBe("value");
+  });
+
+  it("sweeps left-over stale entries on the first write", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    await diskCache.set("/old", "value", 1000);
+    vi.setSystemTime(Date.now() + 1000 + 60001);
+
+    // A fresh instance, as after a restart
+    await new DiskCache(testDir, { maxStaleMs: 60000 }).set("/new", "value", 1000);
+
+    expect(await fs.readdir(path.join(testDir, "cache"))).toHaveLength(1);
+  });
+
+  it("deleteWhere matches entries it wrote without decrypting them", async () => {
+    await diskCache.set("/topics/9/posts/", [1], 5000);
+    const [file] = await fs.readdir(path.join(testDir, "cache"));
+    const filePath = path.join(testDir, "cache", file);
+    // Undecryptable now, so only the index can tell what key this file holds
+    const cacheFile = JSON.parse(await fs.readFile(filePath, "utf-8"));
+    cacheFile.encrypted.data = "";
+    await fs.writeFile(filePath, JSON.stringify(cacheFile));
+
+    expect(await diskCache.deleteWhere((key) => key.startsWith("/topics/9/"))).toBe(1);
+  });
+
+  it("deleteWhere finds entries written by an earlier process", async () => {
+    await diskCache.set("/topics/9/posts/", [1], 5000);
+    await diskCache.set("/topics/10/posts/", [3], 5000);
+
+    const restarted = new DiskCache(testDir, { maxStaleMs: 60000 });
+
+    expect(await restarted.deleteWhere((key) => key.startsWith("/topics/9/"))).toBe(1);
+    expect(await restarted.get("/topics/9/posts/")).toBeNull();
+    expect((await restarted.get("/topics/10/posts/"))?.data).toEqual([3]);
+  });
+});
+
@@ -0,0 +1,212 @@
+import { describe, it, expect, vi } from "vitest";
+import { EnrollmentService } from "../../src/api/enrollments.js";
+import { ApiError, CourseResolutionError } from "../../src/api/errors.js";
+import type { D2LApiClient } from "../../src/api/client.js";
+import type { AppConfig } from "../../src/types/index.js";
+
+const enrollment = (id: number, name: string, code: string, isActive = true) => ({
+  OrgUnit: { Id: id, Name: name, Code: code },
+  Access: {
+    IsActive: isActive,
+    StartDate: null,
+    EndDate: null,
+    ClasslistRoleName: "Student",
+    LastAccessed: null,
+  },
+});
+
+const ENROLLMENTS = [
+  enrollment(101, "Data Structures", "CS 25100"),
+  enrollment(102, "Linear Algebra", "MA 26500"),
+  enrollment(103, "Old Course", "OLD 10000", false),
+];
+
+// Minimal D2LApiClient stand-in: enrollments from getAllPagesWithMeta, course offerings from get
+const createMockClient = (offerings: Record<string, unknown> = {}, enrollments = ENROLLMENTS) => {
+  const client = {
+    lp: (path: string) => `/d2l/api/lp/1.0${path}`,
+    getAllPagesWithMeta: vi.fn(async (path: string) => ({
+      data: path.includes("isActive=true") ? enrollments.filter((e) => e.Access.IsActive) : enrollments,
+      stale: false,
+      fetchedAt: 0,
+    })),
+    get: vi.fn(async (path: string) => {
+      if (path in offerings) return offerings[path];
+      throw new ApiError(403, path, "Forbidden");
+    }),
+  };
+  return client;
+};
+
+const createConfig = (courseFilter: AppConfig["courseFilter"] = { activeOnly: true }): AppConfig => ({
+  baseUrl: "https://example.brightspace.com",
+  sessionDir: "/tmp/session",
+  tokenTtl: 3600,
+  headless: true,
+  diskCache: false,
+  ssoProvider: "d2l",
+  courseFilter,
+});
+
+const createService = (client = createMockClient(), config = createConfig()) =>
+  new EnrollmentService(client as unknown as D2LApiClient, config);
+
+describe("EnrollmentService", () => {
+  describe("listCourses", () => {
+    it("maps enrollments and applies the configured course filter", async () => {
+      const service = createService(createMockClient(), createConfig({ activeOnly: true, excludeCourseIds: [102] }));
+
+      const courses = await service.listCourses();
+      expect(courses).toEqual([
+        {
+          id: 101,
+          name: "Data Structures",
+          code: "CS 25100",
+          role: "Student",
+          isActive: true,
+          startDate: null,
+          endDate: null,
+          lastAccessed: null,
+        },
+      ]);
+    });
+
+    it("reads the course filter on every call so profile switches apply", async () => {
+      const config = createConfig();
+      const service = createService(createMockClient(), config);
+
+      expect(await service.listCourses()).toHaveLength(2);
+      config.courseFilter = { activeOnly: true, includeCourseIds: [102] };
+      expect((await service.listCourses()).map((c) => c.id)).toEqual([102]);
+    });
+
+    it("includes inactive enrollments when activeOnly is false", async () => {
+      const service = createService(createMockClient(), createConfig({ activeOnly: false }));
+      expect((await service.listCourses({ activeOnly: false })).map((c) => c.id)).toEqual([101, 102, 103]);
+    });
+
+    it("lets an explicit activeOnly: false override the configured activeOnly filter", async () => {
+      const service = createService(createMockClient(), createConfig({ activeOnly: true, excludeCourseIds: [102] }));
+      expect((await service.listCourses({ activeOnly: false })).map((c) => c.id)).toEqual([101, 103]);
+    });
+
+    it("selects a term's courses, past enrollments included", async () => {
+      const semester = (id: string, name: string) => ({ Semester: { Identifier: id, Name: name, Code: null } });
+      const client = createMockClient({
+        "/d2l/api/lp/1.0/courses/101": semester("2", "Spring 2026"),
+        "/d2l/api/lp/1.0/courses/102": semester("2", "Spring 2026"),
+        "/d2l/api/lp/1.0/courses/103": semester("1", "Fall 2025"),
+      });
+      const service = createService(client);
+
+      expect((await service.listCourses({ term: "fall 2025" })).map((c) => c.id)).toEqual([103]);
+      await expect(service.listCourses({ term: "Summer 2024" })).rejects.toThrow(
+        'No term matches "Summer 2024". Your terms: Spring 2026, Fall 2025.'
+      );
+    });
+
+    it("resolves each course's semester, leaving null where it can't be read", async () => {
+      const client = createMockClient({
+        "/d2l/api/lp/1.0/courses/101": { Semester: { Identifier: "9001", Name: "Fall 2026", Code: "202710" } },
+      });
+      const service = createService(client);
+
+      const courses = await service.listCourses({ withTerms: true });
+      expect(courses.map((c) => c.term)).toEqual([{ id: 9001, name: "Fall 2026", code: "202710" }, null]);
+    });
+  });
+
+  describe("resolveCourse", () => {
+    it("resolves a course code to its enrollment, ignoring the course filter", async () => {
+      const service = createService(createMockClient(), createConfig({ activeOnly: true, excludeCourseIds: [101] }));
+
+      const result = await service.resolveCourse("cs 251");
+      expect(result.status).toBe("found");
+      if (result.status === "found") expect(result.course.id).toBe(101);
+    });
+  });
+
+  describe("resolveCourseRef", () => {
+    // Lecture and recitation share a course code prefix
+    const withRecitation = () =>
+      createService(createMockClient({}, [...ENROLLMENTS, enrollment(104, "Linear Algebra Recitation", "MA 26500-REC")]));
+
+    it("prefers courseId over course", async () => {
+      const service = createService();
+      expect(await service.resolveCourseRef({ courseId: 555, course: "cs 251" })).toBe(555);
+    });
+
+    it("resolves a course code or name, falling back to past enrollments", async () => {
+      const service = createService();
+      expect(await service.resolveCourseRef({ course: "CS25100" })).toBe(101);
+      expect(await service.resolveCourseRef({ course: "data structures" })).toBe(101);
+      expect(await service.resolveCourseRef({ course: "old course" })).toBe(103);
+    });
+
+    it("returns undefined when no course is named", async () => {
+      const service = createService();
+      expect(await service.resolveCourseRef({ course: "  " })).toBeUndefined();
+    });
+
+    it("uses an unmatched numeric course as an ID", async () => {
+      const service = createService();
+      expect(await service.resolveCourseRef({ course: "987654" })).toBe(987654);
+    });
+
+    it("lists the candidates when a course is ambiguous", async () => {
+      const service = withRecitation();
+
+      const error = await service.resolveCourseRef({ course: "ma 265" }).catch((e) => e);
+      expect(error).toBeInstanceOf(CourseResolutionError);
+      expect(error.message).toContain("MA 26500 — Linear Algebra (courseId 102)");
+      expect(error.message).toContain("MA 26500-REC — Linear Algebra Recitation (courseId 104)");
+      expect(error.candidates.map((c: { id: number }) => c.id)).toEqual([102, 104]);
+    });
+
+    it("rejects a course that matches nothing", async () => {
+      const service = createService();
+      await expect(service.resolveCourseRef({ course: "organic chemistry" })).rejects.toThrow(
+        /No enrolled course matches "organic chemistry"/
+      );
+    });
+
+    it("requireCourseRef rejects a call without any course", async () => {
+      const service = withRecitation();
+      await expect(service.requireCourseRef({})).rejects.toBeInstanceOf(CourseResolutionError);
+      expect(await service.requireCourseRef({ course: "ma 265 rec" })).toBe(104);
+    });
+  });
+
+  describe("forEachCourse", () => {
+    const courses = [1, 2, 3, 4, 5, 6].map((id) => ({ id, name: `Course ${id}` }));
+
+    it("keeps course order and collects failures without throwing", async () => {
+      const service = createService();
+
+      const { results, failures } = await service.forEachCourse(courses, "test", async (course) => {
+        if (course.id === 2) throw new ApiError(403, "/x", "Forbidden");
+        if (course.id === 5) throw new Error("boom");
+        return course.id * 10;
+      });
+
+      expect(results.map((r) => r.value)).toEqual([10, 30, 40, 60]);
+      expect(failures.map((f) => f.course.id)).toEqual([2, 5]);
+    });
+
+    it("runs a bounded number of courses at once", async () => {
+      const service = createService();
+      let running = 0;
+      let peak = 0;
+
+      await service.forEachCourse(courses, "test", async () => {
+        running++;
+        peak = Math.max(peak, running);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        running--;
+      });
+
+      expect(peak).toBeGreaterThan(1);
+      expect(peak).toBeLessThan(courses.length);
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { ResourceUpdatedNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
+import { registerCourseResources } from "../../src/resources/index.js";
+import type { D2LApiClient, EnrollmentService } from "../../src/api/index.js";
+
+const URI = "brightspace://course/101/announcements";
+
+const newsItem = (id: number, title: string) => ({
+  Id: id, Title: title, Body: { Text: title, Html: "" }, CreatedBy: null,
+  StartDate: "2026-03-01T12:00:00Z", IsPublished: true, IsPinned: false,
+});
+
+// Serves whatever `news` holds when read; listeners are kept so tests can invalidate
+const createMockClient = (state: { news: unknown[] }) => {
+  const listeners: Array<(prefixes: string[]) => void> = [];
+  const client = {
+    le: (courseId: number, path: string) => `/d2l/api/le/1.0/${courseId}${path}`,
+    get: vi.fn(async () => state.news),
+    onInvalidate: (listener: (prefixes: string[]) => void) => {
+      listeners.push(listener);
+      return () => undefined;
+    },
+  } as unknown as D2LApiClient;
+  return { client, invalidate: (prefixes: string[]) => listeners.forEach((l) => l(prefixes)) };
+};
+
+async function connect(apiClient: D2LApiClient) {
+  const server = new McpServer({ name: "test", version: "0.0.0" });
+  registerCourseResources(server, apiClient, { listCourses: async () => [] } as unknown as EnrollmentService);
+  const client = new Client({ name: "test-client", version: "0.0.0" });
+  const updated: string[] = [];
+  client.setNotificationHandler(ResourceUpdatedNotificationSchema, (notification) => {
+    updated.push(notification.params.uri);
+  });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  return { client, updated };
+}
+
+describe("course resource subscriptions", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("notifies when a re-read returns different contents, and only then", async () => {
+    vi.useFakeTimers({ toFake: ["setInterval", "clearInterval", "Date"] });
+    const state = { news: [newsItem(1, "Welcome")] };
+    const { client: apiClient } = createMockClient(state);
+    const { client, updated } = await connect(apiClient);
+
+    await client.subscribeResource({ uri: URI });
+    await vi.advanceTimersByTimeAsync(10 * 60_000);
+    expect(updated).toEqual([]);
+
+    state.news = [newsItem(2, "Exam moved"), newsItem(1, "Welcome")];
+    await vi.advanceTimersByTimeAsync(5 * 60_000);
+    expect(updated).toEqual([URI]);
+
+    await client.unsubscribeResource({ uri: URI });
+    state.news = [];
+    await vi.advanceTimersByTimeAsync(10 * 60_000);
+    expect(updated).toEqual([URI]);
+    await client.close();
+  });
+
+  it("notifies once when one of our writes invalidates a subscribed path", async () => {
+    vi.useFakeTimers({ toFake: ["setInterval", "clearInterval", "Date"] });
+    const state = { news: [newsItem(1, "Welcome")] };
+    const { client: apiClient, invalidate } = createMockClient(state);
+    const { client, updated } = await connect(apiClient);
+
+    await client.subscribeResource({ uri: URI });
+    state.news = [];
+    invalidate(["/d2l/api/le/1.0/101/news/"]);
+    await vi.advanceTimersByTimeAsync(10 * 60_000);
+
+    expect(updated).toEqual([URI]);
+    await client.close();
+  });
+});
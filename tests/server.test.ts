@@ -0,0 +1,36 @@
+import { describe, it, expect } from "vitest";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { createMcpServer, TOOL_COUNT, PROFILE_TOOL_COUNT } from "../src/server.js";
+import type { ServerContext, McpServerOptions } from "../src/server.js";
+
+// Registration only wires handlers; nothing here is called until a tool runs
+const context = {
+  config: { profile: null },
+  apiClient: { onInvalidate: () => () => undefined },
+  enrollments: {},
+} as unknown as ServerContext;
+
+async function listToolNames(options?: McpServerOptions): Promise<string[]> {
+  const client = new Client({ name: "test-client", version: "0.0.0" });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await Promise.all([createMcpServer(context, options).connect(serverTransport), client.connect(clientTransport)]);
+  const { tools } = await client.listTools();
+  await client.close();
+  return tools.map((tool) => tool.name);
+}
+
+describe("createMcpServer", () => {
+  it("registers every tool, including the profile tools, by default", async () => {
+    const names = await listToolNames();
+    expect(names).toHaveLength(TOOL_COUNT);
+    expect(names).toEqual(expect.arrayContaining(["list_profiles", "switch_profile"]));
+  });
+
+  it("leaves out the profile tools for shared (HTTP) servers", async () => {
+    const names = await listToolNames({ profileTools: false });
+    expect(names).toHaveLength(TOOL_COUNT - PROFILE_TOOL_COUNT);
+    expect(names).not.toContain("list_profiles");
+    expect(names).not.toContain("switch_profile");
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect, vi } from "vitest";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { registerGetAssignmentFeedback } from "../../src/tools/get-assignment-feedback.js";
+import { ApiError } from "../../src/api/index.js";
+import type { D2LApiClient, EnrollmentService } from "../../src/api/index.js";
+
+const folder = (groupTypeId: number | null) => ({
+  Id: 7, CategoryId: null, Name: "Project report", CustomInstructions: null, DueDate: null, IsHidden: false,
+  Assessment: null, GroupTypeId: groupTypeId, SubmissionType: null,
+});
+
+const FEEDBACK = {
+  Score: 18, Feedback: null, RubricAssessments: [], IsGraded: true,
+  Files: [{ FileId: 55, FileName: "comments.txt", Size: 12 }],
+};
+
+// Responses by path suffix; I'm user 42, in group 900 of category 3
+const createMockClient = (groupTypeId: number | null) => {
+  const responses: Record<string, unknown> = {
+    "/dropbox/folders/7": folder(groupTypeId),
+    "/feedback/myFeedback/": FEEDBACK,
+    "/users/whoami": { Identifier: "42" },
+    "/groupcategories/": [{ GroupCategoryId: 3, Name: "Teams", Description: null, MaxUsersPerGroup: 4, SelfEnrollmentExpiryDate: null }],
+    "/groupcategories/3/groups/": [{ GroupId: 900, Name: "Team 9", Code: "T9", Enrollments: [42, 43] }],
+  };
+  const getRaw = vi.fn(async () => new Response("Nice work!!"));
+  const get = async (path: string) => {
+    const match = Object.keys(responses).find((suffix) => path.endsWith(suffix));
+    if (match) return responses[match];
+    throw new ApiError(404, path, "Not Found");
+  };
+  const client = {
+    le: (courseId: number, path: string) => `/d2l/api/le/1.0/${courseId}${path}`,
+    lp: (path: string) => `/d2l/api/lp/1.0${path}`,
+    get: vi.fn(get),
+    getWithMeta: vi.fn(async (path: string) => ({ data: await get(path), stale: false, fetchedAt: Date.now() })),
+    getAllPagesWithMeta: vi.fn(async () => ({ data: [], stale: false, fetchedAt: Date.now() })),
+    getRaw,
+  } as unknown as D2LApiClient;
+  return { client, getRaw };
+};
+
+async function callFeedbackTool(apiClient: D2LApiClient) {
+  const server = new McpServer({ name: "test", version: "0.0.0" });
+  registerGetAssignmentFeedback(server, apiClient, { requireCourseRef: async () => 101 } as unknown as EnrollmentService);
+  const client = new Client({ name: "test-client", version: "0.0.0" });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  const result = await client.callTool({ name: "get_assignment_feedback", arguments: { courseId: 101, folderId: 7 } });
+  await client.close();
+  return result;
+}
+
+describe("get_assignment_feedback attachments", () => {
+  it("downloads individual feedback attachments by my user ID", async () => {
+    const { client, getRaw } = createMockClient(null);
+
+    await callFeedbackTool(client);
+
+    expect(getRaw).toHaveBeenCalledWith("/d2l/api/le/1.0/101/dropbox/folders/7/feedback/user/42/attachments/55");
+  });
+
+  it("downloads group feedback attachments by my group's ID", async () => {
+    const { client, getRaw } = createMockClient(3);
+
+    await callFeedbackTool(client);
+
+    expect(getRaw).toHaveBeenCalledWith("/d2l/api/le/1.0/101/dropbox/folders/7/feedback/group/900/attachments/55");
+  });
+
+  it("reports the attachments as unavailable when I'm not in a group of the folder's category", async () => {
+    const { client, getRaw } = createMockClient(4);
+
+    const result = await callFeedbackTool(client);
+
+    expect(getRaw).not.toHaveBeenCalled();
+    const { attachments } = result.structuredContent as { attachments: Array<{ fileId: number; error?: string }> };
+    expect(attachments).toEqual([
+      expect.objectContaining({ fileId: 55, error: expect.stringContaining("Could not find your group") }),
+    ]);
+  });
+});
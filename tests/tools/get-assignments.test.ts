@@ -0,0 +1,49 @@
+import { describe, it, expect, vi } from "vitest";
+import { fetchCourseAssignments } from "../../src/tools/get-assignments.js";
+import { Freshness } from "../../src/tools/tool-helpers.js";
+import { ApiError } from "../../src/api/index.js";
+import type { D2LApiClient } from "../../src/api/index.js";
+
+const FOLDER = {
+  Id: 7, CategoryId: null, Name: "Essay", CustomInstructions: null, DueDate: null, IsHidden: false,
+  Assessment: null, GroupTypeId: null, SubmissionType: null,
+};
+
+// Pages by path suffix; anything else is forbidden, like a past course's tools.
+// Paths ending in a `staleSuffixes` entry come from the offline cache.
+const createMockClient = (pages: Record<string, unknown[]>, staleSuffixes: string[] = []) =>
+  ({
+    le: (courseId: number, path: string) => `/d2l/api/le/1.0/${courseId}${path}`,
+    getAllPagesWithMeta: vi.fn(async (path: string) => {
+      const match = Object.keys(pages).find((suffix) => path.endsWith(suffix));
+      if (!match) throw new ApiError(403, path, "Forbidden");
+      const stale = staleSuffixes.includes(match);
+      return { data: pages[match], stale, fetchedAt: stale ? 1_000 : Date.now() };
+    }),
+    getWithMeta: vi.fn(async (path: string) => {
+      throw new ApiError(404, path, "Not Found");
+    }),
+  }) as unknown as D2LApiClient;
+
+describe("fetchCourseAssignments", () => {
+  it("throws when neither dropbox folders nor quizzes can be read", async () => {
+    await expect(fetchCourseAssignments(createMockClient({}), 90)).rejects.toMatchObject({ status: 403 });
+  });
+
+  it("returns what it can read when only one of them is forbidden", async () => {
+    const client = createMockClient({ "/dropbox/folders/": [FOLDER], "/mysubmissions/": [] });
+
+    const assignments = await fetchCourseAssignments(client, 101);
+
+    expect(assignments.map((a) => [a.type, a.id])).toEqual([["assignment", 7]]);
+  });
+
+  it("records offline-cache reads in the freshness collector", async () => {
+    const client = createMockClient({ "/dropbox/folders/": [FOLDER], "/mysubmissions/": [] }, ["/mysubmissions/"]);
+    const freshness = new Freshness();
+
+    await fetchCourseAssignments(client, 101, { freshness });
+
+    expect(freshness.value).toEqual({ stale: true, fetchedAt: 1_000 });
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, it, expect } from "vitest";
+import { myEventsPath, overlapsWindow } from "../../src/tools/get-upcoming-due-dates.js";
+import type { D2LApiClient } from "../../src/api/index.js";
+
+const apiClient = { leGlobal: (path: string) => `/d2l/api/le/1.0${path}` } as unknown as D2LApiClient;
+
+describe("myEventsPath", () => {
+  it("widens the window to whole hours so calls within the hour share a cache key", () => {
+    const path = (from: string, to: string) => myEventsPath(apiClient, [101, 202], new Date(from), new Date(to));
+
+    const first = path("2026-03-01T12:05:00Z", "2026-03-08T12:05:00Z");
+    expect(first).toBe(
+      "/d2l/api/le/1.0/calendar/events/myEvents/?startDateTime=2026-03-01T12%3A00%3A00.000Z&endDateTime=2026-03-08T13%3A00%3A00.000Z&orgUnitIdsCSV=101,202"
+    );
+    expect(path("2026-03-01T12:59:30Z", "2026-03-08T12:59:30Z")).toBe(first);
+    expect(path("2026-03-01T13:00:01Z", "2026-03-08T13:00:01Z")).not.toBe(first);
+  });
+});
+
+describe("overlapsWindow", () => {
+  const from = new Date("2026-03-01T12:05:00Z");
+  const to = new Date("2026-03-08T12:05:00Z");
+  const event = (start: string, end: string) => ({ StartDateTime: start, EndDateTime: end });
+
+  it("drops events the widened window pulled in from either side", () => {
+    expect(overlapsWindow(event("2026-03-01T12:00:00Z", "2026-03-01T12:01:00Z"), from, to)).toBe(false);
+    expect(overlapsWindow(event("2026-03-08T12:30:00Z", "2026-03-08T12:45:00Z"), from, to)).toBe(false);
+  });
+
+  it("keeps events that overlap the exact window", () => {
+    expect(overlapsWindow(event("2026-03-01T12:00:00Z", "2026-03-01T12:10:00Z"), from, to)).toBe(true);
+    expect(overlapsWindow(event("2026-03-05T23:59:00Z", "2026-03-05T23:59:00Z"), from, to)).toBe(true);
+  });
+});
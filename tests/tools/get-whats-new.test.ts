@@ -0,0 +1,83 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import * as os from "node:os";
+import { registerGetWhatsNew, takeSnapshot } from "../../src/tools/get-whats-new.js";
+import { EnrollmentService } from "../../src/api/index.js";
+import type { D2LApiClient } from "../../src/api/index.js";
+import { SnapshotStore } from "../../src/utils/change-feed.js";
+import type { AppConfig } from "../../src/types/index.js";
+
+const gradeValue = (id: string, grade: string) => ({
+  GradeObjectIdentifier: id, GradeObjectName: `Quiz ${id}`, DisplayedGrade: grade,
+  PointsNumerator: null, PointsDenominator: null, LastModified: "2026-03-01T12:00:00Z",
+});
+
+// Serves my grade values; `state.stale` marks them as read from the offline cache
+const createMockClient = (state: { stale: boolean }) =>
+  ({
+    le: (courseId: number, path: string) => `/d2l/api/le/1.0/${courseId}${path}`,
+    getWithMeta: vi.fn(async () => ({
+      data: [gradeValue("1", "9/10")],
+      stale: state.stale,
+      fetchedAt: state.stale ? 1_000 : Date.now(),
+    })),
+  }) as unknown as D2LApiClient;
+
+describe("takeSnapshot", () => {
+  it("reports the oldest offline-cache read", async () => {
+    const snapshot = await takeSnapshot(createMockClient({ stale: true }), 101, null, ["grade"]);
+
+    expect(snapshot).toMatchObject({ stale: true, fetchedAt: 1_000 });
+    expect(Object.keys(snapshot.data.items.grade)).toEqual(["1"]);
+  });
+});
+
+describe("get_whats_new", () => {
+  let testDir: string;
+
+  beforeEach(() => {
+    testDir = path.join(
+      os.tmpdir(),
+      `whats-new-test-${Date.now()}-${Math.random().toString(36).slice(2)}`
+    );
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  async function callWhatsNew(apiClient: D2LApiClient) {
+    const server = new McpServer({ name: "test", version: "0.0.0" });
+    const enrollments = {
+      resolveCourseRef: async () => 101,
+      findCourse: async () => ({ id: 101, name: "Algorithms", code: "CS 381" }),
+      forEachCourse: EnrollmentService.prototype.forEachCourse,
+    } as unknown as EnrollmentService;
+    registerGetWhatsNew(server, apiClient, enrollments, { sessionDir: testDir } as AppConfig);
+    const client = new Client({ name: "test-client", version: "0.0.0" });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+    const result = await client.callTool({ name: "get_whats_new", arguments: { courseId: 101, kinds: ["grade"] } });
+    await client.close();
+    return result;
+  }
+
+  it("doesn't save an offline snapshot as the next baseline", async () => {
+    const state = { stale: true };
+    const apiClient = createMockClient(state);
+
+    const result = await callWhatsNew(apiClient);
+
+    expect(result.structuredContent).toMatchObject({ stale: true });
+    expect(await new SnapshotStore(testDir).load(101)).toBeNull();
+
+    state.stale = false;
+    await callWhatsNew(apiClient);
+
+    expect(await new SnapshotStore(testDir).load(101)).not.toBeNull();
+  });
+});
@@ -0,0 +1,192 @@
+import { describe, it, expect } from "vitest";
+import { z } from "zod";
+import * as schemas from "../../src/tools/schemas.js";
+import { newsAuthorName } from "../../src/tools/get-announcements.js";
+
+const rich = { markdown: "Read **chapter 3**", html: "<p>Read <b>chapter 3</b></p>" };
+
+// One representative structuredContent per tool, shaped like what the tool returns
+const SAMPLES: Record<string, unknown> = {
+  CheckAuthOutputSchema: { authenticated: true, expiresInMinutes: 42, source: "browser", message: "Authenticated." },
+  GetMyCoursesOutputSchema: {
+    courses: [{ id: 101, name: "Data Structures", code: "CS 25100", term: "Fall 2026", role: "Student", isActive: true, lastAccessed: null }],
+    stale: true,
+    fetchedAt: "2026-10-17T08:00:00.000Z",
+  },
+  GetUpcomingDueDatesOutputSchema: {
+    events: [{ id: 9, title: "Lab 3", courseName: "Data Structures", courseId: 101, startDate: "2026-10-20T03:59:00.000Z", endDate: "2026-10-20T03:59:00.000Z", isAllDay: false }],
+  },
+  GetMyGradesOutputSchema: {
+    courses: [{
+      courseId: 101,
+      courseName: "Data Structures",
+      grades: [{ name: "Quiz 1", displayGrade: "9 / 10", pointsNumerator: 9, pointsDenominator: 10, weightedNumerator: null, weightedDenominator: null, comments: null, lastModified: "2026-09-10T00:00:00.000Z" }],
+    }],
+    unavailable: [{ courseId: 90, courseName: "Old Course" }],
+  },
+  GetAnnouncementsOutputSchema: {
+    announcements: [{ id: 5, title: "Exam room", body: "Room 101", createdBy: null, createdDate: "2026-10-01T00:00:00.000Z", startDate: "2026-10-01T00:00:00.000Z", isPinned: false, courseId: 101, courseName: "Data Structures" }],
+  },
+  GetAssignmentsOutputSchema: {
+    courseId: 101,
+    assignments: [
+      {
+        type: "assignment", id: 7, name: "Essay", instructions: rich, dueDate: null, points: 20, isGroup: true,
+        group: { groupId: 3, name: "Team 3", members: [{ name: "Me", isMe: true, submitted: false, lastSubmittedDate: null }] },
+        rubric: [{ name: "Essay Rubric", criteria: [{ name: "Thesis", levels: [{ name: "Strong", points: 5, description: null }] }] }],
+        submission: { submittedDate: "2026-10-02T00:00:00.000Z", files: [{ name: "essay.pdf", size: 1200, fileId: 44 }], comment: null },
+        feedback: { score: 18, feedback: null },
+      },
+      {
+        type: "quiz", id: 8, name: "Quiz 2", instructions: { markdown: "", html: "" }, dueDate: null, startDate: null, endDate: null,
+        timeLimit: 30, attemptsAllowed: "Unlimited", attemptsUsed: 1, attemptsRemaining: "Unlimited", attemptWarning: null, bestScore: 8,
+        attempts: [{ attemptId: 70, attemptNumber: 1, score: 8 }],
+      },
+    ],
+  },
+  GetCourseContentOutputSchema: {
+    courseId: 101,
+    typeFilter: "all",
+    contentTree: [{
+      type: "module", id: 1, title: "Week 1", description: null, dueDate: null, isHidden: false, isLocked: false,
+      children: [{ type: "topic", topicType: "file", id: 2, topicId: 2, title: "Slides", isHidden: false, isLocked: false, dueDate: null, lastModified: null, isCompleted: true, completedDate: null, content: rich }],
+    }],
+    topicCount: 1,
+    moduleCount: 1,
+  },
+  GetClasslistEmailsOutputSchema: { emails: [{ name: "Ada", email: "ada@example.edu", role: "Student" }] },
+  DownloadFileOutputSchema: {
+    success: true, filePath: "/tmp/slides.pdf", fileSize: 2048, mimeType: "application/pdf", originalFilename: "slides.pdf",
+    message: "File downloaded", content: { format: "pdf", text: "Slide 1", totalPages: 3 },
+  },
+  GetSyllabusOutputSchema: { courseId: 101, description: rich, syllabusText: "Grading: ...", totalPages: 2, download: { success: false, error: "No attachment" } },
+  GetDiscussionsOutputSchema: {
+    courseId: 101,
+    forumId: 4,
+    topic: { topicId: 6, name: "Project", description: null, dueDate: null, isLocked: false, mustPostToParticipate: false, scoreOutOf: null },
+    postCount: 1,
+    posts: [{ postId: 1, threadId: 1, parentPostId: null, subject: "Hi", message: "Hello", author: "Anonymous", datePosted: "2026-10-01T00:00:00.000Z", lastEditedDate: null, replyCount: 0, wordCount: 1, attachmentCount: 0, isRead: true }],
+  },
+  GetRosterOutputSchema: { roster: [{ name: "Grace", email: null, role: "TA" }] },
+  SubmitAssignmentOutputSchema: {
+    dryRun: true, confirmationToken: "abc.def", confirmationExpiresAt: "2026-10-18T12:10:00.000Z", courseId: 101,
+    folder: { id: 7, name: "Essay", dueDate: null },
+    files: [{ name: "essay.pdf", path: "/home/me/essay.pdf", size: 1200, mimeType: "application/pdf" }],
+    comment: null, message: "Nothing has been submitted.",
+  },
+  ProjectFinalGradeOutputSchema: {
+    courseId: 101, gradeScheme: "Letter", gradingSystem: "Weighted", currentPercent: 88.5, minimumPercent: 60, maximumPercent: 95,
+    remainingItems: [{ name: "Final", maxPoints: 100 }],
+    categories: [{ id: 1, name: "Exams", weight: 50, currentPercent: 85, gradedItems: 1, remainingItems: 1, droppedItems: [] }],
+    cutoffs: [{ symbol: "A", percentStart: 93, status: "reachable", requiredAverage: 97.5 }],
+    notes: ["Projections assume no curve."],
+  },
+  ExportCalendarOutputSchema: { outputPath: "/tmp/due.ics", eventCount: 1, events: [{ summary: "[CS 25100] Lab 3 due", due: "2026-10-20T03:59:00.000Z" }], message: "Wrote 1 event" },
+  SyncCourseContentOutputSchema: {
+    courseId: 101, targetDir: "/tmp/cs251", manifestPath: "/tmp/cs251/.brightspace-sync.json", downloaded: ["Week 1/Slides.pdf"], updated: [],
+    unchanged: 2, failed: [{ title: "Video", error: "Not a file" }], removedFromCourse: [], message: "Synced",
+  },
+  SearchCourseOutputSchema: {
+    query: "midterm", courseIds: [101], documentsSearched: 40,
+    results: [{ id: "content:2", kind: "content", courseId: 101, title: "Midterm review", score: 3.2, snippet: "...midterm...", ref: { topicId: 2 } }],
+  },
+  ListProfilesOutputSchema: {
+    activeProfile: "default", activeBaseUrl: "https://purdue.brightspace.com",
+    profiles: [{ name: "default", baseUrl: null, username: null, ssoProvider: null, active: true }],
+  },
+  SwitchProfileOutputSchema: { profile: "ta", baseUrl: "https://example.brightspace.com", authenticated: false, message: "Switched" },
+  GetWhatsNewOutputSchema: {
+    checkedAt: "2026-10-18T12:00:00.000Z", coursesChecked: 2, totalChanges: 1,
+    courses: [{
+      courseId: 101, courseName: "Data Structures", courseCode: "CS 25100", comparedTo: "2026-10-17T12:00:00.000Z",
+      changes: [{ kind: "grade", id: "5", title: "Quiz 1", change: "updated", timestamp: null, detail: { grade: "9/10" } }],
+    }],
+    coursesFailed: 1,
+  },
+  GetAssignmentFeedbackOutputSchema: {
+    courseId: 101, folderId: 7, assignment: "Essay", score: 18, outOf: 20, isGraded: true, feedback: "Good work",
+    rubrics: [{
+      rubricId: 1, name: "Essay Rubric", overallLevel: null, pointsEarned: 5, pointsPossible: 10, overallComment: null,
+      criteria: [{ criterion: "Thesis", level: "Strong", levelDescription: null, pointsEarned: 5, pointsPossible: 5, scoreOverridden: false, comment: null }],
+    }],
+    attachments: [{ fileId: 44, name: "notes.pdf", size: 900, text: "Nice", truncated: false }],
+  },
+  GetQuizAttemptOutputSchema: {
+    courseId: 101, quizId: 8, quiz: "Quiz 2", attemptId: 70, attemptNumber: 1, completedDate: null, score: 8, overallFeedback: null, reviewAvailable: true,
+    questions: [{ questionId: 1, name: "Q1", type: "multiple choice", question: "2+2?", myAnswer: ["4"], correctAnswer: ["4"], pointsEarned: 1, pointsPossible: 1, feedback: null }],
+  },
+  GetMyGroupsOutputSchema: {
+    courses: [{
+      courseId: 101, courseName: "Data Structures",
+      categories: [{
+        categoryId: 2, name: "Project Teams", description: null, maxUsersPerGroup: 4, selfEnrollmentDeadline: null,
+        myGroup: { groupId: 3, name: "Team 3", code: "T3", members: [{ userId: 12, name: "Me", email: null, isMe: true }] },
+      }],
+    }],
+  },
+  GetContentProgressOutputSchema: {
+    courseId: 101, marked: [{ topicId: 2, success: true }], totalTopics: 2, completedTopics: 1, percentComplete: 50,
+    modules: [{ moduleId: 1, module: "Week 1", dueDate: null, totalTopics: 2, completedTopics: 1, percentComplete: 50 }],
+    incomplete: [{ topicId: 3, title: "Reading", topicType: "link", module: "Week 1", moduleDueDate: null, dueDate: null }],
+  },
+  ReadCourseFileOutputSchema: { courseId: 101, filename: "diagram.png", mimeType: "image/png", size: 5000 },
+  GetTranscriptSummaryOutputSchema: {
+    terms: [{ term: "Fall 2025", termCode: "202610", courses: [{ courseId: 90, code: "CS 18000", name: "Intro", finalGrade: "A", percent: 94.1, status: "graded" }] }],
+    summary: { courses: 1, graded: 1, notReleased: 0, unavailable: 0 },
+  },
+};
+
+const outputSchemas = Object.entries(schemas).filter(([name]) => name.endsWith("OutputSchema")) as Array<
+  [string, z.ZodType]
+>;
+
+describe("tool output schemas", () => {
+  it("has a representative output for every schema", () => {
+    expect(outputSchemas.map(([name]) => name).sort()).toEqual(Object.keys(SAMPLES).sort());
+  });
+
+  it.each(outputSchemas)("%s accepts a representative output", (name, schema) => {
+    const result = schema.safeParse(SAMPLES[name]);
+    expect(result.error?.issues).toBeUndefined();
+  });
+
+  it.each(outputSchemas)("%s converts to JSON Schema for tools/list", (_name, schema) => {
+    expect(z.toJSONSchema(schema, { io: "output" })).toMatchObject({ type: "object" });
+  });
+
+  it("accepts Brightspace fields that come back missing or null", () => {
+    const sparse = {
+      announcements: [{
+        id: 5,
+        title: undefined,
+        body: null,
+        createdBy: newsAuthorName(42), // CreatedBy as a bare user ID
+        createdDate: undefined,
+        startDate: null,
+        isPinned: undefined,
+      }],
+    };
+    expect(schemas.GetAnnouncementsOutputSchema.safeParse(sparse).success).toBe(true);
+
+    const module = { type: "module", id: 1, title: null, dueDate: undefined, isHidden: undefined, isLocked: null, children: [] };
+    expect(
+      schemas.GetCourseContentOutputSchema.safeParse({
+        courseId: 101, typeFilter: "all", contentTree: [module], topicCount: 0, moduleCount: 1,
+      }).success
+    ).toBe(true);
+  });
+
+  it("still rejects outputs that break the contract", () => {
+    expect(schemas.GetMyCoursesOutputSchema.safeParse([{ id: 101 }]).success).toBe(false);
+    expect(schemas.GetMyCoursesOutputSchema.safeParse({ courses: [{ name: "No ID" }] }).success).toBe(false);
+    expect(schemas.GetAssignmentsOutputSchema.safeParse({ assignments: [{ type: "exam", id: 1 }] }).success).toBe(false);
+  });
+});
+
+describe("newsAuthorName", () => {
+  it("reads the display name when Brightspace sends the user, and null for a bare ID", () => {
+    expect(newsAuthorName({ Identifier: "12", DisplayName: "Prof. Smith" })).toBe("Prof. Smith");
+    expect(newsAuthorName(12)).toBeNull();
+    expect(newsAuthorName(null)).toBeNull();
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import * as os from "node:os";
+import { registerSubmitAssignment } from "../../src/tools/submit-assignment.js";
+import { ApiError } from "../../src/api/index.js";
+import type { D2LApiClient, EnrollmentService } from "../../src/api/index.js";
+
+const FOLDER = { Id: 7, Name: "Essay", DueDate: null, IsHidden: false, GroupTypeId: null };
+
+const createMockClient = (postMultipart: (...args: unknown[]) => Promise<void>) =>
+  ({
+    le: (courseId: number, path: string) => `/d2l/api/le/1.0/${courseId}${path}`,
+    get: vi.fn(async () => FOLDER),
+    postMultipart: vi.fn(postMultipart),
+  }) as unknown as D2LApiClient & { postMultipart: ReturnType<typeof vi.fn> };
+
+async function connect(apiClient: D2LApiClient) {
+  const server = new McpServer({ name: "test", version: "0.0.0" });
+  registerSubmitAssignment(server, apiClient, { requireCourseRef: async () => 101 } as unknown as EnrollmentService);
+  const client = new Client({ name: "test-client", version: "0.0.0" });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  return client;
+}
+
+describe("submit_assignment confirmation", () => {
+  let testDir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    testDir = path.join(
+      os.tmpdir(),
+      `submit-test-${Date.now()}-${Math.random().toString(36).slice(2)}`
+    );
+    await fs.mkdir(testDir, { recursive: true });
+    filePath = path.join(testDir, "essay.txt");
+    await fs.writeFile(filePath, "My essay\n");
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  const submit = (client: Client, confirmationToken?: string) =>
+    client.callTool({
+      name: "submit_assignment",
+      arguments: { courseId: 101, folderId: 7, filePaths: [filePath], ...(confirmationToken ? { confirmationToken } : {}) },
+    });
+
+  const preview = async (client: Client) =>
+    ((await submit(client)).structuredContent as { confirmationToken: string }).confirmationToken;
+
+  it("uploads once when the same token is confirmed twice at the same time", async () => {
+    const apiClient = createMockClient(() => new Promise((resolve) => setTimeout(resolve, 20)));
+    const client = await connect(apiClient);
+    const token = await preview(client);
+
+    const results = await Promise.all([submit(client, token), submit(client, token)]);
+
+    expect(apiClient.postMultipart).toHaveBeenCalledTimes(1);
+    expect(results.filter((r) => r.isError)).toHaveLength(1);
+    await client.close();
+  });
+
+  it("lets the same preview be confirmed again after D2L rejects the upload", async () => {
+    const apiClient = createMockClient(async () => undefined);
+    apiClient.postMultipart.mockRejectedValueOnce(new ApiError(500, "/mysubmissions/", "Internal Server Error"));
+    const client = await connect(apiClient);
+    const token = await preview(client);
+
+    expect((await submit(client, token)).isError).toBe(true);
+    expect((await submit(client, token)).isError).toBeFalsy();
+    expect(apiClient.postMultipart).toHaveBeenCalledTimes(2);
+    await client.close();
+  });
+});
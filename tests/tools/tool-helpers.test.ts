@@ -0,0 +1,40 @@
+import { describe, it, expect } from "vitest";
+import { toolResponse, Freshness } from "../../src/tools/tool-helpers.js";
+import { GetMyCoursesOutputSchema } from "../../src/tools/schemas.js";
+
+const data = { courses: [{ id: 101, name: "Data Structures", code: "CS 25100", term: null, role: null, isActive: true, lastAccessed: null }] };
+
+describe("toolResponse", () => {
+  it("returns the data as structuredContent and JSON text", () => {
+    const result = toolResponse(data, { stale: false, fetchedAt: 0 });
+    expect(result.structuredContent).toEqual(data);
+    expect(result.content).toHaveLength(1);
+  });
+
+  it("flags stale disk-cache data in structuredContent as well as the text", () => {
+    const fetchedAt = Date.parse("2026-10-17T08:00:00Z");
+    const result = toolResponse(data, { stale: true, fetchedAt });
+
+    expect(result.structuredContent).toEqual({ ...data, stale: true, fetchedAt: "2026-10-17T08:00:00.000Z" });
+    expect(GetMyCoursesOutputSchema.safeParse(result.structuredContent).success).toBe(true);
+    expect(result.content).toHaveLength(2);
+  });
+});
+
+describe("Freshness", () => {
+  it("passes data through and stays fresh while every read is fresh", () => {
+    const freshness = new Freshness();
+    expect(freshness.track({ data: [1], stale: false, fetchedAt: 5 })).toEqual([1]);
+    expect(freshness.stale).toBe(false);
+    expect(freshness.value).toBeUndefined();
+  });
+
+  it("is stale if any read was, dated by the oldest stale read", () => {
+    const freshness = new Freshness();
+    freshness.track({ data: null, stale: true, fetchedAt: 300 });
+    freshness.track({ data: null, stale: false, fetchedAt: 100 });
+    freshness.include({ stale: true, fetchedAt: 200 });
+    freshness.include(undefined);
+    expect(freshness.value).toEqual({ stale: true, fetchedAt: 200 });
+  });
+});
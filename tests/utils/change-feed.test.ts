@@ -0,0 +1,114 @@
+import { describe, it, expect } from "vitest";
+import { diffSnapshots, emptySnapshotItems, mergeSnapshot, revertChanges } from "../../src/utils/change-feed.js";
+import type { CourseSnapshot } from "../../src/utils/change-feed.js";
+
+const snapshot = (build: (items: CourseSnapshot["items"]) => void): CourseSnapshot => {
+  const items = emptySnapshotItems();
+  build(items);
+  return { courseId: 1, takenAt: "2026-01-10T00:00:00.000Z", items };
+};
+
+describe("diffSnapshots", () => {
+  const previous = snapshot((items) => {
+    items.announcement["10"] = { title: "Welcome", version: "v1", timestamp: "2026-01-01T00:00:00Z" };
+    items.grade["5"] = { title: "Quiz 1", version: "a", timestamp: "2026-01-02T00:00:00Z" };
+    items.feedback["7"] = { title: "HW 1", version: "[8,\"ok\"]", timestamp: null };
+  });
+
+  it("reports new and updated items against the previous snapshot", () => {
+    const current = snapshot((items) => {
+      items.announcement["10"] = { title: "Welcome", version: "v1", timestamp: "2026-01-01T00:00:00Z" };
+      items.announcement["11"] = { title: "Exam room", version: "v1", timestamp: "2026-01-12T00:00:00Z" };
+      items.grade["5"] = {
+        title: "Quiz 1",
+        version: "b",
+        timestamp: "2026-01-11T00:00:00Z",
+        detail: { grade: "9/10" },
+      };
+      items.feedback["7"] = { title: "HW 1", version: "[9,\"better\"]", timestamp: null };
+    });
+
+    const changes = diffSnapshots(previous, current);
+
+    expect(changes.map((c) => [c.kind, c.id, c.change])).toEqual([
+      ["announcement", "11", "new"],
+      ["grade", "5", "updated"],
+      ["feedback", "7", "updated"],
+    ]);
+    expect(changes[1].detail).toEqual({ grade: "9/10" });
+  });
+
+  it("reports nothing when there is no previous snapshot or cutoff", () => {
+    expect(diffSnapshots(null, previous)).toEqual([]);
+  });
+
+  it("uses timestamps after `since`, falling back to the snapshot for undated items", () => {
+    const current = snapshot((items) => {
+      items.announcement["10"] = { title: "Welcome", version: "v1", timestamp: "2026-01-01T00:00:00Z" };
+      items.content["3"] = { title: "Slides", version: "x", timestamp: "2026-01-06T00:00:00Z" };
+      items.feedback["7"] = { title: "HW 1", version: "[8,\"ok\"]", timestamp: null };
+      items.feedback["8"] = { title: "HW 2", version: "[5,\"\"]", timestamp: null };
+    });
+
+    const changes = diffSnapshots(previous, current, new Date("2026-01-05T00:00:00Z"));
+
+    expect(changes.map((c) => [c.kind, c.id, c.change])).toEqual([
+      ["content", "3", "new"],
+      ["feedback", "8", "new"],
+    ]);
+  });
+});
+
+describe("mergeSnapshot", () => {
+  const previous = snapshot((items) => {
+    items.announcement["10"] = { title: "Welcome", version: "v1", timestamp: "2026-01-01T00:00:00Z" };
+    items.grade["5"] = { title: "Quiz 1", version: "a", timestamp: "2026-01-02T00:00:00Z" };
+  });
+
+  it("keeps the previous items of kinds that weren't checked", () => {
+    const current = snapshot((items) => {
+      items.grade["5"] = { title: "Quiz 1", version: "b", timestamp: "2026-01-11T00:00:00Z" };
+    });
+
+    const merged = mergeSnapshot(previous, current, ["grade"]);
+
+    expect(merged.items.grade).toEqual(current.items.grade);
+    expect(merged.items.announcement).toEqual(previous.items.announcement);
+    expect(merged.takenAt).toBe(current.takenAt);
+  });
+
+  it("leaves pending changes of unchecked kinds for the next full check", () => {
+    const gradesOnly = snapshot((items) => {
+      items.grade["5"] = { title: "Quiz 1", version: "a", timestamp: "2026-01-02T00:00:00Z" };
+    });
+    const full = snapshot((items) => {
+      items.announcement["10"] = { title: "Welcome", version: "v1", timestamp: "2026-01-01T00:00:00Z" };
+      items.announcement["11"] = { title: "Exam room", version: "v1", timestamp: "2026-01-12T00:00:00Z" };
+      items.grade["5"] = { title: "Quiz 1", version: "a", timestamp: "2026-01-02T00:00:00Z" };
+    });
+
+    const saved = mergeSnapshot(previous, gradesOnly, ["grade"]);
+
+    expect(diffSnapshots(saved, full).map((c) => [c.kind, c.id])).toEqual([["announcement", "11"]]);
+  });
+});
+
+describe("revertChanges", () => {
+  const previous = snapshot((items) => {
+    items.grade["5"] = { title: "Quiz 1", version: "a", timestamp: "2026-01-02T00:00:00Z" };
+  });
+  const current = snapshot((items) => {
+    items.announcement["11"] = { title: "Exam room", version: "v1", timestamp: "2026-01-12T00:00:00Z" };
+    items.grade["5"] = { title: "Quiz 1", version: "b", timestamp: "2026-01-11T00:00:00Z" };
+  });
+
+  it("makes the next diff report the reverted changes again, and only those", () => {
+    const changes = diffSnapshots(previous, current);
+    const undelivered = changes.filter((c) => c.kind === "announcement");
+
+    const saved = revertChanges(current, previous, undelivered);
+
+    expect(diffSnapshots(saved, current).map((c) => [c.kind, c.id, c.change])).toEqual([["announcement", "11", "new"]]);
+    expect(current.items.announcement["11"]).toBeDefined();
+  });
+});
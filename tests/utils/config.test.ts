@@ -0,0 +1,36 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { resolveProfileName } from "../../src/utils/config.js";
+
+describe("resolveProfileName", () => {
+  let savedProfile: string | undefined;
+
+  beforeEach(() => {
+    savedProfile = process.env.D2L_PROFILE;
+    delete process.env.D2L_PROFILE;
+  });
+
+  afterEach(() => {
+    if (savedProfile === undefined) {
+      delete process.env.D2L_PROFILE;
+    } else {
+      process.env.D2L_PROFILE = savedProfile;
+    }
+  });
+
+  it("reads --profile NAME and --profile=NAME", () => {
+    expect(resolveProfileName(["node", "index.js", "--profile", "work"])).toBe("work");
+    expect(resolveProfileName(["node", "index.js", "sync", "--profile=ta"])).toBe("ta");
+  });
+
+  it("falls back to D2L_PROFILE, with the flag taking precedence", () => {
+    process.env.D2L_PROFILE = "sandbox";
+
+    expect(resolveProfileName(["node", "index.js"])).toBe("sandbox");
+    expect(resolveProfileName(["node", "index.js", "--profile", "work"])).toBe("work");
+  });
+
+  it("treats 'default' and no profile as the default config", () => {
+    expect(resolveProfileName(["node", "index.js"])).toBeUndefined();
+    expect(resolveProfileName(["node", "index.js", "--profile", "default"])).toBeUndefined();
+  });
+});
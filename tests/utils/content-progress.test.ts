@@ -0,0 +1,54 @@
+import { describe, it, expect } from "vitest";
+import { summarizeProgress } from "../../src/utils/content-progress.js";
+import type { ContentTreeNode } from "../../src/utils/content-progress.js";
+
+const topic = (id: number, title: string, isCompleted: boolean, extra: Partial<ContentTreeNode> = {}): ContentTreeNode => ({
+  type: "topic",
+  id,
+  title,
+  isHidden: false,
+  dueDate: null,
+  isCompleted,
+  topicType: "file",
+  ...extra,
+});
+
+const module = (id: number, title: string, dueDate: string | null, children: ContentTreeNode[]): ContentTreeNode => ({
+  type: "module",
+  id,
+  title,
+  isHidden: false,
+  dueDate,
+  children,
+});
+
+describe("summarizeProgress", () => {
+  const tree = [
+    module(1, "Week 2", "2026-02-13T23:59:00Z", [
+      topic(10, "Lecture 3", true),
+      topic(11, "Lecture 4", false),
+      module(2, "Readings", null, [topic(12, "Chapter 5", false), topic(13, "Secret", false, { isHidden: true })]),
+    ]),
+    module(3, "Week 1", "2026-02-06T23:59:00Z", [topic(20, "Lecture 1", false), topic(21, "Lecture 2", true)]),
+    module(4, "Resources", null, [topic(30, "Style guide", false, { dueDate: null })]),
+  ];
+
+  it("computes completion per module, counting nested modules and skipping hidden topics", () => {
+    const report = summarizeProgress(tree);
+
+    expect(report).toMatchObject({ totalTopics: 6, completedTopics: 2, percentComplete: 33 });
+    expect(report.modules.map((m) => [m.module, m.completedTopics, m.totalTopics, m.percentComplete])).toEqual([
+      ["Week 2", 1, 3, 33],
+      ["Week 2 / Readings", 0, 1, 0],
+      ["Week 1", 1, 2, 50],
+      ["Resources", 0, 1, 0],
+    ]);
+  });
+
+  it("lists incomplete topics by module due date, inheriting it in nested modules", () => {
+    const { incomplete } = summarizeProgress(tree);
+
+    expect(incomplete.map((t) => t.title)).toEqual(["Lecture 1", "Lecture 4", "Chapter 5", "Style guide"]);
+    expect(incomplete[2]).toMatchObject({ module: "Week 2 / Readings", moduleDueDate: "2026-02-13T23:59:00Z" });
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, it, expect } from "vitest";
+import { applyCourseFilter, completeCourseIds } from "../../src/utils/course-filter.js";
+
+const courses = [
+  { id: 1234, name: "Programming Applications for Engineers", code: "ECE 26400", isActive: true },
+  { id: 1240, name: "Linear Algebra", code: "MA 26500", isActive: true },
+  { id: 5678, name: "Intro to Philosophy", code: "PHIL 11000", isActive: false },
+];
+
+describe("applyCourseFilter", () => {
+  it("drops inactive courses when activeOnly is set", () => {
+    expect(applyCourseFilter(courses, { activeOnly: true }).map((c) => c.id)).toEqual([1234, 1240]);
+  });
+
+  it("applies the include list before the exclude list", () => {
+    const filtered = applyCourseFilter(courses, {
+      activeOnly: false,
+      includeCourseIds: [1234, 5678],
+      excludeCourseIds: [5678],
+    });
+    expect(filtered.map((c) => c.id)).toEqual([1234]);
+  });
+});
+
+describe("completeCourseIds", () => {
+  it("matches course IDs by prefix", () => {
+    expect(completeCourseIds(courses, "12")).toEqual(["1234", "1240"]);
+    expect(completeCourseIds(courses, "34")).toEqual([]);
+  });
+
+  it("matches course codes and names case-insensitively", () => {
+    expect(completeCourseIds(courses, "ece")).toEqual(["1234"]);
+    expect(completeCourseIds(courses, "265")).toEqual(["1240"]);
+    expect(completeCourseIds(courses, "philosophy")).toEqual(["5678"]);
+  });
+
+  it("offers every course for an empty value", () => {
+    expect(completeCourseIds(courses, "")).toHaveLength(3);
+  });
+});
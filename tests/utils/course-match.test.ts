@@ -0,0 +1,53 @@
+import { describe, it, expect } from "vitest";
+import { matchCourses, resolveCourseQuery } from "../../src/utils/course-match.js";
+
+const courses = [
+  { id: 101, name: "CS 25100: Data Structures and Algorithms", code: "CS 25100" },
+  { id: 102, name: "CS 25100 Lab", code: "CS 25100-LAB" },
+  { id: 103, name: "Linear Algebra", code: "MA 26500" },
+  { id: 104, name: "Introduction to Data Science", code: "STAT 19000" },
+];
+
+describe("matchCourses", () => {
+  it("matches a course ID exactly", () => {
+    expect(matchCourses(courses, "103").map((c) => c.id)).toEqual([103]);
+  });
+
+  it("matches abbreviated course codes regardless of spacing and case", () => {
+    expect(matchCourses(courses, "ma 265").map((c) => c.id)).toEqual([103]);
+    expect(matchCourses(courses, "MA265").map((c) => c.id)).toEqual([103]);
+  });
+
+  it("matches partial names", () => {
+    expect(matchCourses(courses, "linear alg").map((c) => c.id)).toEqual([103]);
+    expect(matchCourses(courses, "data").map((c) => c.id)).toEqual([101, 104]);
+  });
+
+  it("ranks an exact code above a partial one", () => {
+    expect(matchCourses(courses, "CS 25100").map((c) => c.id)).toEqual([101, 102]);
+  });
+
+  it("returns nothing for unrelated queries", () => {
+    expect(matchCourses(courses, "chemistry")).toEqual([]);
+    expect(matchCourses(courses, "  ")).toEqual([]);
+  });
+});
+
+describe("resolveCourseQuery", () => {
+  it("resolves a unique best match", () => {
+    expect(resolveCourseQuery(courses, "CS 25100")).toEqual({ status: "found", course: courses[0] });
+    expect(resolveCourseQuery(courses, "data science")).toEqual({ status: "found", course: courses[3] });
+  });
+
+  it("reports ties as ambiguous", () => {
+    const result = resolveCourseQuery(courses, "cs 251");
+    expect(result.status).toBe("ambiguous");
+    if (result.status === "ambiguous") {
+      expect(result.candidates.map((c) => c.id)).toEqual([101, 102]);
+    }
+  });
+
+  it("reports no match as not_found", () => {
+    expect(resolveCourseQuery(courses, "PHYS 17200")).toEqual({ status: "not_found" });
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, it, expect } from "vitest";
+import { deflateRawSync } from "node:zlib";
+import { extractDocumentText, documentFormat } from "../../src/utils/document-extractor.js";
+
+/**
+ * Build a ZIP archive in memory. Alternates stored and deflated entries so
+ * both code paths are exercised. CRCs are left zero (the reader doesn't check them).
+ */
+function zip(files: Record<string, string>): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  Object.entries(files).forEach(([name, content], i) => {
+    const raw = Buffer.from(content, "utf-8");
+    const method = i % 2 === 0 ? 8 : 0;
+    const data = method === 8 ? deflateRawSync(raw) : raw;
+    const nameBytes = Buffer.from(name, "utf-8");
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(raw.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+    locals.push(local, nameBytes, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(method, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(raw.length, 24);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, nameBytes);
+
+    offset += local.length + nameBytes.length + data.length;
+  });
+
+  const directory = Buffer.concat(centrals);
+  const eocd = Buffer.alloc(22);
+  eocd.writeUInt32LE(0x06054b50, 0);
+  eocd.writeUInt16LE(Object.keys(files).length, 8);
+  eocd.writeUInt16LE(Object.keys(files).length, 10);
+  eocd.writeUInt32LE(directory.length, 12);
+  eocd.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directory, eocd]);
+}
+
+const rels = (entries: Array<[string, string]>) =>
+  `<Relationships>${entries.map(([id, target]) => `<Relationship Id="${id}" Target="${target}"/>`).join("")}</Relationships>`;
+
+describe("documentFormat", () => {
+  it("maps extensions to formats", () => {
+    expect(documentFormat("Lecture 1.PPTX")).toBe("pptx");
+    expect(documentFormat("notes.md")).toBe("text");
+    expect(documentFormat("photo.png")).toBeNull();
+  });
+});
+
+describe("extractDocumentText", () => {
+  it("reads DOCX paragraphs with headings and list items", async () => {
+    const docx = zip({
+      "word/document.xml":
+        `<w:document><w:body>` +
+        `<w:p><w:pPr><w:pStyle w:val="Heading1"/></w:pPr><w:r><w:t>Lab 2</w:t></w:r></w:p>` +
+        `<w:p><w:r><w:t xml:space="preserve">Due </w:t></w:r><w:r><w:t>Friday &amp; late</w:t></w:r></w:p>` +
+        `<w:p><w:pPr><w:numPr><w:ilvl w:val="0"/></w:numPr></w:pPr><w:r><w:t>Submit code</w:t></w:r></w:p>` +
+        `<w:p></w:p>` +
+        `</w:body></w:document>`,
+    });
+
+    expect(await extractDocumentText(docx, "lab.docx")).toEqual({
+      format: "docx",
+      text: "# Lab 2\n\nDue Friday & late\n\n- Submit code",
+    });
+  });
+
+  it("reads PPTX slides in presentation order with speaker notes", async () => {
+    const pptx = zip({
+      "ppt/presentation.xml": `<p:presentation><p:sldIdLst><p:sldId id="257" r:id="rId3"/><p:sldId id="256" r:id="rId2"/></p:sldIdLst></p:presentation>`,
+      "ppt/_rels/presentation.xml.rels": rels([["rId2", "slides/slide1.xml"], ["rId3", "slides/slide2.xml"]]),
+      "ppt/slides/slide1.xml": `<p:sld><a:p><a:r><a:t>Second</a:t></a:r></a:p></p:sld>`,
+      "ppt/slides/slide2.xml": `<p:sld><a:p><a:r><a:t>Intro</a:t></a:r></a:p><a:p><a:r><a:t>Big-O basics</a:t></a:r></a:p></p:sld>`,
+      "ppt/slides/_rels/slide2.xml.rels": rels([["rId1", "../notesSlides/notesSlide1.xml"]]),
+      "ppt/notesSlides/notesSlide1.xml": `<p:notes><a:p><a:r><a:t>Mention the quiz</a:t></a:r></a:p><a:p><a:fld type="slidenum"><a:t>1</a:t></a:fld></a:p></p:notes>`,
+    });
+
+    const result = await extractDocumentText(pptx, "week1.pptx");
+    expect(result?.totalSlides).toBe(2);
+    expect(result?.text).toBe(
+      "## Slide 1: Intro\n\nBig-O basics\n\n**Speaker notes:** Mention the quiz\n\n## Slide 2: Second"
+    );
+  });
+
+  it("renders XLSX sheets as markdown tables", async () => {
+    const xlsx = zip({
+      "xl/workbook.xml": `<workbook><sheets><sheet name="Grades" sheetId="1" r:id="rId1"/></sheets></workbook>`,
+      "xl/_rels/workbook.xml.rels": rels([["rId1", "worksheets/sheet1.xml"]]),
+      "xl/sharedStrings.xml": `<sst><si><t>Name</t></si><si><t>Score</t></si><si><r><t>A|</t></r><r><t>da</t></r></si></sst>`,
+      "xl/worksheets/sheet1.xml":
+        `<worksheet><sheetData>` +
+        `<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c></row>` +
+        `<row r="2"><c r="A2" t="s"><v>2</v></c><c r="C2" t="inlineStr"><is><t>extra</t></is></c></row>` +
+        `<row r="3"><c r="A3" s="1"/><c r="B3"><v>92.5</v></c></row>` +
+        `</sheetData></worksheet>`,
+    });
+
+    const result = await extractDocumentText(xlsx, "grades.xlsx");
+    expect(result?.sheets).toEqual(["Grades"]);
+    expect(result?.text).toBe(
+      "## Grades\n\n| Name | Score |  |\n| --- | --- | --- |\n| A\\|da |  | extra |\n|  | 92.5 |  |"
+    );
+  });
+
+  it("returns long text in chunks", async () => {
+    const file = Buffer.from("abcdefghij");
+    expect(await extractDocumentText(file, "notes.txt", { maxChars: 4 })).toEqual({
+      format: "text",
+      text: "abcd",
+      totalChars: 10,
+      truncated: true,
+      nextOffset: 4,
+    });
+    expect(await extractDocumentText(file, "notes.txt", { maxChars: 4, offset: 8 })).toEqual({
+      format: "text",
+      text: "ij",
+      totalChars: 10,
+    });
+  });
+
+  it("converts HTML to markdown", async () => {
+    const result = await extractDocumentText(Buffer.from("<h1>Week 1</h1><p>Read <b>chapter 2</b></p>"), "page.html");
+    expect(result?.format).toBe("html");
+    expect(result?.text).toContain("# Week 1");
+    expect(result?.text).toContain("**chapter 2**");
+  });
+
+  it("returns null for unsupported or corrupt files", async () => {
+    expect(await extractDocumentText(Buffer.from("PNG"), "image.png")).toBeNull();
+    expect(await extractDocumentText(Buffer.from("not a zip"), "broken.docx")).toBeNull();
+  });
+});
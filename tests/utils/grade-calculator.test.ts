@@ -0,0 +1,192 @@
+import { describe, it, expect } from "vitest";
+import { projectFinalGrade } from "../../src/utils/grade-calculator.js";
+import type {
+  GradeCategoryInput,
+  GradeItemInput,
+} from "../../src/utils/grade-calculator.js";
+
+const item = (overrides: Partial<GradeItemInput> & { id: number }): GradeItemInput => ({
+  name: `Item ${overrides.id}`,
+  categoryId: null,
+  maxPoints: 100,
+  weight: 0,
+  isBonus: false,
+  score: null,
+  ...overrides,
+});
+
+const category = (overrides: Partial<GradeCategoryInput> & { id: number }): GradeCategoryInput => ({
+  name: `Category ${overrides.id}`,
+  weight: 0,
+  distribution: "points",
+  dropLowest: 0,
+  dropHighest: 0,
+  ...overrides,
+});
+
+describe("projectFinalGrade", () => {
+  describe("Points system", () => {
+    it("computes current percentage over graded items only", () => {
+      const result = projectFinalGrade(
+        "Points",
+        [],
+        [
+          item({ id: 1, maxPoints: 50, score: 0.8 }), // 40/50
+          item({ id: 2, maxPoints: 150, score: 0.9 }), // 135/150
+          item({ id: 3, maxPoints: 100 }), // ungraded
+        ],
+        []
+      );
+
+      expect(result.currentPercent).toBe(87.5); // 175/200
+      expect(result.minimumPercent).toBe(58.33); // 175/300
+      expect(result.maximumPercent).toBe(91.67); // 275/300
+      expect(result.remainingItems).toEqual([{ name: "Item 3", maxPoints: 100 }]);
+    });
+
+    it("adds bonus points to earned without increasing possible", () => {
+      const result = projectFinalGrade(
+        "Points",
+        [],
+        [
+          item({ id: 1, maxPoints: 100, score: 0.8 }),
+          item({ id: 2, maxPoints: 10, isBonus: true, score: 1 }),
+        ],
+        []
+      );
+
+      expect(result.currentPercent).toBe(90);
+      expect(result.remainingItems).toEqual([]);
+    });
+  });
+
+  describe("Weighted system", () => {
+    it("weights categories and normalizes over categories with grades", () => {
+      const result = projectFinalGrade(
+        "Weighted",
+        [
+          category({ id: 1, weight: 40, distribution: "equal" }),
+          category({ id: 2, weight: 60 }),
+        ],
+        [
+          item({ id: 1, categoryId: 1, score: 1 }),
+          item({ id: 2, categoryId: 1, score: 0.5 }),
+          item({ id: 3, categoryId: 2 }), // final exam, ungraded
+        ],
+        []
+      );
+
+      // Only homework graded: 75% of the 40-point category
+      expect(result.currentPercent).toBe(75);
+      // Final at 0: 0.4 * 75 = 30; at 100: 30 + 60 = 90
+      expect(result.minimumPercent).toBe(30);
+      expect(result.maximumPercent).toBe(90);
+    });
+
+    it("uses manual item weights within a category", () => {
+      const result = projectFinalGrade(
+        "Weighted",
+        [category({ id: 1, weight: 100, distribution: "manual" })],
+        [
+          item({ id: 1, categoryId: 1, weight: 75, score: 1 }),
+          item({ id: 2, categoryId: 1, weight: 25, score: 0 }),
+        ],
+        []
+      );
+
+      expect(result.currentPercent).toBe(75);
+    });
+
+    it("treats uncategorized items as direct shares of the final grade", () => {
+      const result = projectFinalGrade(
+        "Weighted",
+        [category({ id: 1, weight: 50 })],
+        [
+          item({ id: 1, categoryId: 1, score: 0.8 }),
+          item({ id: 2, weight: 50, score: 0.6 }),
+        ],
+        []
+      );
+
+      expect(result.currentPercent).toBe(70);
+    });
+  });
+
+  describe("drop rules", () => {
+    it("drops the lowest graded items in a category", () => {
+      const result = projectFinalGrade(
+        "Weighted",
+        [category({ id: 1, weight: 100, distribution: "equal", dropLowest: 1 })],
+        [
+          item({ id: 1, name: "Quiz 1", categoryId: 1, score: 0.2 }),
+          item({ id: 2, name: "Quiz 2", categoryId: 1, score: 0.9 }),
+          item({ id: 3, name: "Quiz 3", categoryId: 1, score: 0.7 }),
+        ],
+        []
+      );
+
+      expect(result.currentPercent).toBe(80);
+      expect(result.categories[0].droppedItems).toEqual(["Quiz 1"]);
+    });
+
+    it("never drops every item in a category", () => {
+      const result = projectFinalGrade(
+        "Weighted",
+        [category({ id: 1, weight: 100, distribution: "equal", dropLowest: 2 })],
+        [item({ id: 1, categoryId: 1, score: 0.4 })],
+        []
+      );
+
+      expect(result.currentPercent).toBe(40);
+      expect(result.categories[0].droppedItems).toEqual([]);
+    });
+  });
+
+  describe("cutoffs", () => {
+    const categories = [
+      category({ id: 1, weight: 60, distribution: "equal" }),
+      category({ id: 2, weight: 40 }),
+    ];
+    const items = [
+      item({ id: 1, categoryId: 1, score: 0.9 }),
+      item({ id: 2, name: "Final", categoryId: 2 }),
+    ];
+
+    it("solves the average needed on remaining items", () => {
+      const result = projectFinalGrade("Weighted", categories, items, [
+        { symbol: "B", percentStart: 80 },
+      ]);
+
+      // 0.6 * 90 + 0.4 * x = 80  →  x = 65
+      expect(result.cutoffs[0].status).toBe("reachable");
+      expect(result.cutoffs[0].requiredAverage).toBeCloseTo(65, 0);
+    });
+
+    it("marks cutoffs as secured or unreachable and sorts them high to low", () => {
+      const result = projectFinalGrade("Weighted", categories, items, [
+        { symbol: "D", percentStart: 50 },
+        { symbol: "A+", percentStart: 97 },
+      ]);
+
+      expect(result.cutoffs.map((c) => c.symbol)).toEqual(["A+", "D"]);
+      expect(result.cutoffs[0]).toMatchObject({ status: "unreachable", requiredAverage: null });
+      expect(result.cutoffs[1]).toMatchObject({ status: "secured", requiredAverage: null });
+    });
+
+    it("accounts for drop rules when solving", () => {
+      // Lowest of the three quizzes is dropped, so a 0 on the remaining quiz costs nothing
+      const result = projectFinalGrade(
+        "Weighted",
+        [category({ id: 1, weight: 100, distribution: "equal", dropLowest: 1 })],
+        [
+          item({ id: 1, categoryId: 1, score: 0.9 }),
+          item({ id: 2, categoryId: 1, score: 0.9 }),
+          item({ id: 3, categoryId: 1 }),
+        ],
+        [{ symbol: "A-", percentStart: 90 }]
+      );
+
+      expect(result.cutoffs[0].status).toBe("secured");
+    });
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import * as os from "node:os";
+import { isAuthorized, loadOrCreateToken, TOKEN_FILENAME } from "../../src/utils/http-auth.js";
+
+const request = (authorization?: string) => ({ headers: authorization === undefined ? {} : { authorization } });
+
+describe("isAuthorized", () => {
+  it("accepts the exact bearer token, case-insensitive scheme", () => {
+    expect(isAuthorized(request("Bearer s3cret"), "s3cret")).toBe(true);
+    expect(isAuthorized(request("bearer   s3cret "), "s3cret")).toBe(true);
+  });
+
+  it("rejects missing, malformed and wrong credentials", () => {
+    expect(isAuthorized(request(), "s3cret")).toBe(false);
+    expect(isAuthorized(request("s3cret"), "s3cret")).toBe(false);
+    expect(isAuthorized(request("Basic s3cret"), "s3cret")).toBe(false);
+    expect(isAuthorized(request("Bearer s3cre"), "s3cret")).toBe(false);
+    expect(isAuthorized(request("Bearer s3cret2"), "s3cret")).toBe(false);
+    expect(isAuthorized(request("Bearer S3CRET"), "s3cret")).toBe(false);
+  });
+});
+
+describe("loadOrCreateToken", () => {
+  let testDir: string;
+  let savedToken: string | undefined;
+
+  beforeEach(() => {
+    testDir = path.join(
+      os.tmpdir(),
+      `http-auth-test-${Date.now()}-${Math.random().toString(36).slice(2)}`
+    );
+    savedToken = process.env.D2L_HTTP_TOKEN;
+    delete process.env.D2L_HTTP_TOKEN;
+  });
+
+  afterEach(async () => {
+    if (savedToken === undefined) {
+      delete process.env.D2L_HTTP_TOKEN;
+    } else {
+      process.env.D2L_HTTP_TOKEN = savedToken;
+    }
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it("creates a private token file on first run and reuses it afterwards", async () => {
+    const first = await loadOrCreateToken(testDir);
+    const tokenPath = path.join(testDir, TOKEN_FILENAME);
+
+    expect(first.source).toBe(tokenPath);
+    expect(first.token).toMatch(/^[A-Za-z0-9_-]{43}$/);
+    expect((await fs.readFile(tokenPath, "utf-8")).trim()).toBe(first.token);
+    if (process.platform !== "win32") {
+      expect((await fs.stat(tokenPath)).mode & 0o777).toBe(0o600);
+    }
+
+    expect(await loadOrCreateToken(testDir)).toEqual(first);
+  });
+
+  it("prefers D2L_HTTP_TOKEN and writes nothing", async () => {
+    process.env.D2L_HTTP_TOKEN = "from-env";
+
+    expect(await loadOrCreateToken(testDir)).toEqual({ token: "from-env", source: "D2L_HTTP_TOKEN" });
+    await expect(fs.access(testDir)).rejects.toThrow();
+  });
+});
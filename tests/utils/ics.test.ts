@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import { buildCalendar } from "../../src/utils/ics.js";
+import type { IcsEvent } from "../../src/utils/ics.js";
+
+const event = (overrides: Partial<IcsEvent> = {}): IcsEvent => ({
+  uid: "d2l-event-1@purdue.brightspace.com",
+  summary: "[CS 25000] Project 1 due",
+  start: new Date("2026-09-18T23:59:00Z"),
+  end: new Date("2026-09-18T23:59:00Z"),
+  allDay: false,
+  ...overrides,
+});
+
+describe("buildCalendar", () => {
+  it("wraps events in a VCALENDAR with CRLF line endings", () => {
+    const ics = buildCalendar([event()], { name: "Due Dates" });
+
+    expect(ics.startsWith("BEGIN:VCALENDAR\r\nVERSION:2.0\r\n")).toBe(true);
+    expect(ics.endsWith("END:VCALENDAR\r\n")).toBe(true);
+    expect(ics).toContain("UID:d2l-event-1@purdue.brightspace.com\r\n");
+    expect(ics).toContain("DTSTART:20260918T235900Z\r\n");
+    expect(ics.split("\r\n").every((line) => !line.includes("\n"))).toBe(true);
+  });
+
+  it("escapes commas, semicolons, backslashes and newlines in text", () => {
+    const ics = buildCalendar(
+      [event({ summary: "Lab 3; part A, B", description: "line one\nC:\\path" })],
+      { name: "Due Dates" }
+    );
+
+    expect(ics).toContain("SUMMARY:Lab 3\\; part A\\, B\r\n");
+    expect(ics).toContain("DESCRIPTION:line one\\nC:\\\\path\r\n");
+  });
+
+  it("adds a VALARM only when a reminder is requested", () => {
+    expect(buildCalendar([event()], { name: "x" })).not.toContain("BEGIN:VALARM");
+
+    const ics = buildCalendar([event()], { name: "x", reminderMinutes: 60 });
+    expect(ics).toContain("BEGIN:VALARM\r\nACTION:DISPLAY\r\n");
+    expect(ics).toContain("TRIGGER:-PT60M\r\n");
+  });
+
+  it("uses exclusive date values for all-day events", () => {
+    const ics = buildCalendar(
+      [event({ allDay: true, start: new Date("2026-09-18T00:00:00Z"), end: new Date("2026-09-18T00:00:00Z") })],
+      { name: "x" }
+    );
+
+    expect(ics).toContain("DTSTART;VALUE=DATE:20260918\r\n");
+    expect(ics).toContain("DTEND;VALUE=DATE:20260919\r\n");
+  });
+
+  it("folds long lines at 75 octets without splitting characters", () => {
+    const ics = buildCalendar([event({ summary: "é".repeat(100) })], { name: "x" });
+
+    for (const line of ics.split("\r\n")) {
+      expect(Buffer.byteLength(line, "utf-8")).toBeLessThanOrEqual(75);
+    }
+    const unfolded = ics.replace(/\r\n /g, "");
+    expect(unfolded).toContain(`SUMMARY:${"é".repeat(100)}\r\n`);
+  });
+});
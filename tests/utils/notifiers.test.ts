@@ -0,0 +1,143 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import * as os from "node:os";
+import {
+  formatNotificationMessage,
+  encodeHeaderValue,
+  StdoutSink,
+  WebhookSink,
+  NtfySink,
+  CommandSink,
+} from "../../src/utils/notifiers.js";
+import type { Notification } from "../../src/utils/notifiers.js";
+
+describe("formatNotificationMessage", () => {
+  it("includes the displayed grade for grade changes", () => {
+    const message = formatNotificationMessage(
+      { kind: "grade", id: "5", title: "Quiz 1", change: "new", timestamp: null, detail: { grade: "9 / 10" } },
+      "CS 251"
+    );
+    expect(message).toBe("[CS 251] New grade: Quiz 1 (9 / 10)");
+  });
+
+  it("labels other kinds without a suffix", () => {
+    const message = formatNotificationMessage(
+      { kind: "discussion", id: "3", title: "Project teams", change: "updated", timestamp: null },
+      "ECE 264"
+    );
+    expect(message).toBe("[ECE 264] Updated discussion post: Project teams");
+  });
+});
+
+const notification = (overrides: Partial<Notification> = {}): Notification => ({
+  kind: "grade",
+  id: "5",
+  title: "Quiz 1",
+  change: "new",
+  timestamp: null,
+  courseId: 101,
+  courseName: "Data Structures",
+  courseCode: "CS 251",
+  message: "[CS 251] New grade: Quiz 1",
+  detectedAt: "2026-03-01T12:00:00.000Z",
+  ...overrides,
+});
+
+describe("encodeHeaderValue", () => {
+  it("leaves printable ASCII alone", () => {
+    expect(encodeHeaderValue("CS 251: Quiz 1")).toBe("CS 251: Quiz 1");
+  });
+
+  it("RFC 2047-encodes anything else", () => {
+    expect(encodeHeaderValue("Café — Quiz 1 ✓")).toBe(
+      `=?UTF-8?B?${Buffer.from("Café — Quiz 1 ✓").toString("base64")}?=`
+    );
+  });
+});
+
+describe("notification sinks", () => {
+  const fetchMock = vi.fn(async (_url: string, _init: RequestInit) => new Response(null, { status: 200 }));
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    fetchMock.mockClear();
+  });
+
+  it("StdoutSink writes one JSON line", async () => {
+    const write = vi.spyOn(process.stdout, "write").mockImplementation(() => true);
+
+    await new StdoutSink().send(notification());
+
+    expect(write).toHaveBeenCalledWith(JSON.stringify(notification()) + "\n");
+  });
+
+  it("WebhookSink POSTs the notification as JSON", async () => {
+    vi.stubGlobal("fetch", fetchMock);
+
+    await new WebhookSink("https://example.test/hook").send(notification());
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe("https://example.test/hook");
+    expect(init.method).toBe("POST");
+    expect(init.headers).toEqual({ "Content-Type": "application/json" });
+    expect(JSON.parse(init.body as string)).toEqual(notification());
+  });
+
+  it("NtfySink sends the message with title, tags, priority and token headers", async () => {
+    vi.stubGlobal("fetch", fetchMock);
+
+    await new NtfySink("https://ntfy.sh/topic", "tk_secret").send(notification());
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe("https://ntfy.sh/topic");
+    expect(init.body).toBe("[CS 251] New grade: Quiz 1");
+    expect(init.headers).toEqual({
+      Title: "CS 251: Quiz 1",
+      Tags: "grade",
+      Priority: "high",
+      Authorization: "Bearer tk_secret",
+    });
+  });
+
+  it("NtfySink sends non-Latin-1 titles as valid headers", async () => {
+    vi.stubGlobal("fetch", fetchMock);
+
+    await new NtfySink("https://ntfy.sh/topic").send(
+      notification({ kind: "announcement", courseCode: "", courseName: "数据结构", title: "Exam 📅" })
+    );
+
+    const headers = fetchMock.mock.calls[0][1].headers as Record<string, string>;
+    expect(() => new Headers(headers)).not.toThrow();
+    expect(headers.Title).toBe(encodeHeaderValue("数据结构: Exam 📅"));
+    expect(headers.Priority).toBe("default");
+    expect(headers).not.toHaveProperty("Authorization");
+  });
+
+  it("NtfySink rejects on an error response", async () => {
+    vi.stubGlobal("fetch", vi.fn(async () => new Response(null, { status: 403, statusText: "Forbidden" })));
+
+    await expect(new NtfySink("https://ntfy.sh/topic").send(notification())).rejects.toThrow(/403 Forbidden/);
+  });
+
+  it.skipIf(process.platform === "win32")("CommandSink passes the notification on stdin and in the environment", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "notifiers-test-"));
+    try {
+      const stdinFile = path.join(dir, "stdin.json");
+      const envFile = path.join(dir, "env.txt");
+      const command = `cat > '${stdinFile}' && printf '%s|%s|%s' "$BRIGHTSPACE_KIND" "$BRIGHTSPACE_COURSE" "$BRIGHTSPACE_TITLE" > '${envFile}'`;
+
+      await new CommandSink(command).send(notification());
+
+      expect(JSON.parse(await fs.readFile(stdinFile, "utf-8"))).toEqual(notification());
+      expect(await fs.readFile(envFile, "utf-8")).toBe("grade|CS 251|Quiz 1");
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it.skipIf(process.platform === "win32")("CommandSink rejects when the command fails", async () => {
+    await expect(new CommandSink("exit 3").send(notification())).rejects.toThrow("Command exited with code 3");
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect } from "vitest";
+import { reviewQuestion } from "../../src/utils/quiz-review.js";
+import type { QuizQuestion } from "../../src/utils/quiz-review.js";
+
+const text = (value: string) => ({ Text: value, Html: "" });
+
+const multipleChoice: QuizQuestion = {
+  QuestionId: 1,
+  QuestionTypeId: 1,
+  Name: "Q1",
+  QuestionText: text("Which sort is stable?"),
+  Points: 2,
+  Feedback: text("Merge sort preserves order of equal keys."),
+  QuestionInfo: {
+    Answers: [
+      { PartId: 11, Answer: text("Quicksort"), AnswerFeedback: null, Weight: 0 },
+      { PartId: 12, Answer: text("Merge sort"), AnswerFeedback: null, Weight: 100 },
+    ],
+  },
+};
+
+describe("reviewQuestion", () => {
+  it("maps selected options to answer text alongside the correct answer", () => {
+    const result = reviewQuestion(multipleChoice, {
+      QuestionId: 1,
+      Points: 0,
+      Feedback: null,
+      Responses: [{ PartId: 11, Text: null }],
+    });
+
+    expect(result).toEqual({
+      questionId: 1,
+      name: "Q1",
+      type: "multiple choice",
+      question: "Which sort is stable?",
+      myAnswer: ["Quicksort"],
+      correctAnswer: ["Merge sort"],
+      pointsEarned: 0,
+      pointsPossible: 2,
+      feedback: "Merge sort preserves order of equal keys.",
+    });
+  });
+
+  it("handles true/false, free text and missing responses", () => {
+    const trueFalse: QuizQuestion = {
+      ...multipleChoice,
+      QuestionTypeId: 2,
+      Feedback: null,
+      QuestionInfo: { TruePartId: 1, TrueWeight: 0, FalsePartId: 2, FalseWeight: 100 },
+    };
+    expect(reviewQuestion(trueFalse, undefined)).toMatchObject({
+      type: "true/false",
+      myAnswer: null,
+      correctAnswer: ["False"],
+      pointsEarned: null,
+      feedback: null,
+    });
+
+    const written: QuizQuestion = { ...multipleChoice, QuestionTypeId: 7, Feedback: null, QuestionInfo: null };
+    expect(
+      reviewQuestion(written, {
+        QuestionId: 1,
+        Points: 1.5,
+        Feedback: text("Good start"),
+        Responses: [{ PartId: null, Text: "It keeps equal keys in order" }],
+      })
+    ).toMatchObject({
+      type: "written response",
+      myAnswer: ["It keeps equal keys in order"],
+      correctAnswer: null,
+      pointsEarned: 1.5,
+      feedback: "Good start",
+    });
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import { joinRubricAssessment } from "../../src/utils/rubric.js";
+import type { RubricDefinition, RubricAssessment } from "../../src/utils/rubric.js";
+
+const level = (LevelId: number, Name: string, Points: number) => ({ LevelId, Name, Points, Description: null });
+
+const definition: RubricDefinition = {
+  RubricId: 1,
+  Name: "Essay Rubric",
+  Criteria: [
+    { CriterionId: 10, Name: "Thesis", Levels: [level(100, "Weak", 2), level(101, "Strong", 5)] },
+    { CriterionId: 11, Name: "Citations", Levels: [level(110, "Missing", 0), level(111, "Complete", 5)] },
+  ],
+};
+
+describe("joinRubricAssessment", () => {
+  it("joins each criterion with its chosen level, points and comment", () => {
+    const assessment: RubricAssessment = {
+      RubricId: 1,
+      OverallScore: null,
+      OverallFeedback: { Text: "Good work", Html: "" },
+      OverallLevel: null,
+      CriteriaOutcome: [
+        { CriterionId: 10, LevelId: 101, Score: null, ScoreIsOverridden: false, Feedback: null },
+        { CriterionId: 11, LevelId: 110, Score: 1, ScoreIsOverridden: true, Feedback: { Text: "Cite sources", Html: "" } },
+      ],
+    };
+
+    const result = joinRubricAssessment(assessment, definition);
+
+    expect(result.name).toBe("Essay Rubric");
+    expect(result.pointsEarned).toBe(6);
+    expect(result.pointsPossible).toBe(10);
+    expect(result.overallComment).toBe("Good work");
+    expect(result.criteria).toEqual([
+      expect.objectContaining({ criterion: "Thesis", level: "Strong", pointsEarned: 5, pointsPossible: 5, comment: null }),
+      expect.objectContaining({ criterion: "Citations", level: "Missing", pointsEarned: 1, scoreOverridden: true, comment: "Cite sources" }),
+    ]);
+  });
+
+  it("reports unassessed criteria and falls back to IDs without a definition", () => {
+    const assessment: RubricAssessment = {
+      RubricId: 2,
+      OverallScore: 4,
+      OverallFeedback: null,
+      OverallLevel: { LevelId: 1, Name: "Proficient" },
+      CriteriaOutcome: [{ CriterionId: 20, LevelId: null, Score: 4, ScoreIsOverridden: false, Feedback: null }],
+    };
+
+    expect(joinRubricAssessment({ ...assessment, RubricId: 1, CriteriaOutcome: [] }, definition).criteria[0])
+      .toMatchObject({ level: null, pointsEarned: null });
+
+    const result = joinRubricAssessment(assessment, undefined);
+    expect(result.name).toBe("Rubric 2");
+    expect(result.overallLevel).toBe("Proficient");
+    expect(result.pointsEarned).toBe(4);
+    expect(result.criteria[0]).toMatchObject({ criterion: "Criterion 20", pointsEarned: 4, pointsPossible: 0 });
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import {
+  SearchIndexStore,
+  searchDocuments,
+  makeSnippet,
+  tokenize,
+} from "../../src/utils/search-index.js";
+import type { SearchDocument } from "../../src/utils/search-index.js";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import * as os from "node:os";
+
+const doc = (id: string, title: string, text: string): SearchDocument => ({
+  id,
+  kind: "content",
+  courseId: 1,
+  title,
+  text,
+  version: "v1",
+  ref: { topicId: Number(id.split(":")[1]) },
+});
+
+describe("tokenize", () => {
+  it("lowercases, splits on punctuation and drops stopwords", () => {
+    expect(tokenize("The Dijkstra's shortest-path, in O(n log n)!")).toEqual([
+      "dijkstra", "s", "shortest", "path", "o", "n", "log", "n",
+    ]);
+  });
+});
+
+describe("searchDocuments", () => {
+  const documents = [
+    doc("content:1", "Lecture 12 - Graphs", "Shortest paths. Dijkstra's algorithm uses a priority queue."),
+    doc("content:2", "Lecture 13 - Dijkstra", "More on Dijkstra and Bellman-Ford."),
+    doc("content:3", "Syllabus", "Grading policy and office hours."),
+  ];
+
+  it("returns only matching documents, best first", () => {
+    const hits = searchDocuments(documents, "dijkstra", 10);
+
+    expect(hits.map((h) => h.id)).toEqual(["content:2", "content:1"]);
+    expect(hits[0].ref).toEqual({ topicId: 2 });
+  });
+
+  it("boosts documents containing the exact phrase", () => {
+    const hits = searchDocuments(documents, "priority queue", 10);
+
+    expect(hits[0].id).toBe("content:1");
+  });
+
+  it("respects the limit and ignores stopword-only queries", () => {
+    expect(searchDocuments(documents, "dijkstra", 1)).toHaveLength(1);
+    expect(searchDocuments(documents, "the of", 10)).toEqual([]);
+  });
+});
+
+describe("makeSnippet", () => {
+  it("centers on the first matching term", () => {
+    const text = `${"filler ".repeat(50)}Dijkstra appears here${" more".repeat(50)}`;
+    const snippet = makeSnippet(text, ["dijkstra"]);
+
+    expect(snippet).toContain("Dijkstra appears here");
+    expect(snippet.startsWith("…")).toBe(true);
+    expect(snippet.endsWith("…")).toBe(true);
+  });
+});
+
+describe("SearchIndexStore", () => {
+  let testDir: string;
+
+  beforeEach(() => {
+    testDir = path.join(
+      os.tmpdir(),
+      `search-index-test-${Date.now()}-${Math.random().toString(36).slice(2)}`
+    );
+  });
+
+  afterEach(async () => {
+    try {
+      await fs.rm(testDir, { recursive: true, force: true });
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  it("returns an empty index for an unknown course", async () => {
+    const store = new SearchIndexStore(testDir);
+
+    expect(await store.load(42)).toEqual({ courseId: 42, refreshedAt: 0, documents: {} });
+  });
+
+  it("persists indexes encrypted across store instances", async () => {
+    await new SearchIndexStore(testDir).save({
+      courseId: 42,
+      refreshedAt: 1000,
+      documents: { "content:1": doc("content:1", "Secret Lecture", "hidden text") },
+    });
+
+    const raw = await fs.readFile(path.join(testDir, "search-index", "42.json"), "utf-8");
+    expect(raw).not.toContain("Secret Lecture");
+
+    const loaded = await new SearchIndexStore(testDir).load(42);
+    expect(loaded.refreshedAt).toBe(1000);
+    expect(loaded.documents["content:1"].title).toBe("Secret Lecture");
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import { SubmissionTokens, CONFIRMATION_TTL_MS } from "../../src/utils/submission-token.js";
+import type { SubmissionIntent } from "../../src/utils/submission-token.js";
+
+const NOW = Date.parse("2026-03-01T12:00:00Z");
+
+const intent = (overrides: Partial<SubmissionIntent> = {}): SubmissionIntent => ({
+  courseId: 101,
+  folderId: 7,
+  files: [{ path: "/home/me/essay.pdf", data: Buffer.from("%PDF-1.7 essay") }],
+  comment: "Final version",
+  ...overrides,
+});
+
+describe("SubmissionTokens", () => {
+  it("accepts the token for exactly the previewed submission", () => {
+    const tokens = new SubmissionTokens();
+    const { token, expiresAt } = tokens.issue(intent(), NOW);
+    expect(expiresAt).toBe(NOW + CONFIRMATION_TTL_MS);
+    expect(tokens.check(token, intent(), NOW + 1000)).toBe("valid");
+  });
+
+  it("rejects the token when the folder, files or comment changed", () => {
+    const tokens = new SubmissionTokens();
+    const { token } = tokens.issue(intent(), NOW);
+    expect(tokens.check(token, intent({ folderId: 8 }), NOW)).toBe("invalid");
+    expect(tokens.check(token, intent({ comment: null }), NOW)).toBe("invalid");
+    expect(tokens.check(token, intent({ files: [{ path: "/home/me/essay.pdf", data: Buffer.from("%PDF-1.7 edited") }] }), NOW)).toBe("invalid");
+    expect(tokens.check(token, intent({ files: [{ path: "/home/me/other.pdf", data: Buffer.from("%PDF-1.7 essay") }] }), NOW)).toBe("invalid");
+  });
+
+  it("rejects made-up, tampered and other instances' tokens", () => {
+    const tokens = new SubmissionTokens();
+    const { token } = tokens.issue(intent(), NOW);
+    const [, signature] = token.split(".");
+    expect(tokens.check("true", intent(), NOW)).toBe("invalid");
+    expect(tokens.check(`${(NOW + 10 * CONFIRMATION_TTL_MS).toString(36)}.${signature}`, intent(), NOW)).toBe("invalid");
+    expect(new SubmissionTokens().check(token, intent(), NOW)).toBe("invalid");
+  });
+
+  it("expires tokens and only accepts each one once", () => {
+    const tokens = new SubmissionTokens();
+    const { token } = tokens.issue(intent(), NOW);
+    expect(tokens.check(token, intent(), NOW + CONFIRMATION_TTL_MS + 1)).toBe("expired");
+    expect(tokens.reserve(token, intent(), NOW)).toBe("valid");
+    expect(tokens.check(token, intent(), NOW)).toBe("used");
+  });
+
+  it("reserves a token on its first check, so a concurrent confirm is rejected", () => {
+    const tokens = new SubmissionTokens();
+    const { token } = tokens.issue(intent(), NOW);
+    expect(tokens.reserve(token, intent({ comment: null }), NOW)).toBe("invalid");
+    expect(tokens.reserve(token, intent(), NOW)).toBe("valid");
+    expect(tokens.reserve(token, intent(), NOW)).toBe("used");
+    tokens.release(token);
+    expect(tokens.reserve(token, intent(), NOW)).toBe("valid");
+  });
+});
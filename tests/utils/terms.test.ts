@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import { groupByTerm, selectTerm } from "../../src/utils/terms.js";
+
+const FALL_2025 = { id: 1, name: "Fall 2025", code: "202610" };
+const SPRING_2026 = { id: 2, name: "Spring 2026", code: "202620" };
+const FALL_2026 = { id: 3, name: "Fall 2026", code: "202710" };
+
+const course = (id: number, term: typeof FALL_2025 | null, startDate: string | null = null, endDate: string | null = null) =>
+  ({ id, term, startDate, endDate });
+
+const courses = [
+  course(1, FALL_2025, "2025-08-25T00:00:00Z", "2025-12-20T00:00:00Z"),
+  course(2, SPRING_2026, "2026-01-12T00:00:00Z", "2026-05-09T00:00:00Z"),
+  course(3, SPRING_2026, "2026-01-12T00:00:00Z", "2026-05-09T00:00:00Z"),
+  course(4, FALL_2026), // no dates: ordered by its name
+  course(5, null),
+];
+
+const MARCH_2026 = Date.parse("2026-03-01T00:00:00Z");
+const ids = (selection: ReturnType<typeof selectTerm>) =>
+  selection.status === "found" ? selection.courses.map((c) => c.id) : selection.known;
+
+describe("groupByTerm", () => {
+  it("groups courses newest term first and leaves out courses without a term", () => {
+    const groups = groupByTerm(courses);
+    expect(groups.map((g) => g.term.name)).toEqual(["Fall 2026", "Spring 2026", "Fall 2025"]);
+    expect(groups[1].courses.map((c) => c.id)).toEqual([2, 3]);
+    expect(groups[1].end).toBe(Date.parse("2026-05-09T00:00:00Z"));
+  });
+});
+
+describe("selectTerm", () => {
+  it("selects the term in progress as current", () => {
+    expect(ids(selectTerm(courses, "current", MARCH_2026))).toEqual([2, 3]);
+  });
+
+  it("selects the term before the current one as previous", () => {
+    expect(ids(selectTerm(courses, "previous", MARCH_2026))).toEqual([1]);
+  });
+
+  it("falls back to the latest started term when dates don't cover now", () => {
+    const between = Date.parse("2026-06-15T00:00:00Z");
+    expect(ids(selectTerm(courses, "current", between))).toEqual([2, 3]);
+  });
+
+  it("matches term names and codes", () => {
+    expect(ids(selectTerm(courses, "fall 2025"))).toEqual([1]);
+    expect(ids(selectTerm(courses, "202620"))).toEqual([2, 3]);
+    expect(ids(selectTerm(courses, "fall"))).toEqual([4, 1]);
+  });
+
+  it("lists the known terms when nothing matches", () => {
+    expect(selectTerm(courses, "Summer 2024")).toEqual({
+      status: "not_found",
+      known: ["Fall 2026", "Spring 2026", "Fall 2025"],
+    });
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import * as os from "node:os";
+import { pollOnce } from "../src/watch-poll.js";
+import { SnapshotStore } from "../src/utils/change-feed.js";
+import type { D2LApiClient, EnrollmentService } from "../src/api/index.js";
+import type { Notification, NotificationSink } from "../src/utils/notifiers.js";
+
+const newsItem = (id: number, title: string) => ({
+  Id: id, Title: title, CreatedDate: "2026-03-01T12:00:00Z", LastModifiedDate: null, StartDate: "2026-03-01T12:00:00Z",
+});
+
+// Serves whatever `news` holds when read
+const createMockClient = (state: { news: unknown[] }) =>
+  ({
+    le: (courseId: number, path: string) => `/d2l/api/le/1.0/${courseId}${path}`,
+    getWithMeta: vi.fn(async () => ({ data: state.news, stale: false, fetchedAt: Date.now() })),
+  }) as unknown as D2LApiClient;
+
+const enrollments = {
+  listCourses: async () => [{ id: 101, name: "Algorithms", code: "CS 381" }],
+} as unknown as EnrollmentService;
+
+// Records what it was sent; throws while `failing` is set
+class RecordingSink implements NotificationSink {
+  readonly name = "recording";
+  readonly received: string[] = [];
+  failing = false;
+
+  async send(notification: Notification): Promise<void> {
+    if (this.failing) throw new Error("connection refused");
+    this.received.push(notification.title);
+  }
+}
+
+describe("pollOnce", () => {
+  let testDir: string;
+
+  beforeEach(() => {
+    testDir = path.join(
+      os.tmpdir(),
+      `watch-poll-test-${Date.now()}-${Math.random().toString(36).slice(2)}`
+    );
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it("delivers a change on the next poll when a sink failed to take it", async () => {
+    const state = { news: [newsItem(1, "Welcome")] };
+    const apiClient = createMockClient(state);
+    const store = new SnapshotStore(testDir, "watch-snapshots");
+    const sink = new RecordingSink();
+    const poll = () => pollOnce(apiClient, enrollments, store, [sink], ["announcement"]);
+
+    await poll(); // baseline
+    state.news = [newsItem(2, "Exam moved"), newsItem(1, "Welcome")];
+    sink.failing = true;
+    expect(await poll()).toBe(0);
+
+    sink.failing = false;
+    expect(await poll()).toBe(1);
+    expect(sink.received).toEqual(["Exam moved"]);
+
+    expect(await poll()).toBe(0);
+  });
+});